@@ -0,0 +1,379 @@
+import { describe, it, expect } from "vitest";
+import { QueryClient } from "@tanstack/react-query";
+import type { BaseResponse, JobResult } from "@sudobility/svgr_types";
+import {
+  applyJobUpdate,
+  createPlaceholderImage,
+  createPlaceholderJob,
+  insertCachedImage,
+  patchCachedImage,
+  removeCachedImage,
+  removeCachedJob,
+  restoreQueries,
+  snapshotQueries,
+  updateCachedJobLists,
+} from "./cache-updates";
+import { svgrKeys } from "./query-keys";
+
+function job(jobId: string, status: string): JobResult {
+  return { jobId, imageId: "img-1", status } as unknown as JobResult;
+}
+
+function image(imageId: string, jobs: JobResult[] = []) {
+  return { imageId, name: imageId, jobs };
+}
+
+function imageIds(data: unknown) {
+  return (data as { data: Array<{ imageId: string }> }).data.map(
+    (item) => item.imageId,
+  );
+}
+
+describe("applyJobUpdate", () => {
+  it("writes the job and updates it in its image's job list", () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(svgrKeys.imageJobs("img-1"), {
+      success: true,
+      data: [job("a", "processing"), job("b", "done")],
+      timestamp: "t0",
+    });
+
+    applyJobUpdate(queryClient, job("a", "done"));
+
+    expect(
+      queryClient.getQueryData<BaseResponse<JobResult>>(svgrKeys.job("a"))
+        ?.data,
+    ).toEqual(job("a", "done"));
+    expect(
+      queryClient
+        .getQueryData<BaseResponse<JobResult[]>>(svgrKeys.imageJobs("img-1"))
+        ?.data?.map((item) => item.status),
+    ).toEqual(["done", "done"]);
+  });
+
+  it("adds new jobs to a cached list and leaves uncached lists alone", () => {
+    const queryClient = new QueryClient();
+    applyJobUpdate(queryClient, job("a", "queued"));
+    expect(
+      queryClient.getQueryData(svgrKeys.imageJobs("img-1")),
+    ).toBeUndefined();
+
+    queryClient.setQueryData(svgrKeys.imageJobs("img-1"), {
+      success: true,
+      data: [job("a", "queued")],
+      timestamp: "t0",
+    });
+    applyJobUpdate(queryClient, job("b", "queued"));
+    expect(
+      queryClient
+        .getQueryData<BaseResponse<JobResult[]>>(svgrKeys.imageJobs("img-1"))
+        ?.data?.map((item) => item.jobId),
+    ).toEqual(["a", "b"]);
+  });
+
+  it("updates the job in its image's entry of image listings", () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(svgrKeys.images(), {
+      success: true,
+      data: [image("img-1", [job("a", "processing")]), image("img-2")],
+    });
+
+    applyJobUpdate(queryClient, job("a", "done"));
+    applyJobUpdate(queryClient, job("b", "queued"));
+
+    expect(queryClient.getQueryData(svgrKeys.images())).toEqual({
+      success: true,
+      data: [
+        image("img-1", [job("a", "done"), job("b", "queued")]),
+        image("img-2"),
+      ],
+    });
+  });
+});
+
+describe("updateCachedJobLists", () => {
+  it("updates job lists without writing the job's own entry", () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(svgrKeys.imageJobs("img-1"), {
+      success: true,
+      data: [job("a", "processing")],
+    });
+    queryClient.setQueryData(svgrKeys.imagePages(), {
+      pages: [{ success: true, data: [image("img-1", [job("a", "queued")])] }],
+      pageParams: [undefined],
+    });
+
+    updateCachedJobLists(queryClient, job("a", "done"));
+
+    expect(queryClient.getQueryData(svgrKeys.job("a"))).toBeUndefined();
+    expect(
+      queryClient.getQueryData<BaseResponse<JobResult[]>>(
+        svgrKeys.imageJobs("img-1"),
+      )?.data,
+    ).toEqual([job("a", "done")]);
+    expect(
+      queryClient.getQueryData<{ pages: Array<{ data: unknown[] }> }>(
+        svgrKeys.imagePages(),
+      )?.pages[0]?.data,
+    ).toEqual([image("img-1", [job("a", "done")])]);
+  });
+});
+
+describe("updateCachedJobLists with filtered lists", () => {
+  const jobIds = (data: unknown) =>
+    (data as BaseResponse<JobResult[]>).data?.map((item) => item.jobId);
+
+  it("updates the job in filtered and paged lists of its image", () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(svgrKeys.imageJobs("img-1", { limit: 1 }), {
+      success: true,
+      data: [job("a", "processing")],
+    });
+    queryClient.setQueryData(
+      svgrKeys.imageJobs("img-1", { status: ["processing", "done"] }),
+      { success: true, data: [job("a", "processing")] },
+    );
+
+    updateCachedJobLists(queryClient, job("a", "done"));
+
+    expect(
+      queryClient.getQueryData(svgrKeys.imageJobs("img-1", { limit: 1 })),
+    ).toMatchObject({ data: [{ jobId: "a", status: "done" }] });
+    expect(
+      queryClient.getQueryData(
+        svgrKeys.imageJobs("img-1", { status: ["processing", "done"] }),
+      ),
+    ).toMatchObject({ data: [{ jobId: "a", status: "done" }] });
+  });
+
+  it("drops the job from lists filtered by a status it left", () => {
+    const queryClient = new QueryClient();
+    const processing = svgrKeys.imageJobs("img-1", { status: "processing" });
+    queryClient.setQueryData(processing, {
+      success: true,
+      data: [job("a", "processing"), job("b", "processing")],
+    });
+
+    updateCachedJobLists(queryClient, job("a", "done"));
+
+    expect(jobIds(queryClient.getQueryData(processing))).toEqual(["b"]);
+  });
+
+  it("refetches lists filtered by a status the job entered", () => {
+    const queryClient = new QueryClient();
+    const done = svgrKeys.imageJobs("img-1", { status: "done" });
+    const pending = svgrKeys.imageJobs("img-1", { status: "pending" });
+    queryClient.setQueryData(done, { success: true, data: [] });
+    queryClient.setQueryData(pending, { success: true, data: [] });
+
+    updateCachedJobLists(queryClient, job("a", "done"));
+
+    expect(jobIds(queryClient.getQueryData(done))).toEqual([]);
+    expect(queryClient.getQueryState(done)?.isInvalidated).toBe(true);
+    expect(queryClient.getQueryState(pending)?.isInvalidated).toBe(false);
+  });
+
+  it("adds a new job only to the unfiltered list", () => {
+    const queryClient = new QueryClient();
+    const paged = svgrKeys.imageJobs("img-1", { cursor: "c" });
+    queryClient.setQueryData(svgrKeys.imageJobs("img-1"), {
+      success: true,
+      data: [],
+    });
+    queryClient.setQueryData(paged, {
+      success: true,
+      data: [job("b", "done")],
+    });
+
+    updateCachedJobLists(queryClient, job("a", "pending"));
+
+    expect(
+      jobIds(queryClient.getQueryData(svgrKeys.imageJobs("img-1"))),
+    ).toEqual(["a"]);
+    expect(jobIds(queryClient.getQueryData(paged))).toEqual(["b"]);
+  });
+});
+
+describe("image and job cache updates", () => {
+  it("updates plain and paged image listings", () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(svgrKeys.images(), {
+      success: true,
+      data: [image("img-1"), image("img-2")],
+    });
+    queryClient.setQueryData(svgrKeys.imagePages({ limit: 1 }), {
+      pages: [
+        { success: true, data: [image("img-1")], nextCursor: "c" },
+        { success: true, data: [image("img-2")], nextCursor: null },
+      ],
+      pageParams: [undefined, "c"],
+    });
+    queryClient.setQueryData(svgrKeys.imageJobs("img-1"), {
+      success: true,
+      data: [],
+    });
+
+    patchCachedImage(queryClient, "img-2", { name: "Renamed" } as never);
+    removeCachedImage(queryClient, "img-1");
+
+    expect(queryClient.getQueryData(svgrKeys.images())).toEqual({
+      success: true,
+      data: [{ ...image("img-2"), name: "Renamed" }],
+    });
+    const pages = queryClient.getQueryData<{ pages: unknown[] }>(
+      svgrKeys.imagePages({ limit: 1 }),
+    )?.pages;
+    expect(pages?.map(imageIds)).toEqual([[], ["img-2"]]);
+    expect(
+      queryClient.getQueryData(svgrKeys.imageJobs("img-1")),
+    ).toBeUndefined();
+  });
+
+  it("removes a job from job lists and images", () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(svgrKeys.job("a"), { success: true });
+    queryClient.setQueryData(svgrKeys.imageJobs("img-1"), {
+      success: true,
+      data: [job("a", "done"), job("b", "done")],
+    });
+    queryClient.setQueryData(svgrKeys.images(), {
+      success: true,
+      data: [image("img-1", [job("a", "done")])],
+    });
+
+    removeCachedJob(queryClient, "a");
+
+    expect(queryClient.getQueryData(svgrKeys.job("a"))).toBeUndefined();
+    expect(
+      queryClient
+        .getQueryData<BaseResponse<JobResult[]>>(svgrKeys.imageJobs("img-1"))
+        ?.data?.map((item) => item.jobId),
+    ).toEqual(["b"]);
+    expect(queryClient.getQueryData(svgrKeys.images())).toEqual({
+      success: true,
+      data: [image("img-1")],
+    });
+  });
+
+  it("inserts an image at the front of plain and paged listings", () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(svgrKeys.images(), {
+      success: true,
+      data: [image("img-1")],
+    });
+    queryClient.setQueryData(svgrKeys.imagePages({ limit: 1 }), {
+      pages: [
+        { success: true, data: [image("img-1")], nextCursor: "c" },
+        { success: true, data: [image("img-2")], nextCursor: null },
+      ],
+      pageParams: [undefined, "c"],
+    });
+
+    insertCachedImage(queryClient, image("img-2") as never);
+
+    expect(imageIds(queryClient.getQueryData(svgrKeys.images()))).toEqual([
+      "img-2",
+      "img-1",
+    ]);
+    const pages = queryClient.getQueryData<{ pages: unknown[] }>(
+      svgrKeys.imagePages({ limit: 1 }),
+    )?.pages;
+    expect(pages?.map(imageIds)).toEqual([["img-2", "img-1"], []]);
+  });
+
+  it("only inserts an image into listings a new image belongs in", () => {
+    const queryClient = new QueryClient();
+    const listing = { success: true, data: [image("img-1")] };
+    const skipped = [
+      svgrKeys.images({ status: "done" }),
+      svgrKeys.images({ order: "asc" }),
+      svgrKeys.images({ cursor: "c" }),
+      svgrKeys.images({ createdBefore: "2020-01-01T00:00:00.000Z" }),
+      svgrKeys.imagePages({ imageType: "logo" }),
+    ];
+    for (const queryKey of skipped) queryClient.setQueryData(queryKey, listing);
+    queryClient.setQueryData(svgrKeys.images({ order: "desc", limit: 10 }), {
+      success: true,
+      data: [image("img-1")],
+    });
+
+    insertCachedImage(queryClient, image("img-2") as never);
+
+    for (const queryKey of skipped) {
+      expect(queryClient.getQueryData(queryKey)).toBe(listing);
+    }
+    expect(
+      imageIds(
+        queryClient.getQueryData(svgrKeys.images({ order: "desc", limit: 10 })),
+      ),
+    ).toEqual(["img-2", "img-1"]);
+  });
+
+  it("shows an upload optimistically and rolls it back on failure", async () => {
+    const queryClient = new QueryClient();
+    const original = { success: true, data: [image("img-1")] };
+    queryClient.setQueryData(svgrKeys.images(), original);
+
+    const snapshot = await snapshotQueries(queryClient, [svgrKeys.images()]);
+    const placeholder = createPlaceholderImage({
+      buffer: new ArrayBuffer(0),
+      filename: "logo.png",
+      mimeType: "image/png",
+    });
+    insertCachedImage(queryClient, placeholder);
+
+    const listed = imageIds(queryClient.getQueryData(svgrKeys.images()));
+    expect(listed).toHaveLength(2);
+    expect(listed[0]).toMatch(/^optimistic-/);
+    expect(placeholder).toMatchObject({ name: "logo.png", jobs: [] });
+
+    restoreQueries(queryClient, snapshot);
+    expect(queryClient.getQueryData(svgrKeys.images())).toEqual(original);
+  });
+
+  it("swaps a placeholder job for the created one", () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(svgrKeys.imageJobs("img-1"), {
+      success: true,
+      data: [job("a", "done")],
+    });
+    queryClient.setQueryData(svgrKeys.images(), {
+      success: true,
+      data: [image("img-1", [job("a", "done")])],
+    });
+
+    const placeholder = createPlaceholderJob({ imageId: "img-1", quality: 7 });
+    expect(placeholder).toMatchObject({ status: "pending", quality: 7 });
+    updateCachedJobLists(queryClient, placeholder);
+    expect(
+      queryClient
+        .getQueryData<BaseResponse<JobResult[]>>(svgrKeys.imageJobs("img-1"))
+        ?.data?.map((item) => item.jobId),
+    ).toEqual(["a", placeholder.jobId]);
+
+    removeCachedJob(queryClient, placeholder.jobId);
+    applyJobUpdate(queryClient, job("b", "queued"));
+
+    expect(
+      queryClient
+        .getQueryData<BaseResponse<JobResult[]>>(svgrKeys.imageJobs("img-1"))
+        ?.data?.map((item) => item.jobId),
+    ).toEqual(["a", "b"]);
+    expect(queryClient.getQueryData(svgrKeys.images())).toEqual({
+      success: true,
+      data: [image("img-1", [job("a", "done"), job("b", "queued")])],
+    });
+  });
+
+  it("restores snapshotted queries", async () => {
+    const queryClient = new QueryClient();
+    const original = { success: true, data: [image("img-1")] };
+    queryClient.setQueryData(svgrKeys.images(), original);
+
+    const snapshot = await snapshotQueries(queryClient, [svgrKeys.images()]);
+    removeCachedImage(queryClient, "img-1");
+    restoreQueries(queryClient, snapshot);
+
+    expect(queryClient.getQueryData(svgrKeys.images())).toEqual(original);
+  });
+});
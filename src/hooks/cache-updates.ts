@@ -0,0 +1,373 @@
+import type {
+  InfiniteData,
+  QueryClient,
+  QueryKey,
+} from "@tanstack/react-query";
+import type {
+  BaseResponse,
+  CreateJobRequest,
+  ImageWithJobs,
+  JobResult,
+} from "@sudobility/svgr_types";
+import type { SvgrListQuery, SvgrListResponse } from "../network/pagination";
+import type { UploadImageInput } from "../network/SvgrClient";
+import { createIdempotencyKey } from "../utils/idempotency";
+import { svgrKeys } from "./query-keys";
+
+/** Cached data of an image listing: one response or infinite-query pages */
+type CachedImages =
+  BaseResponse<ImageWithJobs[]> | InfiniteData<SvgrListResponse<ImageWithJobs>>;
+/** Cached data of a job listing: one response or infinite-query pages */
+type CachedJobs =
+  BaseResponse<JobResult[]> | InfiniteData<SvgrListResponse<JobResult>>;
+
+/** Query data saved before an optimistic update, restored on failure */
+export type CacheSnapshot = Array<[QueryKey, unknown]>;
+
+/**
+ * What a mutation's `onMutate` hands to its other callbacks: the saved
+ * queries and the id of the placeholder it added.
+ *
+ * @interface PlaceholderContext
+ */
+export interface PlaceholderContext {
+  /** Query data to restore if the mutation fails */
+  snapshot: CacheSnapshot;
+  /** The `optimistic-` id of the placeholder image or job */
+  placeholderId: string;
+}
+
+/**
+ * Conversion parameters the server applies when a job request omits them
+ * (see `ConvertRequest`), shown on placeholder jobs
+ */
+const DEFAULT_JOB_PARAMETERS = {
+  quality: 5,
+  transparentBg: false,
+  ocr: true,
+  mergePaths: true,
+  smooth: 0,
+  imageType: "auto",
+} as const;
+
+function isInfiniteData<T>(
+  data: BaseResponse<T[]> | InfiniteData<SvgrListResponse<T>>,
+): data is InfiniteData<SvgrListResponse<T>> {
+  return Array.isArray((data as { pages?: unknown }).pages);
+}
+
+/** Apply `update` to the items of a cached listing, whatever its shape */
+function updateListing<T>(
+  data: BaseResponse<T[]> | InfiniteData<SvgrListResponse<T>> | undefined,
+  update: (items: T[]) => T[],
+) {
+  if (!data) return data;
+  if (isInfiniteData(data)) {
+    return {
+      ...data,
+      pages: data.pages.map((page) => ({
+        ...page,
+        data: update(page.data ?? []),
+      })),
+    };
+  }
+  return { ...data, data: update(data.data ?? []) };
+}
+
+/** Replace the job with the same id in `jobs`, or append it */
+function upsertJob(jobs: JobResult[], job: JobResult): JobResult[] {
+  const index = jobs.findIndex((item) => item.jobId === job.jobId);
+  return index === -1
+    ? [...jobs, job]
+    : jobs.map((item, i) => (i === index ? job : item));
+}
+
+/** A temporary id for an image or job shown before the server has answered */
+function createOptimisticId(): string {
+  return `optimistic-${createIdempotencyKey()}`;
+}
+
+/**
+ * The listing entry shown for an image while it uploads: an `optimistic-`
+ * id, the file name and no jobs.
+ *
+ * @param file - The file being uploaded
+ */
+export function createPlaceholderImage(file: UploadImageInput): ImageWithJobs {
+  return {
+    imageId: createOptimisticId(),
+    name: "filename" in file ? file.filename : file.name,
+    jobs: [],
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * The job shown while it is being created: the request's parameters (with
+ * the server's defaults for the ones it omits), an `optimistic-` id and
+ * status `pending`.
+ *
+ * @param request - The job's image and conversion parameters
+ */
+export function createPlaceholderJob(request: CreateJobRequest): JobResult {
+  return {
+    ...DEFAULT_JOB_PARAMETERS,
+    ...request,
+    jobId: createOptimisticId(),
+    status: "pending",
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Cancel in-flight fetches for the given keys (so they cannot overwrite an
+ * optimistic update) and save their current data.
+ *
+ * @param queryClient - The query client
+ * @param queryKeys - Key prefixes of the queries about to be changed
+ * @returns The saved data, for {@link restoreQueries}
+ */
+export async function snapshotQueries(
+  queryClient: QueryClient,
+  queryKeys: QueryKey[],
+): Promise<CacheSnapshot> {
+  await Promise.all(
+    queryKeys.map((queryKey) => queryClient.cancelQueries({ queryKey })),
+  );
+  return queryKeys.flatMap((queryKey) =>
+    queryClient.getQueriesData({ queryKey }),
+  );
+}
+
+/** Put back data saved by {@link snapshotQueries} */
+export function restoreQueries(
+  queryClient: QueryClient,
+  snapshot: CacheSnapshot | undefined,
+): void {
+  for (const [queryKey, data] of snapshot ?? []) {
+    queryClient.setQueryData(queryKey, data);
+  }
+}
+
+/**
+ * Apply `update` to every cached image listing (`svgrKeys.images` and
+ * `svgrKeys.imagePages`, with any filters).
+ */
+export function updateCachedImages(
+  queryClient: QueryClient,
+  update: (images: ImageWithJobs[]) => ImageWithJobs[],
+): void {
+  queryClient.setQueriesData<CachedImages>(
+    { queryKey: svgrKeys.images() },
+    (data) => updateListing(data, update),
+  );
+}
+
+/**
+ * The page request of a cached image listing, read from its key
+ * (`svgrKeys.images(query)` or `svgrKeys.imagePages(filters)`)
+ */
+function listingQueryOf(queryKey: QueryKey): SvgrListQuery {
+  const [, , first, second] = queryKey;
+  const query = first === "pages" ? second : first;
+  return typeof query === "object" && query !== null
+    ? (query as SvgrListQuery)
+    : {};
+}
+
+/**
+ * Whether an image created just now belongs at the front of a listing: its
+ * first page, sorted newest first, without filters a new image (which has
+ * no jobs yet) cannot match
+ */
+function listsNewImage(query: SvgrListQuery): boolean {
+  if (query.cursor !== undefined || query.order === "asc") return false;
+  if (query.status !== undefined || query.imageType !== undefined) {
+    return false;
+  }
+  const now = Date.now();
+  if (
+    query.createdAfter !== undefined &&
+    now < new Date(query.createdAfter).getTime()
+  ) {
+    return false;
+  }
+  return (
+    query.createdBefore === undefined ||
+    now < new Date(query.createdBefore).getTime()
+  );
+}
+
+/**
+ * Add a newly created image to the front of the cached image listings it
+ * belongs in (the first page of paged ones); listings that are filtered by
+ * job status or image type, sorted oldest first, or later pages are left
+ * for their refetch. A copy with the same id already listed is dropped.
+ */
+export function insertCachedImage(
+  queryClient: QueryClient,
+  image: ImageWithJobs,
+): void {
+  const others = (images: ImageWithJobs[]) =>
+    images.filter((item) => item.imageId !== image.imageId);
+  for (const [queryKey, data] of queryClient.getQueriesData<CachedImages>({
+    queryKey: svgrKeys.images(),
+  })) {
+    if (!data || !listsNewImage(listingQueryOf(queryKey))) continue;
+    queryClient.setQueryData<CachedImages>(queryKey, (current) => {
+      if (!current) return current;
+      if (isInfiniteData(current)) {
+        return {
+          ...current,
+          pages: current.pages.map((page, i) => ({
+            ...page,
+            data:
+              i === 0
+                ? [image, ...others(page.data ?? [])]
+                : others(page.data ?? []),
+          })),
+        };
+      }
+      return { ...current, data: [image, ...others(current.data ?? [])] };
+    });
+  }
+}
+
+/** Replace fields of one image in every cached image listing */
+export function patchCachedImage(
+  queryClient: QueryClient,
+  imageId: string,
+  patch: Partial<ImageWithJobs>,
+): void {
+  updateCachedImages(queryClient, (images) =>
+    images.map((image) =>
+      image.imageId === imageId ? { ...image, ...patch } : image,
+    ),
+  );
+}
+
+/** Drop an image from every cached image listing, along with its job lists */
+export function removeCachedImage(
+  queryClient: QueryClient,
+  imageId: string,
+): void {
+  updateCachedImages(queryClient, (images) =>
+    images.filter((image) => image.imageId !== imageId),
+  );
+  queryClient.removeQueries({ queryKey: svgrKeys.imageJobs(imageId) });
+}
+
+/**
+ * Drop a job from every cached job list and from the jobs embedded in
+ * cached image listings.
+ */
+export function removeCachedJob(queryClient: QueryClient, jobId: string): void {
+  queryClient.setQueriesData<CachedJobs>(
+    { queryKey: [...svgrKeys.jobs(), "image"] },
+    (data) =>
+      updateListing(data, (jobs) => jobs.filter((job) => job.jobId !== jobId)),
+  );
+  updateCachedImages(queryClient, (images) =>
+    images.map((image) =>
+      image.jobs?.some((job: JobResult) => job.jobId === jobId)
+        ? {
+            ...image,
+            jobs: image.jobs.filter((job: JobResult) => job.jobId !== jobId),
+          }
+        : image,
+    ),
+  );
+  queryClient.removeQueries({ queryKey: svgrKeys.job(jobId), exact: true });
+}
+
+/** Whether a job in `status` passes a listing's `status` filter */
+function matchesStatus(
+  filter: SvgrListQuery["status"],
+  status: JobResult["status"],
+): boolean {
+  if (filter === undefined) return true;
+  return Array.isArray(filter) ? filter.includes(status) : filter === status;
+}
+
+/** Whether a cached listing contains the job with `jobId` */
+function listsJob(data: CachedJobs, jobId: string): boolean {
+  const jobs = isInfiniteData(data)
+    ? data.pages.flatMap((page) => page.data ?? [])
+    : (data.data ?? []);
+  return jobs.some((item) => item.jobId === jobId);
+}
+
+/**
+ * Write a job into the lists that contain it, leaving its own entry
+ * (`svgrKeys.job`) alone.
+ *
+ * Every cached job list of its image (`svgrKeys.imageJobs`, with any
+ * query) gets the job updated in place; the unfiltered list also gets it
+ * added. A list filtered by status drops the job once it no longer
+ * matches, and is refetched when the job newly matches, since where it
+ * belongs there is up to the server. The jobs embedded in the image's
+ * entry of every cached image listing are updated in place or added.
+ * Lists that were never fetched are left alone.
+ *
+ * @param queryClient - The query client to update
+ * @param job - The latest state of the job
+ */
+export function updateCachedJobLists(
+  queryClient: QueryClient,
+  job: JobResult,
+): void {
+  for (const [queryKey, data] of queryClient.getQueriesData<CachedJobs>({
+    queryKey: svgrKeys.imageJobs(job.imageId),
+  })) {
+    if (!data) continue;
+    // The query of svgrKeys.imageJobs(imageId, query), if any
+    const query = queryKey[4] as SvgrListQuery | undefined;
+    const listed = listsJob(data, job.jobId);
+    if (!matchesStatus(query?.status, job.status)) {
+      if (!listed) continue;
+      queryClient.setQueryData<CachedJobs>(queryKey, (current) =>
+        updateListing(current, (jobs) =>
+          jobs.filter((item) => item.jobId !== job.jobId),
+        ),
+      );
+    } else if (listed || query === undefined) {
+      queryClient.setQueryData<CachedJobs>(queryKey, (current) =>
+        updateListing(current, (jobs) =>
+          listed
+            ? jobs.map((item) => (item.jobId === job.jobId ? job : item))
+            : [...jobs, job],
+        ),
+      );
+    } else if (query.status !== undefined) {
+      void queryClient.invalidateQueries({ queryKey, exact: true });
+    }
+  }
+  updateCachedImages(queryClient, (images) =>
+    images.map((image) =>
+      image.imageId === job.imageId
+        ? { ...image, jobs: upsertJob(image.jobs ?? [], job) }
+        : image,
+    ),
+  );
+}
+
+/**
+ * Write a job update into the TanStack Query cache: the job's own entry
+ * (`svgrKeys.job`) and the lists that contain it (see
+ * {@link updateCachedJobLists}).
+ *
+ * @param queryClient - The query client to update
+ * @param job - The latest state of the job
+ */
+export function applyJobUpdate(queryClient: QueryClient, job: JobResult): void {
+  queryClient.setQueryData<BaseResponse<JobResult>>(
+    svgrKeys.job(job.jobId),
+    (previous) => ({
+      ...previous,
+      success: true,
+      data: job,
+      timestamp: new Date().toISOString(),
+    }),
+  );
+  updateCachedJobLists(queryClient, job);
+}
@@ -1,8 +1,42 @@
 export { useConvert } from "./useConvert";
+export { useConvertFile } from "./useConvertFile";
 export { useUploadImage } from "./useUploadImage";
+export { useUploadAndConvert } from "./useUploadAndConvert";
+export { useBatchConvert } from "./useBatchConvert";
+export { useOfflineQueue } from "./useOfflineQueue";
 export { useCreateJob } from "./useCreateJob";
+export { useRetryJob } from "./useRetryJob";
+export { useRerunJob } from "./useRerunJob";
+export { useCancelJob } from "./useCancelJob";
+export { useDeleteJob } from "./useDeleteJob";
 export { useJobStatus } from "./useJobStatus";
+export { useJobSubscription } from "./useJobSubscription";
+export { useJobSvg } from "./useJobSvg";
+export { useJobPreview } from "./useJobPreview";
 export { useImageJobs } from "./useImageJobs";
 export { useUserImages } from "./useUserImages";
+export { useInfiniteUserImages } from "./useInfiniteUserImages";
+export { useUpdateImage } from "./useUpdateImage";
+export { useDeleteImage } from "./useDeleteImage";
 export { useCommunities } from "./useCommunities";
 export { svgrKeys } from "./query-keys";
+export {
+  userImagesQueryOptions,
+  infiniteUserImagesQueryOptions,
+  imageJobsQueryOptions,
+  communitiesQueryOptions,
+  jobStatusQueryOptions,
+  jobSvgQueryOptions,
+  jobPreviewQueryOptions,
+  prefetchUserImages,
+  prefetchImageJobs,
+  prefetchCommunities,
+} from "./query-options";
+export {
+  SvgrProvider,
+  useSvgrClient,
+  useSvgrContext,
+  useSvgrDefaults,
+  useSvgrQueryOptions,
+  resetSvgrQueries,
+} from "./provider";
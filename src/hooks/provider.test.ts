@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from "vitest";
+import { QueryClient } from "@tanstack/react-query";
+import { MockNetworkClient } from "@sudobility/di/mocks";
+import { SvgrClient } from "../network/SvgrClient";
+import {
+  resetOnScopeChange,
+  resetSvgrQueries,
+  splitClientArgs,
+} from "./provider";
+import { svgrKeys } from "./query-keys";
+
+describe("splitClientArgs", () => {
+  const client = new SvgrClient({
+    baseUrl: "https://api.svgr.app",
+    networkClient: new MockNetworkClient(),
+  });
+
+  it("takes an explicit client off the front of the arguments", () => {
+    expect(
+      splitClientArgs<[string | null, { intervalMs?: number }?]>([
+        client,
+        "job-1",
+        { intervalMs: 50 },
+      ]),
+    ).toEqual([client, ["job-1", { intervalMs: 50 }]]);
+  });
+
+  it("recognizes mocked and structurally typed clients", () => {
+    const mock = {
+      convert: vi.fn(),
+      getJobStatus: vi.fn(),
+      uploadImage: vi.fn(),
+    } as unknown as SvgrClient;
+
+    expect(splitClientArgs<[string | null]>([mock, "job-1"])).toEqual([
+      mock,
+      ["job-1"],
+    ]);
+    expect(
+      splitClientArgs<[{ onStage?: () => void }?]>([{ onStage: vi.fn() }]),
+    ).toEqual([undefined, [{ onStage: expect.any(Function) }]]);
+    expect(
+      splitClientArgs<[{ convert?: () => void }?]>([{ convert: vi.fn() }]),
+    ).toEqual([undefined, [{ convert: expect.any(Function) }]]);
+  });
+
+  it("returns the arguments as-is when no client is given", () => {
+    expect(splitClientArgs<[string | null]>([null])).toEqual([
+      undefined,
+      [null],
+    ]);
+    expect(splitClientArgs<[boolean?]>([])).toEqual([undefined, []]);
+  });
+});
+
+describe("resetSvgrQueries", () => {
+  it("clears every SVGR query and keeps the app's own", async () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(svgrKeys.images(), { data: ["img-1"] });
+    queryClient.setQueryData(svgrKeys.job("a"), { data: { jobId: "a" } });
+    queryClient.setQueryData(["settings"], { theme: "dark" });
+
+    await resetSvgrQueries(queryClient);
+
+    expect(queryClient.getQueryData(svgrKeys.images())).toBeUndefined();
+    expect(queryClient.getQueryData(svgrKeys.job("a"))).toBeUndefined();
+    expect(queryClient.getQueryData(["settings"])).toEqual({ theme: "dark" });
+  });
+});
+
+describe("resetOnScopeChange", () => {
+  const createClient = (baseUrl: string) =>
+    new SvgrClient({ baseUrl, networkClient: new MockNetworkClient() });
+
+  function cachedQueryClient() {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(svgrKeys.images(), { data: ["img-1"] });
+    return queryClient;
+  }
+
+  it("keeps the queries while the client and identity stay the same", () => {
+    const queryClient = cachedQueryClient();
+    const client = createClient("https://api.svgr.app");
+
+    expect(
+      resetOnScopeChange(
+        queryClient,
+        { client, identity: "user-1" },
+        { client, identity: "user-1" },
+      ),
+    ).toBe(false);
+    expect(queryClient.getQueryData(svgrKeys.images())).toEqual({
+      data: ["img-1"],
+    });
+  });
+
+  it("resets the queries when the identity changes", () => {
+    const queryClient = cachedQueryClient();
+    const client = createClient("https://api.svgr.app");
+
+    expect(
+      resetOnScopeChange(
+        queryClient,
+        { client, identity: "user-1" },
+        { client, identity: null },
+      ),
+    ).toBe(true);
+    expect(queryClient.getQueryData(svgrKeys.images())).toBeUndefined();
+  });
+
+  it("resets the queries when the client is swapped for another server", () => {
+    const queryClient = cachedQueryClient();
+
+    expect(
+      resetOnScopeChange(
+        queryClient,
+        { client: createClient("https://api.svgr.app"), identity: "user-1" },
+        {
+          client: createClient("https://staging.svgr.app"),
+          identity: "user-1",
+        },
+      ),
+    ).toBe(true);
+    expect(queryClient.getQueryData(svgrKeys.images())).toBeUndefined();
+  });
+});
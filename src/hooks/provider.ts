@@ -0,0 +1,313 @@
+import {
+  createContext,
+  createElement,
+  type ReactNode,
+  useContext,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+} from "react";
+import {
+  type QueryClient,
+  QueryClientProvider,
+  type QueryObserverOptions,
+  useQueryClient,
+} from "@tanstack/react-query";
+import type { NetworkClient } from "@sudobility/types";
+import type { SvgrBatchOptions } from "../network/batch";
+import type { JobPollingOptions } from "../network/polling";
+import type { JobSubscriptionOptions } from "../network/subscriptions";
+import { SvgrClient, type SvgrClientConfig } from "../network/SvgrClient";
+import { svgrKeys } from "./query-keys";
+
+/**
+ * Default options for the hooks under an {@link SvgrProvider}. Options
+ * passed to a hook are merged over these.
+ *
+ * @interface SvgrHookDefaults
+ * @property {JobPollingOptions} [polling] - For {@link useJobStatus} and {@link useUploadAndConvert}
+ * @property {object} [batch] - For {@link useBatchConvert}
+ * @property {object} [subscription] - For {@link useJobSubscription}
+ * @property {number} [pageSize] - Page size for {@link useInfiniteUserImages}
+ */
+export interface SvgrHookDefaults {
+  /** Polling tuning for {@link useJobStatus} and {@link useUploadAndConvert} */
+  polling?: JobPollingOptions;
+  /** Batch options for {@link useBatchConvert} */
+  batch?: Omit<SvgrBatchOptions, "signal" | "onProgress">;
+  /** Reconnect and polling tuning for {@link useJobSubscription} */
+  subscription?: Omit<
+    JobSubscriptionOptions,
+    "signal" | "onModeChange" | "onError"
+  >;
+  /** Images per page for {@link useInfiniteUserImages} */
+  pageSize?: number;
+}
+
+/**
+ * What an {@link SvgrProvider} gives its hooks.
+ *
+ * @interface SvgrContextValue
+ * @property {SvgrClient} client - The client hooks use when given none
+ * @property {SvgrHookDefaults} defaults - Default hook options
+ * @property {string | null} identity - Who the client acts for, as passed to the provider
+ * @property {SvgrQueryDefaults} queryDefaults - TanStack Query defaults for the SVGR queries
+ */
+export interface SvgrContextValue {
+  /** The client hooks use when given none */
+  client: SvgrClient;
+  /** Default hook options */
+  defaults: SvgrHookDefaults;
+  /** Who the client acts for, as passed to the provider */
+  identity: string | null;
+  /** TanStack Query defaults for the SVGR queries */
+  queryDefaults: SvgrQueryDefaults;
+}
+
+/** TanStack Query defaults for the SVGR queries (everything under `svgrKeys.all`) */
+export type SvgrQueryDefaults = Omit<
+  QueryObserverOptions,
+  "queryKey" | "queryFn"
+>;
+
+interface SvgrProviderBaseProps {
+  children?: ReactNode;
+  /**
+   * Who the client acts for, e.g. the signed-in user's ID (`null` when
+   * signed out). When it changes, every query under `svgrKeys.all` is
+   * reset so no data of the previous user is shown.
+   */
+  identity?: string | null;
+  /** Default options for the hooks */
+  defaults?: SvgrHookDefaults;
+  /** TanStack Query defaults for the SVGR queries, e.g. `staleTime` */
+  queryDefaults?: SvgrQueryDefaults;
+  /**
+   * The query client; when given, children are wrapped in a
+   * `QueryClientProvider` for it. Otherwise the surrounding one is used.
+   */
+  queryClient?: QueryClient;
+}
+
+/**
+ * Props of {@link SvgrProvider}: a client created by the app, or the
+ * settings to create one.
+ */
+export type SvgrProviderProps = SvgrProviderBaseProps &
+  (
+    | {
+        /** A client created by the app */
+        client: SvgrClient;
+      }
+    | {
+        client?: undefined;
+        /** The base URL of the SVGR API server */
+        baseUrl: string;
+        /** HTTP client that adds authentication; keep it stable between renders */
+        networkClient: NetworkClient;
+        /** Further client configuration, read whenever the client is created */
+        config?: Omit<SvgrClientConfig, "baseUrl" | "networkClient">;
+      }
+  );
+
+const SvgrContext = createContext<SvgrContextValue | null>(null);
+
+/** `useLayoutEffect` where there is a DOM, so stale data is never painted */
+const useIsomorphicLayoutEffect =
+  typeof globalThis.document !== "undefined" ? useLayoutEffect : useEffect;
+
+/**
+ * Remove the data of every SVGR query: active queries refetch, inactive
+ * ones are left empty. Used by {@link SvgrProvider} when the identity or
+ * the client changes, e.g. on logout.
+ *
+ * @param queryClient - The query client holding the SVGR queries
+ */
+export function resetSvgrQueries(queryClient: QueryClient): Promise<void> {
+  return queryClient.resetQueries({ queryKey: svgrKeys.all });
+}
+
+/** The client and identity the SVGR queries under a provider belong to */
+export interface SvgrScope {
+  client: SvgrClient;
+  identity: string | null;
+}
+
+/**
+ * Reset the SVGR queries when the provider moved to another client or
+ * identity, as {@link SvgrProvider} does after every render.
+ *
+ * @param queryClient - The query client holding the SVGR queries
+ * @param previous - The scope of the previous render
+ * @param next - The scope of this render
+ * @returns Whether the queries were reset
+ */
+export function resetOnScopeChange(
+  queryClient: QueryClient,
+  previous: SvgrScope,
+  next: SvgrScope,
+): boolean {
+  const changed =
+    previous.client !== next.client || previous.identity !== next.identity;
+  if (changed) void resetSvgrQueries(queryClient);
+  return changed;
+}
+
+/**
+ * Provides an {@link SvgrClient}, default hook options and query defaults
+ * to the SVGR hooks below it, so they can be called without a client.
+ * A client passed to a hook explicitly still takes precedence.
+ *
+ * Pass a `client`, or `baseUrl` and `networkClient` to let the provider
+ * create one; a new client is created when either changes, e.g. to switch
+ * servers or to sign in with another `networkClient`. Whenever the client
+ * or `identity` changes, the SVGR queries are reset (see
+ * {@link resetSvgrQueries}).
+ *
+ * @example
+ * ```tsx
+ * <QueryClientProvider client={queryClient}>
+ *   <SvgrProvider
+ *     baseUrl="https://api.svgr.app"
+ *     networkClient={networkClient}
+ *     identity={user?.id ?? null}
+ *     defaults={{ polling: { intervalMs: 2000 } }}
+ *     queryDefaults={{ staleTime: 30_000 }}
+ *   >
+ *     <App />
+ *   </SvgrProvider>
+ * </QueryClientProvider>
+ *
+ * // Anywhere below
+ * const convert = useConvert();
+ * const { data } = useJobStatus(jobId);
+ * ```
+ */
+export function SvgrProvider(props: SvgrProviderProps) {
+  const { children, identity = null, defaults, queryDefaults } = props;
+  const queryClient = useQueryClient(props.queryClient);
+
+  const configRef = useRef(props.client ? undefined : props.config);
+  configRef.current = props.client ? undefined : props.config;
+  const baseUrl = props.client ? undefined : props.baseUrl;
+  const networkClient = props.client ? undefined : props.networkClient;
+  const created = useMemo(
+    () =>
+      baseUrl !== undefined && networkClient
+        ? new SvgrClient({ ...configRef.current, baseUrl, networkClient })
+        : undefined,
+    [baseUrl, networkClient],
+  );
+  const client = (props.client ?? created) as SvgrClient;
+
+  // The hooks merge queryDefaults in while rendering (see
+  // useSvgrQueryOptions), since a child reads its query options before this
+  // effect runs; registering them too covers prefetches and other calls by key
+  useIsomorphicLayoutEffect(() => {
+    if (queryDefaults) {
+      queryClient.setQueryDefaults(svgrKeys.all, queryDefaults);
+    }
+  }, [queryClient, queryDefaults]);
+
+  const previous = useRef<SvgrScope>({ client, identity });
+  useIsomorphicLayoutEffect(() => {
+    resetOnScopeChange(queryClient, previous.current, { client, identity });
+    previous.current = { client, identity };
+  }, [client, identity, queryClient]);
+
+  const value = useMemo<SvgrContextValue>(
+    () => ({
+      client,
+      defaults: defaults ?? {},
+      identity,
+      queryDefaults: queryDefaults ?? {},
+    }),
+    [client, defaults, identity, queryDefaults],
+  );
+  const provider = createElement(SvgrContext.Provider, { value }, children);
+  return props.queryClient
+    ? createElement(
+        QueryClientProvider,
+        { client: props.queryClient },
+        provider,
+      )
+    : provider;
+}
+
+/**
+ * The nearest {@link SvgrProvider}'s value, or `null` outside one.
+ */
+export function useSvgrContext(): SvgrContextValue | null {
+  return useContext(SvgrContext);
+}
+
+/**
+ * The client a hook should use: `client` when given, otherwise the one
+ * from the nearest {@link SvgrProvider}.
+ *
+ * @param client - An explicit client, which takes precedence
+ * @throws {Error} When no client is given and there is no provider
+ */
+export function useSvgrClient(client?: SvgrClient): SvgrClient {
+  const context = useContext(SvgrContext);
+  const resolved = client ?? context?.client;
+  if (!resolved) {
+    throw new Error(
+      "No SvgrClient: pass one to the hook or render it inside an SvgrProvider",
+    );
+  }
+  return resolved;
+}
+
+/** The nearest {@link SvgrProvider}'s default hook options (empty outside one) */
+export function useSvgrDefaults(): SvgrHookDefaults {
+  return useContext(SvgrContext)?.defaults ?? {};
+}
+
+/**
+ * `options` merged over the nearest {@link SvgrProvider}'s `queryDefaults`,
+ * for the query hooks: TanStack Query reads a query's defaults while the
+ * component renders, before the provider has registered them.
+ *
+ * @param options - The hook's query options, which take precedence
+ */
+export function useSvgrQueryOptions<T extends object>(options: T): T {
+  const queryDefaults = useContext(SvgrContext)?.queryDefaults;
+  return queryDefaults ? { ...queryDefaults, ...options } : options;
+}
+
+/**
+ * Arguments of a hook that takes an optional explicit client first,
+ * overriding the {@link SvgrProvider}'s: `(client, ...rest)` or `(...rest)`.
+ */
+export type WithOptionalClient<T extends unknown[]> = [SvgrClient, ...T] | T;
+
+/** Public {@link SvgrClient} methods that every client-like object has */
+const CLIENT_METHODS = ["convert", "getJobStatus", "uploadImage"] as const;
+
+/**
+ * Whether a hook argument is a client: an {@link SvgrClient}, or any object
+ * with its core public methods, so mocks and structurally typed clients
+ * (e.g. from another copy of the package) are recognized too.
+ */
+export function isSvgrClient(value: unknown): value is SvgrClient {
+  if (value instanceof SvgrClient) return true;
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return CLIENT_METHODS.every((name) => typeof candidate[name] === "function");
+}
+
+/**
+ * Split hook arguments that may start with an explicit client: returns the
+ * client (or `undefined`) and the remaining arguments.
+ *
+ * @param args - The hook's arguments
+ */
+export function splitClientArgs<T extends unknown[]>(
+  args: WithOptionalClient<T>,
+): [SvgrClient | undefined, T] {
+  return isSvgrClient(args[0])
+    ? [args[0], args.slice(1) as T]
+    : [undefined, args as T];
+}
@@ -10,6 +10,10 @@ describe("svgrKeys", () => {
     expect(svgrKeys.convert()).toEqual(["svgr", "convert"]);
   });
 
+  it("images key extends all", () => {
+    expect(svgrKeys.images()).toEqual(["svgr", "images"]);
+  });
+
   it("job key extends jobs", () => {
     expect(svgrKeys.job("j1")).toEqual(["svgr", "jobs", "j1"]);
   });
@@ -17,4 +21,29 @@ describe("svgrKeys", () => {
   it("imageJobs key extends jobs", () => {
     expect(svgrKeys.imageJobs("i1")).toEqual(["svgr", "jobs", "image", "i1"]);
   });
+
+  it("file key extends files", () => {
+    expect(svgrKeys.file("j1.svg")).toEqual(["svgr", "files", "j1.svg"]);
+  });
+
+  it("filtered listing keys extend their unfiltered keys", () => {
+    expect(svgrKeys.images({ status: "done", limit: 10 })).toEqual([
+      "svgr",
+      "images",
+      { status: "done", limit: 10 },
+    ]);
+    expect(svgrKeys.imagePages({ order: "asc" })).toEqual([
+      "svgr",
+      "images",
+      "pages",
+      { order: "asc" },
+    ]);
+    expect(svgrKeys.imageJobs("i1", { status: "error" })).toEqual([
+      "svgr",
+      "jobs",
+      "image",
+      "i1",
+      { status: "error" },
+    ]);
+  });
 });
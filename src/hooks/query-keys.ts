@@ -1,3 +1,5 @@
+import type { SvgrListFilters, SvgrListQuery } from "../network/pagination";
+
 /**
  * Query key factory for SVGR-related TanStack Query cache keys.
  *
@@ -23,13 +25,36 @@ export const svgrKeys = {
   all: ["svgr"] as const,
   /** Key for conversion queries: `["svgr", "convert"]` */
   convert: () => [...svgrKeys.all, "convert"] as const,
+  /**
+   * Key for the authenticated user's image list: `["svgr", "images"]`, or
+   * `["svgr", "images", query]` for one page of a filtered listing
+   */
+  images: (query?: SvgrListQuery) =>
+    query
+      ? ([...svgrKeys.all, "images", query] as const)
+      : ([...svgrKeys.all, "images"] as const),
+  /**
+   * Key for an infinite (paged) image listing:
+   * `["svgr", "images", "pages", { ...filters, limit }]`
+   */
+  imagePages: (filters: SvgrListFilters & { limit?: number } = {}) =>
+    [...svgrKeys.images(), "pages", filters] as const,
   /** Base key for all job queries: `["svgr", "jobs"]` */
   jobs: () => [...svgrKeys.all, "jobs"] as const,
   /** Key for a specific job: `["svgr", "jobs", jobId]` */
   job: (jobId: string) => [...svgrKeys.jobs(), jobId] as const,
-  /** Key for all jobs of an image: `["svgr", "jobs", "image", imageId]` */
-  imageJobs: (imageId: string) =>
-    [...svgrKeys.jobs(), "image", imageId] as const,
+  /**
+   * Key for all jobs of an image: `["svgr", "jobs", "image", imageId]`, or
+   * `["svgr", "jobs", "image", imageId, query]` for one page of a filtered listing
+   */
+  imageJobs: (imageId: string, query?: SvgrListQuery) =>
+    query
+      ? ([...svgrKeys.jobs(), "image", imageId, query] as const)
+      : ([...svgrKeys.jobs(), "image", imageId] as const),
+  /** Base key for all downloaded files: `["svgr", "files"]` */
+  files: () => [...svgrKeys.all, "files"] as const,
+  /** Key for one downloaded file by server file name: `["svgr", "files", filename]` */
+  file: (filename: string) => [...svgrKeys.files(), filename] as const,
   /** Key for communities by language: `["svgr", "communities", language]` */
   communities: (language: string) =>
     [...svgrKeys.all, "communities", language] as const,
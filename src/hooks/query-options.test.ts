@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { dehydrate, hydrate, QueryClient } from "@tanstack/react-query";
+import { MockNetworkClient } from "@sudobility/di/mocks";
+import { SvgrClient } from "../network/SvgrClient";
+import {
+  communitiesQueryOptions,
+  infiniteUserImagesQueryOptions,
+  prefetchCommunities,
+  prefetchImageJobs,
+  prefetchUserImages,
+  userImagesQueryOptions,
+} from "./query-options";
+import { svgrKeys } from "./query-keys";
+
+const BASE = "http://localhost:3001/api/v1";
+
+describe("prefetch helpers", () => {
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+    });
+  });
+
+  function respond(url: string, data: unknown) {
+    mockNetwork.setMockResponse(
+      url,
+      { data: { success: true, data, timestamp: "t0" }, ok: true },
+      "GET",
+    );
+  }
+
+  it("prefetches images under the hook's key and survives hydration", async () => {
+    respond(`${BASE}/images`, [{ imageId: "img-1", jobs: [] }]);
+    const server = new QueryClient();
+
+    await prefetchUserImages(server, client);
+
+    const browser = new QueryClient();
+    hydrate(browser, JSON.parse(JSON.stringify(dehydrate(server))));
+    expect(userImagesQueryOptions(client).queryKey).toEqual(svgrKeys.images());
+    expect(browser.getQueryData(svgrKeys.images())).toEqual({
+      success: true,
+      data: [{ imageId: "img-1", jobs: [] }],
+      timestamp: "t0",
+    });
+  });
+
+  it("prefetches the jobs of an image", async () => {
+    respond(`${BASE}/jobs?imageId=img-1`, [{ jobId: "a", imageId: "img-1" }]);
+    const queryClient = new QueryClient();
+
+    await prefetchImageJobs(queryClient, client, "img-1");
+
+    expect(mockNetwork.wasUrlCalled(`${BASE}/jobs?imageId=img-1`, "GET")).toBe(
+      true,
+    );
+    expect(queryClient.getQueryData(svgrKeys.imageJobs("img-1"))).toEqual({
+      success: true,
+      data: [{ jobId: "a", imageId: "img-1" }],
+      timestamp: "t0",
+    });
+  });
+
+  it("keeps prefetched communities fresh", async () => {
+    respond(`${BASE}/communities?lang=en`, []);
+    const queryClient = new QueryClient();
+
+    await prefetchCommunities(queryClient, client, "en");
+    await prefetchCommunities(queryClient, client, "en");
+
+    expect(
+      mockNetwork.getRequestsByUrl(`${BASE}/communities?lang=en`),
+    ).toHaveLength(1);
+    expect(communitiesQueryOptions(client, "en").queryKey).toEqual(
+      svgrKeys.communities("en"),
+    );
+  });
+
+  it("prefetches the first page of the infinite image listing", async () => {
+    respond(`${BASE}/images`, [{ imageId: "img-1" }]);
+    const queryClient = new QueryClient();
+
+    await queryClient.prefetchInfiniteQuery(
+      infiniteUserImagesQueryOptions(client),
+    );
+
+    expect(queryClient.getQueryData(svgrKeys.imagePages())).toMatchObject({
+      pages: [{ data: [{ imageId: "img-1" }] }],
+      pageParams: [undefined],
+    });
+  });
+});
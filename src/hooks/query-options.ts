@@ -0,0 +1,218 @@
+import {
+  infiniteQueryOptions,
+  type QueryClient,
+  queryOptions,
+} from "@tanstack/react-query";
+import type { JobResult } from "@sudobility/svgr_types";
+import { getJobPreviewFilename, getJobSvgFilename } from "../network/files";
+import type { SvgrListFilters, SvgrListQuery } from "../network/pagination";
+import type { SvgrClient } from "../network/SvgrClient";
+import { svgrKeys } from "./query-keys";
+
+/**
+ * Query options (key and fetcher) for the user's images, as used by
+ * {@link useUserImages}.
+ *
+ * @param client - The client to fetch with
+ * @param query - Page request and filters
+ *
+ * @example
+ * ```typescript
+ * const { data } = useSuspenseQuery(userImagesQueryOptions(client));
+ * ```
+ */
+export function userImagesQueryOptions(
+  client: SvgrClient,
+  query?: SvgrListQuery,
+) {
+  return queryOptions({
+    queryKey: svgrKeys.images(query),
+    queryFn: ({ signal }) => client.getUserImages({ ...query, signal }),
+  });
+}
+
+/**
+ * Infinite-query options for the user's images, one page per request, as
+ * used by {@link useInfiniteUserImages}.
+ *
+ * @param client - The client to fetch with
+ * @param query - Filters, sort order and page size (`limit`)
+ */
+export function infiniteUserImagesQueryOptions(
+  client: SvgrClient,
+  query: SvgrListFilters & { limit?: number } = {},
+) {
+  return infiniteQueryOptions({
+    queryKey: svgrKeys.imagePages(query),
+    queryFn: ({ pageParam, signal }) =>
+      client.getUserImages({
+        ...query,
+        ...(pageParam !== undefined && { cursor: pageParam }),
+        signal,
+      }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+}
+
+/**
+ * Query options for the jobs of an image, as used by {@link useImageJobs}.
+ * Disabled while `imageId` is `null`.
+ *
+ * @param client - The client to fetch with
+ * @param imageId - The image whose jobs to fetch
+ * @param query - Page request and filters
+ */
+export function imageJobsQueryOptions(
+  client: SvgrClient,
+  imageId: string | null,
+  query?: SvgrListQuery,
+) {
+  return queryOptions({
+    queryKey: svgrKeys.imageJobs(imageId ?? "", query),
+    queryFn: ({ signal }) =>
+      client.getJobsForImage(imageId ?? "", { ...query, signal }),
+    enabled: !!imageId,
+  });
+}
+
+/**
+ * Query options for the communities of a language, as used by
+ * {@link useCommunities}. Communities rarely change and stay fresh for
+ * 24 hours.
+ *
+ * @param client - The client to fetch with
+ * @param language - The language code, e.g. `en`
+ */
+export function communitiesQueryOptions(client: SvgrClient, language: string) {
+  return queryOptions({
+    queryKey: svgrKeys.communities(language),
+    queryFn: ({ signal }) => client.getCommunities(language, { signal }),
+    staleTime: 24 * 60 * 60 * 1000, // 24 hours
+  });
+}
+
+/**
+ * Query options for the state of a job, fetched once. {@link useJobStatus}
+ * uses the same key and adds polling. Disabled while `jobId` is `null`.
+ *
+ * @param client - The client to fetch with
+ * @param jobId - The job to fetch
+ */
+export function jobStatusQueryOptions(
+  client: SvgrClient,
+  jobId: string | null,
+) {
+  return queryOptions({
+    queryKey: svgrKeys.job(jobId ?? ""),
+    queryFn: ({ signal }) => client.getJobStatus(jobId ?? "", { signal }),
+    enabled: !!jobId,
+  });
+}
+
+/**
+ * Query options for the SVG text of a job, as used by {@link useJobSvg}.
+ * Job outputs never change, so the text never goes stale. Disabled until
+ * the job is `done`.
+ *
+ * @param client - The client to fetch with
+ * @param job - The job whose SVG to fetch
+ */
+export function jobSvgQueryOptions(client: SvgrClient, job: JobResult | null) {
+  return queryOptions({
+    queryKey: svgrKeys.file(job ? getJobSvgFilename(job) : ""),
+    queryFn: ({ signal }) =>
+      client.getJobOutputs(job as JobResult).svgText({ signal }),
+    enabled: job?.status === "done",
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Query options for the JPEG preview Blob of a job, as used by
+ * {@link useJobPreview}. Blobs cannot be dehydrated, so this one is not
+ * meant for server prefetching. Disabled until the job is `done`.
+ *
+ * @param client - The client to fetch with
+ * @param job - The job whose preview to fetch
+ */
+export function jobPreviewQueryOptions(
+  client: SvgrClient,
+  job: JobResult | null,
+) {
+  return queryOptions({
+    queryKey: svgrKeys.file(job ? getJobPreviewFilename(job) : ""),
+    queryFn: ({ signal }) =>
+      client.getJobOutputs(job as JobResult).previewBlob({ signal }),
+    enabled: job?.status === "done",
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Fetch the user's images into `queryClient` under the key
+ * {@link useUserImages} reads, e.g. on the server before `dehydrate`.
+ * Like `QueryClient.prefetchQuery`, it never throws and skips fresh data.
+ *
+ * @param queryClient - The query client to fill
+ * @param client - The client to fetch with
+ * @param query - Page request and filters; pass the same to the hook
+ *
+ * @example
+ * ```tsx
+ * // app/gallery/page.tsx (server)
+ * const queryClient = new QueryClient();
+ * await prefetchUserImages(queryClient, client);
+ * return (
+ *   <HydrationBoundary state={dehydrate(queryClient)}>
+ *     <Gallery />
+ *   </HydrationBoundary>
+ * );
+ *
+ * // Gallery (client): renders the prefetched images without a request
+ * const { data } = useUserImages();
+ * ```
+ */
+export function prefetchUserImages(
+  queryClient: QueryClient,
+  client: SvgrClient,
+  query?: SvgrListQuery,
+): Promise<void> {
+  return queryClient.prefetchQuery(userImagesQueryOptions(client, query));
+}
+
+/**
+ * Fetch the jobs of an image into `queryClient` under the key
+ * {@link useImageJobs} reads. See {@link prefetchUserImages}.
+ *
+ * @param queryClient - The query client to fill
+ * @param client - The client to fetch with
+ * @param imageId - The image whose jobs to fetch
+ * @param query - Page request and filters; pass the same to the hook
+ */
+export function prefetchImageJobs(
+  queryClient: QueryClient,
+  client: SvgrClient,
+  imageId: string,
+  query?: SvgrListQuery,
+): Promise<void> {
+  return queryClient.prefetchQuery(
+    imageJobsQueryOptions(client, imageId, query),
+  );
+}
+
+/**
+ * Fetch the communities of a language into `queryClient` under the key
+ * {@link useCommunities} reads. See {@link prefetchUserImages}.
+ *
+ * @param queryClient - The query client to fill
+ * @param client - The client to fetch with
+ * @param language - The language code, e.g. `en`
+ */
+export function prefetchCommunities(
+  queryClient: QueryClient,
+  client: SvgrClient,
+  language: string,
+): Promise<void> {
+  return queryClient.prefetchQuery(communitiesQueryOptions(client, language));
+}
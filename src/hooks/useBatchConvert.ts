@@ -0,0 +1,81 @@
+import { useCallback, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  SvgrBatch,
+  type SvgrBatchItem,
+  type SvgrBatchOptions,
+  type SvgrBatchProgress,
+} from "../network/batch";
+import { svgrKeys } from "./query-keys";
+import {
+  splitClientArgs,
+  useSvgrClient,
+  useSvgrDefaults,
+  type WithOptionalClient,
+} from "./provider";
+
+/**
+ * TanStack Query mutation hook for converting many images at once.
+ *
+ * Runs the mutation variables (an array of {@link SvgrBatchItem}s) through
+ * an {@link SvgrBatch} and exposes its aggregate `progress` and a `cancel`
+ * function. The mutation resolves with the per-item results and never fails
+ * because of individual items. When any `uploadAndConvert` item succeeded,
+ * the user's image list is invalidated.
+ *
+ * @param client - Overrides the client from {@link SvgrProvider} (optional)
+ * @param options - Batch options (concurrency, stopOnError, ...), merged over the provider's `batch` defaults
+ * @returns The mutation result plus `progress` (`null` when idle) and `cancel`
+ *
+ * @example
+ * ```tsx
+ * const batch = useBatchConvert(client, { concurrency: 4 });
+ *
+ * batch.mutate(files.map((file) => ({ kind: 'convertFile', file })));
+ * {batch.progress && <progress value={batch.progress.completed} max={batch.progress.total} />}
+ * ```
+ */
+export function useBatchConvert(
+  ...args: WithOptionalClient<
+    [options?: Omit<SvgrBatchOptions, "signal" | "onProgress">]
+  >
+) {
+  const [explicitClient, [overrides]] = splitClientArgs(args);
+  const client = useSvgrClient(explicitClient);
+  const options = { ...useSvgrDefaults().batch, ...overrides };
+  const queryClient = useQueryClient();
+  const [progress, setProgress] = useState<SvgrBatchProgress | null>(null);
+  const batchRef = useRef<SvgrBatch | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: (items: SvgrBatchItem[]) => {
+      batchRef.current?.cancel();
+      const batch = new SvgrBatch(client, items, {
+        ...options,
+        onProgress: setProgress,
+      });
+      batchRef.current = batch;
+      setProgress(batch.getProgress());
+      return batch.run();
+    },
+    onSuccess: (results, items) => {
+      const uploaded = results.some(
+        (result) =>
+          result.status === "fulfilled" &&
+          items[result.index]?.kind === "uploadAndConvert",
+      );
+      if (uploaded) {
+        queryClient.invalidateQueries({ queryKey: svgrKeys.images() });
+      }
+    },
+    onSettled: () => {
+      batchRef.current = null;
+    },
+  });
+
+  const cancel = useCallback(() => {
+    batchRef.current?.cancel();
+  }, []);
+
+  return { ...mutation, progress, cancel };
+}
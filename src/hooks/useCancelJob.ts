@@ -0,0 +1,27 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { SvgrClient } from "../network/SvgrClient";
+import { applyJobUpdate } from "./cache-updates";
+import { svgrKeys } from "./query-keys";
+import { useSvgrClient } from "./provider";
+
+/**
+ * TanStack Query mutation hook for cancelling a queued or running job.
+ *
+ * The cancelled job is written to the cache (`svgrKeys.job` and its
+ * image's job list) and image listings are refetched.
+ *
+ * @param explicitClient - Overrides the client from {@link SvgrProvider}
+ * @returns The TanStack Query mutation result; `mutate` takes the job ID
+ */
+export function useCancelJob(explicitClient?: SvgrClient) {
+  const client = useSvgrClient(explicitClient);
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (jobId: string) => client.cancelJob(jobId),
+    onSuccess: (response) => {
+      if (response.data) applyJobUpdate(queryClient, response.data);
+      return queryClient.invalidateQueries({ queryKey: svgrKeys.images() });
+    },
+  });
+}
@@ -1,16 +1,21 @@
 import { useQuery } from "@tanstack/react-query";
-import type { SvgrClient } from "../network/SvgrClient";
-import { svgrKeys } from "./query-keys";
+import { communitiesQueryOptions } from "./query-options";
+import {
+  splitClientArgs,
+  useSvgrClient,
+  useSvgrQueryOptions,
+  type WithOptionalClient,
+} from "./provider";
 
 export function useCommunities(
-  client: SvgrClient,
-  language: string,
-  enabled = true,
+  ...args: WithOptionalClient<[language: string, enabled?: boolean]>
 ) {
-  return useQuery({
-    queryKey: svgrKeys.communities(language),
-    queryFn: () => client.getCommunities(language),
-    enabled,
-    staleTime: 24 * 60 * 60 * 1000, // 24 hours
-  });
+  const [explicitClient, [language, enabled = true]] = splitClientArgs(args);
+  const client = useSvgrClient(explicitClient);
+  return useQuery(
+    useSvgrQueryOptions({
+      ...communitiesQueryOptions(client, language),
+      enabled,
+    }),
+  );
 }
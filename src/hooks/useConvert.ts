@@ -1,6 +1,11 @@
+import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import type { ImageType } from "@sudobility/svgr_types";
 import type { SvgrClient } from "../network/SvgrClient";
+import { type SvgrPresetName, SvgrPresets } from "../network/presets";
+import type { UploadProgress } from "../network/upload";
+import { IdempotencyKeyStore } from "../utils/idempotency";
+import { useSvgrClient } from "./provider";
 
 /**
  * Parameters for the {@link useConvert} mutation hook.
@@ -10,6 +15,7 @@ import type { SvgrClient } from "../network/SvgrClient";
  * @property {string} [filename] - Optional filename for metadata or audit purposes
  * @property {number} [quality] - Conversion quality level from 1 to 10. Default: 5
  * @property {boolean} [transparentBg] - If true, removes the background from the SVG. Default: false
+ * @property {SvgrPresetName} [preset] - Named parameter set from {@link SvgrPresets}; explicit parameters override it
  */
 export interface ConvertMutationParams {
   /** Base64-encoded raster image data (PNG, JPG, WEBP, BMP, or GIF) */
@@ -28,6 +34,14 @@ export interface ConvertMutationParams {
   smooth?: number;
   /** Image type for preprocessing: 'auto', 'photo', or 'design'. Default: 'auto' */
   imageType?: ImageType;
+  /** `Idempotency-Key` for this conversion. Default: generated per `mutate` call and reused by its retries */
+  idempotencyKey?: string;
+  /**
+   * Named parameter set from {@link SvgrPresets} (e.g. `logo`), an
+   * alternative to setting `quality`, `smooth`, `mergePaths` and `ocr`.
+   * Parameters given explicitly take precedence over the preset's.
+   */
+  preset?: SvgrPresetName;
 }
 
 /**
@@ -35,10 +49,15 @@ export interface ConvertMutationParams {
  *
  * Wraps {@link SvgrClient.convert} in a `useMutation` hook, providing
  * loading state, error handling, and cache integration via TanStack Query.
+ * Parameters are validated client-side; invalid input rejects with a
+ * {@link SvgrValidationError} without calling the API, as does an unknown
+ * `preset`. Upload progress of the image is exposed as `progress` (`null`
+ * until the first event).
  *
- * @param client - An initialized {@link SvgrClient} instance
+ * @param explicitClient - Overrides the client from {@link SvgrProvider}
  * @returns A TanStack Query mutation result object with `mutate`, `mutateAsync`,
- *   `isPending`, `isError`, `data`, `error`, and other standard mutation properties
+ *   `isPending`, `isError`, `data`, `error`, and other standard mutation properties,
+ *   plus `progress`
  *
  * @example
  * ```tsx
@@ -78,27 +97,26 @@ export interface ConvertMutationParams {
  * }
  * ```
  */
-export function useConvert(client: SvgrClient) {
-  return useMutation({
-    mutationFn: ({
-      original,
-      filename,
-      quality,
-      transparentBg,
-      ocr,
-      mergePaths,
-      smooth,
-      imageType,
-    }: ConvertMutationParams) =>
-      client.convert(
-        original,
-        filename,
-        quality,
-        transparentBg,
-        ocr,
-        mergePaths,
-        smooth,
-        imageType,
-      ),
+export function useConvert(explicitClient?: SvgrClient) {
+  const client = useSvgrClient(explicitClient);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const [idempotencyKeys] = useState(() => new IdempotencyKeyStore());
+
+  const mutation = useMutation({
+    mutationFn: (params: ConvertMutationParams) => {
+      const {
+        idempotencyKey = idempotencyKeys.get(params),
+        preset,
+        ...request
+      } = params;
+      setProgress(null);
+      return client.convert(SvgrPresets.apply(request, preset), {
+        idempotencyKey,
+        onUploadProgress: (loaded, total) => setProgress({ loaded, total }),
+      });
+    },
+    onSettled: (_data, _error, params) => idempotencyKeys.release(params),
   });
+
+  return { ...mutation, progress };
 }
@@ -0,0 +1,46 @@
+import { useMutation } from "@tanstack/react-query";
+import type { ConvertFileOptions, SvgrClient } from "../network/SvgrClient";
+import type { BinaryInput } from "../utils/binary";
+import { useSvgrClient } from "./provider";
+
+/**
+ * Parameters for the {@link useConvertFile} mutation hook.
+ *
+ * @interface ConvertFileMutationParams
+ * @property {BinaryInput} file - The image as a `File`, `Blob`, `ArrayBuffer` or `Uint8Array`
+ * @property {ConvertFileOptions} [options] - Optional conversion parameters
+ */
+export interface ConvertFileMutationParams {
+  /** The image as a `File`, `Blob`, `ArrayBuffer` or `Uint8Array` */
+  file: BinaryInput;
+  /** Optional conversion parameters (quality, smooth, imageType, ...) */
+  options?: ConvertFileOptions;
+}
+
+/**
+ * TanStack Query mutation hook that converts a binary image straight to SVG text.
+ *
+ * Wraps {@link SvgrClient.convertFile}, so a single `mutate` call encodes
+ * the file, converts it and downloads the SVG.
+ *
+ * @param explicitClient - Overrides the client from {@link SvgrProvider}
+ * @returns A TanStack Query mutation result whose `data` is a {@link ConvertFileResult}
+ *
+ * @example
+ * ```tsx
+ * const convertFile = useConvertFile(client);
+ *
+ * <input
+ *   type="file"
+ *   onChange={(e) => convertFile.mutate({ file: e.target.files![0] })}
+ * />;
+ * {convertFile.data && <div dangerouslySetInnerHTML={{ __html: convertFile.data.svg }} />}
+ * ```
+ */
+export function useConvertFile(explicitClient?: SvgrClient) {
+  const client = useSvgrClient(explicitClient);
+  return useMutation({
+    mutationFn: ({ file, options }: ConvertFileMutationParams) =>
+      client.convertFile(file, options),
+  });
+}
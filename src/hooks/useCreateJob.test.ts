@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from "vitest";
+import { MutationObserver, QueryClient } from "@tanstack/react-query";
+import { MockNetworkClient } from "@sudobility/di/mocks";
+import type { BaseResponse, JobResult } from "@sudobility/svgr_types";
+import { SvgrClient } from "../network/SvgrClient";
+import { svgrKeys } from "./query-keys";
+import { createJobMutationOptions } from "./useCreateJob";
+
+function job(jobId: string, status: string): JobResult {
+  return { jobId, imageId: "img-1", status } as unknown as JobResult;
+}
+
+function jobIds(data: unknown) {
+  return (data as { data: JobResult[] }).data.map((item) => item.jobId);
+}
+
+describe("createJobMutationOptions", () => {
+  it("shows a pending placeholder job and rolls it back on failure", async () => {
+    const queryClient = new QueryClient();
+    const jobs = { success: true, data: [job("a", "done")] };
+    const images = {
+      success: true,
+      data: [{ imageId: "img-1", jobs: [job("a", "done")] }],
+    };
+    queryClient.setQueryData(svgrKeys.imageJobs("img-1"), jobs);
+    queryClient.setQueryData(svgrKeys.images(), images);
+    const client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: new MockNetworkClient(),
+    });
+    let fail!: (reason: unknown) => void;
+    vi.spyOn(client, "createJob").mockReturnValue(
+      new Promise<BaseResponse<JobResult>>((_resolve, reject) => {
+        fail = reject;
+      }),
+    );
+    const observer = new MutationObserver(
+      queryClient,
+      createJobMutationOptions(client, queryClient),
+    );
+
+    const result = observer.mutate({ imageId: "img-1", quality: 7 });
+    await vi.waitFor(() =>
+      expect(
+        jobIds(queryClient.getQueryData(svgrKeys.imageJobs("img-1"))),
+      ).toHaveLength(2),
+    );
+    const placeholder = queryClient.getQueryData<{ data: JobResult[] }>(
+      svgrKeys.imageJobs("img-1"),
+    )?.data[1];
+    expect(placeholder).toMatchObject({
+      imageId: "img-1",
+      status: "pending",
+      quality: 7,
+    });
+    expect(placeholder?.jobId).toMatch(/^optimistic-/);
+
+    fail(new Error("Job creation failed"));
+    await expect(result).rejects.toThrow("Job creation failed");
+    expect(queryClient.getQueryData(svgrKeys.imageJobs("img-1"))).toEqual(jobs);
+    expect(queryClient.getQueryData(svgrKeys.images())).toEqual(images);
+  });
+});
@@ -1,9 +1,124 @@
-import { useMutation } from "@tanstack/react-query";
-import type { CreateJobRequest } from "@sudobility/svgr_types";
+import { useState } from "react";
+import {
+  type QueryClient,
+  useMutation,
+  type UseMutationOptions,
+  useQueryClient,
+} from "@tanstack/react-query";
+import type {
+  BaseResponse,
+  CreateJobRequest,
+  JobResult,
+} from "@sudobility/svgr_types";
 import type { SvgrClient } from "../network/SvgrClient";
+import { type SvgrPresetName, SvgrPresets } from "../network/presets";
+import { IdempotencyKeyStore } from "../utils/idempotency";
+import {
+  applyJobUpdate,
+  createPlaceholderJob,
+  type PlaceholderContext,
+  removeCachedJob,
+  restoreQueries,
+  snapshotQueries,
+  updateCachedJobLists,
+} from "./cache-updates";
+import { svgrKeys } from "./query-keys";
+import { useSvgrClient } from "./provider";
 
-export function useCreateJob(client: SvgrClient) {
-  return useMutation({
-    mutationFn: (request: CreateJobRequest) => client.createJob(request),
-  });
+/**
+ * Parameters for the {@link useCreateJob} mutation hook: the job request
+ * plus an optional `Idempotency-Key` and preset.
+ */
+export type CreateJobMutationParams = CreateJobRequest & {
+  /** `Idempotency-Key` for this job. Default: generated per `mutate` call and reused by its retries */
+  idempotencyKey?: string;
+  /**
+   * Named parameter set from {@link SvgrPresets}, an alternative to raw
+   * conversion parameters. Parameters given explicitly take precedence.
+   */
+  preset?: SvgrPresetName;
+};
+
+/**
+ * Mutation options of {@link useCreateJob}: the request and its optimistic
+ * updates of `queryClient`, for `useMutation` or a `MutationObserver`.
+ *
+ * @param client - The client to create the job with
+ * @param queryClient - The query client whose job and image lists to update
+ * @param idempotencyKeys - Keys per `mutate` call, reused by its retries
+ */
+export function createJobMutationOptions(
+  client: SvgrClient,
+  queryClient: QueryClient,
+  idempotencyKeys: IdempotencyKeyStore = new IdempotencyKeyStore(),
+): UseMutationOptions<
+  BaseResponse<JobResult>,
+  Error,
+  CreateJobMutationParams,
+  PlaceholderContext
+> {
+  return {
+    mutationFn: (params) => {
+      const {
+        idempotencyKey = idempotencyKeys.get(params),
+        preset,
+        ...request
+      } = params;
+      return client.createJob(SvgrPresets.apply(request, preset), {
+        idempotencyKey,
+      });
+    },
+    onMutate: async (params) => {
+      const snapshot = await snapshotQueries(queryClient, [
+        svgrKeys.imageJobs(params.imageId),
+        svgrKeys.images(),
+      ]);
+      const { idempotencyKey: _key, preset, ...request } = params;
+      // An unknown preset fails in mutationFn; show the raw request meanwhile
+      const placeholder = createPlaceholderJob(
+        preset && SvgrPresets.has(preset)
+          ? SvgrPresets.apply(request, preset)
+          : request,
+      );
+      updateCachedJobLists(queryClient, placeholder);
+      return { snapshot, placeholderId: placeholder.jobId };
+    },
+    onSuccess: (response, _params, context) => {
+      removeCachedJob(queryClient, context.placeholderId);
+      if (response.data) applyJobUpdate(queryClient, response.data);
+    },
+    onError: (_error, _params, context) =>
+      restoreQueries(queryClient, context?.snapshot),
+    onSettled: (_data, _error, params) => {
+      idempotencyKeys.release(params);
+      return queryClient.invalidateQueries({ queryKey: svgrKeys.images() });
+    },
+  };
+}
+
+/**
+ * TanStack Query mutation hook for creating a conversion job.
+ *
+ * Every `mutate` call gets its own `Idempotency-Key`, reused when TanStack
+ * retries the mutation, so a retry after a dropped connection cannot
+ * create a second job. An unknown `preset` rejects with
+ * {@link SvgrValidationError} before any request.
+ *
+ * A `pending` placeholder job (with an `optimistic-` id) is added to the
+ * image's cached job list and its entry in image listings as soon as
+ * `mutate` is called. It is replaced by the created job on success and
+ * removed if the request fails; image listings are refetched once the
+ * request settles.
+ *
+ * @param explicitClient - Overrides the client from {@link SvgrProvider}
+ * @returns The TanStack Query mutation result
+ */
+export function useCreateJob(explicitClient?: SvgrClient) {
+  const client = useSvgrClient(explicitClient);
+  const queryClient = useQueryClient();
+  const [idempotencyKeys] = useState(() => new IdempotencyKeyStore());
+
+  return useMutation(
+    createJobMutationOptions(client, queryClient, idempotencyKeys),
+  );
 }
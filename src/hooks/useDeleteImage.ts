@@ -0,0 +1,40 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { SvgrClient } from "../network/SvgrClient";
+import {
+  removeCachedImage,
+  restoreQueries,
+  snapshotQueries,
+} from "./cache-updates";
+import { svgrKeys } from "./query-keys";
+import { useSvgrClient } from "./provider";
+
+/**
+ * TanStack Query mutation hook for deleting an image.
+ *
+ * The image disappears from cached image listings as soon as `mutate` is
+ * called and comes back if the request fails. Its job lists are dropped
+ * from the cache, and image listings are refetched once the request settles.
+ *
+ * @param explicitClient - Overrides the client from {@link SvgrProvider}
+ * @returns The TanStack Query mutation result; `mutate` takes the image ID
+ */
+export function useDeleteImage(explicitClient?: SvgrClient) {
+  const client = useSvgrClient(explicitClient);
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (imageId: string) => client.deleteImage(imageId),
+    onMutate: async (imageId) => {
+      const snapshot = await snapshotQueries(queryClient, [
+        svgrKeys.images(),
+        svgrKeys.imageJobs(imageId),
+      ]);
+      removeCachedImage(queryClient, imageId);
+      return { snapshot };
+    },
+    onError: (_error, _imageId, context) =>
+      restoreQueries(queryClient, context?.snapshot),
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: svgrKeys.images() }),
+  });
+}
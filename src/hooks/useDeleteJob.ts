@@ -0,0 +1,45 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { SvgrClient } from "../network/SvgrClient";
+import {
+  removeCachedJob,
+  restoreQueries,
+  snapshotQueries,
+} from "./cache-updates";
+import { svgrKeys } from "./query-keys";
+import { useSvgrClient } from "./provider";
+
+/**
+ * TanStack Query mutation hook for deleting a job.
+ *
+ * The job disappears from cached job lists and image listings as soon as
+ * `mutate` is called and comes back if the request fails. Both are
+ * refetched once the request settles.
+ *
+ * @param explicitClient - Overrides the client from {@link SvgrProvider}
+ * @returns The TanStack Query mutation result; `mutate` takes the job ID
+ */
+export function useDeleteJob(explicitClient?: SvgrClient) {
+  const client = useSvgrClient(explicitClient);
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (jobId: string) => client.deleteJob(jobId),
+    onMutate: async (jobId) => {
+      const snapshot = await snapshotQueries(queryClient, [
+        svgrKeys.jobs(),
+        svgrKeys.images(),
+      ]);
+      removeCachedJob(queryClient, jobId);
+      return { snapshot };
+    },
+    onError: (_error, _jobId, context) =>
+      restoreQueries(queryClient, context?.snapshot),
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({
+          queryKey: [...svgrKeys.jobs(), "image"],
+        }),
+        queryClient.invalidateQueries({ queryKey: svgrKeys.images() }),
+      ]),
+  });
+}
@@ -1,11 +1,19 @@
 import { useQuery } from "@tanstack/react-query";
-import type { SvgrClient } from "../network/SvgrClient";
-import { svgrKeys } from "./query-keys";
+import type { SvgrListQuery } from "../network/pagination";
+import { imageJobsQueryOptions } from "./query-options";
+import {
+  splitClientArgs,
+  useSvgrClient,
+  useSvgrQueryOptions,
+  type WithOptionalClient,
+} from "./provider";
 
-export function useImageJobs(client: SvgrClient, imageId: string | null) {
-  return useQuery({
-    queryKey: svgrKeys.imageJobs(imageId ?? ""),
-    queryFn: () => client.getJobsForImage(imageId ?? ""),
-    enabled: !!imageId,
-  });
+export function useImageJobs(
+  ...args: WithOptionalClient<[imageId: string | null, query?: SvgrListQuery]>
+) {
+  const [explicitClient, [imageId, query]] = splitClientArgs(args);
+  const client = useSvgrClient(explicitClient);
+  return useQuery(
+    useSvgrQueryOptions(imageJobsQueryOptions(client, imageId, query)),
+  );
 }
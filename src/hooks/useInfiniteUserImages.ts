@@ -0,0 +1,66 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import type { SvgrListFilters } from "../network/pagination";
+import { infiniteUserImagesQueryOptions } from "./query-options";
+import {
+  splitClientArgs,
+  useSvgrClient,
+  useSvgrDefaults,
+  useSvgrQueryOptions,
+  type WithOptionalClient,
+} from "./provider";
+
+/**
+ * Options for {@link useInfiniteUserImages}.
+ *
+ * @interface InfiniteUserImagesOptions
+ * @property {number} [limit] - Images per page (the provider's `pageSize`, else the server default)
+ * @property {boolean} [enabled] - Whether to fetch (default: true)
+ */
+export interface InfiniteUserImagesOptions {
+  /** Images per page (the provider's `pageSize`, else the server default) */
+  limit?: number;
+  /** Whether to fetch (default: true) */
+  enabled?: boolean;
+}
+
+/**
+ * TanStack Query infinite-query hook for the user's images, one page per
+ * {@link SvgrClient.getUserImages} call.
+ *
+ * Pages are cached under `svgrKeys.imagePages(filters)`; `fetchNextPage`
+ * requests the page after the last one's `nextCursor`, and `hasNextPage`
+ * turns false on the last page.
+ *
+ * @param client - Overrides the client from {@link SvgrProvider} (optional)
+ * @param filters - Filters and sort order
+ * @param options - Page size and `enabled`
+ * @returns The TanStack Query infinite query result
+ *
+ * @example
+ * ```tsx
+ * const { data, fetchNextPage, hasNextPage } = useInfiniteUserImages(
+ *   client,
+ *   { status: "done", order: "desc" },
+ *   { limit: 50 },
+ * );
+ * const images = data?.pages.flatMap((page) => page.data ?? []) ?? [];
+ * ```
+ */
+export function useInfiniteUserImages(
+  ...args: WithOptionalClient<
+    [filters?: SvgrListFilters, options?: InfiniteUserImagesOptions]
+  >
+) {
+  const [explicitClient, [filters = {}, options = {}]] = splitClientArgs(args);
+  const client = useSvgrClient(explicitClient);
+  const { pageSize } = useSvgrDefaults();
+  const { limit = pageSize, enabled = true } = options;
+  const query = { ...filters, ...(limit !== undefined && { limit }) };
+
+  return useInfiniteQuery(
+    useSvgrQueryOptions({
+      ...infiniteUserImagesQueryOptions(client, query),
+      enabled,
+    }),
+  );
+}
@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { JobResult } from "@sudobility/svgr_types";
+import { createObjectUrl } from "../network/outputs";
+import { jobPreviewQueryOptions } from "./query-options";
+import {
+  splitClientArgs,
+  useSvgrClient,
+  useSvgrQueryOptions,
+  type WithOptionalClient,
+} from "./provider";
+
+/**
+ * TanStack Query hook for the JPEG preview of a job, with an object URL
+ * for displaying it.
+ *
+ * The Blob is cached under `svgrKeys.file(filename)` and not refetched
+ * while cached. Disabled until the job is `done`. The object URL is
+ * revoked when the preview changes and on unmount; it is `null` where
+ * `URL.createObjectURL` is missing (e.g. React Native).
+ *
+ * @param client - Overrides the client from {@link SvgrProvider} (optional)
+ * @param job - The job whose preview to fetch; disabled while `null`
+ * @returns The TanStack Query result plus `url`
+ *
+ * @example
+ * ```tsx
+ * const preview = useJobPreview(client, job);
+ * return preview.url ? <img src={preview.url} alt="" /> : null;
+ * ```
+ */
+export function useJobPreview(
+  ...args: WithOptionalClient<[job: JobResult | null]>
+) {
+  const [explicitClient, [job]] = splitClientArgs(args);
+  const client = useSvgrClient(explicitClient);
+  const query = useQuery(
+    useSvgrQueryOptions(jobPreviewQueryOptions(client, job)),
+  );
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!query.data || typeof URL.createObjectURL !== "function") {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = createObjectUrl(query.data);
+    setUrl(objectUrl.url);
+    return objectUrl.revoke;
+  }, [query.data]);
+
+  return { ...query, url };
+}
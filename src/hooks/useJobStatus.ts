@@ -1,16 +1,66 @@
-import { useQuery } from "@tanstack/react-query";
-import type { SvgrClient } from "../network/SvgrClient";
-import { svgrKeys } from "./query-keys";
+import { useEffect, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  DEFAULT_JOB_TIMEOUT_MS,
+  getPollInterval,
+  isTerminalJobStatus,
+  type JobPollingOptions,
+} from "../network/polling";
+import { updateCachedJobLists } from "./cache-updates";
+import { jobStatusQueryOptions } from "./query-options";
+import {
+  splitClientArgs,
+  useSvgrClient,
+  useSvgrDefaults,
+  useSvgrQueryOptions,
+  type WithOptionalClient,
+} from "./provider";
+
+/**
+ * TanStack Query hook that polls a conversion job until it finishes.
+ *
+ * Refetches with the same exponential backoff as {@link SvgrClient.waitForJob}
+ * and stops once the job is `done` or `error`, or after `timeoutMs`.
+ * In-flight requests are cancelled when the query is (on unmount or when
+ * `jobId` changes). Every fetched state is also written into the job's
+ * image: its `svgrKeys.imageJobs` lists (filtered ones too) and its entry
+ * in cached image listings, so galleries show the status without
+ * refetching.
+ *
+ * @param client - Overrides the client from {@link SvgrProvider} (optional)
+ * @param jobId - The job to watch; polling is disabled while `null`
+ * @param options - Polling tuning (`intervalMs`, `maxIntervalMs`, `timeoutMs`), merged over the provider's `polling` defaults
+ */
+export function useJobStatus(
+  ...args: WithOptionalClient<
+    [jobId: string | null, options?: JobPollingOptions]
+  >
+) {
+  const [explicitClient, [jobId, overrides]] = splitClientArgs(args);
+  const client = useSvgrClient(explicitClient);
+  const options = { ...useSvgrDefaults().polling, ...overrides };
+  const queryClient = useQueryClient();
+  const startedAt = useRef(Date.now());
+  useEffect(() => {
+    startedAt.current = Date.now();
+  }, [jobId]);
 
-export function useJobStatus(client: SvgrClient, jobId: string | null) {
   return useQuery({
-    queryKey: svgrKeys.job(jobId ?? ""),
-    queryFn: () => client.getJobStatus(jobId ?? ""),
-    enabled: !!jobId,
+    ...useSvgrQueryOptions(jobStatusQueryOptions(client, jobId)),
+    queryFn: async ({ signal }) => {
+      const response = await client.getJobStatus(jobId ?? "", { signal });
+      if (response.data) updateCachedJobLists(queryClient, response.data);
+      return response;
+    },
     refetchInterval: (query) => {
       const status = query.state.data?.data?.status;
-      if (status === "done" || status === "error") return false;
-      return 2500;
+      if (isTerminalJobStatus(status)) return false;
+      const timeoutMs = options.timeoutMs ?? DEFAULT_JOB_TIMEOUT_MS;
+      if (Date.now() - startedAt.current >= timeoutMs) return false;
+      return getPollInterval(
+        Math.max(0, query.state.dataUpdateCount - 1),
+        options,
+      );
     },
   });
 }
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { combineSubscriptionModes } from "./useJobSubscription";
+
+describe("combineSubscriptionModes", () => {
+  it("is null without subscriptions", () => {
+    expect(combineSubscriptionModes({})).toBeNull();
+  });
+
+  it("reports each subscription's own mode, not the last one to change", () => {
+    expect(combineSubscriptionModes({ job: "stream", image: "polling" })).toBe(
+      "polling",
+    );
+    expect(combineSubscriptionModes({ job: "polling", image: "stream" })).toBe(
+      "polling",
+    );
+    expect(
+      combineSubscriptionModes({ job: "stream", image: "connecting" }),
+    ).toBe("connecting");
+    expect(combineSubscriptionModes({ job: "stream", image: "stream" })).toBe(
+      "stream",
+    );
+    expect(combineSubscriptionModes({ image: "stream" })).toBe("stream");
+  });
+});
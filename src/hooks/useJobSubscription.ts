@@ -0,0 +1,131 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { JobResult } from "@sudobility/svgr_types";
+import type {
+  JobSubscriptionMode,
+  JobSubscriptionOptions,
+} from "../network/subscriptions";
+import { applyJobUpdate } from "./cache-updates";
+import {
+  splitClientArgs,
+  useSvgrClient,
+  useSvgrDefaults,
+  type WithOptionalClient,
+} from "./provider";
+
+/**
+ * What {@link useJobSubscription} watches: a single job, every job of an
+ * image, or both. `null` or missing ids are not subscribed.
+ *
+ * @interface JobSubscriptionTarget
+ * @property {string | null} [jobId] - Job to watch until it finishes
+ * @property {string | null} [imageId] - Image whose jobs to watch
+ */
+export interface JobSubscriptionTarget {
+  /** Job to watch until it finishes */
+  jobId?: string | null;
+  /** Image whose jobs to watch */
+  imageId?: string | null;
+}
+
+/**
+ * The mode of each subscription started by {@link useJobSubscription}.
+ *
+ * @interface JobSubscriptionModes
+ * @property {JobSubscriptionMode} [job] - Mode of the `jobId` subscription
+ * @property {JobSubscriptionMode} [image] - Mode of the `imageId` subscription
+ */
+export interface JobSubscriptionModes {
+  /** Mode of the `jobId` subscription */
+  job?: JobSubscriptionMode;
+  /** Mode of the `imageId` subscription */
+  image?: JobSubscriptionMode;
+}
+
+/**
+ * Summarize the modes of several subscriptions: `polling` when any of them
+ * polls, `connecting` while any is still connecting, `stream` once all
+ * stream, and `null` when there are none.
+ */
+export function combineSubscriptionModes(
+  modes: JobSubscriptionModes,
+): JobSubscriptionMode | null {
+  const values = [modes.job, modes.image].filter(
+    (mode): mode is JobSubscriptionMode => mode !== undefined,
+  );
+  if (values.length === 0) return null;
+  if (values.includes("polling")) return "polling";
+  if (values.includes("connecting")) return "connecting";
+  return "stream";
+}
+
+/**
+ * Hook that keeps job queries up to date from the job event stream.
+ *
+ * Subscribes through {@link SvgrClient.subscribeJob} and
+ * {@link SvgrClient.subscribeJobs} (stream with polling fallback) and writes
+ * every update into the `svgrKeys.job` and `svgrKeys.imageJobs` caches, so
+ * {@link useJobStatus} and {@link useImageJobs} render live data without
+ * polling themselves. Subscriptions end on unmount or when the ids change.
+ *
+ * @param client - Overrides the client from {@link SvgrProvider} (optional)
+ * @param target - The job and/or image to watch
+ * @param options - Reconnect and polling tuning, merged over the provider's `subscription` defaults (`signal` and callbacks are managed by the hook)
+ * @returns The combined transport `mode` (`null` when idle; see {@link combineSubscriptionModes}), the mode of each subscription in `modes`, and the last `error`
+ *
+ * @example
+ * ```tsx
+ * useJobSubscription(client, { imageId });
+ * const { data } = useImageJobs(client, imageId);
+ * ```
+ */
+export function useJobSubscription(
+  ...args: WithOptionalClient<
+    [
+      target: JobSubscriptionTarget,
+      options?: Omit<
+        JobSubscriptionOptions,
+        "signal" | "onModeChange" | "onError"
+      >,
+    ]
+  >
+) {
+  const [explicitClient, [target, overrides]] = splitClientArgs(args);
+  const client = useSvgrClient(explicitClient);
+  const options = { ...useSvgrDefaults().subscription, ...overrides };
+  const queryClient = useQueryClient();
+  const [modes, setModes] = useState<JobSubscriptionModes>({});
+  const [error, setError] = useState<unknown>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const { jobId, imageId } = target;
+
+  useEffect(() => {
+    if (!jobId && !imageId) return;
+    const controller = new AbortController();
+    const subscriptionOptions = (
+      key: keyof JobSubscriptionModes,
+    ): JobSubscriptionOptions => ({
+      ...optionsRef.current,
+      signal: controller.signal,
+      onModeChange: (mode) => setModes((modes) => ({ ...modes, [key]: mode })),
+      onError: setError,
+    });
+    const onUpdate = (job: JobResult) => {
+      setError(null);
+      applyJobUpdate(queryClient, job);
+    };
+    if (jobId) {
+      client.subscribeJob(jobId, onUpdate, subscriptionOptions("job"));
+    }
+    if (imageId) {
+      client.subscribeJobs(imageId, onUpdate, subscriptionOptions("image"));
+    }
+    return () => {
+      controller.abort();
+      setModes({});
+    };
+  }, [client, queryClient, jobId, imageId]);
+
+  return { mode: combineSubscriptionModes(modes), modes, error };
+}
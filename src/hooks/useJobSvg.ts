@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import type { JobResult } from "@sudobility/svgr_types";
+import { jobSvgQueryOptions } from "./query-options";
+import {
+  splitClientArgs,
+  useSvgrClient,
+  useSvgrQueryOptions,
+  type WithOptionalClient,
+} from "./provider";
+
+/**
+ * TanStack Query hook for the SVG text produced by a job.
+ *
+ * Cached under `svgrKeys.file(filename)`; job outputs never change, so the
+ * text is not refetched while cached. Disabled until the job is `done`.
+ *
+ * @param client - Overrides the client from {@link SvgrProvider} (optional)
+ * @param job - The job whose SVG to fetch; disabled while `null`
+ */
+export function useJobSvg(
+  ...args: WithOptionalClient<[job: JobResult | null]>
+) {
+  const [explicitClient, [job]] = splitClientArgs(args);
+  const client = useSvgrClient(explicitClient);
+  return useQuery(useSvgrQueryOptions(jobSvgQueryOptions(client, job)));
+}
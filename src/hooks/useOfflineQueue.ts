@@ -0,0 +1,71 @@
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { SvgrOfflineQueue } from "../network/offline";
+import { applyJobUpdate } from "./cache-updates";
+import { svgrKeys } from "./query-keys";
+
+/**
+ * Hook that renders the state of an {@link SvgrOfflineQueue}.
+ *
+ * Starts the queue (loading stored items and replaying them when online);
+ * the queue keeps running after unmount, so create it once per app. Items
+ * that succeed while mounted are written into the job caches and refresh
+ * the user's image list.
+ *
+ * @param queue - The app's offline queue
+ * @returns The items, the connectivity, the number of unfinished items, and the queue's actions
+ *
+ * @example
+ * ```tsx
+ * const { items, online, pending, enqueueUpload } = useOfflineQueue(queue);
+ *
+ * await enqueueUpload(file, { job: { quality: 7 } });
+ * {!online && <Text>{pending} conversions will start when you are back online</Text>}
+ * ```
+ */
+export function useOfflineQueue(queue: SvgrOfflineQueue) {
+  const queryClient = useQueryClient();
+  const [subscribe, getState] = useMemo(
+    () => [queue.subscribe.bind(queue), queue.getState.bind(queue)] as const,
+    [queue],
+  );
+  const state = useSyncExternalStore(subscribe, getState, getState);
+
+  useEffect(() => {
+    void queue.start();
+    const handled = new Set(
+      queue
+        .getState()
+        .items.filter((item) => item.status === "succeeded")
+        .map((item) => item.id),
+    );
+    return queue.subscribe(() => {
+      for (const item of queue.getState().items) {
+        if (item.status !== "succeeded" || handled.has(item.id)) continue;
+        handled.add(item.id);
+        if (item.job) applyJobUpdate(queryClient, item.job);
+        if (item.image) {
+          queryClient.invalidateQueries({ queryKey: svgrKeys.images() });
+        }
+      }
+    });
+  }, [queue, queryClient]);
+
+  const actions = useMemo(
+    () => ({
+      enqueueUpload: queue.enqueueUpload.bind(queue),
+      enqueueJob: queue.enqueueJob.bind(queue),
+      retry: queue.retry.bind(queue),
+      remove: queue.remove.bind(queue),
+      removeCompleted: queue.removeCompleted.bind(queue),
+      flush: queue.flush.bind(queue),
+    }),
+    [queue],
+  );
+
+  const pending = state.items.filter(
+    (item) => item.status === "pending" || item.status === "running",
+  ).length;
+
+  return { ...state, pending, ...actions };
+}
@@ -0,0 +1,49 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { RerunJobOverrides, SvgrClient } from "../network/SvgrClient";
+import { IdempotencyKeyStore } from "../utils/idempotency";
+import { applyJobUpdate } from "./cache-updates";
+import { svgrKeys } from "./query-keys";
+import { useSvgrClient } from "./provider";
+
+/**
+ * Parameters for the {@link useRerunJob} mutation hook: the job to re-run,
+ * the settings to change and an optional `Idempotency-Key`.
+ */
+export interface RerunJobMutationParams {
+  /** The job whose image and settings to reuse */
+  jobId: string;
+  /** Conversion parameters that differ from the original job */
+  overrides?: RerunJobOverrides;
+  /** `Idempotency-Key` for the new job. Default: generated per `mutate` call and reused by its retries */
+  idempotencyKey?: string;
+}
+
+/**
+ * TanStack Query mutation hook for converting a job's image again as a new
+ * job, optionally with different settings.
+ *
+ * The new job is added to the cache (`svgrKeys.job` and its image's job
+ * list) and image listings are refetched. Keys are handled like
+ * {@link useCreateJob}.
+ *
+ * @param explicitClient - Overrides the client from {@link SvgrProvider}
+ * @returns The TanStack Query mutation result
+ */
+export function useRerunJob(explicitClient?: SvgrClient) {
+  const client = useSvgrClient(explicitClient);
+  const queryClient = useQueryClient();
+  const [idempotencyKeys] = useState(() => new IdempotencyKeyStore());
+
+  return useMutation({
+    mutationFn: (params: RerunJobMutationParams) =>
+      client.rerunJob(params.jobId, params.overrides, {
+        idempotencyKey: params.idempotencyKey ?? idempotencyKeys.get(params),
+      }),
+    onSuccess: (response) => {
+      if (response.data) applyJobUpdate(queryClient, response.data);
+      return queryClient.invalidateQueries({ queryKey: svgrKeys.images() });
+    },
+    onSettled: (_data, _error, params) => idempotencyKeys.release(params),
+  });
+}
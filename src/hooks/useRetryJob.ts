@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { SvgrClient } from "../network/SvgrClient";
+import { IdempotencyKeyStore } from "../utils/idempotency";
+import { applyJobUpdate } from "./cache-updates";
+import { svgrKeys } from "./query-keys";
+import { useSvgrClient } from "./provider";
+
+/**
+ * Parameters for the {@link useRetryJob} mutation hook: the job to retry
+ * plus an optional `Idempotency-Key`.
+ */
+export interface RetryJobMutationParams {
+  /** The failed job to run again */
+  jobId: string;
+  /** `Idempotency-Key` for this retry. Default: generated per `mutate` call and reused by its retries */
+  idempotencyKey?: string;
+}
+
+/**
+ * TanStack Query mutation hook for running a failed job again with the
+ * same settings.
+ *
+ * The re-queued job is written to the cache (`svgrKeys.job` and its
+ * image's job list) and image listings are refetched. Keys are handled
+ * like {@link useCreateJob}.
+ *
+ * @param explicitClient - Overrides the client from {@link SvgrProvider}
+ * @returns The TanStack Query mutation result
+ */
+export function useRetryJob(explicitClient?: SvgrClient) {
+  const client = useSvgrClient(explicitClient);
+  const queryClient = useQueryClient();
+  const [idempotencyKeys] = useState(() => new IdempotencyKeyStore());
+
+  return useMutation({
+    mutationFn: (params: RetryJobMutationParams) =>
+      client.retryJob(params.jobId, {
+        idempotencyKey: params.idempotencyKey ?? idempotencyKeys.get(params),
+      }),
+    onSuccess: (response) => {
+      if (response.data) applyJobUpdate(queryClient, response.data);
+      return queryClient.invalidateQueries({ queryKey: svgrKeys.images() });
+    },
+    onSettled: (_data, _error, params) => idempotencyKeys.release(params),
+  });
+}
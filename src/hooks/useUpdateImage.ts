@@ -0,0 +1,47 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { SvgrClient, UpdateImageRequest } from "../network/SvgrClient";
+import {
+  patchCachedImage,
+  restoreQueries,
+  snapshotQueries,
+} from "./cache-updates";
+import { svgrKeys } from "./query-keys";
+import { useSvgrClient } from "./provider";
+
+/**
+ * Parameters for the {@link useUpdateImage} mutation hook: the image to
+ * update plus the fields to change.
+ */
+export type UpdateImageMutationParams = UpdateImageRequest & {
+  /** The image to update */
+  imageId: string;
+};
+
+/**
+ * TanStack Query mutation hook for renaming an image or replacing its tags.
+ *
+ * Cached image listings show the new name and tags as soon as `mutate` is
+ * called and revert if the request fails. Image listings are refetched
+ * once the request settles.
+ *
+ * @param explicitClient - Overrides the client from {@link SvgrProvider}
+ * @returns The TanStack Query mutation result
+ */
+export function useUpdateImage(explicitClient?: SvgrClient) {
+  const client = useSvgrClient(explicitClient);
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ imageId, ...request }: UpdateImageMutationParams) =>
+      client.updateImage(imageId, request),
+    onMutate: async ({ imageId, ...request }) => {
+      const snapshot = await snapshotQueries(queryClient, [svgrKeys.images()]);
+      patchCachedImage(queryClient, imageId, request);
+      return { snapshot };
+    },
+    onError: (_error, _params, context) =>
+      restoreQueries(queryClient, context?.snapshot),
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: svgrKeys.images() }),
+  });
+}
@@ -0,0 +1,137 @@
+import { useCallback, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { CreateJobRequest } from "@sudobility/svgr_types";
+import type {
+  UploadAndConvertOptions,
+  UploadAndConvertStage,
+  UploadImageInput,
+} from "../network/SvgrClient";
+import { IdempotencyKeyStore } from "../utils/idempotency";
+import {
+  applyJobUpdate,
+  createPlaceholderImage,
+  insertCachedImage,
+  patchCachedImage,
+  restoreQueries,
+  snapshotQueries,
+} from "./cache-updates";
+import { svgrKeys } from "./query-keys";
+import {
+  splitClientArgs,
+  useSvgrClient,
+  useSvgrDefaults,
+  type WithOptionalClient,
+} from "./provider";
+
+/**
+ * Parameters for the {@link useUploadAndConvert} mutation hook.
+ *
+ * @interface UploadAndConvertMutationParams
+ * @property {UploadImageInput} file - The image to upload
+ * @property {object} [jobOptions] - Conversion parameters for the job
+ * @property {string} [idempotencyKey] - Base `Idempotency-Key` for the pipeline's POST requests
+ */
+export interface UploadAndConvertMutationParams {
+  /** The image to upload */
+  file: UploadImageInput;
+  /** Conversion parameters for the job (everything but `imageId`) */
+  jobOptions?: Omit<CreateJobRequest, "imageId">;
+  /** Base `Idempotency-Key` for the pipeline. Default: generated per `mutate` call and reused by its retries */
+  idempotencyKey?: string;
+}
+
+/**
+ * TanStack Query mutation hook for the upload → job → poll → download pipeline.
+ *
+ * Wraps {@link SvgrClient.uploadAndConvert} and additionally exposes the
+ * current pipeline `stage` and a `cancel` function that aborts the running
+ * pipeline. A placeholder image is added to the cached image listings it
+ * belongs in as soon as `mutate` is called and removed if the pipeline fails (image listings
+ * are then refetched, as the upload may have succeeded); on success it
+ * takes the finished job's image id and job, and the user's image list and
+ * the image's job list are invalidated so galleries pick up the new result.
+ *
+ * @param client - Overrides the client from {@link SvgrProvider} (optional)
+ * @param options - Polling tuning forwarded to {@link SvgrClient.waitForJob}, merged over the provider's `polling` defaults
+ * @returns The mutation result plus `stage` (`null` when idle) and `cancel`
+ *
+ * @example
+ * ```tsx
+ * const pipeline = useUploadAndConvert(client);
+ *
+ * <button onClick={() => pipeline.mutate({ file, jobOptions: { quality: 7 } })}>
+ *   Convert
+ * </button>;
+ * {pipeline.stage && <p>{pipeline.stage}…</p>}
+ * {pipeline.isPending && <button onClick={pipeline.cancel}>Cancel</button>}
+ * ```
+ */
+export function useUploadAndConvert(
+  ...args: WithOptionalClient<
+    [options?: Omit<UploadAndConvertOptions, "signal" | "onStage">]
+  >
+) {
+  const [explicitClient, [overrides]] = splitClientArgs(args);
+  const client = useSvgrClient(explicitClient);
+  const options = { ...useSvgrDefaults().polling, ...overrides };
+  const queryClient = useQueryClient();
+  const [stage, setStage] = useState<UploadAndConvertStage | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const [idempotencyKeys] = useState(() => new IdempotencyKeyStore());
+
+  const mutation = useMutation({
+    mutationFn: (params: UploadAndConvertMutationParams) => {
+      const {
+        file,
+        jobOptions,
+        idempotencyKey = idempotencyKeys.get(params),
+      } = params;
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      return client
+        .uploadAndConvert(file, jobOptions, {
+          ...options,
+          signal: controller.signal,
+          idempotencyKey,
+          onStage: setStage,
+        })
+        .finally(() => {
+          // A newer mutate may have replaced this run's controller already
+          if (controllerRef.current === controller) {
+            controllerRef.current = null;
+          }
+        });
+    },
+    onMutate: async ({ file }) => {
+      const snapshot = await snapshotQueries(queryClient, [svgrKeys.images()]);
+      const placeholder = createPlaceholderImage(file);
+      insertCachedImage(queryClient, placeholder);
+      return { snapshot, placeholderId: placeholder.imageId };
+    },
+    onSuccess: ({ job }, _params, context) => {
+      patchCachedImage(queryClient, context.placeholderId, {
+        imageId: job.imageId,
+      });
+      applyJobUpdate(queryClient, job);
+      queryClient.invalidateQueries({ queryKey: svgrKeys.images() });
+      queryClient.invalidateQueries({
+        queryKey: svgrKeys.imageJobs(job.imageId),
+      });
+    },
+    onError: (_error, _params, context) => {
+      restoreQueries(queryClient, context?.snapshot);
+      // The image may have been uploaded before a later stage failed
+      queryClient.invalidateQueries({ queryKey: svgrKeys.images() });
+    },
+    onSettled: (_data, _error, params) => idempotencyKeys.release(params),
+  });
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setStage(null);
+  }, []);
+
+  return { ...mutation, stage, cancel };
+}
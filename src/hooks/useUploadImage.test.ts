@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from "vitest";
+import { MutationObserver, QueryClient } from "@tanstack/react-query";
+import { MockNetworkClient } from "@sudobility/di/mocks";
+import type { BaseResponse, ImageUploadResult } from "@sudobility/svgr_types";
+import { SvgrClient } from "../network/SvgrClient";
+import { svgrKeys } from "./query-keys";
+import { uploadImageMutationOptions } from "./useUploadImage";
+
+const file = {
+  buffer: new ArrayBuffer(0),
+  filename: "logo.png",
+  mimeType: "image/png",
+};
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+function imageIds(queryClient: QueryClient) {
+  return queryClient
+    .getQueryData<{ data: Array<{ imageId: string }> }>(svgrKeys.images())
+    ?.data.map((image) => image.imageId);
+}
+
+function setup() {
+  const queryClient = new QueryClient();
+  const original = { success: true, data: [{ imageId: "img-1", jobs: [] }] };
+  queryClient.setQueryData(svgrKeys.images(), original);
+  const client = new SvgrClient({
+    baseUrl: "http://localhost:3001",
+    networkClient: new MockNetworkClient(),
+  });
+  const upload = deferred<BaseResponse<ImageUploadResult>>();
+  vi.spyOn(client, "uploadImage").mockReturnValue(upload.promise);
+  const observer = new MutationObserver(
+    queryClient,
+    uploadImageMutationOptions(client, queryClient),
+  );
+  return { queryClient, original, upload, observer };
+}
+
+describe("uploadImageMutationOptions", () => {
+  it("lists a placeholder while uploading and rolls it back on failure", async () => {
+    const { queryClient, original, upload, observer } = setup();
+
+    const result = observer.mutate(file);
+    await vi.waitFor(() => expect(imageIds(queryClient)).toHaveLength(2));
+    expect(imageIds(queryClient)?.[0]).toMatch(/^optimistic-/);
+
+    upload.reject(new Error("Upload failed"));
+    await expect(result).rejects.toThrow("Upload failed");
+    expect(queryClient.getQueryData(svgrKeys.images())).toEqual(original);
+  });
+
+  it("gives the placeholder the uploaded image's id on success", async () => {
+    const { queryClient, upload, observer } = setup();
+
+    const result = observer.mutate(file);
+    await vi.waitFor(() => expect(imageIds(queryClient)).toHaveLength(2));
+    upload.resolve({
+      success: true,
+      data: { imageId: "img-2" } as ImageUploadResult,
+      timestamp: new Date().toISOString(),
+    });
+
+    await result;
+    expect(imageIds(queryClient)).toEqual(["img-2", "img-1"]);
+  });
+});
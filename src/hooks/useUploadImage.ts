@@ -1,10 +1,104 @@
-import { useMutation } from "@tanstack/react-query";
-import type { SvgrClient } from "../network/SvgrClient";
-
-export function useUploadImage(client: SvgrClient) {
-  return useMutation({
-    mutationFn: (
-      file: File | { buffer: ArrayBuffer; filename: string; mimeType: string },
-    ) => client.uploadImage(file),
-  });
+import { useState } from "react";
+import {
+  type QueryClient,
+  useMutation,
+  type UseMutationOptions,
+  useQueryClient,
+} from "@tanstack/react-query";
+import type { BaseResponse, ImageUploadResult } from "@sudobility/svgr_types";
+import type { SvgrClient, UploadImageInput } from "../network/SvgrClient";
+import type { UploadProgress } from "../network/upload";
+import { IdempotencyKeyStore } from "../utils/idempotency";
+import {
+  createPlaceholderImage,
+  insertCachedImage,
+  patchCachedImage,
+  type PlaceholderContext,
+  restoreQueries,
+  snapshotQueries,
+} from "./cache-updates";
+import { svgrKeys } from "./query-keys";
+import { useSvgrClient } from "./provider";
+
+/**
+ * Mutation options of {@link useUploadImage}: the upload and its optimistic
+ * updates of `queryClient`, for `useMutation` or a `MutationObserver`.
+ *
+ * @param client - The client to upload with
+ * @param queryClient - The query client whose image listings to update
+ * @param idempotencyKeys - Keys per `mutate` call, reused by its retries
+ * @param setProgress - Called with each progress event, and `null` when an upload starts
+ */
+export function uploadImageMutationOptions(
+  client: SvgrClient,
+  queryClient: QueryClient,
+  idempotencyKeys: IdempotencyKeyStore = new IdempotencyKeyStore(),
+  setProgress: (progress: UploadProgress | null) => void = () => undefined,
+): UseMutationOptions<
+  BaseResponse<ImageUploadResult>,
+  Error,
+  UploadImageInput,
+  PlaceholderContext
+> {
+  return {
+    mutationFn: (file) => {
+      setProgress(null);
+      return client.uploadImage(file, {
+        idempotencyKey: idempotencyKeys.get(file),
+        onUploadProgress: (loaded, total) => setProgress({ loaded, total }),
+      });
+    },
+    onMutate: async (file) => {
+      const snapshot = await snapshotQueries(queryClient, [svgrKeys.images()]);
+      const placeholder = createPlaceholderImage(file);
+      insertCachedImage(queryClient, placeholder);
+      return { snapshot, placeholderId: placeholder.imageId };
+    },
+    onSuccess: (response, _file, context) => {
+      if (response.data) {
+        patchCachedImage(queryClient, context.placeholderId, {
+          imageId: response.data.imageId,
+        });
+      }
+    },
+    onError: (_error, _file, context) =>
+      restoreQueries(queryClient, context?.snapshot),
+    onSettled: (_data, _error, file) => {
+      idempotencyKeys.release(file);
+      return queryClient.invalidateQueries({ queryKey: svgrKeys.images() });
+    },
+  };
+}
+
+/**
+ * TanStack Query mutation hook for uploading an image.
+ *
+ * Wraps {@link SvgrClient.uploadImage} and exposes the upload `progress`
+ * (`null` until the first progress event of the current upload). Each
+ * `mutate` call gets its own `Idempotency-Key`, reused by its retries.
+ *
+ * A placeholder image (with an `optimistic-` id and no jobs) is added to
+ * the cached image listings it belongs in as soon as `mutate` is called,
+ * takes the uploaded image's id on success and is removed if the upload
+ * fails. Image listings are refetched once the upload settles.
+ *
+ * @param explicitClient - Overrides the client from {@link SvgrProvider}
+ * @returns The mutation result plus `progress`
+ */
+export function useUploadImage(explicitClient?: SvgrClient) {
+  const client = useSvgrClient(explicitClient);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const queryClient = useQueryClient();
+  const [idempotencyKeys] = useState(() => new IdempotencyKeyStore());
+
+  const mutation = useMutation(
+    uploadImageMutationOptions(
+      client,
+      queryClient,
+      idempotencyKeys,
+      setProgress,
+    ),
+  );
+
+  return { ...mutation, progress };
 }
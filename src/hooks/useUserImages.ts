@@ -1,11 +1,19 @@
 import { useQuery } from "@tanstack/react-query";
-import type { SvgrClient } from "../network/SvgrClient";
-import { svgrKeys } from "./query-keys";
+import type { SvgrListQuery } from "../network/pagination";
+import { userImagesQueryOptions } from "./query-options";
+import {
+  splitClientArgs,
+  useSvgrClient,
+  useSvgrQueryOptions,
+  type WithOptionalClient,
+} from "./provider";
 
-export function useUserImages(client: SvgrClient, enabled = true) {
-  return useQuery({
-    queryKey: [...svgrKeys.all, "images"] as const,
-    queryFn: () => client.getUserImages(),
-    enabled,
-  });
+export function useUserImages(
+  ...args: WithOptionalClient<[enabled?: boolean, query?: SvgrListQuery]>
+) {
+  const [explicitClient, [enabled = true, query]] = splitClientArgs(args);
+  const client = useSvgrClient(explicitClient);
+  return useQuery(
+    useSvgrQueryOptions({ ...userImagesQueryOptions(client, query), enabled }),
+  );
 }
@@ -0,0 +1,185 @@
+import { decodeBmp } from "../utils/bmp";
+import { decodeGif } from "../utils/gif";
+import { decodePng, encodePng, type RgbaImage } from "../utils/png";
+
+/**
+ * Decodes and encodes images for {@link preprocessImage}. Implement it to
+ * use a native or WASM codec (e.g. `sharp` in Node, `expo-image-manipulator`
+ * in React Native).
+ *
+ * Decoders receive files without EXIF data and must not rotate them;
+ * orientation is applied by the caller.
+ *
+ * @interface SvgrImageBackend
+ */
+export interface SvgrImageBackend {
+  /** Whether {@link decode} supports files of `mimeType` */
+  canDecode(mimeType: string): boolean;
+  /**
+   * Decode an image file to pixels.
+   *
+   * @param bytes - The file
+   * @param mimeType - The file's format
+   */
+  decode(bytes: Uint8Array, mimeType: string): Promise<RgbaImage>;
+  /** Whether {@link encode} can write `mimeType` */
+  canEncode(mimeType: string): boolean;
+  /**
+   * Encode pixels as an image file.
+   *
+   * @param image - The pixels
+   * @param mimeType - The format to write
+   * @param quality - Quality from 0 to 1 for lossy formats
+   */
+  encode(
+    image: RgbaImage,
+    mimeType: string,
+    quality?: number,
+  ): Promise<Uint8Array>;
+}
+
+/**
+ * {@link SvgrImageBackend} in plain TypeScript: decodes PNG, BMP and GIF
+ * and encodes PNG. Works everywhere, including Node and React Native, but
+ * cannot decode JPEG or WebP.
+ */
+export class PureImageBackend implements SvgrImageBackend {
+  private static readonly decoders: Record<
+    string,
+    (bytes: Uint8Array) => RgbaImage
+  > = {
+    "image/png": decodePng,
+    "image/bmp": decodeBmp,
+    "image/gif": decodeGif,
+  };
+
+  canDecode(mimeType: string): boolean {
+    return mimeType in PureImageBackend.decoders;
+  }
+
+  async decode(bytes: Uint8Array, mimeType: string): Promise<RgbaImage> {
+    const decoder = PureImageBackend.decoders[mimeType];
+    if (!decoder) throw new Error(`Cannot decode ${mimeType} images`);
+    return decoder(bytes);
+  }
+
+  canEncode(mimeType: string): boolean {
+    return mimeType === "image/png";
+  }
+
+  async encode(image: RgbaImage, mimeType: string): Promise<Uint8Array> {
+    if (mimeType !== "image/png") {
+      throw new Error(`Cannot encode ${mimeType} images`);
+    }
+    return encodePng(image);
+  }
+}
+
+/** A canvas that can be drawn on and exported, on or off screen */
+type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = globalThis.document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function context2d(canvas: AnyCanvas) {
+  const context = canvas.getContext("2d") as
+    CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) throw new Error("Canvas 2D context is not available");
+  return context;
+}
+
+/**
+ * {@link SvgrImageBackend} for browsers, built on `createImageBitmap` and a
+ * canvas: decodes every format the browser supports and encodes PNG, JPEG
+ * and (where supported) WebP.
+ */
+export class CanvasImageBackend implements SvgrImageBackend {
+  /** Whether the environment has `createImageBitmap` and a canvas */
+  static isSupported(): boolean {
+    return (
+      typeof globalThis.createImageBitmap === "function" &&
+      (typeof OffscreenCanvas !== "undefined" ||
+        typeof globalThis.document !== "undefined")
+    );
+  }
+
+  canDecode(mimeType: string): boolean {
+    return mimeType.startsWith("image/");
+  }
+
+  async decode(bytes: Uint8Array, mimeType: string): Promise<RgbaImage> {
+    const bitmap = await globalThis.createImageBitmap(
+      new Blob([bytes as BlobPart], { type: mimeType }),
+    );
+    try {
+      const { width, height } = bitmap;
+      const context = context2d(createCanvas(width, height));
+      context.drawImage(bitmap, 0, 0);
+      const { data } = context.getImageData(0, 0, width, height);
+      return {
+        width,
+        height,
+        data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+      };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  canEncode(mimeType: string): boolean {
+    return ["image/png", "image/jpeg", "image/webp"].includes(mimeType);
+  }
+
+  async encode(
+    image: RgbaImage,
+    mimeType: string,
+    quality?: number,
+  ): Promise<Uint8Array> {
+    const canvas = createCanvas(image.width, image.height);
+    const pixels = new Uint8ClampedArray(image.width * image.height * 4);
+    pixels.set(image.data);
+    context2d(canvas).putImageData(
+      new ImageData(pixels, image.width, image.height),
+      0,
+      0,
+    );
+    const blob =
+      "convertToBlob" in canvas
+        ? await canvas.convertToBlob({
+            type: mimeType,
+            ...(quality !== undefined && { quality }),
+          })
+        : await new Promise<Blob>((resolve, reject) =>
+            canvas.toBlob(
+              (result) =>
+                result
+                  ? resolve(result)
+                  : reject(new Error("The canvas could not be exported")),
+              mimeType,
+              quality,
+            ),
+          );
+    // Browsers fall back to PNG for formats they cannot write
+    if (blob.type !== mimeType) {
+      throw new Error(`Cannot encode ${mimeType} images`);
+    }
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+}
+
+/**
+ * The backend used when none is given: {@link CanvasImageBackend} where
+ * supported, otherwise {@link PureImageBackend}.
+ */
+export function getDefaultImageBackend(): SvgrImageBackend {
+  return CanvasImageBackend.isSupported()
+    ? new CanvasImageBackend()
+    : new PureImageBackend();
+}
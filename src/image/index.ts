@@ -0,0 +1,31 @@
+export {
+  preprocessImage,
+  DEFAULT_MAX_DIMENSION,
+  type SvgrPreprocessOptions,
+  type SvgrPreprocessResult,
+  type SvgrPreprocessStep,
+} from "./preprocess";
+export {
+  CanvasImageBackend,
+  getDefaultImageBackend,
+  PureImageBackend,
+  type SvgrImageBackend,
+} from "./backends";
+export {
+  readExifOrientation,
+  readImageInfo,
+  stripMetadata,
+  type ExifOrientation,
+  type ImageInfo,
+} from "./metadata";
+export { orientImage, resizeImage } from "./transform";
+export {
+  analyzeImage,
+  recommendPreset,
+  type SvgrImageAnalysis,
+  type SvgrPresetRecommendation,
+  type SvgrRecommendPresetOptions,
+} from "./recommend";
+export { decodeBmp } from "../utils/bmp";
+export { decodeGif } from "../utils/gif";
+export { decodePng, encodePng, type RgbaImage } from "../utils/png";
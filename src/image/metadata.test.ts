@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { encodePng, readPngChunks, writePngChunks } from "../utils/png";
+import { readExifOrientation, readImageInfo, stripMetadata } from "./metadata";
+
+/** Big-endian TIFF with a single orientation entry */
+function tiff(orientation: number): number[] {
+  return [
+    ...[0x4d, 0x4d, 0, 42, 0, 0, 0, 8],
+    ...[0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, orientation, 0, 0],
+    ...[0, 0, 0, 0],
+  ];
+}
+
+function segment(marker: number, body: number[]): number[] {
+  const length = body.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...body];
+}
+
+/** A JPEG's headers: JFIF, EXIF, a comment and a 300 x 200 frame */
+function jpeg(orientation: number): Uint8Array {
+  return new Uint8Array([
+    0xff,
+    0xd8,
+    ...segment(0xe0, [...new TextEncoder().encode("JFIF\0"), 1, 1, 0]),
+    ...segment(0xe1, [
+      ...new TextEncoder().encode("Exif\0\0"),
+      ...tiff(orientation),
+    ]),
+    ...segment(0xfe, [...new TextEncoder().encode("comment")]),
+    ...segment(0xc0, [8, 0, 200, 1, 44, 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1]),
+    ...segment(0xda, [1, 1, 0, 0, 63, 0]),
+    ...[0x12, 0x34, 0xff, 0xd9],
+  ]);
+}
+
+function pngWithExif(orientation: number): Uint8Array {
+  const [header, ...rest] = readPngChunks(
+    encodePng({ width: 3, height: 2, data: new Uint8Array(24) }),
+  );
+  return writePngChunks([
+    header!,
+    { type: "eXIf", data: new Uint8Array(tiff(orientation)) },
+    { type: "tEXt", data: new TextEncoder().encode("Author\0Someone") },
+    ...rest,
+  ]);
+}
+
+describe("readImageInfo", () => {
+  it("reads the size and orientation of a JPEG", () => {
+    expect(readImageInfo(jpeg(6))).toEqual({
+      mimeType: "image/jpeg",
+      width: 300,
+      height: 200,
+      orientation: 6,
+    });
+  });
+
+  it("reads PNG eXIf orientation", () => {
+    expect(readImageInfo(pngWithExif(3))).toEqual({
+      mimeType: "image/png",
+      width: 3,
+      height: 2,
+      orientation: 3,
+    });
+    expect(readExifOrientation(new Uint8Array(8))).toBe(1);
+  });
+
+  it("returns null for unknown formats", () => {
+    expect(readImageInfo(new TextEncoder().encode("<svg/>"))).toBeNull();
+  });
+});
+
+describe("stripMetadata", () => {
+  it("removes EXIF and comments from a JPEG and keeps the image data", () => {
+    const original = jpeg(6);
+    const stripped = stripMetadata(original);
+
+    expect(readExifOrientation(stripped)).toBe(1);
+    expect(readImageInfo(stripped)?.width).toBe(300);
+    expect(stripped.length).toBe(original.length - 36 - 11);
+    expect([...stripped.subarray(-4)]).toEqual([0x12, 0x34, 0xff, 0xd9]);
+  });
+
+  it("removes PNG metadata chunks", () => {
+    const stripped = stripMetadata(pngWithExif(6));
+
+    expect(readPngChunks(stripped).map((chunk) => chunk.type)).toEqual([
+      "IHDR",
+      "IDAT",
+      "IEND",
+    ]);
+  });
+
+  it("returns files without metadata unchanged", () => {
+    const png = encodePng({ width: 1, height: 1, data: new Uint8Array(4) });
+    expect(stripMetadata(png)).toBe(png);
+  });
+});
@@ -0,0 +1,312 @@
+import { detectImageMimeType, type RasterMimeType } from "../utils/binary";
+import { readPngChunks, writePngChunks } from "../utils/png";
+
+/**
+ * EXIF orientation (1-8): how the stored pixels must be transformed for
+ * display. 1 is upright; 5-8 swap width and height.
+ */
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+/**
+ * What {@link readImageInfo} finds in an image file's headers.
+ *
+ * @interface ImageInfo
+ * @property {RasterMimeType} mimeType - The detected format
+ * @property {number} width - Width of the stored pixels
+ * @property {number} height - Height of the stored pixels
+ * @property {ExifOrientation} orientation - EXIF orientation (1 when absent)
+ */
+export interface ImageInfo {
+  /** The detected format */
+  mimeType: RasterMimeType;
+  /** Width of the stored pixels */
+  width: number;
+  /** Height of the stored pixels */
+  height: number;
+  /** EXIF orientation (1 when absent) */
+  orientation: ExifOrientation;
+}
+
+/** JPEG segments kept by {@link stripMetadata}: JFIF (APP0), ICC profile (APP2) and Adobe colour transform (APP14) */
+const KEPT_JPEG_APP_SEGMENTS = new Set([0xe0, 0xe2, 0xee]);
+/** PNG chunks removed by {@link stripMetadata} */
+const PNG_METADATA_CHUNKS = new Set(["tEXt", "zTXt", "iTXt", "eXIf", "tIME"]);
+/** WebP chunks removed by {@link stripMetadata}, with their VP8X flag bit */
+const WEBP_METADATA_CHUNKS: Record<string, number> = {
+  EXIF: 0x08,
+  "XMP ": 0x04,
+};
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+/** JPEG segments before the image data: marker, start of the segment and end */
+function* jpegSegments(
+  bytes: Uint8Array,
+): Generator<{ marker: number; start: number; end: number }> {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1] as number;
+    if (marker === 0xff) {
+      offset++; // fill byte
+      continue;
+    }
+    const end =
+      offset +
+      2 +
+      (((bytes[offset + 2] as number) << 8) | (bytes[offset + 3] as number));
+    yield { marker, start: offset, end };
+    if (marker === 0xda) return; // start of scan: entropy-coded data follows
+    offset = end;
+  }
+}
+
+/** RIFF chunks of a WebP file: four-letter type, start of the chunk and end (with padding) */
+function* webpChunks(
+  bytes: Uint8Array,
+): Generator<{ type: string; start: number; end: number }> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const size = view.getUint32(offset + 4, true);
+    const end = Math.min(bytes.length, offset + 8 + size + (size & 1));
+    yield { type: ascii(bytes, offset, 4), start: offset, end };
+    offset = end;
+  }
+}
+
+/** Read the orientation tag from a TIFF structure (the body of EXIF data) */
+function tiffOrientation(tiff: Uint8Array): ExifOrientation {
+  if (tiff.length < 8) return 1;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = ascii(tiff, 0, 2);
+  if (order !== "II" && order !== "MM") return 1;
+  const little = order === "II";
+  const ifd = view.getUint32(4, little);
+  if (ifd + 2 > tiff.length) return 1;
+  const entries = view.getUint16(ifd, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    if (view.getUint16(entry, little) === 0x0112) {
+      const value = view.getUint16(entry + 8, little);
+      return value >= 1 && value <= 8 ? (value as ExifOrientation) : 1;
+    }
+  }
+  return 1;
+}
+
+/** EXIF payload may start with the JPEG APP1 identifier; skip it */
+function withoutExifHeader(data: Uint8Array): Uint8Array {
+  return ascii(data, 0, 6) === "Exif\0\0" ? data.subarray(6) : data;
+}
+
+/**
+ * The EXIF orientation of a JPEG, PNG (`eXIf`) or WebP image.
+ *
+ * @param bytes - The image file
+ * @returns The orientation, 1 when the file has none
+ */
+export function readExifOrientation(bytes: Uint8Array): ExifOrientation {
+  switch (detectImageMimeType(bytes)) {
+    case "image/jpeg":
+      for (const { marker, start, end } of jpegSegments(bytes)) {
+        if (marker === 0xe1 && ascii(bytes, start + 4, 6) === "Exif\0\0") {
+          return tiffOrientation(bytes.subarray(start + 10, end));
+        }
+      }
+      return 1;
+    case "image/png": {
+      const exif = readPngChunks(bytes).find((c) => c.type === "eXIf");
+      return exif ? tiffOrientation(withoutExifHeader(exif.data)) : 1;
+    }
+    case "image/webp":
+      for (const { type, start, end } of webpChunks(bytes)) {
+        if (type === "EXIF") {
+          return tiffOrientation(
+            withoutExifHeader(bytes.subarray(start + 8, end)),
+          );
+        }
+      }
+      return 1;
+    default:
+      return 1;
+  }
+}
+
+/** Pixel size from a JPEG's start-of-frame segment */
+function jpegSize(bytes: Uint8Array): [number, number] | undefined {
+  for (const { marker, start } of jpegSegments(bytes)) {
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      const at = start + 5;
+      return [
+        ((bytes[at + 2] as number) << 8) | (bytes[at + 3] as number),
+        ((bytes[at] as number) << 8) | (bytes[at + 1] as number),
+      ];
+    }
+  }
+  return undefined;
+}
+
+function webpSize(bytes: Uint8Array): [number, number] | undefined {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const first = webpChunks(bytes).next();
+  if (first.done) return undefined;
+  const { type, start } = first.value;
+  const data = start + 8;
+  if (type === "VP8X" && data + 10 <= bytes.length) {
+    const read24 = (at: number) =>
+      (bytes[at] as number) |
+      ((bytes[at + 1] as number) << 8) |
+      ((bytes[at + 2] as number) << 16);
+    return [read24(data + 4) + 1, read24(data + 7) + 1];
+  }
+  if (type === "VP8 " && data + 10 <= bytes.length) {
+    return [
+      view.getUint16(data + 6, true) & 0x3fff,
+      view.getUint16(data + 8, true) & 0x3fff,
+    ];
+  }
+  if (type === "VP8L" && data + 5 <= bytes.length) {
+    const bits = view.getUint32(data + 1, true);
+    return [(bits & 0x3fff) + 1, ((bits >>> 14) & 0x3fff) + 1];
+  }
+  return undefined;
+}
+
+/**
+ * Read an image's format, pixel size and EXIF orientation from its headers,
+ * without decoding it.
+ *
+ * @param bytes - The image file
+ * @returns The image's info, or `null` when the format is not supported or the headers are unreadable
+ */
+export function readImageInfo(bytes: Uint8Array): ImageInfo | null {
+  const mimeType = detectImageMimeType(bytes);
+  if (!mimeType) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let size: [number, number] | undefined;
+  try {
+    switch (mimeType) {
+      case "image/png":
+        size = [view.getUint32(16), view.getUint32(20)];
+        break;
+      case "image/jpeg":
+        size = jpegSize(bytes);
+        break;
+      case "image/gif":
+        size = [view.getUint16(6, true), view.getUint16(8, true)];
+        break;
+      case "image/bmp":
+        size =
+          view.getUint32(14, true) === 12
+            ? [view.getUint16(18, true), Math.abs(view.getInt16(20, true))]
+            : [view.getInt32(18, true), Math.abs(view.getInt32(22, true))];
+        break;
+      default:
+        size = webpSize(bytes);
+    }
+    if (!size || !(size[0] > 0) || !(size[1] > 0)) return null;
+    return {
+      mimeType,
+      width: size[0],
+      height: size[1],
+      orientation: readExifOrientation(bytes),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove metadata (EXIF, XMP, comments and text) from a JPEG, PNG or WebP
+ * file without re-encoding it. Colour profiles are kept. Other formats, and
+ * files that cannot be parsed, are returned unchanged.
+ *
+ * Note that this also removes the EXIF orientation.
+ *
+ * @param bytes - The image file
+ * @returns The file without metadata (the same array when nothing was removed)
+ */
+export function stripMetadata(bytes: Uint8Array): Uint8Array {
+  try {
+    switch (detectImageMimeType(bytes)) {
+      case "image/jpeg":
+        return stripJpeg(bytes);
+      case "image/png": {
+        const chunks = readPngChunks(bytes);
+        const kept = chunks.filter((c) => !PNG_METADATA_CHUNKS.has(c.type));
+        return kept.length === chunks.length ? bytes : writePngChunks(kept);
+      }
+      case "image/webp":
+        return stripWebp(bytes);
+      default:
+        return bytes;
+    }
+  } catch {
+    return bytes;
+  }
+}
+
+function stripJpeg(bytes: Uint8Array): Uint8Array {
+  const removed: Array<[number, number]> = [];
+  let scan = bytes.length;
+  for (const { marker, start, end } of jpegSegments(bytes)) {
+    if (marker === 0xda) {
+      scan = start;
+      break;
+    }
+    const isApp = marker >= 0xe0 && marker <= 0xef;
+    if ((isApp && !KEPT_JPEG_APP_SEGMENTS.has(marker)) || marker === 0xfe) {
+      removed.push([start, end]);
+    }
+  }
+  if (removed.length === 0 || scan === bytes.length) return bytes;
+
+  const parts: Uint8Array[] = [];
+  let position = 0;
+  for (const [start, end] of removed) {
+    parts.push(bytes.subarray(position, start));
+    position = end;
+  }
+  parts.push(bytes.subarray(position));
+  return concat(parts);
+}
+
+function stripWebp(bytes: Uint8Array): Uint8Array {
+  const chunks = [...webpChunks(bytes)];
+  const kept = chunks.filter(({ type }) => !(type in WEBP_METADATA_CHUNKS));
+  if (kept.length === chunks.length) return bytes;
+
+  const output = concat([
+    bytes.subarray(0, 12),
+    ...kept.map(({ start, end }) => bytes.subarray(start, end)),
+  ]);
+  const view = new DataView(output.buffer);
+  view.setUint32(4, output.length - 8, true);
+  if (kept[0]?.type === "VP8X") {
+    let flags = output[20] as number;
+    for (const bit of Object.values(WEBP_METADATA_CHUNKS)) flags &= ~bit;
+    output[20] = flags;
+  }
+  return output;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(
+    parts.reduce((size, part) => size + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
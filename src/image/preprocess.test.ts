@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodePng,
+  encodePng,
+  readPngChunks,
+  writePngChunks,
+} from "../utils/png";
+import { PureImageBackend, type SvgrImageBackend } from "./backends";
+import { preprocessImage } from "./preprocess";
+
+/** A 24-bit bottom-up BMP filled with one colour */
+function bmp(width: number, height: number, [r, g, b]: number[]) {
+  const stride = Math.ceil((width * 3) / 4) * 4;
+  const bytes = new Uint8Array(54 + stride * height);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x42, 0x4d]);
+  view.setUint32(10, 54, true);
+  view.setUint32(14, 40, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, height, true);
+  view.setUint16(28, 24, true);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      bytes.set([b!, g!, r!], 54 + y * stride + x * 3);
+    }
+  }
+  return bytes;
+}
+
+/** A PNG whose eXIf chunk carries `orientation` */
+function orientedPng(width: number, height: number, orientation: number) {
+  const data = new Uint8Array(width * height * 4).fill(255);
+  const [header, ...rest] = readPngChunks(encodePng({ width, height, data }));
+  const exif = [0x4d, 0x4d, 0, 42, 0, 0, 0, 8, 0, 1, 0x01, 0x12, 0, 3];
+  return writePngChunks([
+    header!,
+    {
+      type: "eXIf",
+      data: new Uint8Array([...exif, 0, 0, 0, 1, 0, orientation, 0, 0]),
+    },
+    ...rest,
+  ]);
+}
+
+describe("preprocessImage", () => {
+  it("downscales BMPs and re-encodes them as PNG", async () => {
+    const result = await preprocessImage(bmp(40, 20, [10, 20, 30]), {
+      maxDimension: 10,
+      backend: new PureImageBackend(),
+    });
+
+    expect(result).toMatchObject({
+      mimeType: "image/png",
+      width: 10,
+      height: 5,
+      originalWidth: 40,
+      originalHeight: 20,
+      scale: 0.25,
+      steps: ["downscale", "convert-format", "strip-metadata"],
+    });
+    const image = decodePng(result.data);
+    expect(image.width).toBe(10);
+    expect([...image.data.subarray(0, 4)]).toEqual([10, 20, 30, 255]);
+  });
+
+  it("applies the EXIF orientation and drops it from the output", async () => {
+    const result = await preprocessImage(orientedPng(4, 2, 6), {
+      backend: new PureImageBackend(),
+    });
+
+    expect(result).toMatchObject({
+      width: 2,
+      height: 4,
+      scale: 1,
+      orientation: 6,
+      steps: ["orient", "strip-metadata"],
+    });
+    expect(readPngChunks(result.data).map((chunk) => chunk.type)).toEqual([
+      "IHDR",
+      "IDAT",
+      "IEND",
+    ]);
+  });
+
+  it("leaves images that need no changes as they are", async () => {
+    const png = encodePng({ width: 2, height: 2, data: new Uint8Array(16) });
+    const result = await preprocessImage(png);
+
+    expect(result.data).toBe(png);
+    expect(result.steps).toEqual([]);
+  });
+
+  it("keeps lossy formats the backend can write", async () => {
+    const calls: string[] = [];
+    const backend: SvgrImageBackend = {
+      canDecode: () => true,
+      decode: async () => ({
+        width: 400,
+        height: 300,
+        data: new Uint8Array(400 * 300 * 4),
+      }),
+      canEncode: (mimeType) => mimeType === "image/webp",
+      encode: async (image, mimeType, quality) => {
+        calls.push(`${image.width}x${image.height} ${mimeType} ${quality}`);
+        return new Uint8Array([1]);
+      },
+    };
+    const webp = new Uint8Array(30);
+    webp.set(new TextEncoder().encode("RIFF\0\0\0\0WEBPVP8L"));
+    // VP8L header: 400 x 300
+    new DataView(webp.buffer).setUint32(21, 399 | (299 << 14), true);
+
+    const result = await preprocessImage(webp, {
+      maxDimension: 200,
+      backend,
+      quality: 0.8,
+    });
+
+    expect(calls).toEqual(["200x150 image/webp 0.8"]);
+    expect(result).toMatchObject({ mimeType: "image/webp", scale: 0.5 });
+  });
+
+  it("rejects files that are not images", async () => {
+    await expect(
+      preprocessImage(new TextEncoder().encode("<svg/>")),
+    ).rejects.toThrow(RangeError);
+  });
+});
@@ -0,0 +1,229 @@
+import { detectImageMimeType } from "../utils/binary";
+import type { RgbaImage } from "../utils/png";
+import { getDefaultImageBackend, type SvgrImageBackend } from "./backends";
+import {
+  type ExifOrientation,
+  readImageInfo,
+  stripMetadata as stripImageMetadata,
+} from "./metadata";
+import { orientImage, resizeImage } from "./transform";
+
+/** Longest side of a preprocessed image when `maxDimension` is not given */
+export const DEFAULT_MAX_DIMENSION = 2048;
+
+/**
+ * Options for {@link preprocessImage}.
+ *
+ * @interface SvgrPreprocessOptions
+ * @property {number} [maxDimension] - Longest side of the output in pixels (default: 2048)
+ * @property {boolean} [orient] - Apply the EXIF orientation to the pixels (default: true)
+ * @property {boolean} [stripMetadata] - Remove EXIF, XMP and text metadata (default: true)
+ * @property {boolean} [normalizeFormat] - Re-encode BMP and GIF as PNG (default: true)
+ * @property {SvgrImageBackend} [backend] - Decoder and encoder (default: {@link getDefaultImageBackend})
+ * @property {number} [quality] - Quality from 0 to 1 when re-encoding JPEG or WebP (default: 0.92)
+ */
+export interface SvgrPreprocessOptions {
+  /** Longest side of the output in pixels; larger images are downscaled (default: 2048) */
+  maxDimension?: number;
+  /**
+   * Apply the EXIF orientation to the pixels, so the server sees the image
+   * the way it is displayed (default: true). When false, the pixels are
+   * kept as stored.
+   */
+  orient?: boolean;
+  /** Remove EXIF, XMP and text metadata (default: true) */
+  stripMetadata?: boolean;
+  /** Re-encode BMP and GIF as PNG (default: true) */
+  normalizeFormat?: boolean;
+  /** Decoder and encoder for the pixels (default: {@link getDefaultImageBackend}) */
+  backend?: SvgrImageBackend;
+  /** Quality from 0 to 1 when re-encoding JPEG or WebP (default: 0.92) */
+  quality?: number;
+}
+
+/**
+ * What {@link preprocessImage} did to an image.
+ *
+ * - `orient` — the EXIF orientation was applied to the pixels
+ * - `downscale` — the image was made smaller
+ * - `convert-format` — the image was re-encoded in another format
+ * - `strip-metadata` — metadata was removed
+ */
+export type SvgrPreprocessStep =
+  "orient" | "downscale" | "convert-format" | "strip-metadata";
+
+/**
+ * Result of {@link preprocessImage}.
+ *
+ * Sizes the server reports for the processed image map back to the
+ * original by dividing by `scale`.
+ *
+ * @interface SvgrPreprocessResult
+ * @property {Uint8Array} data - The processed file
+ * @property {string} mimeType - Format of the processed file
+ * @property {number} width - Width of the processed image
+ * @property {number} height - Height of the processed image
+ * @property {number} originalWidth - Width of the input, in the output's orientation
+ * @property {number} originalHeight - Height of the input, in the output's orientation
+ * @property {number} scale - Output size divided by input size (1 when not downscaled)
+ * @property {ExifOrientation} orientation - EXIF orientation of the input
+ * @property {SvgrPreprocessStep[]} steps - What was done, in order
+ */
+export interface SvgrPreprocessResult {
+  /** The processed file (the input itself when nothing changed) */
+  data: Uint8Array;
+  /** Format of the processed file */
+  mimeType: string;
+  /** Width of the processed image in pixels */
+  width: number;
+  /** Height of the processed image in pixels */
+  height: number;
+  /** Width of the input in pixels, in the output's orientation */
+  originalWidth: number;
+  /** Height of the input in pixels, in the output's orientation */
+  originalHeight: number;
+  /** Output size divided by input size (1 when not downscaled) */
+  scale: number;
+  /** EXIF orientation of the input (1 when it had none) */
+  orientation: ExifOrientation;
+  /** What was done, in order */
+  steps: SvgrPreprocessStep[];
+}
+
+/** Formats re-encoded as PNG when `normalizeFormat` is on */
+const NORMALIZED_FORMATS = new Set(["image/bmp", "image/gif"]);
+/** Lossy formats kept when the backend can write them */
+const LOSSY_FORMATS = new Set(["image/jpeg", "image/webp"]);
+
+/**
+ * Decode with `backend`. Decoders fail in their own ways (`RangeError`,
+ * `TypeError`, a canvas `DOMException`); all mean the file is not a valid
+ * image, so they are reported as a `RangeError`.
+ */
+async function decodeImage(
+  backend: SvgrImageBackend,
+  bytes: Uint8Array,
+  mimeType: string,
+): Promise<RgbaImage> {
+  try {
+    return await backend.decode(bytes, mimeType);
+  } catch (error) {
+    if (error instanceof RangeError) throw error;
+    throw new RangeError(
+      `The image could not be decoded: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Prepare an image for upload: apply its EXIF orientation, downscale it to
+ * `maxDimension`, re-encode BMP and GIF as PNG and strip metadata.
+ *
+ * Images are only decoded when their pixels must change; otherwise
+ * metadata is removed without re-encoding. When the backend cannot decode
+ * the format (e.g. JPEG with {@link PureImageBackend}), the image is
+ * returned at its original size, and its metadata is kept when it carries
+ * an EXIF orientation that could not be applied.
+ *
+ * @param bytes - The image file (PNG, JPEG, WebP, BMP or GIF)
+ * @param options - What to do and which backend to use
+ * @returns The processed file with its size and the scale factor
+ * @throws {RangeError} When the file is not a supported image, cannot be decoded, or `maxDimension` is not a positive integer
+ *
+ * @example
+ * ```typescript
+ * const result = await preprocessImage(bytes, { maxDimension: 1600 });
+ * // Map a size reported for the upload back to the original image
+ * const originalWidth = reportedWidth / result.scale;
+ * ```
+ */
+export async function preprocessImage(
+  bytes: Uint8Array,
+  options: SvgrPreprocessOptions = {},
+): Promise<SvgrPreprocessResult> {
+  const maxDimension = options.maxDimension ?? DEFAULT_MAX_DIMENSION;
+  if (!Number.isInteger(maxDimension) || maxDimension < 1) {
+    throw new RangeError("maxDimension must be a positive integer");
+  }
+  const info = readImageInfo(bytes);
+  if (!info) {
+    throw new RangeError(
+      detectImageMimeType(bytes)
+        ? "The image headers could not be read"
+        : "The file is not a PNG, JPEG, WEBP, BMP or GIF image",
+    );
+  }
+
+  const { mimeType } = info;
+  const strip = options.stripMetadata ?? true;
+  const orientation = options.orient === false ? 1 : info.orientation;
+  const transposed = orientation >= 5;
+  const originalWidth = transposed ? info.height : info.width;
+  const originalHeight = transposed ? info.width : info.height;
+  const scale = Math.min(
+    1,
+    maxDimension / Math.max(originalWidth, originalHeight),
+  );
+  const normalize =
+    (options.normalizeFormat ?? true) && NORMALIZED_FORMATS.has(mimeType);
+  const backend = options.backend ?? getDefaultImageBackend();
+
+  if (
+    (scale < 1 || orientation !== 1 || normalize) &&
+    backend.canDecode(mimeType)
+  ) {
+    // Decode without EXIF so the backend cannot rotate the pixels itself
+    let image = await decodeImage(backend, stripImageMetadata(bytes), mimeType);
+    const steps: SvgrPreprocessStep[] = [];
+    if (orientation !== 1) {
+      image = orientImage(image, orientation);
+      steps.push("orient");
+    }
+    if (scale < 1) {
+      image = resizeImage(
+        image,
+        Math.max(1, Math.round(originalWidth * scale)),
+        Math.max(1, Math.round(originalHeight * scale)),
+      );
+      steps.push("downscale");
+    }
+    const outputType =
+      LOSSY_FORMATS.has(mimeType) && backend.canEncode(mimeType)
+        ? mimeType
+        : "image/png";
+    const data = await backend.encode(
+      image,
+      outputType,
+      options.quality ?? 0.92,
+    );
+    if (outputType !== mimeType) steps.push("convert-format");
+    // Encoders do not copy metadata
+    if (strip) steps.push("strip-metadata");
+    return {
+      data,
+      mimeType: outputType,
+      width: image.width,
+      height: image.height,
+      originalWidth,
+      originalHeight,
+      scale,
+      orientation: info.orientation,
+      steps,
+    };
+  }
+
+  // Removing the metadata would also remove an orientation not applied
+  const stripped =
+    strip && orientation === 1 ? stripImageMetadata(bytes) : bytes;
+  return {
+    data: stripped,
+    mimeType,
+    width: info.width,
+    height: info.height,
+    originalWidth: info.width,
+    originalHeight: info.height,
+    scale: 1,
+    orientation: info.orientation,
+    steps: stripped === bytes ? [] : ["strip-metadata"],
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { encodePng } from "../utils/png";
+import { PureImageBackend } from "./backends";
+import { analyzeImage, recommendPreset } from "./recommend";
+
+/** An image whose pixels come from `color(x, y)` */
+function image(
+  width: number,
+  height: number,
+  color: (x: number, y: number) => [number, number, number, number],
+) {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(color(x, y), (y * width + x) * 4);
+  }
+  return { width, height, data };
+}
+
+const backend = new PureImageBackend();
+
+describe("recommendPreset", () => {
+  it("suggests icon for small images with few colours", async () => {
+    const icon = image(32, 32, (x) =>
+      x < 16 ? [0, 0, 0, 0] : [200, 0, 0, 255],
+    );
+
+    expect(await recommendPreset(encodePng(icon), { backend })).toMatchObject({
+      preset: "icon",
+      imageType: "design",
+      analysis: { colorCount: 1, hasAlpha: true },
+    });
+  });
+
+  it("tells documents, logos and photos apart", async () => {
+    const page = image(600, 800, (x, y) =>
+      (x + y) % 17 === 0 ? [40, 40, 40, 255] : [250, 250, 245, 255],
+    );
+    const logo = image(600, 300, (x) =>
+      x < 300 ? [20, 60, 200, 255] : [255, 255, 255, 255],
+    );
+    const photo = image(400, 300, (x, y) => [
+      x % 256,
+      y % 256,
+      (x * y) % 256,
+      255,
+    ]);
+
+    const presets = await Promise.all(
+      [page, logo, photo].map(
+        async (pixels) =>
+          (await recommendPreset(encodePng(pixels), { backend })).preset,
+      ),
+    );
+    expect(presets).toEqual(["scanned-document", "logo", "photo-poster"]);
+  });
+
+  it("falls back to the format when the image cannot be decoded", async () => {
+    const jpeg = new Uint8Array([
+      0xff, 0xd8, 0xff, 0xc0, 0, 11, 8, 0, 10, 0, 20, 1, 1, 0x11, 0, 0xff, 0xd9,
+    ]);
+
+    expect(await recommendPreset(jpeg, { backend })).toEqual({
+      preset: "photo-poster",
+      imageType: "photo",
+      analysis: null,
+    });
+  });
+
+  it("samples large images", () => {
+    const analysis = analyzeImage(image(1000, 1000, () => [0, 0, 0, 255]));
+
+    expect(analysis).toMatchObject({ colorCount: 1, grayFraction: 1 });
+  });
+});
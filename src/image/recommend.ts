@@ -0,0 +1,174 @@
+import type { ImageType } from "@sudobility/svgr_types";
+import type { RgbaImage } from "../utils/png";
+import {
+  type SvgrBuiltInPresetName,
+  type SvgrPresetRegistry,
+  SvgrPresets,
+} from "../network/presets";
+import { getDefaultImageBackend, type SvgrImageBackend } from "./backends";
+import { readImageInfo, stripMetadata } from "./metadata";
+
+/** Pixels sampled by {@link analyzeImage}, at most */
+const MAX_SAMPLES = 65536;
+
+/**
+ * Colour statistics of an image, from {@link analyzeImage}.
+ *
+ * @interface SvgrImageAnalysis
+ * @property {number} width - Width in pixels
+ * @property {number} height - Height in pixels
+ * @property {number} colorCount - Distinct colours among the sampled pixels (5 bits per channel)
+ * @property {boolean} hasAlpha - Whether some pixels are transparent
+ * @property {number} grayFraction - Share of opaque pixels that are grey
+ * @property {number} lightFraction - Share of opaque pixels that are near white
+ */
+export interface SvgrImageAnalysis {
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Distinct colours among the sampled opaque pixels, at 5 bits per channel */
+  colorCount: number;
+  /** Whether some pixels are (partly) transparent */
+  hasAlpha: boolean;
+  /** Share of the sampled opaque pixels that are grey, from 0 to 1 */
+  grayFraction: number;
+  /** Share of the sampled opaque pixels that are near white, from 0 to 1 */
+  lightFraction: number;
+}
+
+/**
+ * A preset suggested by {@link recommendPreset}.
+ *
+ * @interface SvgrPresetRecommendation
+ * @property {SvgrBuiltInPresetName} preset - The suggested preset
+ * @property {ImageType} imageType - The preset's image type
+ * @property {SvgrImageAnalysis | null} analysis - The statistics behind the suggestion, `null` when the image could not be decoded
+ */
+export interface SvgrPresetRecommendation {
+  /** The suggested preset */
+  preset: SvgrBuiltInPresetName;
+  /** The image type the preset converts with */
+  imageType: ImageType;
+  /** The statistics behind the suggestion; `null` when the image could not be decoded */
+  analysis: SvgrImageAnalysis | null;
+}
+
+/**
+ * Options for {@link recommendPreset}.
+ *
+ * @interface SvgrRecommendPresetOptions
+ * @property {SvgrImageBackend} [backend] - Decoder for the image (default: {@link getDefaultImageBackend})
+ * @property {SvgrPresetRegistry} [registry] - Where the suggested preset's image type is read (default: {@link SvgrPresets})
+ */
+export interface SvgrRecommendPresetOptions {
+  /** Decoder for the image (default: {@link getDefaultImageBackend}) */
+  backend?: SvgrImageBackend;
+  /** Where the suggested preset's image type is read (default: {@link SvgrPresets}) */
+  registry?: SvgrPresetRegistry;
+}
+
+/**
+ * Measure the colour count, transparency and tone of an image. Large
+ * images are sampled on a grid of at most 65536 pixels.
+ *
+ * @param image - The pixels
+ * @returns The statistics
+ */
+export function analyzeImage(image: RgbaImage): SvgrImageAnalysis {
+  const { width, height, data } = image;
+  const step = Math.max(1, Math.sqrt((width * height) / MAX_SAMPLES));
+  const colors = new Set<number>();
+  let hasAlpha = false;
+  let opaque = 0;
+  let gray = 0;
+  let light = 0;
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const at = (Math.floor(y) * width + Math.floor(x)) * 4;
+      const alpha = data[at + 3] as number;
+      if (alpha < 250) hasAlpha = true;
+      if (alpha < 128) continue;
+      const r = data[at] as number;
+      const g = data[at + 1] as number;
+      const b = data[at + 2] as number;
+      colors.add(((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3));
+      opaque++;
+      if (Math.max(r, g, b) - Math.min(r, g, b) < 24) gray++;
+      if (r + g + b > 600) light++;
+    }
+  }
+  return {
+    width,
+    height,
+    colorCount: colors.size,
+    hasAlpha,
+    grayFraction: opaque ? gray / opaque : 0,
+    lightFraction: opaque ? light / opaque : 0,
+  };
+}
+
+/** Pick a built-in preset for the statistics of an image */
+function presetFor(analysis: SvgrImageAnalysis): SvgrBuiltInPresetName {
+  const { width, height, colorCount, hasAlpha } = analysis;
+  if (Math.max(width, height) <= 256 && colorCount <= 64) return "icon";
+  if (analysis.grayFraction > 0.9 && analysis.lightFraction > 0.5) {
+    return "scanned-document";
+  }
+  if (colorCount <= (hasAlpha ? 128 : 64)) return "logo";
+  if (colorCount <= 2048) return "illustration";
+  return "photo-poster";
+}
+
+/**
+ * Suggest a conversion preset and image type for an image, from its colour
+ * count, size and transparency:
+ *
+ * - small images with few colours → `icon`
+ * - mostly light grey images → `scanned-document`
+ * - few colours (more when transparent) → `logo`
+ * - up to about 2000 colours → `illustration`
+ * - anything else → `photo-poster`
+ *
+ * When the backend cannot decode the image, JPEG and WebP files (usually
+ * photos) get `photo-poster` and other formats `illustration`.
+ *
+ * @param bytes - The image file
+ * @param options - Decoder and preset registry
+ * @returns The suggestion with the statistics behind it
+ * @throws {RangeError} When the file is not a supported image
+ *
+ * @example
+ * ```typescript
+ * const { preset } = await recommendPreset(bytes);
+ * convert.mutate({ original, preset });
+ * ```
+ */
+export async function recommendPreset(
+  bytes: Uint8Array,
+  options: SvgrRecommendPresetOptions = {},
+): Promise<SvgrPresetRecommendation> {
+  const info = readImageInfo(bytes);
+  if (!info) {
+    throw new RangeError("The file is not a PNG, JPEG, WEBP, BMP or GIF image");
+  }
+  const backend = options.backend ?? getDefaultImageBackend();
+  const registry = options.registry ?? SvgrPresets;
+
+  let analysis: SvgrImageAnalysis | null = null;
+  if (backend.canDecode(info.mimeType)) {
+    analysis = analyzeImage(
+      await backend.decode(stripMetadata(bytes), info.mimeType),
+    );
+  }
+  const preset = analysis
+    ? presetFor(analysis)
+    : info.mimeType === "image/jpeg" || info.mimeType === "image/webp"
+      ? "photo-poster"
+      : "illustration";
+  return {
+    preset,
+    imageType: registry.get(preset)?.params.imageType ?? "auto",
+    analysis,
+  };
+}
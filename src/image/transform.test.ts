@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { orientImage, resizeImage } from "./transform";
+
+/** A 2 x 1 image: red, then green */
+const image = {
+  width: 2,
+  height: 1,
+  data: new Uint8Array([255, 0, 0, 255, 0, 255, 0, 255]),
+};
+
+describe("orientImage", () => {
+  it("rotates orientation 6 a quarter turn clockwise", () => {
+    const rotated = orientImage(image, 6);
+
+    expect(rotated).toMatchObject({ width: 1, height: 2 });
+    expect([...rotated.data]).toEqual([255, 0, 0, 255, 0, 255, 0, 255]);
+  });
+
+  it("mirrors orientation 2 and leaves 1 untouched", () => {
+    expect([...orientImage(image, 2).data]).toEqual([
+      0, 255, 0, 255, 255, 0, 0, 255,
+    ]);
+    expect(orientImage(image, 1)).toBe(image);
+  });
+});
+
+describe("resizeImage", () => {
+  it("averages covered pixels, weighting colour by alpha", () => {
+    const resized = resizeImage(
+      {
+        width: 2,
+        height: 1,
+        data: new Uint8Array([255, 0, 0, 255, 0, 0, 255, 0]),
+      },
+      1,
+      1,
+    );
+
+    expect([...resized.data]).toEqual([255, 0, 0, 128]);
+  });
+
+  it("rejects invalid sizes", () => {
+    expect(() => resizeImage(image, 0, 1)).toThrow(RangeError);
+    expect(() => resizeImage(image, 1.5, 1)).toThrow(RangeError);
+  });
+});
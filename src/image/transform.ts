@@ -0,0 +1,154 @@
+import type { RgbaImage } from "../utils/png";
+import type { ExifOrientation } from "./metadata";
+
+/**
+ * Transform stored pixels into their display orientation, so the result
+ * can be saved without an EXIF orientation.
+ *
+ * @param image - The pixels as stored
+ * @param orientation - The image's EXIF orientation
+ * @returns The upright pixels (`image` itself for orientation 1)
+ */
+export function orientImage(
+  image: RgbaImage,
+  orientation: ExifOrientation,
+): RgbaImage {
+  if (orientation === 1) return image;
+  const { width: w, height: h, data } = image;
+  const transposed = orientation >= 5;
+  const width = transposed ? h : w;
+  const height = transposed ? w : h;
+  /** Source pixel shown at output position (x, y) */
+  const source: Record<ExifOrientation, (x: number, y: number) => number> = {
+    1: (x, y) => y * w + x,
+    2: (x, y) => y * w + (w - 1 - x),
+    3: (x, y) => (h - 1 - y) * w + (w - 1 - x),
+    4: (x, y) => (h - 1 - y) * w + x,
+    5: (x, y) => x * w + y,
+    6: (x, y) => (h - 1 - x) * w + y,
+    7: (x, y) => (h - 1 - x) * w + (w - 1 - y),
+    8: (x, y) => x * w + (w - 1 - y),
+  };
+  const from = source[orientation];
+
+  // Move whole pixels at once; Uint32Array views need 4-byte alignment
+  const aligned = data.byteOffset % 4 === 0 ? data : data.slice();
+  const output = new Uint8Array(data.length);
+  const pixels = new Uint32Array(
+    aligned.buffer,
+    aligned.byteOffset,
+    aligned.byteLength >> 2,
+  );
+  const target = new Uint32Array(output.buffer);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      target[y * width + x] = pixels[from(x, y)] as number;
+    }
+  }
+  return { width, height, data: output };
+}
+
+/** For each output pixel along one axis: the source pixels it covers and their weights */
+function coverage(
+  sourceSize: number,
+  targetSize: number,
+): Array<Array<[number, number]>> {
+  const ratio = sourceSize / targetSize;
+  return Array.from({ length: targetSize }, (_, i) => {
+    if (ratio <= 1) {
+      // Upscaling: nearest source pixel
+      return [[Math.min(sourceSize - 1, Math.floor((i + 0.5) * ratio)), 1]];
+    }
+    const start = i * ratio;
+    const end = start + ratio;
+    const weights: Array<[number, number]> = [];
+    for (
+      let s = Math.floor(start);
+      s < Math.min(sourceSize, Math.ceil(end));
+      s++
+    ) {
+      const covered = Math.min(end, s + 1) - Math.max(start, s);
+      if (covered > 0) weights.push([s, covered / ratio]);
+    }
+    return weights;
+  });
+}
+
+/**
+ * Resize pixels by area averaging (a box filter), which gives clean
+ * downscales without aliasing. Colours are averaged with premultiplied
+ * alpha so transparent pixels do not darken edges.
+ *
+ * @param image - The pixels to resize
+ * @param width - The output width
+ * @param height - The output height
+ * @throws {RangeError} When the output size is not a positive integer
+ */
+export function resizeImage(
+  image: RgbaImage,
+  width: number,
+  height: number,
+): RgbaImage {
+  if (
+    !Number.isInteger(width) ||
+    !Number.isInteger(height) ||
+    width < 1 ||
+    height < 1
+  ) {
+    throw new RangeError(`Invalid size ${width} x ${height}`);
+  }
+  if (width === image.width && height === image.height) return image;
+  const { data } = image;
+  const columns = coverage(image.width, width);
+  const rows = coverage(image.height, height);
+
+  // Horizontal pass into premultiplied floats, then vertical pass
+  const horizontal = new Float32Array(width * image.height * 4);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (const [sx, weight] of columns[x] as Array<[number, number]>) {
+        const at = (y * image.width + sx) * 4;
+        const alpha = ((data[at + 3] as number) * weight) / 255;
+        r += (data[at] as number) * alpha;
+        g += (data[at + 1] as number) * alpha;
+        b += (data[at + 2] as number) * alpha;
+        a += alpha;
+      }
+      const at = (y * width + x) * 4;
+      horizontal[at] = r;
+      horizontal[at + 1] = g;
+      horizontal[at + 2] = b;
+      horizontal[at + 3] = a;
+    }
+  }
+
+  const output = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sources = rows[y] as Array<[number, number]>;
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (const [sy, weight] of sources) {
+        const at = (sy * width + x) * 4;
+        r += (horizontal[at] as number) * weight;
+        g += (horizontal[at + 1] as number) * weight;
+        b += (horizontal[at + 2] as number) * weight;
+        a += (horizontal[at + 3] as number) * weight;
+      }
+      const at = (y * width + x) * 4;
+      if (a > 0) {
+        output[at] = Math.round(r / a);
+        output[at + 1] = Math.round(g / a);
+        output[at + 2] = Math.round(b / a);
+      }
+      output[at + 3] = Math.round(a * 255);
+    }
+  }
+  return { width, height, data: output };
+}
@@ -16,23 +16,266 @@
 // Network
 export {
   SvgrClient,
-  SvgrApiError,
   type SvgrClientConfig,
   type RetryConfig,
+  type SvgrRequestOptions,
+  type SvgrIdempotencyOptions,
+  type SvgrListOptions,
+  type SvgrFetchSvgOptions,
+  type SvgrExportSvgOptions,
+  type SvgrUploadOptions,
+  type ConvertFileOptions,
+  type ConvertFileResult,
+  type UpdateImageRequest,
+  type RerunJobOverrides,
+  type UploadImageInput,
+  type UploadAndConvertStage,
+  type UploadAndConvertOptions,
+  type UploadAndConvertResult,
 } from "./network/SvgrClient";
+export {
+  SvgrApiError,
+  SvgrValidationError,
+  SvgrAuthError,
+  SvgrNotFoundError,
+  SvgrRateLimitError,
+  SvgrServerError,
+  SvgrNetworkError,
+  SvgrTimeoutError,
+  SvgrContentTypeError,
+  SvgrUnsuccessfulResponseError,
+  SvgrAbortError,
+  SvgrJobFailedError,
+  isSvgrApiError,
+  isSvgrValidationError,
+  isSvgrAuthError,
+  isSvgrNotFoundError,
+  isSvgrRateLimitError,
+  isSvgrServerError,
+  isSvgrNetworkError,
+  isSvgrTimeoutError,
+  isSvgrContentTypeError,
+  isSvgrUnsuccessfulResponseError,
+  isSvgrAbortError,
+  isSvgrJobFailedError,
+  type SvgrErrorContext,
+} from "./network/errors";
+export type { SvgrValidationIssue } from "./network/validation";
+export {
+  XhrUploadTransport,
+  type SvgrUploadTransport,
+  type SvgrUploadRequest,
+  type UploadProgress,
+  type UploadProgressCallback,
+  type XhrUploadTransportOptions,
+} from "./network/upload";
+export {
+  SvgrBatch,
+  type SvgrBatchItem,
+  type SvgrBatchItemStatus,
+  type SvgrBatchOptions,
+  type SvgrBatchProgress,
+  type SvgrBatchResult,
+  type SvgrBatchValue,
+} from "./network/batch";
+export {
+  SvgrConversionCache,
+  MemoryCacheStorage,
+  type SvgrCacheStorage,
+  type SvgrCacheOptions,
+  type CachedConversion,
+} from "./network/cache";
+export {
+  SvgrOfflineQueue,
+  ManualConnectivity,
+  BrowserConnectivity,
+  type SvgrConnectivity,
+  type SvgrOfflineItem,
+  type SvgrOfflineItemStatus,
+  type SvgrOfflineOperation,
+  type SvgrOfflineQueueOptions,
+  type SvgrOfflineQueueState,
+  type SvgrEnqueueOptions,
+} from "./network/offline";
+export {
+  SvgrJobOutputs,
+  createObjectUrl,
+  type SvgrObjectUrl,
+} from "./network/outputs";
+export {
+  JOB_FILE_CONTENT_TYPES,
+  getJobFilename,
+  type SvgrJobFileKind,
+} from "./network/files";
+export {
+  createLoggingMiddleware,
+  createRetryMiddleware,
+  createTimingMiddleware,
+  type SvgrLoggingOptions,
+  type SvgrMiddleware,
+  type SvgrMiddlewareContext,
+  type SvgrMiddlewareNext,
+  type SvgrRequestTiming,
+} from "./network/middleware";
+export type { JobPollingOptions, WaitForJobOptions } from "./network/polling";
+export type {
+  SvgrListFilters,
+  SvgrListQuery,
+  SvgrListResponse,
+} from "./network/pagination";
+export {
+  EventStreamParser,
+  FetchEventStreamTransport,
+  type FetchEventStreamTransportOptions,
+  type SvgrEventStreamRequest,
+  type SvgrEventStreamTransport,
+  type SvgrServerSentEvent,
+} from "./network/events";
+export type {
+  JobReconnectOptions,
+  JobSubscriptionMode,
+  JobSubscriptionOptions,
+  JobUpdateListener,
+} from "./network/subscriptions";
+export type { RetryJitter } from "./network/retry";
+export type { SvgrOperation, SvgrTimeouts } from "./network/timeouts";
+export {
+  SvgrPresetRegistry,
+  SvgrPresets,
+  type SvgrPreset,
+  type SvgrPresetName,
+  type SvgrPresetParams,
+  type SvgrBuiltInPresetName,
+} from "./network/presets";
+
+// SVG post-processing
+export {
+  parseSvg,
+  serializeSvg,
+  SvgParseError,
+  sanitizeSvg,
+  optimizeSvg,
+  getSvgStats,
+  processSvg,
+  type SvgElement,
+  type SvgNode,
+  type SvgTextNode,
+  type SvgSanitizeOptions,
+  type SvgOptimizeOptions,
+  type SvgStats,
+  type SvgColorUsage,
+  type SvgProcessOptions,
+} from "./svg";
+
+// SVG export
+export {
+  exportSvg,
+  svgToReactComponent,
+  svgToReactNativeComponent,
+  toComponentName,
+  CanvasSvgRasterizer,
+  getSvgSize,
+  type SvgExportFormat,
+  type SvgExportOptions,
+  type SvgExportResult,
+  type SvgBinaryExport,
+  type SvgComponentExport,
+  type SvgComponentOptions,
+  type SvgRasterizer,
+  type SvgSize,
+  type RgbaImage,
+} from "./svg";
+
+// Image preprocessing
+export {
+  preprocessImage,
+  PureImageBackend,
+  CanvasImageBackend,
+  readImageInfo,
+  stripMetadata,
+  recommendPreset,
+  analyzeImage,
+  type SvgrPreprocessOptions,
+  type SvgrPreprocessResult,
+  type SvgrPreprocessStep,
+  type SvgrImageBackend,
+  type ExifOrientation,
+  type ImageInfo,
+  type SvgrPresetRecommendation,
+  type SvgrImageAnalysis,
+  type SvgrRecommendPresetOptions,
+} from "./image";
 
 // Hooks
 export {
   useConvert,
+  useConvertFile,
   useUploadImage,
+  useUploadAndConvert,
+  useBatchConvert,
+  useOfflineQueue,
   useCreateJob,
+  useRetryJob,
+  useRerunJob,
+  useCancelJob,
+  useDeleteJob,
   useJobStatus,
+  useJobSubscription,
+  useJobSvg,
+  useJobPreview,
   useImageJobs,
   useUserImages,
+  useInfiniteUserImages,
+  useUpdateImage,
+  useDeleteImage,
   useCommunities,
   svgrKeys,
+  userImagesQueryOptions,
+  infiniteUserImagesQueryOptions,
+  imageJobsQueryOptions,
+  communitiesQueryOptions,
+  jobStatusQueryOptions,
+  jobSvgQueryOptions,
+  jobPreviewQueryOptions,
+  prefetchUserImages,
+  prefetchImageJobs,
+  prefetchCommunities,
+  SvgrProvider,
+  useSvgrClient,
+  useSvgrContext,
+  useSvgrDefaults,
+  useSvgrQueryOptions,
+  resetSvgrQueries,
 } from "./hooks";
+export type {
+  SvgrProviderProps,
+  SvgrContextValue,
+  SvgrHookDefaults,
+  SvgrQueryDefaults,
+  WithOptionalClient,
+} from "./hooks/provider";
 export type { ConvertMutationParams } from "./hooks/useConvert";
+export type { CreateJobMutationParams } from "./hooks/useCreateJob";
+export type { RetryJobMutationParams } from "./hooks/useRetryJob";
+export type { RerunJobMutationParams } from "./hooks/useRerunJob";
+export type {
+  JobSubscriptionTarget,
+  JobSubscriptionModes,
+} from "./hooks/useJobSubscription";
+export type { InfiniteUserImagesOptions } from "./hooks/useInfiniteUserImages";
+export type { UpdateImageMutationParams } from "./hooks/useUpdateImage";
+export type { ConvertFileMutationParams } from "./hooks/useConvertFile";
+export type { UploadAndConvertMutationParams } from "./hooks/useUploadAndConvert";
+
+// Utilities
+export { createIdempotencyKey } from "./utils/idempotency";
+export {
+  detectImageMimeType,
+  encodeBase64,
+  decodeBase64,
+  type BinaryInput,
+  type RasterMimeType,
+} from "./utils/binary";
 
 // Re-export types for convenience
 export type {
@@ -1,7 +1,28 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { MockNetworkClient } from "@sudobility/di/mocks";
-import { SvgrClient, SvgrApiError } from "./SvgrClient";
-import type { RetryConfig } from "./SvgrClient";
+import { SvgrClient } from "./SvgrClient";
+import {
+  SvgrAbortError,
+  SvgrApiError,
+  SvgrAuthError,
+  SvgrContentTypeError,
+  SvgrJobFailedError,
+  SvgrNetworkError,
+  SvgrNotFoundError,
+  SvgrRateLimitError,
+  SvgrServerError,
+  SvgrTimeoutError,
+  SvgrUnsuccessfulResponseError,
+  SvgrValidationError,
+  isSvgrAbortError,
+  isSvgrApiError,
+  isSvgrAuthError,
+  isSvgrRateLimitError,
+  isSvgrUnsuccessfulResponseError,
+} from "./errors";
+import type { RetryConfig, SvgrClientConfig } from "./SvgrClient";
+import { PureImageBackend } from "../image/backends";
+import type { SvgrUploadRequest, SvgrUploadTransport } from "./upload";
 
 describe("SvgrClient", () => {
   let client: SvgrClient;
@@ -65,6 +86,24 @@ describe("SvgrClient", () => {
     await expect(client.convert("bad")).rejects.toThrow("Bad request");
   });
 
+  it("throws SvgrRateLimitError with the Retry-After delay on 429", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/convert",
+      {
+        data: { error: "Slow down" },
+        ok: false,
+        status: 429,
+        headers: { "Retry-After": "2" },
+      },
+      "POST",
+    );
+
+    const error = await client.convert("data").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SvgrRateLimitError);
+    expect((error as SvgrRateLimitError).retryAfterMs).toBe(2000);
+    expect((error as SvgrRateLimitError).message).toBe("Slow down");
+  });
+
   it("throws SvgrApiError with default message when no error field", async () => {
     mockNetwork.setMockResponse(
       "http://localhost:3001/api/v1/convert",
@@ -76,6 +115,463 @@ describe("SvgrClient", () => {
   });
 });
 
+describe("SvgrClient convert options form", () => {
+  let client: SvgrClient;
+  let mockNetwork: MockNetworkClient;
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+    });
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/convert",
+      { data: { success: true }, ok: true },
+      "POST",
+    );
+  });
+
+  it("sends named options in the request body", async () => {
+    await client.convert({
+      original: "data:image/png;base64,iVBORw0KGgo=",
+      filename: "logo.png",
+      quality: 7,
+      mergePaths: false,
+      smooth: 2,
+      imageType: "logo",
+    });
+
+    const lastRequest = mockNetwork.getLastRequest();
+    expect(JSON.parse(lastRequest?.body as string)).toEqual({
+      original: "data:image/png;base64,iVBORw0KGgo=",
+      filename: "logo.png",
+      quality: 7,
+      mergePaths: false,
+      smooth: 2,
+      imageType: "logo",
+    });
+  });
+
+  it("throws SvgrValidationError listing every invalid field", async () => {
+    const error = await client
+      .convert({
+        original: "not base64!",
+        quality: 11,
+        smooth: 4,
+        imageType: "nope" as never,
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SvgrValidationError);
+    expect(error).toBeInstanceOf(SvgrApiError);
+    expect((error as SvgrValidationError).status).toBe(400);
+    expect(
+      (error as SvgrValidationError).issues.map((issue) => issue.field),
+    ).toEqual(["original", "quality", "smooth", "imageType"]);
+  });
+
+  it("does not call the API when validation fails", async () => {
+    await expect(
+      client.convert({ original: "aGVsbG8=", quality: 0 }),
+    ).rejects.toThrow(SvgrValidationError);
+    expect(mockNetwork.getRequests()).toHaveLength(0);
+  });
+
+  it("rejects non-integer quality and smooth values", async () => {
+    await expect(
+      client.convert({ original: "aGVsbG8=", quality: 5.5, smooth: 1.5 }),
+    ).rejects.toThrow(/quality.*smooth/);
+  });
+});
+
+describe("SvgrClient convertFile", () => {
+  const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  let client: SvgrClient;
+  let mockNetwork: MockNetworkClient;
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+    });
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/convert",
+      {
+        data: {
+          success: true,
+          data: { cacheId: "c1", width: 10, height: 20 },
+        },
+        ok: true,
+      },
+      "POST",
+    );
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/svg/c1",
+      { data: "<svg/>", ok: true },
+      "GET",
+    );
+  });
+
+  it("encodes the file, converts it and fetches the SVG", async () => {
+    const result = await client.convertFile(new Blob([png]), { quality: 6 });
+
+    expect(result).toEqual({
+      svg: "<svg/>",
+      width: 10,
+      height: 20,
+      cacheId: "c1",
+      scale: 1,
+    });
+    expect(
+      JSON.parse(mockNetwork.getRequestsByMethod("POST")[0]?.body as string),
+    ).toEqual({
+      quality: 6,
+      original: "data:image/png;base64,iVBORw0KGgo=",
+    });
+    expect(
+      mockNetwork.wasUrlCalled("http://localhost:3001/api/v1/svg/c1", "GET"),
+    ).toBe(true);
+  });
+
+  it("uses the File name when no filename is given", async () => {
+    await client.convertFile(new File([png], "logo.bin"));
+
+    expect(
+      JSON.parse(mockNetwork.getRequestsByMethod("POST")[0]?.body as string)
+        .filename,
+    ).toBe("logo.bin");
+  });
+
+  it("rejects a successful response that reports failure", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/convert",
+      { data: { success: false, error: "Image too large" }, ok: true },
+      "POST",
+    );
+
+    const error = await client.convertFile(png).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SvgrUnsuccessfulResponseError);
+    expect(error).toMatchObject({
+      status: 200,
+      message: "Image too large",
+      endpoint: "/api/v1/convert",
+    });
+    expect(
+      mockNetwork.wasUrlCalled("http://localhost:3001/api/v1/svg/c1"),
+    ).toBe(false);
+  });
+
+  it("rejects unsupported formats without calling the API", async () => {
+    await expect(
+      client.convertFile(new TextEncoder().encode("<svg/>")),
+    ).rejects.toThrow(SvgrValidationError);
+    expect(mockNetwork.getRequests()).toHaveLength(0);
+  });
+
+  it("preprocesses the image and reports the scale", async () => {
+    const bmp = new Uint8Array(54 + 8 * 2);
+    const view = new DataView(bmp.buffer);
+    bmp.set([0x42, 0x4d]);
+    view.setUint32(10, 54, true);
+    view.setUint32(14, 40, true);
+    view.setInt32(18, 2, true);
+    view.setInt32(22, 2, true);
+    view.setUint16(28, 24, true);
+    const steps: string[][] = [];
+
+    const result = await client.convertFile(
+      new File([bmp], "scan.bmp"),
+      {},
+      {
+        preprocess: { maxDimension: 1, backend: new PureImageBackend() },
+        onPreprocess: (preprocessed) => steps.push(preprocessed.steps),
+      },
+    );
+
+    expect(result.scale).toBe(0.5);
+    expect(steps).toEqual([["downscale", "convert-format", "strip-metadata"]]);
+    const body = JSON.parse(
+      mockNetwork.getRequestsByMethod("POST")[0]?.body as string,
+    );
+    expect(body.filename).toBe("scan.png");
+    expect(body.original).toMatch(/^data:image\/png;base64,iVBORw0KGgo/);
+  });
+
+  it("preprocesses convert requests with the client's options", async () => {
+    const preprocessing = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+      preprocess: { maxDimension: 1, backend: new PureImageBackend() },
+    });
+    const gif = "R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7";
+
+    await preprocessing.convert({ original: `data:image/gif;base64,${gif}` });
+    await preprocessing.convert({ original: gif }, { preprocess: false });
+
+    const [converted, unchanged] = mockNetwork
+      .getRequestsByMethod("POST")
+      .map((request) => JSON.parse(request.body as string).original);
+    expect(converted).toMatch(/^data:image\/png;base64,/);
+    expect(unchanged).toBe(gif);
+  });
+
+  it("reports images the backend fails to decode as validation errors", async () => {
+    const gif = "R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7";
+    const backend = new PureImageBackend();
+    backend.decode = () => Promise.reject(new TypeError("Bad pixels"));
+
+    await expect(
+      client.convert({ original: gif }, { preprocess: { backend } }),
+    ).rejects.toThrow(SvgrValidationError);
+    expect(mockNetwork.getRequests()).toHaveLength(0);
+  });
+
+  it("preprocesses uploads where File is not defined", async () => {
+    const gif = Uint8Array.from(
+      atob("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7"),
+      (c) => c.charCodeAt(0),
+    );
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/images/upload",
+      { data: { success: true, data: { imageId: "img-1" } }, ok: true },
+      "POST",
+    );
+    const formats: string[] = [];
+    vi.stubGlobal("File", undefined);
+    try {
+      const response = await client.uploadImage(
+        { buffer: gif.buffer, filename: "a.gif", mimeType: "image/gif" },
+        {
+          preprocess: { backend: new PureImageBackend() },
+          onPreprocess: (result) => formats.push(result.mimeType),
+        },
+      );
+      expect(response.success).toBe(true);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(formats).toEqual(["image/png"]);
+  });
+});
+
+describe("SvgrClient file retrieval", () => {
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+      retry: { maxRetries: 1, baseDelayMs: 1 },
+    });
+  });
+
+  it("fetchSvg goes through the NetworkClient and returns text", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/svg/c1",
+      { data: "<svg/>", ok: true },
+      "GET",
+    );
+
+    await expect(client.fetchSvg("c1")).resolves.toBe("<svg/>");
+  });
+
+  it("fetchSvg sanitizes and optimizes on request", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/svg/c1",
+      {
+        data: '<svg onload="x()"><g></g><path d="M0.12345 1"/></svg>',
+        ok: true,
+      },
+      "GET",
+    );
+
+    await expect(
+      client.fetchSvg("c1", { sanitize: true, optimize: { precision: 1 } }),
+    ).resolves.toBe('<svg><path d="M0.1 1"/></svg>');
+    await expect(client.fetchSvg("c1")).resolves.toContain("onload");
+  });
+
+  it("fetchSvg reads Blob bodies as text", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/svg/c1",
+      { data: new Blob(["<svg/>"], { type: "image/svg+xml" }), ok: true },
+      "GET",
+    );
+
+    await expect(client.fetchSvg("c1")).resolves.toBe("<svg/>");
+  });
+
+  it("fetchSvg retries retryable statuses and throws SvgrApiError", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/svg/c1",
+      { data: null, ok: false, status: 503 },
+      "GET",
+    );
+
+    await expect(client.fetchSvg("c1")).rejects.toThrow("Failed to fetch SVG");
+    expect(
+      mockNetwork.getRequestsByUrl("http://localhost:3001/api/v1/svg/c1"),
+    ).toHaveLength(2);
+  });
+
+  it("passes an AbortSignal that follows the caller's to the NetworkClient", async () => {
+    const controller = new AbortController();
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/files/out.svg",
+      { data: "<svg/>", ok: true, delay: 50 },
+      "GET",
+    );
+
+    const promise = client.fetchFile("out.svg", {
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const passed = mockNetwork.getLastRequest()?.options?.signal;
+    expect(passed?.aborted).toBe(false);
+
+    controller.abort();
+    await expect(promise).rejects.toThrow(SvgrAbortError);
+    expect(passed?.aborted).toBe(true);
+  });
+});
+
+describe("SvgrClient job outputs", () => {
+  const FILES = "http://localhost:3001/api/v1/files";
+  const job = { jobId: "j1", imageId: "img-1", status: "done" } as never;
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+    });
+  });
+
+  it("fetches the SVG, preview and original by the server's file names", async () => {
+    mockNetwork.setMockResponse(
+      `${FILES}/j1.svg`,
+      {
+        data: "<svg/>",
+        ok: true,
+        headers: { "Content-Type": "image/svg+xml; charset=utf-8" },
+      },
+      "GET",
+    );
+    mockNetwork.setMockResponse(
+      `${FILES}/j1.jpg`,
+      { data: new Blob(["jpg"], { type: "image/jpeg" }), ok: true },
+      "GET",
+    );
+    mockNetwork.setMockResponse(
+      `${FILES}/img-1`,
+      { data: "png", ok: true, headers: { "content-type": "image/png" } },
+      "GET",
+    );
+    const outputs = client.getJobOutputs(job);
+
+    await expect(outputs.svgText()).resolves.toBe("<svg/>");
+    await expect(outputs.previewBlob()).resolves.toHaveProperty("size", 3);
+    await expect(outputs.originalBlob()).resolves.toHaveProperty("size", 3);
+  });
+
+  it("rejects files served with the wrong content type", async () => {
+    mockNetwork.setMockResponse(
+      `${FILES}/j1.svg`,
+      {
+        data: "<html>",
+        ok: true,
+        status: 200,
+        headers: { "Content-Type": "text/html", "X-Request-Id": "req-9" },
+      },
+      "GET",
+    );
+
+    const error = await client
+      .getJobOutputs(job)
+      .svgText()
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SvgrContentTypeError);
+    expect(isSvgrApiError(error)).toBe(true);
+    expect(error).toMatchObject({
+      expected: "image/svg+xml",
+      received: "text/html",
+      endpoint: "/api/v1/files/j1.svg",
+      requestId: "req-9",
+    });
+  });
+
+  it("creates object URLs and revokes them", async () => {
+    mockNetwork.setMockResponse(
+      `${FILES}/j1.svg`,
+      { data: "<svg/>", ok: true },
+      "GET",
+    );
+    const revoke = vi.spyOn(URL, "revokeObjectURL");
+    const outputs = client.getJobOutputs(job);
+
+    const first = await outputs.objectUrl();
+    const second = await outputs.objectUrl();
+    expect(first.url).toMatch(/^blob:/);
+    first.revoke();
+    first.revoke();
+    expect(revoke).toHaveBeenCalledTimes(1);
+
+    outputs.revokeAll();
+    expect(revoke).toHaveBeenCalledTimes(2);
+    expect(revoke).toHaveBeenLastCalledWith(second.url);
+    revoke.mockRestore();
+  });
+
+  it("exports the SVG with the client's rasterizer", async () => {
+    mockNetwork.setMockResponse(
+      `${FILES}/j1.svg`,
+      { data: '<svg width="4" height="2"/>', ok: true },
+      "GET",
+    );
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/svg/c1",
+      { data: '<svg width="4" height="2"><title>t</title></svg>', ok: true },
+      "GET",
+    );
+    const rasterize = vi.fn(
+      async (_svg: string, size: { width: number; height: number }) => ({
+        ...size,
+        data: new Uint8Array(size.width * size.height * 4),
+      }),
+    );
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+      rasterizer: { rasterize },
+    });
+
+    const png = await client
+      .getJobOutputs(job)
+      .exportSvg({ format: "png", scale: 2 });
+    expect(png).toMatchObject({ width: 8, height: 4, mimeType: "image/png" });
+    expect(rasterize).toHaveBeenCalledWith('<svg width="4" height="2"/>', {
+      width: 8,
+      height: 4,
+    });
+
+    const jsx = await client.exportSvg("c1", {
+      format: "jsx",
+      componentName: "icon",
+      optimize: { removeEmptyGroups: true },
+    });
+    expect(jsx.data).toContain("const Icon = (props) => (");
+  });
+});
+
 describe("SvgrClient with retry", () => {
   let mockNetwork: MockNetworkClient;
   const retryConfig: RetryConfig = {
@@ -148,50 +644,150 @@ describe("SvgrClient with retry", () => {
     await expect(client.convert("teapot")).rejects.toThrow(SvgrApiError);
   });
 
-  it("works without retry config (default behavior)", async () => {
+  it("retries idempotent GETs and reports each retry", async () => {
+    const onRetry = vi.fn();
     const client = new SvgrClient({
       baseUrl: "http://localhost:3001",
       networkClient: mockNetwork,
+      retry: { ...retryConfig, onRetry },
     });
-
     mockNetwork.setMockResponse(
-      "http://localhost:3001/api/v1/convert",
-      { data: null, ok: false, status: 500 },
-      "POST",
+      "http://localhost:3001/api/v1/images",
+      { data: null, ok: false, status: 502 },
+      "GET",
     );
 
-    await expect(client.convert("bad")).rejects.toThrow("Conversion failed");
+    await expect(client.getUserImages()).rejects.toThrow(SvgrServerError);
+    expect(
+      mockNetwork.getRequestsByUrl("http://localhost:3001/api/v1/images"),
+    ).toHaveLength(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenLastCalledWith(
+      expect.any(SvgrServerError),
+      2,
+      expect.any(Number),
+    );
   });
-});
 
-describe("SvgrClient job methods", () => {
-  let mockNetwork: MockNetworkClient;
-  let client: SvgrClient;
+  it("retries thrown network errors unless retryOnNetworkError is false", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/jobs/j1",
+      { error: new TypeError("Network request failed") },
+      "GET",
+    );
+    const url = "http://localhost:3001/api/v1/jobs/j1";
 
-  beforeEach(() => {
-    mockNetwork = new MockNetworkClient();
-    client = new SvgrClient({
+    const client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+      retry: retryConfig,
+    });
+    await expect(client.getJobStatus("j1")).rejects.toThrow(SvgrNetworkError);
+    expect(mockNetwork.getRequestsByUrl(url)).toHaveLength(3);
+
+    const noNetworkRetry = new SvgrClient({
       baseUrl: "http://localhost:3001",
       networkClient: mockNetwork,
+      retry: { ...retryConfig, retryOnNetworkError: false },
     });
+    await expect(noNetworkRetry.getJobStatus("j1")).rejects.toThrow(
+      SvgrNetworkError,
+    );
+    expect(mockNetwork.getRequestsByUrl(url)).toHaveLength(4);
   });
 
-  it("createJob sends POST to /api/v1/jobs", async () => {
-    const mockResponse = {
-      success: true,
-      data: {
-        jobId: "j1",
-        imageId: "i1",
-        status: "pending",
-        quality: 5,
-        transparentBg: false,
-        ocr: true,
-        mergePaths: true,
-        smooth: 0,
-        imageType: "auto",
-        apiVersion: "1.0.52",
-        createdAt: new Date().toISOString(),
-      },
+  it("waits at least the Retry-After delay", async () => {
+    const onRetry = vi.fn();
+    const client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+      retry: { maxRetries: 1, baseDelayMs: 1, onRetry },
+    });
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/communities?lang=en",
+      { data: {}, ok: false, status: 429, headers: { "Retry-After": "0.02" } },
+      "GET",
+    );
+
+    await expect(client.getCommunities("en")).rejects.toThrow(
+      SvgrRateLimitError,
+    );
+    expect(onRetry).toHaveBeenCalledWith(expect.any(SvgrRateLimitError), 1, 20);
+  });
+
+  it("retries createJob only with an idempotency key", async () => {
+    const client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+      retry: retryConfig,
+      idempotencyKeys: false,
+    });
+    const url = "http://localhost:3001/api/v1/jobs";
+    mockNetwork.setMockResponse(
+      url,
+      { data: null, ok: false, status: 503 },
+      "POST",
+    );
+
+    await expect(client.createJob({ imageId: "i1" })).rejects.toThrow(
+      SvgrServerError,
+    );
+    expect(mockNetwork.getRequestsByUrl(url)).toHaveLength(1);
+    expect(mockNetwork.getLastRequest()?.options?.headers).toBeUndefined();
+
+    await expect(
+      client.createJob({ imageId: "i1" }, { idempotencyKey: "key-1" }),
+    ).rejects.toThrow(SvgrServerError);
+    expect(mockNetwork.getRequestsByUrl(url)).toHaveLength(4);
+    expect(mockNetwork.getLastRequest()?.options?.headers).toEqual({
+      "Idempotency-Key": "key-1",
+    });
+  });
+
+  it("works without retry config (default behavior)", async () => {
+    const client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+    });
+
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/convert",
+      { data: null, ok: false, status: 500 },
+      "POST",
+    );
+
+    await expect(client.convert("bad")).rejects.toThrow("Conversion failed");
+  });
+});
+
+describe("SvgrClient job methods", () => {
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+    });
+  });
+
+  it("createJob sends POST to /api/v1/jobs", async () => {
+    const mockResponse = {
+      success: true,
+      data: {
+        jobId: "j1",
+        imageId: "i1",
+        status: "pending",
+        quality: 5,
+        transparentBg: false,
+        ocr: true,
+        mergePaths: true,
+        smooth: 0,
+        imageType: "auto",
+        apiVersion: "1.0.52",
+        createdAt: new Date().toISOString(),
+      },
       timestamp: new Date().toISOString(),
     };
     mockNetwork.setMockResponse(
@@ -261,6 +857,451 @@ describe("SvgrClient job methods", () => {
   });
 });
 
+describe("SvgrClient waitForJob", () => {
+  const jobUrl = "http://localhost:3001/api/v1/jobs/j1";
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+
+  const setJobStatus = (status: string, extra: object = {}) =>
+    mockNetwork.setMockResponse(
+      jobUrl,
+      {
+        data: { success: true, data: { jobId: "j1", status, ...extra } },
+        ok: true,
+      },
+      "GET",
+    );
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+    });
+  });
+
+  it("polls until the job is done and reports progress", async () => {
+    setJobStatus("pending");
+    const statuses: string[] = [];
+
+    const job = await client.waitForJob("j1", {
+      intervalMs: 1,
+      onProgress: (j) => {
+        statuses.push(j.status);
+        if (statuses.length === 2) setJobStatus("done");
+      },
+    });
+
+    expect(job.status).toBe("done");
+    expect(statuses).toEqual(["pending", "pending", "done"]);
+  });
+
+  it("rejects with SvgrJobFailedError when the job errors", async () => {
+    setJobStatus("error", { error: "Vectorization failed" });
+
+    const error = await client.waitForJob("j1").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SvgrJobFailedError);
+    expect((error as SvgrJobFailedError).message).toBe("Vectorization failed");
+    expect((error as SvgrJobFailedError).job.jobId).toBe("j1");
+  });
+
+  it("rejects with SvgrTimeoutError after timeoutMs", async () => {
+    setJobStatus("processing");
+
+    await expect(
+      client.waitForJob("j1", { intervalMs: 5, timeoutMs: 20 }),
+    ).rejects.toThrow(SvgrTimeoutError);
+  });
+
+  it("stops waiting when the signal is aborted", async () => {
+    setJobStatus("processing");
+    const controller = new AbortController();
+
+    const promise = client.waitForJob("j1", {
+      intervalMs: 1000,
+      signal: controller.signal,
+    });
+    controller.abort(new Error("cancelled"));
+
+    const error = await promise.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SvgrAbortError);
+    expect((error as SvgrAbortError).message).toBe("cancelled");
+  });
+});
+
+describe("SvgrClient uploadAndConvert", () => {
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+    });
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/images/upload",
+      { data: { success: true, data: { imageId: "i1" } }, ok: true },
+      "POST",
+    );
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/jobs",
+      {
+        data: {
+          success: true,
+          data: { jobId: "j1", imageId: "i1", status: "pending" },
+        },
+        ok: true,
+      },
+      "POST",
+    );
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/files/j1.svg",
+      { data: "<svg/>", ok: true },
+      "GET",
+    );
+  });
+
+  it("uploads, creates a job, waits for it and downloads the SVG", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/jobs/j1",
+      {
+        data: {
+          success: true,
+          data: { jobId: "j1", imageId: "i1", status: "done" },
+        },
+        ok: true,
+      },
+      "GET",
+    );
+    const stages: string[] = [];
+
+    const result = await client.uploadAndConvert(
+      { buffer: new ArrayBuffer(4), filename: "a.png", mimeType: "image/png" },
+      { quality: 7 },
+      { onStage: (stage) => stages.push(stage) },
+    );
+
+    expect(result.job.status).toBe("done");
+    expect(await result.svg.text()).toBe("<svg/>");
+    expect(stages).toEqual([
+      "uploading",
+      "queued",
+      "processing",
+      "downloading",
+      "done",
+    ]);
+    expect(
+      JSON.parse(
+        mockNetwork.getRequestsByUrl("http://localhost:3001/api/v1/jobs")[0]
+          ?.body as string,
+      ),
+    ).toEqual({ quality: 7, imageId: "i1" });
+  });
+
+  it("reports job progress to the caller's onProgress", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/jobs/j1",
+      {
+        data: {
+          success: true,
+          data: { jobId: "j1", imageId: "i1", status: "done" },
+        },
+        ok: true,
+      },
+      "GET",
+    );
+    const statuses: string[] = [];
+    const stages: string[] = [];
+
+    await client.uploadAndConvert(
+      { buffer: new ArrayBuffer(4), filename: "a.png", mimeType: "image/png" },
+      {},
+      {
+        onProgress: (job) => statuses.push(job.status),
+        onStage: (stage) => stages.push(stage),
+      },
+    );
+
+    expect(statuses).toEqual(["done"]);
+    expect(stages).toContain("processing");
+  });
+
+  it("rejects an upload response that reports failure", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/images/upload",
+      { data: { success: false, error: "Quota exceeded" }, ok: true },
+      "POST",
+    );
+
+    const error = await client
+      .uploadAndConvert({
+        buffer: new ArrayBuffer(4),
+        filename: "a.png",
+        mimeType: "image/png",
+      })
+      .catch((e: unknown) => e);
+
+    expect(isSvgrUnsuccessfulResponseError(error)).toBe(true);
+    expect(error).toMatchObject({
+      status: 200,
+      message: "Quota exceeded",
+      endpoint: "/api/v1/images/upload",
+    });
+    expect(mockNetwork.wasUrlCalled("http://localhost:3001/api/v1/jobs")).toBe(
+      false,
+    );
+  });
+
+  it("propagates job failures without downloading", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/jobs/j1",
+      {
+        data: { success: true, data: { jobId: "j1", status: "error" } },
+        ok: true,
+      },
+      "GET",
+    );
+
+    await expect(
+      client.uploadAndConvert({
+        buffer: new ArrayBuffer(4),
+        filename: "a.png",
+        mimeType: "image/png",
+      }),
+    ).rejects.toThrow(SvgrJobFailedError);
+    expect(
+      mockNetwork.wasUrlCalled("http://localhost:3001/api/v1/files/j1.svg"),
+    ).toBe(false);
+  });
+});
+
+describe("SvgrClient upload progress", () => {
+  let mockNetwork: MockNetworkClient;
+
+  /** Fake transport that emits three progress events per request */
+  class FakeUploadTransport implements SvgrUploadTransport {
+    requests: SvgrUploadRequest[] = [];
+
+    async send<T>(request: SvgrUploadRequest) {
+      this.requests.push(request);
+      request.onUploadProgress(0, 100);
+      request.onUploadProgress(50, 100);
+      request.onUploadProgress(100, 100);
+      return {
+        ok: true,
+        success: true,
+        status: 200,
+        statusText: "OK",
+        headers: {},
+        data: { success: true, data: { imageId: "i1" } } as T,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+  });
+
+  it("routes uploadImage through the upload transport when progress is requested", async () => {
+    const uploadTransport = new FakeUploadTransport();
+    const client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+      uploadTransport,
+    });
+    const events: [number, number][] = [];
+
+    const result = await client.uploadImage(
+      {
+        buffer: new ArrayBuffer(100),
+        filename: "a.png",
+        mimeType: "image/png",
+      },
+      { onUploadProgress: (loaded, total) => events.push([loaded, total]) },
+    );
+
+    expect(result.data).toEqual({ imageId: "i1" });
+    expect(events).toEqual([
+      [0, 100],
+      [50, 100],
+      [100, 100],
+    ]);
+    expect(uploadTransport.requests[0]?.url).toBe(
+      "http://localhost:3001/api/v1/images/upload",
+    );
+    expect(mockNetwork.getRequests()).toHaveLength(0);
+  });
+
+  it("reports progress for convert through the upload transport", async () => {
+    const uploadTransport = new FakeUploadTransport();
+    const client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+      uploadTransport,
+    });
+    const onUploadProgress = vi.fn();
+
+    await client.convert({ original: "aGVsbG8=" }, { onUploadProgress });
+
+    expect(onUploadProgress).toHaveBeenLastCalledWith(100, 100);
+    expect(uploadTransport.requests[0]?.body).toEqual({ original: "aGVsbG8=" });
+  });
+
+  it("uses the NetworkClient without progress callbacks", async () => {
+    const uploadTransport = new FakeUploadTransport();
+    const client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+      uploadTransport,
+    });
+
+    await client.convert({ original: "aGVsbG8=" });
+
+    expect(uploadTransport.requests).toHaveLength(0);
+    expect(mockNetwork.getRequests()).toHaveLength(1);
+  });
+
+  it("sends uploads through the authenticated NetworkClient without an upload transport", async () => {
+    /** NetworkClient that signs every POST, like an app's auth client */
+    class AuthNetworkClient extends MockNetworkClient {
+      override post<T>(
+        url: string,
+        body?: unknown,
+        options: Parameters<MockNetworkClient["post"]>[2] = {},
+      ) {
+        return super.post<T>(url, body, {
+          ...options,
+          headers: { ...options.headers, Authorization: "Bearer token" },
+        });
+      }
+    }
+    vi.stubGlobal(
+      "XMLHttpRequest",
+      vi.fn(() => {
+        throw new Error("XMLHttpRequest must not be used");
+      }),
+    );
+    const network = new AuthNetworkClient();
+    network.setMockResponse(
+      "http://localhost:3001/api/v1/images/upload",
+      { data: { success: true, data: { imageId: "i1" } }, ok: true },
+      "POST",
+    );
+    const client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: network,
+    });
+    const events: [number, number][] = [];
+
+    try {
+      await client.uploadImage(
+        {
+          buffer: new ArrayBuffer(100),
+          filename: "a.png",
+          mimeType: "image/png",
+        },
+        { onUploadProgress: (loaded, total) => events.push([loaded, total]) },
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    const [request] = network.getRequestsByUrl(
+      "http://localhost:3001/api/v1/images/upload",
+    );
+    expect(request?.options?.headers).toMatchObject({
+      Authorization: "Bearer token",
+    });
+    expect(events).toHaveLength(1);
+    expect(events[0]?.[0]).toBe(events[0]?.[1]);
+  });
+});
+
+describe("SvgrClient conversion cache", () => {
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+      cache: true,
+    });
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/convert",
+      {
+        data: { success: true, data: { cacheId: "c1", width: 1, height: 1 } },
+        ok: true,
+      },
+      "POST",
+    );
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/svg/c1",
+      { data: "<svg/>", ok: true },
+      "GET",
+    );
+  });
+
+  it("serves identical conversions and their SVG from the cache", async () => {
+    await client.convertFile(
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      { quality: 5 },
+    );
+    const again = await client.convertFile(
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      { quality: 5 },
+    );
+
+    expect(again.svg).toBe("<svg/>");
+    expect(mockNetwork.getRequests()).toHaveLength(2);
+  });
+
+  it("throws on an empty SVG body without caching it", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/svg/c1",
+      { data: null, ok: true },
+      "GET",
+    );
+
+    await expect(client.fetchSvg("c1")).rejects.toThrow(
+      SvgrUnsuccessfulResponseError,
+    );
+    await expect(client.cache?.getSvg("c1")).resolves.toBeUndefined();
+
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/svg/c1",
+      { data: "<svg/>", ok: true },
+      "GET",
+    );
+    await expect(client.fetchSvg("c1")).resolves.toBe("<svg/>");
+  });
+
+  it("calls the API again for different parameters or after clear()", async () => {
+    await client.convert({ original: "aGk=", quality: 5 });
+    await client.convert({ original: "aGk=", quality: 6 });
+    await client.cache?.clear();
+    await client.convert({ original: "aGk=", quality: 5 });
+
+    expect(mockNetwork.getRequestsByMethod("POST")).toHaveLength(3);
+  });
+
+  it("does not cache unless enabled", async () => {
+    const uncached = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+    });
+    await uncached.convert({ original: "aGk=" });
+    await uncached.convert({ original: "aGk=" });
+
+    expect(uncached.cache).toBeUndefined();
+    expect(mockNetwork.getRequestsByMethod("POST")).toHaveLength(2);
+  });
+});
+
 describe("SvgrApiError", () => {
   it("includes status code", () => {
     const error = new SvgrApiError(404, "Not found");
@@ -275,3 +1316,590 @@ describe("SvgrApiError", () => {
     expect(error).toBeInstanceOf(SvgrApiError);
   });
 });
+
+describe("SvgrClient error taxonomy", () => {
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+    });
+  });
+
+  const failWith = (
+    url: string,
+    status: number,
+    data: unknown,
+    method: "GET" | "POST" = "GET",
+    headers: Record<string, string> = {},
+  ) =>
+    mockNetwork.setMockResponse(
+      `http://localhost:3001${url}`,
+      { data, ok: false, status, headers },
+      method,
+    );
+
+  it("reports a successful response without a body as unsuccessful", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/convert",
+      { data: null, ok: true, status: 204 },
+      "POST",
+    );
+
+    const error = await client
+      .convert({ original: "aGk=" })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SvgrUnsuccessfulResponseError);
+    expect(error).toMatchObject({
+      status: 204,
+      endpoint: "/api/v1/convert",
+      method: "POST",
+    });
+  });
+
+  it("maps statuses to error classes with request context", async () => {
+    failWith(
+      "/api/v1/jobs/j1",
+      401,
+      { success: false, error: "Token expired" },
+      "GET",
+      { "X-Request-Id": "req-1" },
+    );
+
+    const error = await client.getJobStatus("j1").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SvgrAuthError);
+    expect(isSvgrAuthError(error)).toBe(true);
+    expect(isSvgrApiError(error)).toBe(true);
+    expect(error).toMatchObject({
+      status: 401,
+      message: "Token expired",
+      endpoint: "/api/v1/jobs/j1",
+      method: "GET",
+      requestId: "req-1",
+      body: { success: false, error: "Token expired" },
+    });
+  });
+
+  it.each([
+    [403, SvgrAuthError],
+    [404, SvgrNotFoundError],
+    [408, SvgrTimeoutError],
+    [422, SvgrValidationError],
+    [429, SvgrRateLimitError],
+    [500, SvgrServerError],
+    [503, SvgrServerError],
+    [418, SvgrApiError],
+  ])("maps status %i", async (status, ErrorClass) => {
+    failWith("/api/v1/images", status, { success: false });
+
+    const error = await client.getUserImages().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect((error as SvgrApiError).status).toBe(status);
+    expect((error as SvgrApiError).message).toBe("Failed to list images");
+  });
+
+  it("reads validation issues and the request id from the body", async () => {
+    failWith(
+      "/api/v1/jobs",
+      400,
+      {
+        error: "Invalid job",
+        requestId: "req-2",
+        issues: [{ field: "quality", message: "quality must be 1-10" }],
+      },
+      "POST",
+    );
+
+    const error = await client
+      .createJob({ imageId: "img-1" })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SvgrValidationError);
+    expect((error as SvgrValidationError).issues).toEqual([
+      { field: "quality", message: "quality must be 1-10" },
+    ]);
+    expect((error as SvgrValidationError).requestId).toBe("req-2");
+    expect((error as SvgrValidationError).endpoint).toBe("/api/v1/jobs");
+  });
+
+  it("wraps thrown network exceptions in SvgrNetworkError", async () => {
+    const cause = new TypeError("Failed to fetch");
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/communities?lang=en",
+      { error: cause },
+      "GET",
+    );
+
+    const error = await client.getCommunities("en").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SvgrNetworkError);
+    expect(error).toMatchObject({
+      status: 0,
+      message: "Failed to fetch",
+      endpoint: "/api/v1/communities",
+      method: "GET",
+      cause,
+    });
+  });
+
+  it("carries Retry-After on rate-limit errors", async () => {
+    failWith("/api/v1/files/a.svg", 429, {}, "GET", { "Retry-After": "3" });
+
+    const error = await client.fetchFile("a.svg").catch((e: unknown) => e);
+
+    expect(isSvgrRateLimitError(error)).toBe(true);
+    expect((error as SvgrRateLimitError).retryAfterMs).toBe(3000);
+  });
+});
+
+describe("SvgrClient idempotency keys", () => {
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+
+  const keysFor = (url: string) =>
+    mockNetwork
+      .getRequestsByUrl(url)
+      .map(
+        (request) =>
+          (request.options?.headers as Record<string, string> | undefined)?.[
+            "Idempotency-Key"
+          ],
+      );
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+      retry: { maxRetries: 2, baseDelayMs: 1 },
+    });
+  });
+
+  it("generates one key per call and reuses it across retries", async () => {
+    const url = "http://localhost:3001/api/v1/jobs";
+    mockNetwork.setMockResponse(
+      url,
+      { data: null, ok: false, status: 503 },
+      "POST",
+    );
+
+    await client.createJob({ imageId: "i1" }).catch(() => undefined);
+    await client.createJob({ imageId: "i1" }).catch(() => undefined);
+
+    const keys = keysFor(url);
+    expect(keys).toHaveLength(6);
+    expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(new Set(keys.slice(0, 3)).size).toBe(1);
+    expect(new Set(keys.slice(3)).size).toBe(1);
+    expect(keys[3]).not.toBe(keys[0]);
+  });
+
+  it("sends caller-supplied keys on convert and uploadImage", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/convert",
+      { data: { success: true, data: { cacheId: "c1" } }, ok: true },
+      "POST",
+    );
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/images/upload",
+      { data: { success: true, data: { imageId: "img-1" } }, ok: true },
+      "POST",
+    );
+
+    await client.convert({ original: "aGk=" }, { idempotencyKey: "conv-1" });
+    await client.uploadImage(
+      { buffer: new ArrayBuffer(1), filename: "a.png", mimeType: "image/png" },
+      { idempotencyKey: "up-1" },
+    );
+
+    expect(keysFor("http://localhost:3001/api/v1/convert")).toEqual(["conv-1"]);
+    expect(keysFor("http://localhost:3001/api/v1/images/upload")).toEqual([
+      "up-1",
+    ]);
+  });
+
+  it("does not retry convert without a key when keys are disabled", async () => {
+    const url = "http://localhost:3001/api/v1/convert";
+    const unkeyed = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+      retry: { maxRetries: 2, baseDelayMs: 1 },
+      idempotencyKeys: false,
+    });
+    mockNetwork.setMockResponse(
+      url,
+      { data: null, ok: false, status: 503 },
+      "POST",
+    );
+
+    await expect(unkeyed.convert({ original: "aGk=" })).rejects.toThrow(
+      SvgrServerError,
+    );
+    await expect(
+      unkeyed.convert({ original: "aGk=" }, { idempotencyKey: "conv-1" }),
+    ).rejects.toThrow(SvgrServerError);
+
+    expect(keysFor(url)).toEqual([undefined, "conv-1", "conv-1", "conv-1"]);
+  });
+
+  it("derives per-request keys in uploadAndConvert", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/images/upload",
+      { data: { success: true, data: { imageId: "img-1" } }, ok: true },
+      "POST",
+    );
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/jobs",
+      {
+        data: { success: true, data: { jobId: "j1", status: "done" } },
+        ok: true,
+      },
+      "POST",
+    );
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/jobs/j1",
+      {
+        data: { success: true, data: { jobId: "j1", status: "done" } },
+        ok: true,
+      },
+      "GET",
+    );
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/files/j1.svg",
+      { data: "<svg/>", ok: true },
+      "GET",
+    );
+
+    await client.uploadAndConvert(
+      { buffer: new ArrayBuffer(1), filename: "a.png", mimeType: "image/png" },
+      {},
+      { idempotencyKey: "op-1" },
+    );
+
+    expect(keysFor("http://localhost:3001/api/v1/images/upload")).toEqual([
+      "op-1:upload",
+    ]);
+    expect(keysFor("http://localhost:3001/api/v1/jobs")).toEqual(["op-1:job"]);
+  });
+});
+
+describe("SvgrClient cancellation and timeouts", () => {
+  let mockNetwork: MockNetworkClient;
+
+  const createClient = (config: Partial<SvgrClientConfig> = {}) =>
+    new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+      ...config,
+    });
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/images",
+      { data: { success: true, data: [] }, ok: true, delay: 50 },
+      "GET",
+    );
+  });
+
+  it("rejects with SvgrAbortError without sending when already aborted", async () => {
+    const reason = new Error("navigated away");
+
+    const error = await createClient()
+      .getUserImages({ signal: AbortSignal.abort(reason) })
+      .catch((e: unknown) => e);
+
+    expect(isSvgrAbortError(error)).toBe(true);
+    expect((error as SvgrAbortError).reason).toBe(reason);
+    expect(isSvgrApiError(error)).toBe(false);
+    expect(mockNetwork.getRequests()).toHaveLength(0);
+  });
+
+  it("cancels pending retry delays", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/jobs/j1",
+      { data: null, ok: false, status: 503 },
+      "GET",
+    );
+    const controller = new AbortController();
+    const client = createClient({
+      retry: { maxRetries: 3, baseDelayMs: 10000, jitter: "none" },
+    });
+
+    const promise = client.getJobStatus("j1", { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    controller.abort();
+
+    await expect(promise).rejects.toThrow(SvgrAbortError);
+    expect(mockNetwork.getRequests()).toHaveLength(1);
+  });
+
+  it("fails with SvgrTimeoutError when a call exceeds timeoutMs", async () => {
+    const error = await createClient()
+      .getUserImages({ timeoutMs: 10 })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SvgrTimeoutError);
+    expect(error).toMatchObject({
+      timeoutMs: 10,
+      endpoint: "/api/v1/images",
+      method: "GET",
+    });
+  });
+
+  it("applies per-operation default timeouts from the config", async () => {
+    const client = createClient({
+      timeouts: { getUserImages: 10, default: 5000 },
+    });
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/jobs/j1",
+      { data: { success: true }, ok: true },
+      "GET",
+    );
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/convert",
+      { data: { success: true }, ok: true },
+      "POST",
+    );
+
+    await expect(client.getUserImages()).rejects.toThrow(SvgrTimeoutError);
+    await client.getJobStatus("j1");
+    expect(mockNetwork.getLastRequest()?.options?.timeout).toBe(5000);
+    await client.convert({ original: "aGk=" });
+    expect(mockNetwork.getLastRequest()?.options?.timeout).toBe(120000);
+    await client.convert({ original: "aGk=" }, { timeoutMs: 1000 });
+    expect(mockNetwork.getLastRequest()?.options?.timeout).toBe(1000);
+  });
+});
+
+describe("SvgrClient listings", () => {
+  const BASE = "http://localhost:3001";
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({ baseUrl: BASE, networkClient: mockNetwork });
+  });
+
+  it("sends no query parameters without a page request", async () => {
+    mockNetwork.setMockResponse(
+      `${BASE}/api/v1/images`,
+      { data: { success: true, data: [] }, ok: true },
+      "GET",
+    );
+
+    await client.getUserImages();
+    expect(mockNetwork.wasUrlCalled(`${BASE}/api/v1/images`, "GET")).toBe(true);
+  });
+
+  it("encodes the cursor, limit, filters and sort order", async () => {
+    const url =
+      `${BASE}/api/v1/images?cursor=c1&limit=20&status=queued%2Cprocessing` +
+      "&imageType=logo&createdAfter=2026-01-01T00%3A00%3A00.000Z" +
+      "&createdBefore=2026-02-01&sortBy=updatedAt&order=asc";
+    mockNetwork.setMockResponse(
+      url,
+      { data: { success: true, data: [], nextCursor: null }, ok: true },
+      "GET",
+    );
+
+    const page = await client.getUserImages({
+      cursor: "c1",
+      limit: 20,
+      status: ["queued", "processing"],
+      imageType: "logo",
+      createdAfter: new Date("2026-01-01T00:00:00Z"),
+      createdBefore: "2026-02-01",
+      sortBy: "updatedAt",
+      order: "asc",
+    });
+    expect(page.nextCursor).toBeNull();
+    expect(mockNetwork.wasUrlCalled(url, "GET")).toBe(true);
+  });
+
+  it("appends the page request to getJobsForImage", async () => {
+    const url = `${BASE}/api/v1/jobs?imageId=img-1&limit=5&status=error`;
+    mockNetwork.setMockResponse(
+      url,
+      { data: { success: true, data: [], nextCursor: "n" }, ok: true },
+      "GET",
+    );
+
+    const page = await client.getJobsForImage("img-1", {
+      limit: 5,
+      status: "error",
+    });
+    expect(page.nextCursor).toBe("n");
+  });
+
+  it("rejects invalid filters without calling the API", async () => {
+    await expect(
+      client.getUserImages({
+        limit: 0,
+        createdAfter: "2026-03-01",
+        createdBefore: "2026-02-01",
+      }),
+    ).rejects.toMatchObject({
+      issues: [
+        { field: "limit", message: "limit must be a positive integer" },
+        {
+          field: "createdAfter",
+          message: "createdAfter must not be later than createdBefore",
+        },
+      ],
+    });
+    await expect(
+      client.getJobsForImage("img-1", { createdBefore: "not a date" }),
+    ).rejects.toBeInstanceOf(SvgrValidationError);
+    expect(mockNetwork.getRequests()).toHaveLength(0);
+  });
+
+  it("iterates over every page", async () => {
+    mockNetwork.setMockResponse(
+      `${BASE}/api/v1/images?limit=2&order=desc`,
+      {
+        data: {
+          success: true,
+          data: [{ id: "a" }, { id: "b" }],
+          nextCursor: "p2",
+        },
+        ok: true,
+      },
+      "GET",
+    );
+    mockNetwork.setMockResponse(
+      `${BASE}/api/v1/images?cursor=p2&limit=2&order=desc`,
+      {
+        data: { success: true, data: [{ id: "c" }], nextCursor: null },
+        ok: true,
+      },
+      "GET",
+    );
+
+    const ids: string[] = [];
+    for await (const image of client.iterateUserImages({
+      limit: 2,
+      order: "desc",
+    })) {
+      ids.push((image as unknown as { id: string }).id);
+    }
+    expect(ids).toEqual(["a", "b", "c"]);
+    expect(mockNetwork.getRequests()).toHaveLength(2);
+  });
+});
+
+describe("SvgrClient image and job management", () => {
+  const BASE = "http://localhost:3001";
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({ baseUrl: BASE, networkClient: mockNetwork });
+  });
+
+  it("deletes images and jobs", async () => {
+    const ok = { data: { success: true }, ok: true };
+    mockNetwork.setMockResponse(`${BASE}/api/v1/images/img%201`, ok, "DELETE");
+    mockNetwork.setMockResponse(`${BASE}/api/v1/jobs/j1`, ok, "DELETE");
+
+    await client.deleteImage("img 1");
+    await client.deleteJob("j1");
+
+    expect(
+      mockNetwork.wasUrlCalled(`${BASE}/api/v1/images/img%201`, "DELETE"),
+    ).toBe(true);
+    expect(mockNetwork.wasUrlCalled(`${BASE}/api/v1/jobs/j1`, "DELETE")).toBe(
+      true,
+    );
+  });
+
+  it("updates an image's name and tags", async () => {
+    const url = `${BASE}/api/v1/images/img-1`;
+    mockNetwork.setMockResponse(
+      url,
+      { data: { success: true, data: { imageId: "img-1" } }, ok: true },
+      "PUT",
+    );
+
+    await client.updateImage("img-1", { name: "Logo", tags: ["brand"] });
+
+    expect(mockNetwork.getLastRequest()?.options.body).toEqual(
+      JSON.stringify({ name: "Logo", tags: ["brand"] }),
+    );
+  });
+
+  it("validates image updates before sending", async () => {
+    await expect(client.updateImage("img-1", {})).rejects.toBeInstanceOf(
+      SvgrValidationError,
+    );
+    await expect(
+      client.updateImage("img-1", { name: " ", tags: ["ok", ""] }),
+    ).rejects.toMatchObject({
+      issues: [
+        { field: "name", message: "name must be a non-empty string" },
+        {
+          field: "tags",
+          message: "tags must be an array of non-empty strings",
+        },
+      ],
+    });
+    expect(mockNetwork.getRequests()).toHaveLength(0);
+  });
+
+  it("retries, re-runs and cancels jobs", async () => {
+    const job = { data: { success: true, data: { jobId: "j2" } }, ok: true };
+    for (const action of ["retry", "rerun", "cancel"]) {
+      mockNetwork.setMockResponse(
+        `${BASE}/api/v1/jobs/j1/${action}`,
+        job,
+        "POST",
+      );
+    }
+
+    await client.retryJob("j1", { idempotencyKey: "retry-key" });
+    expect(mockNetwork.getLastRequest()?.options.headers).toMatchObject({
+      "Idempotency-Key": "retry-key",
+    });
+
+    await client.rerunJob("j1", { quality: 9 });
+    const rerun = mockNetwork.getLastRequest();
+    expect(rerun?.url).toBe(`${BASE}/api/v1/jobs/j1/rerun`);
+    expect(rerun?.options.body).toEqual(JSON.stringify({ quality: 9 }));
+    expect(rerun?.options.headers?.["Idempotency-Key"]).toEqual(
+      expect.any(String),
+    );
+
+    const { data } = await client.cancelJob("j1");
+    expect(data).toEqual({ jobId: "j2" });
+  });
+
+  it("reports missing images and jobs as SvgrNotFoundError", async () => {
+    mockNetwork.setMockResponse(
+      `${BASE}/api/v1/jobs/gone`,
+      {
+        data: { success: false, error: "Job not found" },
+        ok: false,
+        status: 404,
+      },
+      "DELETE",
+    );
+
+    const error = await client.deleteJob("gone").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SvgrNotFoundError);
+    expect(error).toMatchObject({
+      status: 404,
+      message: "Job not found",
+      endpoint: "/api/v1/jobs/gone",
+      method: "DELETE",
+    });
+  });
+});
@@ -2,6 +2,7 @@ import type { NetworkClient } from "@sudobility/types";
 import type {
   BaseResponse,
   Community,
+  ConvertRequest,
   ConvertResult,
   CreateJobRequest,
   ImageType,
@@ -9,6 +10,91 @@ import type {
   ImageWithJobs,
   JobResult,
 } from "@sudobility/svgr_types";
+import {
+  type BinaryInput,
+  decodeBase64,
+  detectImageMimeType,
+  encodeBase64,
+  toUint8Array,
+} from "../utils/binary";
+import { sleep } from "../utils/async";
+import { createIdempotencyKey } from "../utils/idempotency";
+import {
+  exportSvg,
+  type SvgExportFormat,
+  type SvgExportOptions,
+  type SvgExportResult,
+} from "../svg/export";
+import { processSvg, type SvgProcessOptions } from "../svg/process";
+import type { SvgRasterizer } from "../svg/raster";
+import {
+  preprocessImage,
+  type SvgrPreprocessOptions,
+  type SvgrPreprocessResult,
+} from "../image/preprocess";
+import {
+  SvgrBatch,
+  type SvgrBatchItem,
+  type SvgrBatchOptions,
+  type SvgrBatchResult,
+} from "./batch";
+import { type SvgrCacheOptions, SvgrConversionCache } from "./cache";
+import {
+  SvgrApiError,
+  SvgrContentTypeError,
+  SvgrJobFailedError,
+  SvgrTimeoutError,
+  SvgrUnsuccessfulResponseError,
+  SvgrValidationError,
+  toAbortError,
+} from "./errors";
+import type { SvgrEventStreamTransport } from "./events";
+import {
+  getJobFilename,
+  getJobSvgFilename,
+  JOB_FILE_CONTENT_TYPES,
+  matchesContentType,
+  type SvgrJobFileKind,
+} from "./files";
+import {
+  type SvgrListQuery,
+  type SvgrListResponse,
+  toListSearchParams,
+} from "./pagination";
+import { SvgrJobOutputs } from "./outputs";
+import type { SvgrMiddleware } from "./middleware";
+import {
+  DEFAULT_JOB_TIMEOUT_MS,
+  getPollInterval,
+  isTerminalJobStatus,
+  type JobPollingOptions,
+  type WaitForJobOptions,
+} from "./polling";
+import type { RetryJitter } from "./retry";
+import {
+  resolveTimeout,
+  type SvgrOperation,
+  type SvgrTimeouts,
+} from "./timeouts";
+import {
+  type JobSubscriptionOptions,
+  type JobUpdateListener,
+  subscribeToJobUpdates,
+} from "./subscriptions";
+import {
+  getHeader,
+  SvgrTransport,
+  type SvgrTransportRequest,
+} from "./transport";
+import {
+  type SvgrUploadTransport,
+  type UploadProgressCallback,
+} from "./upload";
+import {
+  validateConvertRequest,
+  validateListQuery,
+  validateUpdateImageRequest,
+} from "./validation";
 
 /**
  * Configuration for creating an {@link SvgrClient} instance.
@@ -38,24 +124,104 @@ export interface SvgrClientConfig {
    * using exponential backoff.
    */
   retry?: RetryConfig;
+  /**
+   * Optional transport used for requests that report upload progress
+   * (`onUploadProgress` on {@link SvgrClient.uploadImage} and
+   * {@link SvgrClient.convert}), e.g. an {@link XhrUploadTransport} with
+   * `getHeaders` for authentication. Without one, those requests go
+   * through the `networkClient` (with its auth) and report a single 100%
+   * progress event once the body is sent.
+   */
+  uploadTransport?: SvgrUploadTransport;
+  /**
+   * Opt-in content-hash cache for {@link SvgrClient.convert} and
+   * {@link SvgrClient.fetchSvg}. Identical images converted with identical
+   * parameters are served from the cache without calling the API. Pass
+   * `true` for an in-memory LRU cache, options to tune eviction and storage,
+   * or a shared {@link SvgrConversionCache} instance.
+   */
+  cache?: boolean | SvgrCacheOptions | SvgrConversionCache;
+  /**
+   * Attach a generated `Idempotency-Key` header to `convert`, `uploadImage`
+   * and `createJob` when the caller does not supply one (default: true).
+   * Disable when the server's CORS policy does not allow the header; those
+   * calls then only send (and are only retried with) caller-supplied keys.
+   */
+  idempotencyKeys?: boolean;
+  /**
+   * Default request timeouts per operation, in milliseconds (built-in:
+   * `convert` 120000, `uploadImage` 60000, everything else 30000).
+   * Per-call `timeoutMs` takes precedence.
+   */
+  timeouts?: SvgrTimeouts;
+  /**
+   * Middleware run around every request, outermost first (see
+   * {@link SvgrMiddleware}). Use it to add headers, rewrite URLs or observe
+   * responses; {@link createLoggingMiddleware} and
+   * {@link createTimingMiddleware} are built in. The retry policy runs
+   * inside this list unless it contains a {@link createRetryMiddleware}.
+   */
+  middleware?: SvgrMiddleware[];
+  /**
+   * Transport for the job event streams used by
+   * {@link SvgrClient.subscribeJob} and {@link SvgrClient.subscribeJobs}.
+   * Stream requests run through `middleware`, so headers added there
+   * apply, but not through the `NetworkClient`; give a
+   * {@link FetchEventStreamTransport} `getHeaders` when the `NetworkClient`
+   * adds the credentials. Without a transport (the default) subscriptions
+   * poll.
+   */
+  eventTransport?: SvgrEventStreamTransport;
+  /**
+   * Renderer used by {@link SvgrClient.exportSvg} and
+   * {@link SvgrJobOutputs.exportSvg} for `png` and `pdf` exports. Defaults
+   * to a {@link CanvasSvgRasterizer} where a canvas exists; supply one in
+   * Node or React Native.
+   */
+  rasterizer?: SvgRasterizer;
+  /**
+   * Preprocess images before {@link SvgrClient.convert},
+   * {@link SvgrClient.convertFile} and {@link SvgrClient.uploadImage}:
+   * downscale, apply the EXIF orientation, strip metadata and re-encode
+   * BMP and GIF as PNG (see {@link preprocessImage}). Off unless set;
+   * per-call `preprocess` options take precedence.
+   */
+  preprocess?: SvgrPreprocessOptions;
 }
 
 /**
  * Configuration for automatic retry of failed network requests.
  *
+ * Applies to {@link SvgrClient.convert}, the idempotent GETs
+ * (`fetchSvg`, `fetchFile`, `getJobStatus`, `getJobsForImage`,
+ * `getCommunities`, `getUserImages`), the idempotent updates
+ * (`updateImage`, `deleteImage`, `deleteJob`, `cancelJob`) and to
+ * `createJob`, `retryJob` and `rerunJob` when they carry an idempotency key.
+ *
  * @interface RetryConfig
  * @property {number} maxRetries - Maximum number of retry attempts (default: 3)
  * @property {number} baseDelayMs - Base delay in milliseconds before first retry (default: 1000).
  *   Subsequent retries use exponential backoff: `baseDelayMs * 2^attempt`.
+ * @property {number} [maxDelayMs] - Upper bound for a single delay (default: 30000)
+ * @property {RetryJitter} [jitter] - Randomization of the delay (default: `full`)
  * @property {number[]} [retryableStatuses] - HTTP status codes that should trigger a retry.
  *   Defaults to [408, 429, 500, 502, 503, 504].
+ * @property {boolean} [retryOnNetworkError] - Retry when no response was received (default: true)
+ * @property {Function} [shouldRetry] - Replaces the status/network-error check
+ * @property {Function} [onRetry] - Called before every retry with the delay about to be waited
+ *
+ * A `429` response's `Retry-After` is used as the minimum delay; when it
+ * exceeds `maxDelayMs` the {@link SvgrRateLimitError} is thrown instead.
  *
  * @example
  * ```typescript
  * const retryConfig: RetryConfig = {
  *   maxRetries: 3,
  *   baseDelayMs: 1000,
+ *   maxDelayMs: 10000,
  *   retryableStatuses: [429, 500, 502, 503, 504],
+ *   onRetry: (error, attempt, delayMs) =>
+ *     console.warn(`Retry #${attempt} in ${delayMs} ms: ${error.message}`),
  * };
  * ```
  */
@@ -64,47 +230,235 @@ export interface RetryConfig {
   maxRetries: number;
   /** Base delay in milliseconds before first retry (default: 1000) */
   baseDelayMs: number;
+  /** Upper bound for a single retry delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+  /** Randomization applied to the backoff delay (default: `full`) */
+  jitter?: RetryJitter;
   /** HTTP status codes that should trigger a retry. Defaults to [408, 429, 500, 502, 503, 504] */
   retryableStatuses?: number[];
+  /** Retry when no response was received at all ({@link SvgrNetworkError}). Default: true */
+  retryOnNetworkError?: boolean;
+  /**
+   * Decide whether to retry instead of the status/network-error check.
+   * `attempt` is the number of retries already made.
+   */
+  shouldRetry?: (error: SvgrApiError, attempt: number) => boolean;
+  /** Called before every retry; `attempt` starts at 1 */
+  onRetry?: (error: SvgrApiError, attempt: number, delayMs: number) => void;
 }
 
-/** Default HTTP status codes considered retryable */
-const DEFAULT_RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+/**
+ * Per-call options accepted by every {@link SvgrClient} method.
+ *
+ * @interface SvgrRequestOptions
+ * @property {AbortSignal} [signal] - Signal used to cancel the request; rejects with {@link SvgrAbortError}
+ * @property {number} [timeoutMs] - Timeout for each attempt; overrides {@link SvgrClientConfig.timeouts}
+ */
+export interface SvgrRequestOptions {
+  /**
+   * Signal used to cancel the request (including pending retry delays).
+   * Cancellation rejects with {@link SvgrAbortError}.
+   */
+  signal?: AbortSignal;
+  /**
+   * Timeout for each attempt in milliseconds; an attempt that runs longer
+   * fails with {@link SvgrTimeoutError}. Defaults to
+   * {@link SvgrClientConfig.timeouts}.
+   */
+  timeoutMs?: number;
+}
 
 /**
- * Error thrown when the SVGR API returns a non-successful HTTP response.
+ * Per-call options for the listing methods ({@link SvgrClient.getUserImages},
+ * {@link SvgrClient.getJobsForImage}): the page request plus the usual
+ * request options.
  *
- * Extends the built-in `Error` class with an HTTP `status` code property,
- * allowing consumers to differentiate between different error types.
+ * @interface SvgrListOptions
+ * @extends SvgrRequestOptions
+ * @extends SvgrListQuery
+ */
+export interface SvgrListOptions extends SvgrRequestOptions, SvgrListQuery {}
+
+/**
+ * Per-call options for {@link SvgrClient.fetchSvg}: post-processing steps
+ * plus the usual request options.
+ *
+ * @interface SvgrFetchSvgOptions
+ * @extends SvgrRequestOptions
+ * @extends SvgProcessOptions
+ */
+export interface SvgrFetchSvgOptions
+  extends SvgrRequestOptions, SvgProcessOptions {}
+
+/**
+ * Per-call options for {@link SvgrClient.exportSvg}: the export format and
+ * settings plus the {@link SvgrFetchSvgOptions} used to download the SVG.
  *
- * @extends Error
- * @property {number} status - The HTTP status code from the API response
- * @property {string} message - Human-readable error description
- * @property {string} name - Always `"SvgrApiError"` for type identification
+ * @interface SvgrExportSvgOptions
+ * @extends SvgExportOptions
+ * @extends SvgrFetchSvgOptions
+ */
+export interface SvgrExportSvgOptions<
+  F extends SvgExportFormat = SvgExportFormat,
+>
+  extends SvgExportOptions<F>, SvgrFetchSvgOptions {}
+
+/**
+ * Per-call options for non-GET requests that the server deduplicates by
+ * `Idempotency-Key`.
  *
- * @example
- * ```typescript
- * try {
- *   await client.convert(imageData);
- * } catch (error) {
- *   if (error instanceof SvgrApiError) {
- *     console.error(`API error ${error.status}: ${error.message}`);
- *     if (error.status === 429) {
- *       // Handle rate limiting
- *     }
- *   }
- * }
- * ```
+ * @interface SvgrIdempotencyOptions
+ * @extends SvgrRequestOptions
+ * @property {string} [idempotencyKey] - Sent as the `Idempotency-Key` header (default: generated per call)
  */
-export class SvgrApiError extends Error {
-  constructor(
-    /** The HTTP status code from the API response */
-    public status: number,
-    message: string,
-  ) {
-    super(message);
-    this.name = "SvgrApiError";
-  }
+export interface SvgrIdempotencyOptions extends SvgrRequestOptions {
+  /**
+   * Sent as the `Idempotency-Key` header so the server can deduplicate
+   * retried requests. Defaults to a key generated per call (see
+   * {@link SvgrClientConfig.idempotencyKeys}); pass your own to keep it
+   * stable across calls that retry the same logical operation.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Per-call options for methods that upload a request body.
+ *
+ * @interface SvgrUploadOptions
+ * @extends SvgrIdempotencyOptions
+ * @property {UploadProgressCallback} [onUploadProgress] - Called with `(loaded, total)` bytes as the body is sent
+ * @property {SvgrPreprocessOptions | boolean} [preprocess] - Preprocess the image before sending it
+ * @property {Function} [onPreprocess] - Called with the preprocessing result before the image is sent
+ */
+export interface SvgrUploadOptions extends SvgrIdempotencyOptions {
+  /** Called with `(loaded, total)` bytes as the request body is sent */
+  onUploadProgress?: UploadProgressCallback;
+  /**
+   * Preprocess the image before sending it (see {@link preprocessImage}).
+   * Options are merged over {@link SvgrClientConfig.preprocess}; `true`
+   * uses the client's options or the defaults, `false` turns it off.
+   */
+  preprocess?: SvgrPreprocessOptions | boolean;
+  /**
+   * Called with the preprocessing result before the image is sent. Divide
+   * the sizes the server reports by `result.scale` to get the original's.
+   */
+  onPreprocess?: (result: SvgrPreprocessResult) => void;
+}
+
+/**
+ * Conversion options for {@link SvgrClient.convertFile}.
+ *
+ * Same as {@link ConvertRequest} without `original`, which is produced from
+ * the file. When `filename` is omitted and the input is a `File`, the file's
+ * name is used.
+ */
+export type ConvertFileOptions = Omit<ConvertRequest, "original">;
+
+/**
+ * Result of {@link SvgrClient.convertFile}: the SVG text together with the
+ * conversion metadata.
+ *
+ * @interface ConvertFileResult
+ * @property {string} svg - The converted SVG markup
+ * @property {number} width - Width of the converted image in pixels (after preprocessing)
+ * @property {number} height - Height of the converted image in pixels (after preprocessing)
+ * @property {string} cacheId - Cache ID of the SVG on the server
+ * @property {number} scale - Size of the converted image divided by the original's (1 without preprocessing)
+ */
+export interface ConvertFileResult {
+  /** The converted SVG markup */
+  svg: string;
+  /** Width of the converted image in pixels, after any preprocessing */
+  width: number;
+  /** Height of the converted image in pixels, after any preprocessing */
+  height: number;
+  /** Cache ID of the SVG on the server (usable with {@link SvgrClient.fetchSvg}) */
+  cacheId: string;
+  /**
+   * Size of the converted image divided by the original's: below 1 when
+   * preprocessing downscaled it, otherwise 1. `width` and `height` are the
+   * converted image's; divide them by `scale` for the original's.
+   */
+  scale: number;
+}
+
+/**
+ * Changes for {@link SvgrClient.updateImage}. Fields left out keep their
+ * current value.
+ *
+ * @interface UpdateImageRequest
+ * @property {string} [name] - New display name of the image
+ * @property {string[]} [tags] - New tags, replacing the current ones
+ */
+export interface UpdateImageRequest {
+  /** New display name of the image */
+  name?: string;
+  /** New tags, replacing the current ones */
+  tags?: string[];
+}
+
+/**
+ * Conversion parameters for {@link SvgrClient.rerunJob}. Fields left out
+ * are copied from the original job.
+ */
+export type RerunJobOverrides = Partial<Omit<CreateJobRequest, "imageId">>;
+
+/**
+ * An image accepted by {@link SvgrClient.uploadImage}: a browser `File`, or
+ * raw bytes with a name and MIME type (e.g. from React Native).
+ */
+export type UploadImageInput =
+  File | { buffer: ArrayBuffer; filename: string; mimeType: string };
+
+/**
+ * Stages reported by {@link SvgrClient.uploadAndConvert}, in order.
+ *
+ * - `uploading` — the image is being uploaded
+ * - `queued` — the job was created and is waiting to start
+ * - `processing` — the server is converting the image
+ * - `downloading` — the SVG output is being fetched
+ * - `done` — the pipeline finished
+ */
+export type UploadAndConvertStage =
+  "uploading" | "queued" | "processing" | "downloading" | "done";
+
+/**
+ * Options for {@link SvgrClient.uploadAndConvert}.
+ *
+ * @interface UploadAndConvertOptions
+ * @extends JobPollingOptions
+ * @property {AbortSignal} [signal] - Signal used to cancel the whole pipeline
+ * @property {string} [idempotencyKey] - Base key for the upload and job-creation requests
+ * @property {Function} [onStage] - Called whenever the pipeline enters a new stage
+ * @property {Function} [onProgress] - Called with the job after every status poll
+ */
+export interface UploadAndConvertOptions extends JobPollingOptions {
+  /** Signal used to cancel the whole pipeline */
+  signal?: AbortSignal;
+  /**
+   * Base idempotency key for the pipeline; the upload and the job creation
+   * use `<key>:upload` and `<key>:job`. Defaults to keys generated per call.
+   */
+  idempotencyKey?: string;
+  /** Called whenever the pipeline enters a new stage */
+  onStage?: (stage: UploadAndConvertStage) => void;
+  /** Called with the latest job state after every status poll */
+  onProgress?: (job: JobResult) => void;
+}
+
+/**
+ * Result of {@link SvgrClient.uploadAndConvert}.
+ *
+ * @interface UploadAndConvertResult
+ * @property {JobResult} job - The finished job
+ * @property {Blob} svg - The SVG output of the job
+ */
+export interface UploadAndConvertResult {
+  /** The finished job */
+  job: JobResult;
+  /** The SVG output of the job */
+  svg: Blob;
 }
 
 /**
@@ -139,13 +493,39 @@ export class SvgrApiError extends Error {
  */
 export class SvgrClient {
   private readonly baseUrl: string;
-  private readonly networkClient: NetworkClient;
-  private readonly retryConfig: RetryConfig | undefined;
+  private readonly transport: SvgrTransport;
+  /** The conversion cache, when enabled through {@link SvgrClientConfig.cache} */
+  readonly cache: SvgrConversionCache | undefined;
+  private readonly idempotencyKeys: boolean;
+  private readonly timeouts: SvgrTimeouts;
+  private readonly eventTransport: SvgrEventStreamTransport | undefined;
+  /** The renderer for `png` and `pdf` exports, from {@link SvgrClientConfig.rasterizer} */
+  readonly rasterizer: SvgRasterizer | undefined;
+  private readonly preprocess: SvgrPreprocessOptions | undefined;
 
   constructor(config: SvgrClientConfig) {
     this.baseUrl = config.baseUrl;
-    this.networkClient = config.networkClient;
-    this.retryConfig = config.retry;
+    this.idempotencyKeys = config.idempotencyKeys ?? true;
+    this.timeouts = config.timeouts ?? {};
+    this.rasterizer = config.rasterizer;
+    this.preprocess = config.preprocess;
+    this.cache =
+      config.cache instanceof SvgrConversionCache
+        ? config.cache
+        : config.cache
+          ? new SvgrConversionCache(config.cache === true ? {} : config.cache)
+          : undefined;
+    this.transport = new SvgrTransport(
+      config.networkClient,
+      config.retry,
+      config.uploadTransport,
+      config.middleware,
+    );
+    const { eventTransport } = config;
+    this.eventTransport = eventTransport && {
+      connect: (request) =>
+        this.transport.connectStream(eventTransport, request),
+    };
   }
 
   /**
@@ -156,22 +536,31 @@ export class SvgrClient {
    * containing a cache ID and original image dimensions on success.
    * Use {@link fetchSvg} with the cache ID to retrieve the SVG content.
    *
-   * @param original - Base64-encoded raster image data (PNG, JPG, WEBP, BMP, or GIF)
-   * @param filename - Optional filename for metadata or audit purposes
-   * @param quality - Conversion quality level from 1 to 10 (1 = smallest, 10 = highest fidelity). Default: 5
-   * @param transparentBg - If true, removes the background from the SVG. Default: false
-   * @param imageType - Optional shared preprocessing profile such as `photo`, `gray_scale`, or `design`
+   * Prefer the options-object form: it is validated on the client and
+   * throws {@link SvgrValidationError} listing every invalid field without
+   * calling the API. The positional form is kept for backward compatibility
+   * and is sent as-is. When {@link SvgrClientConfig.cache} is enabled,
+   * repeated identical requests are answered from the cache. With
+   * `preprocess` (per call or in {@link SvgrClientConfig.preprocess}), the
+   * image is preprocessed first; the returned `width` and `height` are then
+   * those of the processed image.
+   *
+   * @param request - The conversion request (image data plus named options)
+   * @param options - Optional per-call options: `signal`, `onUploadProgress` and `preprocess`
    * @returns A promise resolving to a `BaseResponse<ConvertResult>` with the SVG output
-   * @throws {SvgrApiError} When the API returns a non-successful response (includes HTTP status code)
+   * @throws {SvgrValidationError} When the request fails client-side validation
+   * @throws {SvgrUnsuccessfulResponseError} When a successful response has no body
+   * @throws {SvgrApiError} The subclass matching the failure (e.g. {@link SvgrRateLimitError}, {@link SvgrServerError}, {@link SvgrNetworkError})
    *
    * @example
    * ```typescript
-   * const response = await client.convert(
-   *   'data:image/png;base64,...',
-   *   'logo.png',
-   *   7,
-   *   true,
-   * );
+   * const response = await client.convert({
+   *   original: 'data:image/png;base64,...',
+   *   filename: 'logo.png',
+   *   quality: 7,
+   *   transparentBg: true,
+   *   smooth: 1,
+   * });
    * if (response.success && response.data) {
    *   const svg = await client.fetchSvg(response.data.cacheId);
    *   console.log(svg);                   // SVG string
@@ -180,6 +569,25 @@ export class SvgrClient {
    * }
    * ```
    */
+  async convert(
+    request: ConvertRequest,
+    options?: SvgrUploadOptions,
+  ): Promise<BaseResponse<ConvertResult>>;
+  /**
+   * Convert a raster image to SVG format (positional form).
+   *
+   * @deprecated Use the {@link ConvertRequest} options-object form instead.
+   * @param original - Base64-encoded raster image data (PNG, JPG, WEBP, BMP, or GIF)
+   * @param filename - Optional filename for metadata or audit purposes
+   * @param quality - Conversion quality level from 1 to 10 (1 = smallest, 10 = highest fidelity). Default: 5
+   * @param transparentBg - If true, removes the background from the SVG. Default: false
+   * @param ocr - If true, runs OCR to emit editable SVG text elements. Default: true
+   * @param mergePaths - If true, merges small and thin paths into neighbors. Default: true
+   * @param smooth - Smoothing level 0-3 for the output SVG paths. Default: 0
+   * @param imageType - Optional shared preprocessing profile such as `photo`, `gray_scale`, or `design`
+   * @returns A promise resolving to a `BaseResponse<ConvertResult>` with the SVG output
+   * @throws {SvgrApiError} When the API returns a non-successful response (includes HTTP status code)
+   */
   async convert(
     original: string,
     filename?: string,
@@ -189,35 +597,74 @@ export class SvgrClient {
     mergePaths?: boolean,
     smooth?: number,
     imageType?: ImageType,
+  ): Promise<BaseResponse<ConvertResult>>;
+  async convert(
+    originalOrRequest: string | ConvertRequest,
+    filenameOrOptions?: string | SvgrUploadOptions,
+    quality?: number,
+    transparentBg?: boolean,
+    ocr?: boolean,
+    mergePaths?: boolean,
+    smooth?: number,
+    imageType?: ImageType,
   ): Promise<BaseResponse<ConvertResult>> {
-    const makeRequest = () =>
-      this.networkClient.post<BaseResponse<ConvertResult>>(
-        `${this.baseUrl}/api/v1/convert`,
-        {
-          original,
-          filename,
-          quality,
-          transparentBg,
-          ocr,
-          mergePaths,
-          smooth,
-          imageType,
-        },
-        { timeout: 120000 },
-      );
+    let body: ConvertRequest;
+    let options: SvgrUploadOptions = {};
+    if (typeof originalOrRequest === "string") {
+      body = {
+        original: originalOrRequest,
+        filename: filenameOrOptions as string | undefined,
+        quality,
+        transparentBg,
+        ocr,
+        mergePaths,
+        smooth,
+        imageType,
+      } as ConvertRequest;
+    } else {
+      const issues = validateConvertRequest(originalOrRequest);
+      if (issues.length > 0) {
+        throw new SvgrValidationError(issues);
+      }
+      options = (filenameOrOptions as SvgrUploadOptions | undefined) ?? {};
+      body = await this.preprocessRequest(originalOrRequest, options);
+    }
+
+    const cacheKey = this.cache ? await this.cache.keyFor(body) : undefined;
+    if (cacheKey) {
+      const cached = await this.cache?.get(cacheKey);
+      if (cached) {
+        return {
+          success: true,
+          data: cached.result,
+          timestamp: new Date().toISOString(),
+        };
+      }
+    }
 
-    const response = this.retryConfig
-      ? await this.withRetry(makeRequest, this.retryConfig)
-      : await makeRequest();
+    const response = await this.transport.send<BaseResponse<ConvertResult>>({
+      method: "POST",
+      url: `${this.baseUrl}/api/v1/convert`,
+      ...this.idempotencyHeaders(options.idempotencyKey),
+      errorMessage: "Conversion failed",
+      body,
+      ...this.requestOptions("convert", options),
+      ...(options.onUploadProgress && {
+        onUploadProgress: options.onUploadProgress,
+      }),
+    });
 
-    if (!response.ok || !response.data) {
-      const errorData = response.data as { error?: string } | null | undefined;
-      throw new SvgrApiError(
+    if (!response.data) {
+      throw new SvgrUnsuccessfulResponseError(
+        "Conversion failed: empty response",
+        { endpoint: "/api/v1/convert", method: "POST" },
         response.status,
-        errorData?.error || "Conversion failed",
       );
     }
 
+    if (cacheKey && response.data.success && response.data.data) {
+      await this.cache?.set(cacheKey, response.data.data);
+    }
     return response.data;
   }
 
@@ -225,12 +672,22 @@ export class SvgrClient {
    * Fetch a cached SVG by its cache ID.
    *
    * Sends a GET request to `/api/v1/svg/:cacheId` which returns the raw SVG
-   * content with `Content-Type: image/svg+xml`. Uses native `fetch` instead
-   * of the `NetworkClient` because the response is raw SVG text, not JSON.
+   * content with `Content-Type: image/svg+xml`. Goes through the injected
+   * `NetworkClient` like every other method, so auth headers, the retry
+   * policy and test mocks apply; the body is coerced to text whether the
+   * client parsed it as a string or a Blob.
+   *
+   * With `sanitize` and/or `optimize`, the SVG is post-processed by
+   * {@link processSvg} before it is returned; the conversion cache keeps
+   * the unprocessed SVG.
    *
    * @param cacheId - The cache ID returned from a successful {@link convert} call
+   * @param options - Post-processing steps and per-call options (e.g. an `AbortSignal`)
    * @returns The SVG content as a string
-   * @throws {SvgrApiError} When the fetch fails or returns a non-OK status
+   * @throws {SvgrNotFoundError} When no SVG is cached under `cacheId`
+   * @throws {SvgrUnsuccessfulResponseError} When the response has no SVG body
+   * @throws {SvgrApiError} When the fetch fails for another reason
+   * @throws {SvgParseError} When post-processing is requested and the SVG is malformed
    *
    * @example
    * ```typescript
@@ -239,170 +696,948 @@ export class SvgrClient {
    *   const svg = await client.fetchSvg(response.data.cacheId);
    *   console.log(svg); // '<svg xmlns="http://www.w3.org/2000/svg">...</svg>'
    * }
+   *
+   * // Safe to insert into the page
+   * const safe = await client.fetchSvg(cacheId, { sanitize: true });
    * ```
    */
-  async fetchSvg(cacheId: string): Promise<string> {
-    const url = `${this.baseUrl}/api/v1/svg/${cacheId}`;
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new SvgrApiError(response.status, "Failed to fetch SVG");
+  async fetchSvg(
+    cacheId: string,
+    options: SvgrFetchSvgOptions = {},
+  ): Promise<string> {
+    return processSvg(await this.fetchRawSvg(cacheId, options), options);
+  }
+
+  /**
+   * Fetch a cached SVG and export it as a PNG, a PDF, or a React / React
+   * Native component (see {@link exportSvg}).
+   *
+   * `png` and `pdf` use the `rasterizer` option, then the client's
+   * {@link SvgrClientConfig.rasterizer}, then the canvas where available.
+   *
+   * @param cacheId - The cache ID returned from a successful {@link convert} call
+   * @param options - Export format and settings, post-processing steps and per-call options
+   * @returns The exported file
+   * @throws {SvgrNotFoundError} When no SVG is cached under `cacheId`
+   * @throws {SvgrApiError} When the fetch fails for another reason
+   * @throws {SvgParseError} When the SVG is malformed
+   * @throws {Error} When exporting `png` or `pdf` without a rasterizer where there is no canvas
+   *
+   * @example
+   * ```typescript
+   * const { data } = await client.exportSvg(cacheId, {
+   *   format: "tsx",
+   *   componentName: "Logo",
+   *   optimize: true,
+   * });
+   * ```
+   */
+  async exportSvg<F extends SvgExportFormat>(
+    cacheId: string,
+    options: SvgrExportSvgOptions<F>,
+  ): Promise<SvgExportResult<F>> {
+    const svg = await this.fetchSvg(cacheId, options);
+    const rasterizer = options.rasterizer ?? this.rasterizer;
+    return exportSvg(svg, rasterizer ? { ...options, rasterizer } : options);
+  }
+
+  private async fetchRawSvg(
+    cacheId: string,
+    options: SvgrRequestOptions,
+  ): Promise<string> {
+    const cached = await this.cache?.getSvg(cacheId);
+    if (cached !== undefined) return cached;
+
+    const response = await this.transport.send<string>({
+      method: "GET",
+      url: `${this.baseUrl}/api/v1/svg/${cacheId}`,
+      errorMessage: "Failed to fetch SVG",
+      responseType: "text",
+      retry: true,
+      ...this.requestOptions("fetchSvg", options),
+    });
+    const svg = response.data;
+    if (!svg) {
+      throw new SvgrUnsuccessfulResponseError(
+        "Failed to fetch SVG: empty response",
+        { endpoint: `/api/v1/svg/${cacheId}`, method: "GET" },
+        response.status,
+      );
+    }
+    await this.cache?.setSvg(cacheId, svg);
+    return svg;
+  }
+
+  /**
+   * Convert a binary image to SVG text in one call.
+   *
+   * Reads the input, detects its MIME type from the magic bytes (the
+   * declared `Blob.type` is ignored), encodes it as a base64 data URL,
+   * calls {@link convert} and then {@link fetchSvg} with the returned cache ID.
+   * Works in browsers and React Native (Blobs without `arrayBuffer()` are
+   * read through `FileReader`).
+   *
+   * @param file - The image as a `File`, `Blob`, `ArrayBuffer` or `Uint8Array`
+   * @param options - Optional conversion parameters (validated like {@link convert})
+   * @returns The SVG markup with the converted image's dimensions, the scale and the cache ID
+   * @throws {SvgrValidationError} When the format is not a supported raster image or an option is invalid
+   * @throws {SvgrApiError} When the conversion or the SVG download fails
+   * @throws {SvgrUnsuccessfulResponseError} When the conversion response reports `success: false`
+   *
+   * @example
+   * ```typescript
+   * const { svg, width, height } = await client.convertFile(file, {
+   *   quality: 7,
+   *   transparentBg: true,
+   * });
+   * ```
+   */
+  async convertFile(
+    file: BinaryInput,
+    options: ConvertFileOptions = {},
+    requestOptions: SvgrUploadOptions = {},
+  ): Promise<ConvertFileResult> {
+    let bytes = await toUint8Array(file);
+    let mimeType: string | null = detectImageMimeType(bytes);
+    if (!mimeType) {
+      throw new SvgrValidationError([
+        {
+          field: "file",
+          message: "file must be a PNG, JPEG, WEBP, BMP or GIF image",
+        },
+      ]);
+    }
+
+    let filename = options.filename ?? (isFile(file) ? file.name : undefined);
+    const preprocessed = await this.runPreprocess(
+      bytes,
+      "file",
+      requestOptions,
+    );
+    if (preprocessed) {
+      bytes = preprocessed.data;
+      mimeType = preprocessed.mimeType;
+      if (filename !== undefined) filename = withExtension(filename, mimeType);
+    }
+    const response = await this.convert(
+      {
+        ...options,
+        ...(filename !== undefined && { filename }),
+        original: `data:${mimeType};base64,${encodeBase64(bytes)}`,
+      },
+      { ...requestOptions, preprocess: false },
+    );
+
+    if (!response.success || !response.data) {
+      throw new SvgrUnsuccessfulResponseError(
+        response.error ?? "Conversion failed",
+        {
+          endpoint: "/api/v1/convert",
+          method: "POST",
+          body: response,
+        },
+      );
     }
-    return response.text();
+
+    const { cacheId, width, height } = response.data;
+    const svg = await this.fetchSvg(cacheId, requestOptions);
+    return { svg, width, height, cacheId, scale: preprocessed?.scale ?? 1 };
   }
 
   /**
    * Upload an image file for persistent storage.
    * Uses networkClient.post with FormData (handles auth automatically).
+   * When `onUploadProgress` is given and an {@link SvgrUploadTransport} is
+   * configured, the upload goes through it so progress can be reported;
+   * otherwise a single 100% event follows the upload. With
+   * `preprocess`, the image is preprocessed first and its file extension
+   * follows a format change.
    */
   async uploadImage(
-    file: File | { buffer: ArrayBuffer; filename: string; mimeType: string },
+    file: UploadImageInput,
+    options: SvgrUploadOptions = {},
   ): Promise<BaseResponse<ImageUploadResult>> {
+    if (this.preprocessSettings(options.preprocess)) {
+      const bytes = await toUint8Array(isFile(file) ? file : file.buffer);
+      const result = await this.runPreprocess(bytes, "file", options);
+      if (result && result.data !== bytes) {
+        const { data } = result;
+        file = {
+          buffer: data.buffer.slice(
+            data.byteOffset,
+            data.byteOffset + data.byteLength,
+          ) as ArrayBuffer,
+          filename: withExtension(
+            isFile(file) ? file.name : file.filename,
+            result.mimeType,
+          ),
+          mimeType: result.mimeType,
+        };
+      }
+    }
+
     const formData = new FormData();
-    if (file instanceof File) {
+    if (isFile(file)) {
       formData.append("image", file);
     } else {
       const blob = new Blob([file.buffer], { type: file.mimeType });
       formData.append("image", blob, file.filename);
     }
 
-    const url = `${this.baseUrl}/api/v1/images/upload`;
-    const response = await this.networkClient.post<
-      BaseResponse<ImageUploadResult>
-    >(url, formData, { timeout: 60000 });
-
-    if (!response.ok) {
-      throw new SvgrApiError(
-        response.status,
-        (response.data as { error?: string })?.error ?? "Upload failed",
-      );
-    }
+    const response = await this.transport.send<BaseResponse<ImageUploadResult>>(
+      {
+        method: "POST",
+        url: `${this.baseUrl}/api/v1/images/upload`,
+        errorMessage: "Upload failed",
+        body: formData,
+        ...this.idempotencyHeaders(options.idempotencyKey),
+        ...this.requestOptions("uploadImage", options),
+        ...(options.onUploadProgress && {
+          onUploadProgress: options.onUploadProgress,
+        }),
+      },
+    );
 
     return response.data as BaseResponse<ImageUploadResult>;
   }
 
-  /** Create a conversion job for an uploaded image. */
-  async createJob(request: CreateJobRequest): Promise<BaseResponse<JobResult>> {
-    const url = `${this.baseUrl}/api/v1/jobs`;
-    const response = await this.networkClient.post<BaseResponse<JobResult>>(
-      url,
-      request,
-    );
-
-    if (!response.ok) {
-      throw new SvgrApiError(
-        response.status,
-        (response.data as { error?: string })?.error ?? "Job creation failed",
-      );
-    }
+  /**
+   * Create a conversion job for an uploaded image.
+   * Sent with an `Idempotency-Key` (see {@link SvgrIdempotencyOptions}) and
+   * retried under the client's {@link RetryConfig} only when it has one, so
+   * a retry cannot create a duplicate job.
+   */
+  async createJob(
+    request: CreateJobRequest,
+    options: SvgrIdempotencyOptions = {},
+  ): Promise<BaseResponse<JobResult>> {
+    const response = await this.transport.send<BaseResponse<JobResult>>({
+      method: "POST",
+      url: `${this.baseUrl}/api/v1/jobs`,
+      errorMessage: "Job creation failed",
+      body: request,
+      ...this.idempotencyHeaders(options.idempotencyKey),
+      ...this.requestOptions("createJob", options),
+    });
 
     return response.data as BaseResponse<JobResult>;
   }
 
   /** Get the current status of a conversion job. */
-  async getJobStatus(jobId: string): Promise<BaseResponse<JobResult>> {
-    const url = `${this.baseUrl}/api/v1/jobs/${jobId}`;
-    const response = await this.networkClient.get<BaseResponse<JobResult>>(url);
+  async getJobStatus(
+    jobId: string,
+    options: SvgrRequestOptions = {},
+  ): Promise<BaseResponse<JobResult>> {
+    const response = await this.transport.send<BaseResponse<JobResult>>({
+      method: "GET",
+      url: `${this.baseUrl}/api/v1/jobs/${jobId}`,
+      errorMessage: "Failed to get job status",
+      retry: true,
+      ...this.requestOptions("getJobStatus", options),
+    });
 
-    if (!response.ok) {
-      throw new SvgrApiError(
-        response.status,
-        (response.data as { error?: string })?.error ??
-          "Failed to get job status",
-      );
-    }
+    return response.data as BaseResponse<JobResult>;
+  }
+
+  /**
+   * Run a failed job again with the same settings.
+   * Sent with an `Idempotency-Key` like {@link createJob}, so a retried
+   * request cannot start the job twice.
+   *
+   * @param jobId - The job to retry
+   * @param options - Idempotency key, `signal` and `timeoutMs`
+   * @returns The job, queued again
+   */
+  async retryJob(
+    jobId: string,
+    options: SvgrIdempotencyOptions = {},
+  ): Promise<BaseResponse<JobResult>> {
+    const response = await this.transport.send<BaseResponse<JobResult>>({
+      method: "POST",
+      url: `${this.baseUrl}/api/v1/jobs/${encodeURIComponent(jobId)}/retry`,
+      errorMessage: "Failed to retry job",
+      ...this.idempotencyHeaders(options.idempotencyKey),
+      ...this.requestOptions("retryJob", options),
+    });
 
     return response.data as BaseResponse<JobResult>;
   }
 
-  /** List all conversion jobs for a given image. */
-  async getJobsForImage(imageId: string): Promise<BaseResponse<JobResult[]>> {
-    const url = `${this.baseUrl}/api/v1/jobs?imageId=${encodeURIComponent(imageId)}`;
-    const response =
-      await this.networkClient.get<BaseResponse<JobResult[]>>(url);
+  /**
+   * Convert a job's image again as a new job, optionally with different
+   * settings. The original job is kept.
+   * Sent with an `Idempotency-Key` like {@link createJob}.
+   *
+   * @param jobId - The job whose image and settings to reuse
+   * @param overrides - Conversion parameters that differ from the original job
+   * @param options - Idempotency key, `signal` and `timeoutMs`
+   * @returns The new job
+   *
+   * @example
+   * ```typescript
+   * const { data: job } = await client.rerunJob(jobId, { quality: 9 });
+   * ```
+   */
+  async rerunJob(
+    jobId: string,
+    overrides: RerunJobOverrides = {},
+    options: SvgrIdempotencyOptions = {},
+  ): Promise<BaseResponse<JobResult>> {
+    const response = await this.transport.send<BaseResponse<JobResult>>({
+      method: "POST",
+      url: `${this.baseUrl}/api/v1/jobs/${encodeURIComponent(jobId)}/rerun`,
+      errorMessage: "Failed to re-run job",
+      body: overrides,
+      ...this.idempotencyHeaders(options.idempotencyKey),
+      ...this.requestOptions("rerunJob", options),
+    });
 
-    if (!response.ok) {
-      throw new SvgrApiError(
-        response.status,
-        (response.data as { error?: string })?.error ?? "Failed to list jobs",
-      );
+    return response.data as BaseResponse<JobResult>;
+  }
+
+  /**
+   * Cancel a queued or running job. Cancelling is idempotent, so the
+   * request is retried under the client's {@link RetryConfig}.
+   *
+   * @param jobId - The job to cancel
+   * @param options - `signal` and `timeoutMs`
+   * @returns The job in its final state
+   */
+  async cancelJob(
+    jobId: string,
+    options: SvgrRequestOptions = {},
+  ): Promise<BaseResponse<JobResult>> {
+    const response = await this.transport.send<BaseResponse<JobResult>>({
+      method: "POST",
+      url: `${this.baseUrl}/api/v1/jobs/${encodeURIComponent(jobId)}/cancel`,
+      errorMessage: "Failed to cancel job",
+      retry: true,
+      ...this.requestOptions("cancelJob", options),
+    });
+
+    return response.data as BaseResponse<JobResult>;
+  }
+
+  /**
+   * Delete a job and its output files.
+   *
+   * @param jobId - The job to delete
+   * @param options - `signal` and `timeoutMs`
+   * @throws {SvgrNotFoundError} When the job does not exist
+   */
+  async deleteJob(
+    jobId: string,
+    options: SvgrRequestOptions = {},
+  ): Promise<BaseResponse<void>> {
+    const response = await this.transport.send<BaseResponse<void>>({
+      method: "DELETE",
+      url: `${this.baseUrl}/api/v1/jobs/${encodeURIComponent(jobId)}`,
+      errorMessage: "Failed to delete job",
+      retry: true,
+      ...this.requestOptions("deleteJob", options),
+    });
+
+    return response.data as BaseResponse<void>;
+  }
+
+  /**
+   * Wait for a conversion job to finish.
+   *
+   * Polls {@link getJobStatus} with exponential backoff (starting at
+   * `intervalMs`, growing up to `maxIntervalMs`) until the job status is
+   * `done` or `error`.
+   *
+   * @param jobId - The job to wait for
+   * @param options - Polling tuning, deadline, cancellation and progress callback
+   * @returns The final job once its status is `done`
+   * @throws {SvgrJobFailedError} When the job ends with status `error`
+   * @throws {SvgrTimeoutError} When the job is still running after `timeoutMs`
+   * @throws {SvgrApiError} When a status request fails
+   *
+   * @example
+   * ```typescript
+   * const { data: job } = await client.createJob({ imageId, quality: 7 });
+   * const done = await client.waitForJob(job!.jobId, {
+   *   onProgress: (j) => console.log(j.status),
+   * });
+   * console.log(done.status); // 'done'
+   * ```
+   */
+  async waitForJob(
+    jobId: string,
+    options: WaitForJobOptions = {},
+  ): Promise<JobResult> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_JOB_TIMEOUT_MS;
+    const deadline = Date.now() + timeoutMs;
+    const signalOptions = options.signal ? { signal: options.signal } : {};
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.getJobStatus(jobId, signalOptions);
+      const job = response.data;
+      if (job) {
+        options.onProgress?.(job);
+        if (job.status === "error") throw new SvgrJobFailedError(job);
+        if (isTerminalJobStatus(job.status)) return job;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new SvgrTimeoutError(
+          timeoutMs,
+          `Job ${jobId} did not finish within ${timeoutMs} ms`,
+        );
+      }
+      await sleep(
+        Math.min(getPollInterval(attempt, options), remaining),
+        options.signal,
+      ).catch((reason: unknown) => {
+        throw toAbortError(reason);
+      });
     }
+  }
+
+  /**
+   * Subscribe to the status updates of a conversion job.
+   *
+   * Follows the job's event stream (`GET /api/v1/jobs/:jobId/events`),
+   * reconnecting with backoff when it drops. When the server offers no
+   * stream, or reconnecting keeps failing, polls {@link getJobStatus}
+   * instead. The subscription ends by itself once the job is `done` or
+   * `error`.
+   *
+   * @param jobId - The job to watch
+   * @param listener - Called with every new state of the job
+   * @param options - Cancellation, reconnect and polling tuning, callbacks
+   * @returns A function that ends the subscription
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = client.subscribeJob(jobId, (job) => {
+   *   setStatus(job.status);
+   * });
+   * // later
+   * unsubscribe();
+   * ```
+   */
+  subscribeJob(
+    jobId: string,
+    listener: JobUpdateListener,
+    options: JobSubscriptionOptions = {},
+  ): () => void {
+    return subscribeToJobUpdates(
+      {
+        streamUrl: `${this.baseUrl}/api/v1/jobs/${encodeURIComponent(jobId)}/events`,
+        transport: this.eventTransport,
+        poll: async (signal) => {
+          const response = await this.getJobStatus(jobId, { signal });
+          return response.data ? [response.data] : [];
+        },
+        isComplete: (job) =>
+          job.jobId === jobId && isTerminalJobStatus(job.status),
+      },
+      listener,
+      options,
+    );
+  }
 
-    return response.data as BaseResponse<JobResult[]>;
+  /**
+   * Subscribe to the updates of every conversion job of an image, including
+   * jobs created after subscribing.
+   *
+   * Follows `GET /api/v1/jobs/events?imageId=...`, with the same reconnect
+   * and polling fallback ({@link getJobsForImage}) as {@link subscribeJob}.
+   * Runs until unsubscribed or `signal` is aborted.
+   *
+   * @param imageId - The image whose jobs to watch
+   * @param listener - Called with every new state of any of its jobs
+   * @param options - Cancellation, reconnect and polling tuning, callbacks
+   * @returns A function that ends the subscription
+   */
+  subscribeJobs(
+    imageId: string,
+    listener: JobUpdateListener,
+    options: JobSubscriptionOptions = {},
+  ): () => void {
+    return subscribeToJobUpdates(
+      {
+        streamUrl: `${this.baseUrl}/api/v1/jobs/events?imageId=${encodeURIComponent(imageId)}`,
+        transport: this.eventTransport,
+        poll: async (signal) => {
+          const response = await this.getJobsForImage(imageId, { signal });
+          return response.data ?? [];
+        },
+      },
+      listener,
+      options,
+    );
   }
 
-  /** Fetch a file by name (SVG, JPEG preview, or uploaded image). Returns Blob. */
-  async fetchFile(filename: string): Promise<Blob> {
-    const url = `${this.baseUrl}/api/v1/files/${encodeURIComponent(filename)}`;
-    const response = await this.networkClient.get<Blob>(url);
+  /**
+   * Run the persistent conversion pipeline in one call.
+   *
+   * Uploads the image, creates a job for it, waits for the job to finish
+   * (see {@link waitForJob}) and downloads the SVG output, reporting each
+   * stage through `onStage`.
+   *
+   * @param file - The image to upload
+   * @param jobOptions - Conversion parameters for the job (everything but `imageId`)
+   * @param options - Stage callback, cancellation and polling tuning
+   * @returns The finished job together with its SVG output
+   * @throws {SvgrApiError} When any request in the pipeline fails
+   * @throws {SvgrUnsuccessfulResponseError} When the upload or job creation response reports `success: false`
+   * @throws {SvgrJobFailedError} When the job ends with status `error`
+   * @throws {SvgrTimeoutError} When the job does not finish within `timeoutMs`
+   *
+   * @example
+   * ```typescript
+   * const { job, svg } = await client.uploadAndConvert(
+   *   file,
+   *   { quality: 7 },
+   *   { onStage: (stage) => setStage(stage) },
+   * );
+   * ```
+   */
+  async uploadAndConvert(
+    file: UploadImageInput,
+    jobOptions: Omit<CreateJobRequest, "imageId"> = {},
+    options: UploadAndConvertOptions = {},
+  ): Promise<UploadAndConvertResult> {
+    const { signal, onStage, onProgress, idempotencyKey, ...polling } = options;
+    const signalOptions = signal ? { signal } : {};
+
+    onStage?.("uploading");
+    const upload = await this.uploadImage(file, {
+      ...signalOptions,
+      ...(idempotencyKey !== undefined && {
+        idempotencyKey: `${idempotencyKey}:upload`,
+      }),
+    });
+    if (!upload.data) {
+      throw new SvgrUnsuccessfulResponseError(upload.error ?? "Upload failed", {
+        endpoint: "/api/v1/images/upload",
+        method: "POST",
+        body: upload,
+      });
+    }
 
-    if (!response.ok) {
-      throw new SvgrApiError(response.status, "File not found");
+    const created = await this.createJob(
+      { ...jobOptions, imageId: upload.data.imageId } as CreateJobRequest,
+      {
+        ...signalOptions,
+        ...(idempotencyKey !== undefined && {
+          idempotencyKey: `${idempotencyKey}:job`,
+        }),
+      },
+    );
+    if (!created.data) {
+      throw new SvgrUnsuccessfulResponseError(
+        created.error ?? "Job creation failed",
+        {
+          endpoint: "/api/v1/jobs",
+          method: "POST",
+          body: created,
+        },
+      );
     }
+    onStage?.("queued");
+
+    let processing = false;
+    const job = await this.waitForJob(created.data.jobId, {
+      ...polling,
+      ...signalOptions,
+      onProgress: (current) => {
+        if (!processing && current.status !== "pending") {
+          processing = true;
+          onStage?.("processing");
+        }
+        onProgress?.(current);
+      },
+    });
+
+    onStage?.("downloading");
+    const svg = await this.fetchFile(getJobSvgFilename(job), signalOptions);
+    onStage?.("done");
+    return { job, svg };
+  }
+
+  /**
+   * Run many conversions with a concurrency cap.
+   *
+   * Shorthand for `new SvgrBatch(client, items, options).run()`; see
+   * {@link SvgrBatch} for scheduling and rate-limit behaviour.
+   *
+   * @param items - The operations to run (`convert`, `convertFile` or `uploadAndConvert`)
+   * @param options - Concurrency, stop-on-error, cancellation and progress callback
+   * @returns One result per item, in item order; never rejects
+   *
+   * @example
+   * ```typescript
+   * const results = await client.convertMany(
+   *   files.map((file) => ({ kind: 'convertFile' as const, file })),
+   *   { concurrency: 4 },
+   * );
+   * const failed = results.filter((r) => r.status === 'rejected');
+   * ```
+   */
+  convertMany<I extends SvgrBatchItem>(
+    items: readonly I[],
+    options: SvgrBatchOptions = {},
+  ): Promise<SvgrBatchResult<I>[]> {
+    return new SvgrBatch(this, items, options).run();
+  }
+
+  /**
+   * List the conversion jobs of an image, one page at a time.
+   *
+   * Without `cursor` or `limit` the server returns its first (or only)
+   * page; pass the response's `nextCursor` as `cursor` to continue.
+   *
+   * @param imageId - The image whose jobs to list
+   * @param options - Page request (cursor, limit, filters, sort order), `signal` and `timeoutMs`
+   * @throws {SvgrValidationError} When the filters are invalid
+   */
+  async getJobsForImage(
+    imageId: string,
+    options: SvgrListOptions = {},
+  ): Promise<SvgrListResponse<JobResult>> {
+    const params = this.listSearchParams(
+      options,
+      new URLSearchParams({ imageId }),
+    );
+    const response = await this.transport.send<SvgrListResponse<JobResult>>({
+      method: "GET",
+      url: `${this.baseUrl}/api/v1/jobs?${params}`,
+      errorMessage: "Failed to list jobs",
+      retry: true,
+      ...this.requestOptions("getJobsForImage", options),
+    });
+
+    return response.data as SvgrListResponse<JobResult>;
+  }
+
+  /**
+   * Fetch a file by name (SVG, JPEG preview, or uploaded image). Returns Blob.
+   * The response is coerced to a Blob regardless of how the `NetworkClient`
+   * parsed it, and the request honours the retry policy and `signal`.
+   */
+  async fetchFile(
+    filename: string,
+    options: SvgrRequestOptions = {},
+  ): Promise<Blob> {
+    const response = await this.transport.send<Blob>({
+      method: "GET",
+      url: `${this.baseUrl}/api/v1/files/${encodeURIComponent(filename)}`,
+      errorMessage: "File not found",
+      responseType: "blob",
+      retry: true,
+      ...this.requestOptions("fetchFile", options),
+    });
 
     return response.data as Blob;
   }
 
-  /** Fetch communities for a given language. Public endpoint, no auth required. */
-  async getCommunities(language: string): Promise<BaseResponse<Community[]>> {
-    const url = `${this.baseUrl}/api/v1/communities?lang=${encodeURIComponent(language)}`;
-    const response =
-      await this.networkClient.get<BaseResponse<Community[]>>(url);
+  /**
+   * Fetch one of a job's files, checking that the server sent the expected
+   * `Content-Type` (from the header, or the Blob's own type). Responses
+   * without a content type are accepted.
+   *
+   * @param job - The job whose file to fetch
+   * @param kind - Which file: `svg`, `preview` or `original`
+   * @param options - `signal` and `timeoutMs`
+   * @returns The file contents
+   * @throws {SvgrContentTypeError} When the file has an unexpected content type
+   * @throws {SvgrNotFoundError} When the file does not exist (e.g. the job has not finished)
+   */
+  async fetchJobFile(
+    job: JobResult,
+    kind: SvgrJobFileKind,
+    options: SvgrRequestOptions = {},
+  ): Promise<Blob> {
+    const endpoint = `/api/v1/files/${encodeURIComponent(getJobFilename(job, kind))}`;
+    const response = await this.transport.send<Blob>({
+      method: "GET",
+      url: `${this.baseUrl}${endpoint}`,
+      errorMessage: "File not found",
+      responseType: "blob",
+      retry: true,
+      ...this.requestOptions("fetchFile", options),
+    });
+    const blob = response.data as Blob;
 
-    if (!response.ok) {
-      throw new SvgrApiError(
-        response.status,
-        (response.data as { error?: string })?.error ??
-          "Failed to fetch communities",
-      );
+    const expected = JOB_FILE_CONTENT_TYPES[kind];
+    const contentType =
+      getHeader(response.headers, "content-type") || blob.type;
+    if (contentType && !matchesContentType(contentType, expected)) {
+      const requestId = getHeader(response.headers, "x-request-id");
+      throw new SvgrContentTypeError(expected, contentType, response.status, {
+        endpoint,
+        method: "GET",
+        ...(requestId !== undefined && { requestId }),
+      });
     }
+    return blob;
+  }
+
+  /**
+   * Typed accessors for a job's SVG, preview and uploaded image, so callers
+   * do not need the server's file names. Files are fetched on demand.
+   *
+   * @param job - The job whose files to access
+   *
+   * @example
+   * ```typescript
+   * const { data: job } = await client.getJobStatus(jobId);
+   * const svg = await client.getJobOutputs(job!).svgText();
+   * ```
+   */
+  getJobOutputs(job: JobResult): SvgrJobOutputs {
+    return new SvgrJobOutputs(this, job);
+  }
+
+  /** Fetch communities for a given language. Public endpoint, no auth required. */
+  async getCommunities(
+    language: string,
+    options: SvgrRequestOptions = {},
+  ): Promise<BaseResponse<Community[]>> {
+    const response = await this.transport.send<BaseResponse<Community[]>>({
+      method: "GET",
+      url: `${this.baseUrl}/api/v1/communities?lang=${encodeURIComponent(language)}`,
+      errorMessage: "Failed to fetch communities",
+      retry: true,
+      ...this.requestOptions("getCommunities", options),
+    });
 
     return response.data as BaseResponse<Community[]>;
   }
 
-  /** List all images with their jobs for the authenticated user. */
-  async getUserImages(): Promise<BaseResponse<ImageWithJobs[]>> {
-    const url = `${this.baseUrl}/api/v1/images`;
-    const response =
-      await this.networkClient.get<BaseResponse<ImageWithJobs[]>>(url);
+  /**
+   * List the authenticated user's images with their jobs, one page at a
+   * time.
+   *
+   * Without `cursor` or `limit` the server returns its first (or only)
+   * page; pass the response's `nextCursor` as `cursor` to continue, or use
+   * {@link iterateUserImages} to walk every page.
+   *
+   * @param options - Page request (cursor, limit, filters, sort order), `signal` and `timeoutMs`
+   * @throws {SvgrValidationError} When the filters are invalid
+   *
+   * @example
+   * ```typescript
+   * const page = await client.getUserImages({
+   *   limit: 50,
+   *   status: ["queued", "processing"],
+   *   createdAfter: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+   * });
+   * const next = page.nextCursor
+   *   ? await client.getUserImages({ limit: 50, cursor: page.nextCursor })
+   *   : null;
+   * ```
+   */
+  async getUserImages(
+    options: SvgrListOptions = {},
+  ): Promise<SvgrListResponse<ImageWithJobs>> {
+    const search = this.listSearchParams(options).toString();
+    const response = await this.transport.send<SvgrListResponse<ImageWithJobs>>(
+      {
+        method: "GET",
+        url: `${this.baseUrl}/api/v1/images${search ? `?${search}` : ""}`,
+        errorMessage: "Failed to list images",
+        retry: true,
+        ...this.requestOptions("getUserImages", options),
+      },
+    );
+
+    return response.data as SvgrListResponse<ImageWithJobs>;
+  }
 
-    if (!response.ok) {
-      throw new SvgrApiError(
-        response.status,
-        (response.data as { error?: string })?.error ?? "Failed to list images",
-      );
+  /**
+   * Rename an image or replace its tags.
+   *
+   * @param imageId - The image to update
+   * @param request - The fields to change
+   * @param options - `signal` and `timeoutMs`
+   * @returns The updated image
+   * @throws {SvgrValidationError} When the request fails client-side validation
+   * @throws {SvgrNotFoundError} When the image does not exist
+   */
+  async updateImage(
+    imageId: string,
+    request: UpdateImageRequest,
+    options: SvgrRequestOptions = {},
+  ): Promise<BaseResponse<ImageWithJobs>> {
+    const issues = validateUpdateImageRequest(request);
+    if (issues.length > 0) {
+      throw new SvgrValidationError(issues);
     }
 
-    return response.data as BaseResponse<ImageWithJobs[]>;
+    const response = await this.transport.send<BaseResponse<ImageWithJobs>>({
+      method: "PUT",
+      url: `${this.baseUrl}/api/v1/images/${encodeURIComponent(imageId)}`,
+      errorMessage: "Failed to update image",
+      body: request,
+      retry: true,
+      ...this.requestOptions("updateImage", options),
+    });
+
+    return response.data as BaseResponse<ImageWithJobs>;
   }
 
   /**
-   * Execute a request function with exponential backoff retry.
+   * Delete an image together with its jobs and files.
    *
-   * @param fn - The async function to retry
-   * @param config - Retry configuration
-   * @returns The result of the successful request
-   * @throws The last error encountered after all retries are exhausted
+   * @param imageId - The image to delete
+   * @param options - `signal` and `timeoutMs`
+   * @throws {SvgrNotFoundError} When the image does not exist
    */
-  private async withRetry<T>(
-    fn: () => Promise<{ ok: boolean; status: number } & T>,
-    config: RetryConfig,
-  ): Promise<{ ok: boolean; status: number } & T> {
-    const retryableStatuses =
-      config.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES;
+  async deleteImage(
+    imageId: string,
+    options: SvgrRequestOptions = {},
+  ): Promise<BaseResponse<void>> {
+    const response = await this.transport.send<BaseResponse<void>>({
+      method: "DELETE",
+      url: `${this.baseUrl}/api/v1/images/${encodeURIComponent(imageId)}`,
+      errorMessage: "Failed to delete image",
+      retry: true,
+      ...this.requestOptions("deleteImage", options),
+    });
 
-    let response = await fn();
+    return response.data as BaseResponse<void>;
+  }
 
-    for (let attempt = 0; attempt < config.maxRetries; attempt++) {
-      if (response.ok || !retryableStatuses.includes(response.status)) {
-        return response;
-      }
+  /**
+   * Iterate over every image matching the filters, fetching pages with
+   * {@link getUserImages} as the loop consumes them.
+   *
+   * @param options - Filters, sort order, page size (`limit`), starting `cursor`, `signal` and `timeoutMs`
+   * @returns An async iterator over the images
+   * @throws {SvgrValidationError} When the filters are invalid
+   *
+   * @example
+   * ```typescript
+   * for await (const image of client.iterateUserImages({ imageType: "logo" })) {
+   *   console.log(image);
+   * }
+   * ```
+   */
+  async *iterateUserImages(
+    options: SvgrListOptions = {},
+  ): AsyncGenerator<ImageWithJobs, void, undefined> {
+    let cursor = options.cursor;
+    do {
+      const page = await this.getUserImages({
+        ...options,
+        ...(cursor !== undefined && { cursor }),
+      });
+      yield* page.data ?? [];
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor !== undefined);
+  }
 
-      const delay = config.baseDelayMs * Math.pow(2, attempt);
-      await new Promise((resolve) => setTimeout(resolve, delay));
+  /**
+   * Validate a page request and encode it as query parameters.
+   *
+   * @throws {SvgrValidationError} When the filters are invalid
+   */
+  private listSearchParams(
+    options: SvgrListOptions,
+    params?: URLSearchParams,
+  ): URLSearchParams {
+    const { signal: _signal, timeoutMs: _timeoutMs, ...query } = options;
+    const issues = validateListQuery(query);
+    if (issues.length > 0) throw new SvgrValidationError(issues);
+    return toListSearchParams(query, params);
+  }
 
-      response = await fn();
+  /** The preprocessing options for a call, or `undefined` when it is off */
+  private preprocessSettings(
+    preprocess: SvgrPreprocessOptions | boolean | undefined,
+  ): SvgrPreprocessOptions | undefined {
+    if (preprocess === false) return undefined;
+    if (preprocess === true) return this.preprocess ?? {};
+    return preprocess ? { ...this.preprocess, ...preprocess } : this.preprocess;
+  }
+
+  /**
+   * Preprocess an image when the call asks for it and reports the result
+   * through `onPreprocess`. Unrecognized formats are left for the server to
+   * reject.
+   *
+   * @throws {SvgrValidationError} When the image cannot be decoded
+   */
+  private async runPreprocess(
+    bytes: Uint8Array,
+    field: string,
+    options: SvgrUploadOptions,
+  ): Promise<SvgrPreprocessResult | undefined> {
+    const settings = this.preprocessSettings(options.preprocess);
+    if (!settings || !detectImageMimeType(bytes)) return undefined;
+    let result: SvgrPreprocessResult;
+    try {
+      result = await preprocessImage(bytes, settings);
+    } catch (error) {
+      if (!(error instanceof RangeError)) throw error;
+      throw new SvgrValidationError([{ field, message: error.message }]);
     }
+    options.onPreprocess?.(result);
+    return result;
+  }
+
+  /** Preprocess the image in a {@link ConvertRequest}'s `original` */
+  private async preprocessRequest(
+    request: ConvertRequest,
+    options: SvgrUploadOptions,
+  ): Promise<ConvertRequest> {
+    if (!this.preprocessSettings(options.preprocess)) return request;
+    const prefix = /^data:[^,]*;base64,/.exec(request.original)?.[0] ?? "";
+    const bytes = decodeBase64(request.original.slice(prefix.length));
+    const result = await this.runPreprocess(bytes, "original", options);
+    if (!result || result.data === bytes) return request;
+    return {
+      ...request,
+      original: `data:${result.mimeType};base64,${encodeBase64(result.data)}`,
+      ...(request.filename !== undefined && {
+        filename: withExtension(request.filename, result.mimeType),
+      }),
+    };
+  }
 
-    return response;
+  /** Request fields for the operation, per-call timeout and cancellation signal */
+  private requestOptions(
+    operation: SvgrOperation,
+    options: SvgrRequestOptions,
+  ): Pick<SvgrTransportRequest, "operation" | "signal" | "timeout"> {
+    return {
+      operation,
+      timeout: resolveTimeout(operation, this.timeouts, options.timeoutMs),
+      ...(options.signal && { signal: options.signal }),
+    };
   }
+
+  /**
+   * Request fields for an idempotent POST: the `Idempotency-Key` header
+   * (caller-supplied or generated once per call, so every retry of the call
+   * reuses it) and whether the retry policy may apply.
+   */
+  private idempotencyHeaders(
+    idempotencyKey: string | undefined,
+  ): Pick<SvgrTransportRequest, "headers" | "retry"> {
+    const key =
+      idempotencyKey ??
+      (this.idempotencyKeys ? createIdempotencyKey() : undefined);
+    return key === undefined
+      ? { retry: false }
+      : { headers: { "Idempotency-Key": key }, retry: true };
+  }
+}
+
+/** Whether `input` is a `File`; some runtimes (e.g. Node 18) have no `File` */
+function isFile(input: unknown): input is File {
+  return typeof File !== "undefined" && input instanceof File;
+}
+
+/** Replace a filename's extension with the one for `mimeType` */
+function withExtension(filename: string, mimeType: string): string {
+  const extension = mimeType === "image/jpeg" ? "jpg" : mimeType.slice(6);
+  const dot = filename.lastIndexOf(".");
+  return `${dot > 0 ? filename.slice(0, dot) : filename}.${extension}`;
 }
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MockNetworkClient } from "@sudobility/di/mocks";
+import { SvgrBatch, type SvgrBatchItem } from "./batch";
+import { SvgrApiError, SvgrRateLimitError } from "./errors";
+import { SvgrClient } from "./SvgrClient";
+
+const convertItem = (original: string): SvgrBatchItem => ({
+  kind: "convert",
+  request: { original },
+});
+
+describe("SvgrBatch", () => {
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+    });
+  });
+
+  it("never runs more items than the concurrency cap", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const fakeClient = {
+      convert: async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return { success: true };
+      },
+    } as unknown as SvgrClient;
+
+    const results = await new SvgrBatch(
+      fakeClient,
+      Array.from({ length: 7 }, () => convertItem("aGVsbG8=")),
+      { concurrency: 2 },
+    ).run();
+
+    expect(maxInFlight).toBe(2);
+    expect(results.every((r) => r.status === "fulfilled")).toBe(true);
+  });
+
+  it("returns successes and errors side by side, in order", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/convert",
+      { data: { success: true, data: { cacheId: "c" } }, ok: true },
+      "POST",
+    );
+    const progress: number[] = [];
+
+    const results = await client.convertMany(
+      [convertItem("aGVsbG8="), convertItem("not base64"), convertItem("aGk=")],
+      { onProgress: (p) => progress.push(p.completed) },
+    );
+
+    expect(results.map((r) => r.status)).toEqual([
+      "fulfilled",
+      "rejected",
+      "fulfilled",
+    ]);
+    const failure = results[1];
+    expect(failure?.status === "rejected" && failure.error).toBeInstanceOf(
+      SvgrApiError,
+    );
+    expect(progress.at(-1)).toBe(3);
+  });
+
+  it("skips remaining items after a failure with stopOnError", async () => {
+    const batch = new SvgrBatch(
+      client,
+      [convertItem("bad!"), convertItem("aGVsbG8="), convertItem("aGk=")],
+      { concurrency: 1, stopOnError: true },
+    );
+
+    const results = await batch.run();
+
+    expect(results.map((r) => r.status)).toEqual([
+      "rejected",
+      "rejected",
+      "rejected",
+    ]);
+    expect(batch.getProgress().items).toEqual(["failed", "skipped", "skipped"]);
+    expect(mockNetwork.getRequests()).toHaveLength(0);
+  });
+
+  it("waits for Retry-After and retries rate-limited items", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/convert",
+      {
+        data: { error: "Too many requests" },
+        ok: false,
+        status: 429,
+        headers: { "Retry-After": "0.01" },
+      },
+      "POST",
+    );
+    const statuses: string[] = [];
+
+    const results = await client.convertMany([convertItem("aGVsbG8=")], {
+      onProgress: (p) => {
+        statuses.push(p.items[0] ?? "");
+        if (p.items[0] === "waiting") {
+          mockNetwork.setMockResponse(
+            "http://localhost:3001/api/v1/convert",
+            { data: { success: true }, ok: true },
+            "POST",
+          );
+        }
+      },
+    });
+
+    expect(results[0]?.status).toBe("fulfilled");
+    expect(statuses).toEqual(["running", "waiting", "running", "succeeded"]);
+    expect(mockNetwork.getRequests()).toHaveLength(2);
+  });
+
+  it("gives up after maxRateLimitRetries", async () => {
+    mockNetwork.setMockResponse(
+      "http://localhost:3001/api/v1/convert",
+      { data: null, ok: false, status: 429, headers: { "retry-after": "0" } },
+      "POST",
+    );
+
+    const [result] = await client.convertMany([convertItem("aGVsbG8=")], {
+      maxRateLimitRetries: 1,
+    });
+
+    expect(result?.status === "rejected" && result.error).toBeInstanceOf(
+      SvgrRateLimitError,
+    );
+    expect(mockNetwork.getRequests()).toHaveLength(2);
+  });
+
+  it("skips pending items when the signal is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const results = await client.convertMany(
+      [convertItem("aGVsbG8="), convertItem("aGk=")],
+      { signal: controller.signal },
+    );
+
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    expect(mockNetwork.getRequests()).toHaveLength(0);
+  });
+
+  it("aborts running convertFile items on cancel", async () => {
+    const calls: Array<{ signal?: AbortSignal; idempotencyKey?: string }> = [];
+    const fakeClient = {
+      convertFile: (
+        _file: unknown,
+        _options: unknown,
+        requestOptions: { signal?: AbortSignal; idempotencyKey?: string },
+      ) => {
+        calls.push(requestOptions);
+        return new Promise((_resolve, reject) => {
+          requestOptions.signal?.addEventListener("abort", () =>
+            reject(requestOptions.signal?.reason),
+          );
+        });
+      },
+    } as unknown as SvgrClient;
+    const file = new Uint8Array([1, 2, 3]);
+    const batch = new SvgrBatch(
+      fakeClient,
+      [
+        { kind: "convertFile", file },
+        { kind: "convertFile", file },
+      ],
+      { concurrency: 2 },
+    );
+
+    const running = batch.run();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    batch.cancel();
+    const results = await running;
+
+    expect(calls).toHaveLength(2);
+    expect(calls.every((call) => call.signal?.aborted)).toBe(true);
+    expect(calls[0]?.idempotencyKey).toBeTruthy();
+    expect(calls[0]?.idempotencyKey).not.toBe(calls[1]?.idempotencyKey);
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+  });
+});
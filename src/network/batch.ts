@@ -0,0 +1,283 @@
+import type {
+  BaseResponse,
+  ConvertRequest,
+  ConvertResult,
+  CreateJobRequest,
+} from "@sudobility/svgr_types";
+import { sleep } from "../utils/async";
+import type { BinaryInput } from "../utils/binary";
+import { createIdempotencyKey } from "../utils/idempotency";
+import { SvgrRateLimitError } from "./errors";
+import type {
+  ConvertFileOptions,
+  ConvertFileResult,
+  SvgrClient,
+  UploadAndConvertResult,
+  UploadImageInput,
+} from "./SvgrClient";
+
+/** Default number of items processed at the same time */
+const DEFAULT_CONCURRENCY = 3;
+/** Default number of times an item is retried after a `429` response */
+const DEFAULT_MAX_RATE_LIMIT_RETRIES = 3;
+/** Delay used after a `429` response without a `Retry-After` header */
+const DEFAULT_RATE_LIMIT_DELAY_MS = 1000;
+
+/**
+ * A single operation scheduled by {@link SvgrBatch}.
+ *
+ * - `convert` — {@link SvgrClient.convert} with an options object
+ * - `convertFile` — {@link SvgrClient.convertFile} (binary input, returns SVG text)
+ * - `uploadAndConvert` — {@link SvgrClient.uploadAndConvert} (persistent upload + job)
+ */
+export type SvgrBatchItem =
+  | { kind: "convert"; request: ConvertRequest }
+  | { kind: "convertFile"; file: BinaryInput; options?: ConvertFileOptions }
+  | {
+      kind: "uploadAndConvert";
+      file: UploadImageInput;
+      jobOptions?: Omit<CreateJobRequest, "imageId">;
+    };
+
+/** The value produced by a successful batch item of type `I` */
+export type SvgrBatchValue<I extends SvgrBatchItem> = I extends {
+  kind: "convert";
+}
+  ? BaseResponse<ConvertResult>
+  : I extends { kind: "convertFile" }
+    ? ConvertFileResult
+    : UploadAndConvertResult;
+
+/**
+ * Outcome of one batch item, in the same position as the item.
+ * Failures carry the thrown error (usually an {@link SvgrApiError}).
+ */
+export type SvgrBatchResult<I extends SvgrBatchItem = SvgrBatchItem> =
+  | { status: "fulfilled"; index: number; value: SvgrBatchValue<I> }
+  | { status: "rejected"; index: number; error: Error };
+
+/**
+ * Lifecycle of a batch item.
+ *
+ * - `pending` — waiting for a free slot
+ * - `running` — currently being processed
+ * - `waiting` — rate limited, waiting for `Retry-After` before retrying
+ * - `succeeded` / `failed` — finished
+ * - `skipped` — never started because the batch stopped or was cancelled
+ */
+export type SvgrBatchItemStatus =
+  "pending" | "running" | "waiting" | "succeeded" | "failed" | "skipped";
+
+/**
+ * Aggregate progress of a batch, reported after every item state change.
+ *
+ * @interface SvgrBatchProgress
+ */
+export interface SvgrBatchProgress {
+  /** Number of items in the batch */
+  total: number;
+  /** Items that finished (succeeded, failed or skipped) */
+  completed: number;
+  /** Items that succeeded */
+  succeeded: number;
+  /** Items that failed */
+  failed: number;
+  /** Per-item status, in item order */
+  items: SvgrBatchItemStatus[];
+}
+
+/**
+ * Options for {@link SvgrBatch} and {@link SvgrClient.convertMany}.
+ *
+ * @interface SvgrBatchOptions
+ */
+export interface SvgrBatchOptions {
+  /** Maximum number of items processed at the same time (default: 3) */
+  concurrency?: number;
+  /** Stop starting new items after the first failure (default: false) */
+  stopOnError?: boolean;
+  /** Signal used to cancel the batch; running items are aborted */
+  signal?: AbortSignal;
+  /** How many times an item is retried after a `429` response (default: 3) */
+  maxRateLimitRetries?: number;
+  /** Called with the aggregate progress after every item state change */
+  onProgress?: (progress: SvgrBatchProgress) => void;
+}
+
+/**
+ * Client-side scheduler that runs many conversions with a concurrency cap.
+ *
+ * Items run through the regular {@link SvgrClient} methods. A `429` response
+ * pauses the whole batch for the server's `Retry-After` delay before the
+ * item is retried. Failures never reject the batch; each item's outcome is
+ * returned in order, like `Promise.allSettled`.
+ *
+ * @example
+ * ```typescript
+ * const batch = new SvgrBatch(client, files.map((file) => ({
+ *   kind: 'convertFile' as const,
+ *   file,
+ *   options: { quality: 7 },
+ * })), { concurrency: 4, onProgress: (p) => setDone(p.completed) });
+ *
+ * const results = await batch.run();
+ * for (const result of results) {
+ *   if (result.status === 'fulfilled') save(result.value.svg);
+ *   else console.warn(result.index, result.error.message);
+ * }
+ * ```
+ */
+export class SvgrBatch<I extends SvgrBatchItem = SvgrBatchItem> {
+  private readonly statuses: SvgrBatchItemStatus[];
+  private readonly controller = new AbortController();
+  private pausedUntil = 0;
+  private stopped = false;
+
+  constructor(
+    private readonly client: SvgrClient,
+    private readonly items: readonly I[],
+    private readonly options: SvgrBatchOptions = {},
+  ) {
+    this.statuses = items.map(() => "pending");
+  }
+
+  /** Snapshot of the current aggregate progress */
+  getProgress(): SvgrBatchProgress {
+    const count = (status: SvgrBatchItemStatus) =>
+      this.statuses.filter((s) => s === status).length;
+    const succeeded = count("succeeded");
+    const failed = count("failed");
+    return {
+      total: this.items.length,
+      completed: succeeded + failed + count("skipped"),
+      succeeded,
+      failed,
+      items: [...this.statuses],
+    };
+  }
+
+  /** Cancel the batch: running items are aborted and pending ones skipped */
+  cancel(reason: unknown = new Error("Batch cancelled")): void {
+    this.stopped = true;
+    this.controller.abort(reason);
+  }
+
+  /**
+   * Process every item and resolve with the per-item results in order.
+   * Never rejects; failures are reported in the result array.
+   */
+  async run(): Promise<SvgrBatchResult<I>[]> {
+    const { signal } = this.options;
+    const onAbort = () => this.cancel(signal?.reason);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const results: SvgrBatchResult<I>[] = new Array(this.items.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < this.items.length) {
+        const index = next++;
+        results[index] = await this.runItem(index);
+      }
+    };
+
+    const concurrency = Math.max(
+      1,
+      Math.min(
+        this.options.concurrency ?? DEFAULT_CONCURRENCY,
+        this.items.length,
+      ),
+    );
+    try {
+      await Promise.all(Array.from({ length: concurrency }, worker));
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+    return results;
+  }
+
+  private async runItem(index: number): Promise<SvgrBatchResult<I>> {
+    const maxRetries =
+      this.options.maxRateLimitRetries ?? DEFAULT_MAX_RATE_LIMIT_RETRIES;
+    // One key per item so rate-limit retries are the same logical operation
+    const idempotencyKey = createIdempotencyKey();
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForSlot();
+      if (this.stopped) {
+        this.setStatus(index, "skipped");
+        return {
+          status: "rejected",
+          index,
+          error: new Error("Skipped: the batch was stopped"),
+        };
+      }
+
+      try {
+        this.setStatus(index, "running");
+        const value = await this.execute(
+          this.items[index] as I,
+          idempotencyKey,
+        );
+        this.setStatus(index, "succeeded");
+        return { status: "fulfilled", index, value };
+      } catch (error) {
+        if (
+          error instanceof SvgrRateLimitError &&
+          attempt < maxRetries &&
+          !this.stopped
+        ) {
+          this.setStatus(index, "waiting");
+          this.pausedUntil = Math.max(
+            this.pausedUntil,
+            Date.now() + (error.retryAfterMs ?? DEFAULT_RATE_LIMIT_DELAY_MS),
+          );
+          continue;
+        }
+
+        this.setStatus(index, "failed");
+        if (this.options.stopOnError) this.stopped = true;
+        return {
+          status: "rejected",
+          index,
+          error: error instanceof Error ? error : new Error(String(error)),
+        };
+      }
+    }
+  }
+
+  /** Wait while the batch is paused by a rate limit (returns early when stopped) */
+  private async waitForSlot(): Promise<void> {
+    while (!this.stopped && this.pausedUntil > Date.now()) {
+      await sleep(this.pausedUntil - Date.now(), this.controller.signal).catch(
+        () => undefined,
+      );
+    }
+  }
+
+  private execute(item: I, idempotencyKey: string): Promise<SvgrBatchValue<I>> {
+    const signal = this.controller.signal;
+    switch (item.kind) {
+      case "convert":
+        return this.client.convert(item.request, {
+          signal,
+          idempotencyKey,
+        }) as Promise<SvgrBatchValue<I>>;
+      case "convertFile":
+        return this.client.convertFile(item.file, item.options, {
+          signal,
+          idempotencyKey,
+        }) as Promise<SvgrBatchValue<I>>;
+      default:
+        return this.client.uploadAndConvert(item.file, item.jobOptions, {
+          signal,
+          idempotencyKey,
+        }) as Promise<SvgrBatchValue<I>>;
+    }
+  }
+
+  private setStatus(index: number, status: SvgrBatchItemStatus): void {
+    this.statuses[index] = status;
+    this.options.onProgress?.(this.getProgress());
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { createHash } from "node:crypto";
+import { MemoryCacheStorage, SvgrConversionCache } from "./cache";
+import { sha256Hex } from "../utils/hash";
+
+const result = (cacheId: string) => ({ cacheId, width: 1, height: 1 });
+
+describe("sha256Hex", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("matches Node's SHA-256 with and without Web Crypto", async () => {
+    const input = "x".repeat(200) + "héllo";
+    const expected = createHash("sha256").update(input).digest("hex");
+
+    expect(await sha256Hex(input)).toBe(expected);
+    vi.stubGlobal("crypto", undefined);
+    expect(await sha256Hex(input)).toBe(expected);
+    expect(await sha256Hex("")).toBe(createHash("sha256").digest("hex"));
+  });
+});
+
+describe("SvgrConversionCache", () => {
+  it("keys on image data and parameters but not the filename", async () => {
+    const cache = new SvgrConversionCache();
+    const base = await cache.keyFor({ original: "aGk=", quality: 5 });
+
+    expect(
+      await cache.keyFor({ original: "aGk=", quality: 5, filename: "a.png" }),
+    ).toBe(base);
+    expect(await cache.keyFor({ original: "aGk=", quality: 6 })).not.toBe(base);
+    expect(await cache.keyFor({ original: "aGU=", quality: 5 })).not.toBe(base);
+  });
+
+  it("stores results and attaches SVGs by cache ID", async () => {
+    const cache = new SvgrConversionCache();
+    await cache.set("h1", result("c1"));
+    await cache.setSvg("c1", "<svg/>");
+    await cache.setSvg("unknown", "<svg/>");
+
+    expect((await cache.get("h1"))?.result).toEqual(result("c1"));
+    expect(await cache.getSvg("c1")).toBe("<svg/>");
+    expect(await cache.getSvg("unknown")).toBeUndefined();
+  });
+
+  it("evicts the least recently used entry beyond maxEntries", async () => {
+    const cache = new SvgrConversionCache({ maxEntries: 2 });
+    await cache.set("h1", result("c1"));
+    await cache.set("h2", result("c2"));
+    await cache.get("h1");
+    await cache.set("h3", result("c3"));
+
+    expect(await cache.get("h1")).toBeDefined();
+    expect(await cache.get("h2")).toBeUndefined();
+    expect(await cache.get("h3")).toBeDefined();
+  });
+
+  it("expires entries after ttlMs", async () => {
+    vi.useFakeTimers();
+    try {
+      const cache = new SvgrConversionCache({ ttlMs: 1000 });
+      await cache.set("h1", result("c1"));
+      vi.advanceTimersByTime(1001);
+
+      expect(await cache.get("h1")).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("persists through a shared storage adapter and clears its own keys", async () => {
+    const storage = new MemoryCacheStorage();
+    await storage.set("other-app", "keep");
+    await new SvgrConversionCache({ storage }).set("h1", result("c1"));
+
+    const reopened = new SvgrConversionCache({ storage });
+    expect(await reopened.get("h1")).toBeDefined();
+
+    await reopened.clear();
+    expect(await reopened.get("h1")).toBeUndefined();
+    expect(await storage.get("other-app")).toBe("keep");
+  });
+});
@@ -0,0 +1,252 @@
+import type { ConvertRequest, ConvertResult } from "@sudobility/svgr_types";
+import { sha256Hex } from "../utils/hash";
+
+/** Default maximum number of cached conversions */
+const DEFAULT_MAX_ENTRIES = 100;
+/** Prefix for every key the cache writes to its storage */
+const KEY_PREFIX = "svgr-cache:";
+/** Storage key holding the recency index */
+const INDEX_KEY = `${KEY_PREFIX}index`;
+
+/**
+ * Async key-value storage used by {@link SvgrConversionCache}.
+ *
+ * Shaped after `AsyncStorage` / `localforage`, so adapters for React Native
+ * AsyncStorage or IndexedDB are a thin wrapper. Values are JSON strings.
+ *
+ * @interface SvgrCacheStorage
+ */
+export interface SvgrCacheStorage {
+  /** Read a value; resolve `null`/`undefined` when missing */
+  get(key: string): Promise<string | null | undefined>;
+  /** Write a value */
+  set(key: string, value: string): Promise<void>;
+  /** Remove a value (no-op when missing) */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory {@link SvgrCacheStorage}, the default storage for the cache.
+ * Contents are lost when the process or page goes away.
+ */
+export class MemoryCacheStorage implements SvgrCacheStorage {
+  private readonly values = new Map<string, string>();
+
+  async get(key: string): Promise<string | undefined> {
+    return this.values.get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Options for {@link SvgrConversionCache}.
+ *
+ * @interface SvgrCacheOptions
+ * @property {SvgrCacheStorage} [storage] - Where entries are kept (default: in memory)
+ * @property {number} [maxEntries] - Least recently used entries beyond this count are evicted (default: 100)
+ * @property {number} [ttlMs] - Entries older than this are ignored and evicted (default: no expiry)
+ */
+export interface SvgrCacheOptions {
+  /** Where entries are kept (default: {@link MemoryCacheStorage}) */
+  storage?: SvgrCacheStorage;
+  /** Least recently used entries beyond this count are evicted (default: 100) */
+  maxEntries?: number;
+  /** Entries older than this many milliseconds are evicted (default: no expiry) */
+  ttlMs?: number;
+}
+
+/**
+ * A cached conversion: the API result and, once fetched, the SVG markup.
+ *
+ * @interface CachedConversion
+ */
+export interface CachedConversion {
+  /** The result returned by `POST /api/v1/convert` */
+  result: ConvertResult;
+  /** The SVG markup, once it has been fetched */
+  svg?: string;
+  /** When the entry was stored (epoch milliseconds) */
+  storedAt: number;
+}
+
+/** Recency index: entry hashes, least recently used first */
+type CacheIndex = string[];
+
+/**
+ * Content-addressed cache of conversions.
+ *
+ * Entries are keyed by the SHA-256 of the image data together with every
+ * parameter that influences the output, so identical requests can be served
+ * without calling the API. Eviction is least-recently-used (bounded by
+ * `maxEntries`) plus an optional TTL, and works with any
+ * {@link SvgrCacheStorage} because the recency index is kept in the storage
+ * itself.
+ *
+ * @example
+ * ```typescript
+ * const client = new SvgrClient({
+ *   baseUrl,
+ *   networkClient,
+ *   cache: { maxEntries: 50, ttlMs: 24 * 60 * 60 * 1000 },
+ * });
+ * await client.cache?.clear();
+ * ```
+ */
+export class SvgrConversionCache {
+  private readonly storage: SvgrCacheStorage;
+  private readonly maxEntries: number;
+  private readonly ttlMs: number | undefined;
+  private index: CacheIndex | undefined;
+  /** Serializes index updates so concurrent calls don't lose writes */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: SvgrCacheOptions = {}) {
+    this.storage = options.storage ?? new MemoryCacheStorage();
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    this.ttlMs = options.ttlMs;
+  }
+
+  /**
+   * Compute the cache key for a conversion request. The filename is not part
+   * of the key because it does not influence the output.
+   */
+  async keyFor(request: ConvertRequest): Promise<string> {
+    const params = JSON.stringify([
+      request.quality ?? null,
+      request.transparentBg ?? null,
+      request.ocr ?? null,
+      request.mergePaths ?? null,
+      request.smooth ?? null,
+      request.imageType ?? null,
+    ]);
+    return sha256Hex(`${params}\n${request.original}`);
+  }
+
+  /** Look up a conversion; expired entries are evicted and reported as misses */
+  get(hash: string): Promise<CachedConversion | undefined> {
+    return this.serialize(async () => {
+      const entry = await this.readEntry(hash);
+      if (!entry) return undefined;
+      if (this.isExpired(entry)) {
+        await this.remove(hash);
+        return undefined;
+      }
+      await this.touch(hash);
+      return entry;
+    });
+  }
+
+  /** Store a conversion result, evicting the least recently used entries */
+  set(hash: string, result: ConvertResult): Promise<void> {
+    return this.serialize(async () => {
+      await this.writeEntry(hash, { result, storedAt: Date.now() });
+      await this.storage.set(this.cacheIdKey(result.cacheId), hash);
+      await this.touch(hash);
+    });
+  }
+
+  /** Look up the SVG for a server cache ID returned by a cached conversion */
+  getSvg(cacheId: string): Promise<string | undefined> {
+    return this.serialize(async () => {
+      const hash = await this.storage.get(this.cacheIdKey(cacheId));
+      if (!hash) return undefined;
+      const entry = await this.readEntry(hash);
+      if (!entry || this.isExpired(entry)) return undefined;
+      return entry.svg;
+    });
+  }
+
+  /** Attach SVG markup to the cached conversion with the given cache ID */
+  setSvg(cacheId: string, svg: string): Promise<void> {
+    return this.serialize(async () => {
+      const hash = await this.storage.get(this.cacheIdKey(cacheId));
+      if (!hash) return;
+      const entry = await this.readEntry(hash);
+      if (entry) await this.writeEntry(hash, { ...entry, svg });
+    });
+  }
+
+  /** Remove every cached conversion */
+  clear(): Promise<void> {
+    return this.serialize(async () => {
+      for (const hash of await this.loadIndex()) {
+        await this.remove(hash, false);
+      }
+      this.index = [];
+      await this.storage.delete(INDEX_KEY);
+    });
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private isExpired(entry: CachedConversion): boolean {
+    return this.ttlMs !== undefined && Date.now() - entry.storedAt > this.ttlMs;
+  }
+
+  private entryKey(hash: string): string {
+    return `${KEY_PREFIX}entry:${hash}`;
+  }
+
+  private cacheIdKey(cacheId: string): string {
+    return `${KEY_PREFIX}id:${cacheId}`;
+  }
+
+  private async readEntry(hash: string): Promise<CachedConversion | undefined> {
+    const raw = await this.storage.get(this.entryKey(hash));
+    if (!raw) return undefined;
+    try {
+      return JSON.parse(raw) as CachedConversion;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private writeEntry(hash: string, entry: CachedConversion): Promise<void> {
+    return this.storage.set(this.entryKey(hash), JSON.stringify(entry));
+  }
+
+  private async loadIndex(): Promise<CacheIndex> {
+    if (!this.index) {
+      const raw = await this.storage.get(INDEX_KEY);
+      try {
+        this.index = raw ? (JSON.parse(raw) as CacheIndex) : [];
+      } catch {
+        this.index = [];
+      }
+    }
+    return this.index;
+  }
+
+  /** Mark an entry as most recently used and evict beyond `maxEntries` */
+  private async touch(hash: string): Promise<void> {
+    const index = (await this.loadIndex()).filter((h) => h !== hash);
+    index.push(hash);
+    while (index.length > this.maxEntries) {
+      const oldest = index.shift();
+      if (oldest) await this.remove(oldest, false);
+    }
+    this.index = index;
+    await this.storage.set(INDEX_KEY, JSON.stringify(index));
+  }
+
+  private async remove(hash: string, updateIndex = true): Promise<void> {
+    const entry = await this.readEntry(hash);
+    if (entry) await this.storage.delete(this.cacheIdKey(entry.result.cacheId));
+    await this.storage.delete(this.entryKey(hash));
+    if (updateIndex) {
+      this.index = (await this.loadIndex()).filter((h) => h !== hash);
+      await this.storage.set(INDEX_KEY, JSON.stringify(this.index));
+    }
+  }
+}
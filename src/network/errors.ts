@@ -0,0 +1,410 @@
+import type { JobResult } from "@sudobility/svgr_types";
+import type { SvgrHttpMethod } from "./transport";
+import type { SvgrValidationIssue } from "./validation";
+
+/**
+ * Request details attached to every {@link SvgrApiError}.
+ *
+ * @interface SvgrErrorContext
+ * @property {string} [endpoint] - Path of the request (e.g. `/api/v1/jobs/abc`), without origin or query
+ * @property {SvgrHttpMethod} [method] - HTTP method of the request
+ * @property {string} [requestId] - Server request id (`X-Request-Id` header or `requestId` body field)
+ * @property {unknown} [body] - The parsed error response body
+ */
+export interface SvgrErrorContext {
+  /** Path of the request (e.g. `/api/v1/jobs/abc`), without origin or query */
+  endpoint?: string;
+  /** HTTP method of the request */
+  method?: SvgrHttpMethod;
+  /** Server request id (`X-Request-Id` header or `requestId` body field) */
+  requestId?: string;
+  /** The parsed error response body */
+  body?: unknown;
+}
+
+/**
+ * Error thrown when the SVGR API returns a non-successful HTTP response.
+ *
+ * Base class of the SDK's error hierarchy. Branch on the subclasses (or the
+ * `isSvgr*Error` type guards) instead of raw status codes:
+ *
+ * - {@link SvgrValidationError} — `400`/`422`, or rejected before sending
+ * - {@link SvgrAuthError} — `401`/`403`
+ * - {@link SvgrNotFoundError} — `404`
+ * - {@link SvgrTimeoutError} — `408` or a client-side deadline
+ * - {@link SvgrRateLimitError} — `429`, with the `Retry-After` delay
+ * - {@link SvgrServerError} — `5xx`
+ * - {@link SvgrNetworkError} — no response at all (status `0`)
+ * - {@link SvgrContentTypeError} — a file served with an unexpected `Content-Type`
+ * - {@link SvgrUnsuccessfulResponseError} — a `2xx` response whose body reports failure
+ *
+ * @extends Error
+ * @property {number} status - The HTTP status code from the API response
+ * @property {string} message - Human-readable error description
+ * @property {string} name - Always `"SvgrApiError"` for type identification
+ * @property {string} [endpoint] - Path of the failed request
+ * @property {SvgrHttpMethod} [method] - HTTP method of the failed request
+ * @property {string} [requestId] - Server request id, when provided
+ * @property {unknown} [body] - The parsed error response body
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.convert(imageData);
+ * } catch (error) {
+ *   if (isSvgrRateLimitError(error)) {
+ *     await sleep(error.retryAfterMs ?? 1000);
+ *   } else if (isSvgrApiError(error)) {
+ *     console.error(`${error.method} ${error.endpoint} failed (${error.requestId})`);
+ *   }
+ * }
+ * ```
+ */
+export class SvgrApiError extends Error {
+  /** Path of the failed request, without origin or query */
+  readonly endpoint: string | undefined;
+  /** HTTP method of the failed request */
+  readonly method: SvgrHttpMethod | undefined;
+  /** Server request id, when provided */
+  readonly requestId: string | undefined;
+  /** The parsed error response body */
+  readonly body: unknown;
+
+  constructor(
+    /** The HTTP status code from the API response */
+    public status: number,
+    message: string,
+    context: SvgrErrorContext = {},
+  ) {
+    super(message);
+    this.name = "SvgrApiError";
+    this.endpoint = context.endpoint;
+    this.method = context.method;
+    this.requestId = context.requestId;
+    this.body = context.body;
+  }
+}
+
+/**
+ * Error thrown when a request is invalid.
+ *
+ * Raised by client-side validation before any network call is made, so
+ * invalid input never costs an API request, and for `400`/`422` responses.
+ * Lists every invalid field in {@link issues}.
+ *
+ * @extends SvgrApiError
+ * @property {SvgrValidationIssue[]} issues - Every invalid field with a description
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.convert({ original: imageData, quality: 42, smooth: 9 });
+ * } catch (error) {
+ *   if (error instanceof SvgrValidationError) {
+ *     error.issues.forEach((i) => console.warn(`${i.field}: ${i.message}`));
+ *   }
+ * }
+ * ```
+ */
+export class SvgrValidationError extends SvgrApiError {
+  constructor(
+    /** Every invalid field with a description */
+    public issues: SvgrValidationIssue[],
+    message = `Invalid request: ${issues.map((issue) => issue.message).join("; ")}`,
+    context: SvgrErrorContext = {},
+    status = 400,
+  ) {
+    super(status, message, context);
+    this.name = "SvgrValidationError";
+  }
+}
+
+/**
+ * Error thrown when the API rejects the credentials (`401`) or denies
+ * access to the resource (`403`).
+ *
+ * @extends SvgrApiError
+ */
+export class SvgrAuthError extends SvgrApiError {
+  constructor(
+    status: 401 | 403,
+    message: string,
+    context: SvgrErrorContext = {},
+  ) {
+    super(status, message, context);
+    this.name = "SvgrAuthError";
+  }
+}
+
+/**
+ * Error thrown when the requested resource does not exist (`404`).
+ *
+ * @extends SvgrApiError
+ */
+export class SvgrNotFoundError extends SvgrApiError {
+  constructor(message: string, context: SvgrErrorContext = {}) {
+    super(404, message, context);
+    this.name = "SvgrNotFoundError";
+  }
+}
+
+/**
+ * Error thrown when the SVGR API rejects a request with HTTP `429`.
+ *
+ * Carries the server's `Retry-After` hint so callers (and
+ * {@link SvgrClient.convertMany}) can wait before trying again.
+ *
+ * @extends SvgrApiError
+ * @property {number} [retryAfterMs] - Delay requested by the server, when provided
+ */
+export class SvgrRateLimitError extends SvgrApiError {
+  constructor(
+    message: string,
+    /** Delay requested by the server's `Retry-After` header, when provided */
+    public retryAfterMs?: number,
+    context: SvgrErrorContext = {},
+  ) {
+    super(429, message, context);
+    this.name = "SvgrRateLimitError";
+  }
+}
+
+/**
+ * Error thrown when the server fails to handle a valid request (`5xx`).
+ *
+ * @extends SvgrApiError
+ */
+export class SvgrServerError extends SvgrApiError {
+  constructor(status: number, message: string, context: SvgrErrorContext = {}) {
+    super(status, message, context);
+    this.name = "SvgrServerError";
+  }
+}
+
+/**
+ * Error thrown when no response was received at all (DNS failure, lost
+ * connection, CORS rejection, ...).
+ *
+ * Uses status `0`. The underlying exception is kept in {@link cause}.
+ *
+ * @extends SvgrApiError
+ * @property {unknown} cause - The exception thrown by the network layer
+ */
+export class SvgrNetworkError extends SvgrApiError {
+  constructor(
+    message: string,
+    context: SvgrErrorContext = {},
+    /** The exception thrown by the network layer */
+    public cause?: unknown,
+  ) {
+    super(0, message, context);
+    this.name = "SvgrNetworkError";
+  }
+}
+
+/**
+ * Error thrown when a deadline elapses before an operation completes: a
+ * request timeout, a `408` response, or a client-side deadline such as the
+ * one in {@link SvgrClient.waitForJob}.
+ *
+ * Uses status `408` (Request Timeout).
+ *
+ * @extends SvgrApiError
+ * @property {number} [timeoutMs] - The deadline that elapsed, in milliseconds, when known
+ */
+export class SvgrTimeoutError extends SvgrApiError {
+  constructor(
+    /** The deadline that elapsed, in milliseconds, when known */
+    public timeoutMs: number | undefined,
+    message = timeoutMs === undefined
+      ? "Request timed out"
+      : `Timed out after ${timeoutMs} ms`,
+    context: SvgrErrorContext = {},
+  ) {
+    super(408, message, context);
+    this.name = "SvgrTimeoutError";
+  }
+}
+
+/**
+ * Error thrown when a file is served with an unexpected `Content-Type`,
+ * e.g. an HTML error page or a JSON body where an SVG was expected.
+ *
+ * Keeps the status of the (successful) response.
+ *
+ * @extends SvgrApiError
+ * @property {string} expected - The content type the file should have (`*` matches any subtype)
+ * @property {string} received - The content type the server sent
+ */
+export class SvgrContentTypeError extends SvgrApiError {
+  constructor(
+    /** The content type the file should have (`*` matches any subtype) */
+    public expected: string,
+    /** The content type the server sent */
+    public received: string,
+    status = 200,
+    context: SvgrErrorContext = {},
+  ) {
+    super(status, `Expected ${expected} but received ${received}`, context);
+    this.name = "SvgrContentTypeError";
+  }
+}
+
+/**
+ * Error thrown when the API answers with a successful status but its body
+ * reports a failure (`success: false`) or carries no data, e.g. in the
+ * steps of {@link SvgrClient.convertFile} and
+ * {@link SvgrClient.uploadAndConvert}.
+ *
+ * Keeps the status class of the (successful) response; the server's
+ * message, when given, is the error message and the body is in `body`.
+ *
+ * @extends SvgrApiError
+ */
+export class SvgrUnsuccessfulResponseError extends SvgrApiError {
+  constructor(message: string, context: SvgrErrorContext = {}, status = 200) {
+    super(status, message, context);
+    this.name = "SvgrUnsuccessfulResponseError";
+  }
+}
+
+/**
+ * Error thrown when an operation is cancelled through its `AbortSignal`.
+ *
+ * Cancellation is not a failure of the API, so this is not an
+ * {@link SvgrApiError} and is never retried. The signal's abort reason is
+ * kept in {@link reason}.
+ *
+ * @extends Error
+ * @property {unknown} reason - The `AbortSignal`'s reason
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.convert(request, { signal: controller.signal });
+ * } catch (error) {
+ *   if (isSvgrAbortError(error)) return; // the user navigated away
+ *   throw error;
+ * }
+ * ```
+ */
+export class SvgrAbortError extends Error {
+  constructor(
+    /** The `AbortSignal`'s reason */
+    public reason?: unknown,
+    message = reason instanceof Error
+      ? reason.message
+      : "The operation was aborted",
+  ) {
+    super(message);
+    this.name = "SvgrAbortError";
+  }
+}
+
+/**
+ * Turn an abort reason into an {@link SvgrAbortError}; reasons that already
+ * are SDK errors (such as a request's own {@link SvgrTimeoutError}) are
+ * returned unchanged.
+ *
+ * @param reason - The `AbortSignal`'s reason
+ */
+export function toAbortError(reason: unknown): Error {
+  if (reason instanceof SvgrAbortError || reason instanceof SvgrApiError) {
+    return reason;
+  }
+  return new SvgrAbortError(reason);
+}
+
+/**
+ * Error thrown by {@link SvgrClient.waitForJob} when a conversion job ends
+ * with status `error`.
+ *
+ * The request itself succeeded, so this is not an {@link SvgrApiError}; the
+ * final job state is available on {@link job}.
+ *
+ * @extends Error
+ * @property {JobResult} job - The failed job as last reported by the API
+ */
+export class SvgrJobFailedError extends Error {
+  constructor(
+    /** The failed job as last reported by the API */
+    public job: JobResult,
+  ) {
+    super(
+      (job as { error?: string | null }).error ?? `Job ${job.jobId} failed`,
+    );
+    this.name = "SvgrJobFailedError";
+  }
+}
+
+/** Whether `error` is an {@link SvgrApiError} (any subclass) */
+export function isSvgrApiError(error: unknown): error is SvgrApiError {
+  return error instanceof SvgrApiError;
+}
+
+/** Whether `error` is an {@link SvgrValidationError} */
+export function isSvgrValidationError(
+  error: unknown,
+): error is SvgrValidationError {
+  return error instanceof SvgrValidationError;
+}
+
+/** Whether `error` is an {@link SvgrAuthError} */
+export function isSvgrAuthError(error: unknown): error is SvgrAuthError {
+  return error instanceof SvgrAuthError;
+}
+
+/** Whether `error` is an {@link SvgrNotFoundError} */
+export function isSvgrNotFoundError(
+  error: unknown,
+): error is SvgrNotFoundError {
+  return error instanceof SvgrNotFoundError;
+}
+
+/** Whether `error` is an {@link SvgrRateLimitError} */
+export function isSvgrRateLimitError(
+  error: unknown,
+): error is SvgrRateLimitError {
+  return error instanceof SvgrRateLimitError;
+}
+
+/** Whether `error` is an {@link SvgrServerError} */
+export function isSvgrServerError(error: unknown): error is SvgrServerError {
+  return error instanceof SvgrServerError;
+}
+
+/** Whether `error` is an {@link SvgrNetworkError} */
+export function isSvgrNetworkError(error: unknown): error is SvgrNetworkError {
+  return error instanceof SvgrNetworkError;
+}
+
+/** Whether `error` is an {@link SvgrTimeoutError} */
+export function isSvgrTimeoutError(error: unknown): error is SvgrTimeoutError {
+  return error instanceof SvgrTimeoutError;
+}
+
+/** Whether `error` is an {@link SvgrContentTypeError} */
+export function isSvgrContentTypeError(
+  error: unknown,
+): error is SvgrContentTypeError {
+  return error instanceof SvgrContentTypeError;
+}
+
+/** Whether `error` is an {@link SvgrUnsuccessfulResponseError} */
+export function isSvgrUnsuccessfulResponseError(
+  error: unknown,
+): error is SvgrUnsuccessfulResponseError {
+  return error instanceof SvgrUnsuccessfulResponseError;
+}
+
+/** Whether `error` is an {@link SvgrAbortError} */
+export function isSvgrAbortError(error: unknown): error is SvgrAbortError {
+  return error instanceof SvgrAbortError;
+}
+
+/** Whether `error` is an {@link SvgrJobFailedError} */
+export function isSvgrJobFailedError(
+  error: unknown,
+): error is SvgrJobFailedError {
+  return error instanceof SvgrJobFailedError;
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { EventStreamParser } from "./events";
+
+describe("EventStreamParser", () => {
+  it("parses named events with ids and ignores comments", () => {
+    const parser = new EventStreamParser();
+    const events = parser.push(
+      ': keep-alive\n\nevent: job\nid: 7\ndata: {"a":1}\n\ndata: plain\n\n',
+    );
+    expect(events).toEqual([
+      { event: "job", id: "7", data: '{"a":1}' },
+      { id: "7", data: "plain" },
+    ]);
+  });
+
+  it("joins multi-line data and handles chunks split anywhere", () => {
+    const parser = new EventStreamParser();
+    expect(parser.push("data: line one\r")).toEqual([]);
+    expect(parser.push("\ndata:line two\r\n")).toEqual([]);
+    expect(parser.push("\r")).toEqual([]);
+    expect(parser.push("\n")).toEqual([{ data: "line one\nline two" }]);
+  });
+
+  it("does not dispatch events without data or an incomplete final event", () => {
+    const parser = new EventStreamParser();
+    expect(parser.push("event: ping\n\ndata: partial")).toEqual([]);
+  });
+});
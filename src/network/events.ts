@@ -0,0 +1,235 @@
+import { toSvgrError } from "./transport";
+
+/**
+ * A single message received from a server-sent event stream.
+ *
+ * @interface SvgrServerSentEvent
+ * @property {string} [event] - The `event:` field, when the server named the event
+ * @property {string} data - The `data:` lines joined with `\n`
+ * @property {string} [id] - The last `id:` seen on the stream, used as `Last-Event-ID` on reconnect
+ */
+export interface SvgrServerSentEvent {
+  /** The `event:` field, when the server named the event */
+  event?: string;
+  /** The `data:` lines joined with `\n` */
+  data: string;
+  /** The last `id:` seen on the stream, used as `Last-Event-ID` on reconnect */
+  id?: string;
+}
+
+/**
+ * A stream opened through an {@link SvgrEventStreamTransport}.
+ *
+ * @interface SvgrEventStreamRequest
+ */
+export interface SvgrEventStreamRequest {
+  /** Absolute stream URL */
+  url: string;
+  /** Extra request headers (e.g. `Last-Event-ID`) */
+  headers?: Record<string, string>;
+  /** Signal that closes the stream */
+  signal: AbortSignal;
+}
+
+/**
+ * Transport for server-sent event streams, used by
+ * {@link SvgrClient.subscribeJob} and {@link SvgrClient.subscribeJobs}.
+ *
+ * The `NetworkClient` resolves whole responses, so streams need their own
+ * transport. Implement it to plug in a platform `EventSource` or WebSocket
+ * bridge, or a fake stream in tests.
+ *
+ * @interface SvgrEventStreamTransport
+ */
+export interface SvgrEventStreamTransport {
+  /**
+   * Open the stream. Resolves with its events, or with `null` when the
+   * server does not offer one (the caller then polls instead). Rejects when
+   * the connection fails; the iterable ends when the server closes it.
+   */
+  connect(
+    request: SvgrEventStreamRequest,
+  ): Promise<AsyncIterable<SvgrServerSentEvent> | null>;
+}
+
+/**
+ * Incremental parser for the `text/event-stream` format.
+ *
+ * Feed decoded text with {@link push}; complete events are returned as soon
+ * as their terminating blank line arrives. Comments (`: ping`) and unknown
+ * fields are ignored.
+ */
+export class EventStreamParser {
+  private buffer = "";
+  private data: string[] = [];
+  private event: string | undefined;
+  private lastEventId: string | undefined;
+
+  /**
+   * Parse the next chunk of the stream.
+   *
+   * @param chunk - Decoded text, split anywhere
+   * @returns The events completed by this chunk
+   */
+  push(chunk: string): SvgrServerSentEvent[] {
+    let text = this.buffer + chunk;
+    // A trailing "\r" may be the first half of "\r\n"
+    const held = text.endsWith("\r") ? "\r" : "";
+    if (held) text = text.slice(0, -1);
+    const lines = text.split(/\r\n|\r|\n/);
+    this.buffer = (lines.pop() ?? "") + held;
+    const events: SvgrServerSentEvent[] = [];
+
+    for (const line of lines) {
+      if (line === "") {
+        const event = this.dispatch();
+        if (event) events.push(event);
+        continue;
+      }
+      if (line.startsWith(":")) continue;
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+      if (field === "data") this.data.push(value);
+      else if (field === "event") this.event = value;
+      else if (field === "id" && !value.includes("\0")) {
+        this.lastEventId = value;
+      }
+    }
+    return events;
+  }
+
+  private dispatch(): SvgrServerSentEvent | undefined {
+    const data = this.data;
+    const event = this.event;
+    this.data = [];
+    this.event = undefined;
+    if (data.length === 0) return undefined;
+    return {
+      ...(event !== undefined && event !== "" && { event }),
+      data: data.join("\n"),
+      ...(this.lastEventId !== undefined && { id: this.lastEventId }),
+    };
+  }
+}
+
+/**
+ * Options for {@link FetchEventStreamTransport}.
+ *
+ * @interface FetchEventStreamTransportOptions
+ * @property {Function} [getHeaders] - Returns headers (e.g. `Authorization`) added to every stream request
+ */
+export interface FetchEventStreamTransportOptions {
+  /** Returns headers (e.g. `Authorization`) added to every stream request */
+  getHeaders?: () => Record<string, string> | Promise<Record<string, string>>;
+}
+
+/** Statuses meaning the server offers no stream */
+const STREAM_UNAVAILABLE_STATUSES = [404, 405, 406, 501];
+
+async function* readEventStream(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<SvgrServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new EventStreamParser();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield* parser.push(decoder.decode(value, { stream: true }));
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * {@link SvgrEventStreamTransport} built on streaming `fetch`, available in
+ * browsers and Node 18+.
+ *
+ * Requests bypass the injected `NetworkClient`. The client still runs its
+ * {@link SvgrClientConfig.middleware} for them, so headers added there
+ * apply; headers the `NetworkClient` adds by itself do not, so supply those
+ * through `getHeaders`. A `404`/`405`/`406`/`501` response, or one that is
+ * not `text/event-stream`, counts as "no stream available"; a `401`/`403`
+ * rejects with {@link SvgrAuthError}.
+ *
+ * @example
+ * ```typescript
+ * const client = new SvgrClient({
+ *   baseUrl,
+ *   networkClient,
+ *   eventTransport: new FetchEventStreamTransport({
+ *     getHeaders: async () => ({ Authorization: `Bearer ${await getToken()}` }),
+ *   }),
+ * });
+ * ```
+ */
+export class FetchEventStreamTransport implements SvgrEventStreamTransport {
+  constructor(
+    private readonly options: FetchEventStreamTransportOptions = {},
+  ) {}
+
+  /** Whether `fetch` can stream response bodies in the current environment */
+  static isSupported(): boolean {
+    return (
+      typeof fetch === "function" &&
+      typeof ReadableStream !== "undefined" &&
+      typeof TextDecoder !== "undefined"
+    );
+  }
+
+  async connect(
+    request: SvgrEventStreamRequest,
+  ): Promise<AsyncIterable<SvgrServerSentEvent> | null> {
+    const response = await fetch(request.url, {
+      headers: {
+        Accept: "text/event-stream",
+        ...(await this.options.getHeaders?.()),
+        ...request.headers,
+      },
+      signal: request.signal,
+    });
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (
+      STREAM_UNAVAILABLE_STATUSES.includes(response.status) ||
+      (response.ok && !contentType.includes("text/event-stream"))
+    ) {
+      await response.body?.cancel().catch(() => undefined);
+      return null;
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      let data: unknown = text;
+      try {
+        data = JSON.parse(text);
+      } catch {
+        // Not JSON; keep the text
+      }
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name] = value;
+      });
+      throw toSvgrError(
+        {
+          ok: false,
+          success: false,
+          status: response.status,
+          statusText: response.statusText,
+          headers,
+          data,
+          timestamp: new Date().toISOString(),
+        },
+        {
+          method: "GET",
+          url: request.url,
+          errorMessage: "Failed to open event stream",
+        },
+      );
+    }
+    if (!response.body) return null;
+    return readEventStream(response.body);
+  }
+}
@@ -0,0 +1,95 @@
+import type { JobResult } from "@sudobility/svgr_types";
+
+/**
+ * Server file-naming scheme for job outputs served by
+ * `GET /api/v1/files/:filename`.
+ *
+ * Kept in one place so callers never have to hard-code file names.
+ */
+
+/**
+ * The files of a conversion job:
+ *
+ * - `svg` — the SVG produced by the job
+ * - `preview` — the JPEG preview rendered from the SVG
+ * - `original` — the uploaded raster image the job converted
+ */
+export type SvgrJobFileKind = "svg" | "preview" | "original";
+
+/**
+ * The `Content-Type` each job file must be served with. `*` matches any
+ * subtype, since uploads keep their own format.
+ */
+export const JOB_FILE_CONTENT_TYPES: Record<SvgrJobFileKind, string> = {
+  svg: "image/svg+xml",
+  preview: "image/jpeg",
+  original: "image/*",
+};
+
+/**
+ * Name of the SVG produced by a finished conversion job.
+ *
+ * @param job - The job whose output to locate
+ */
+export function getJobSvgFilename(job: Pick<JobResult, "jobId">): string {
+  return `${job.jobId}.svg`;
+}
+
+/**
+ * Name of the JPEG preview of a finished conversion job.
+ *
+ * @param job - The job whose preview to locate
+ */
+export function getJobPreviewFilename(job: Pick<JobResult, "jobId">): string {
+  return `${job.jobId}.jpg`;
+}
+
+/**
+ * Name of the uploaded image a job converted. Uploads are stored under
+ * their image ID, without an extension.
+ *
+ * @param job - The job whose source image to locate
+ */
+export function getJobOriginalFilename(
+  job: Pick<JobResult, "imageId">,
+): string {
+  return job.imageId;
+}
+
+/**
+ * Name of one of a job's files.
+ *
+ * @param job - The job whose file to locate
+ * @param kind - Which file
+ */
+export function getJobFilename(
+  job: Pick<JobResult, "jobId" | "imageId">,
+  kind: SvgrJobFileKind,
+): string {
+  switch (kind) {
+    case "svg":
+      return getJobSvgFilename(job);
+    case "preview":
+      return getJobPreviewFilename(job);
+    case "original":
+      return getJobOriginalFilename(job);
+  }
+}
+
+/**
+ * Whether a `Content-Type` header value matches an expected type such as
+ * `image/svg+xml` or `image/*`. Parameters (`; charset=...`) and case are
+ * ignored.
+ *
+ * @param contentType - The header value
+ * @param expected - The expected type
+ */
+export function matchesContentType(
+  contentType: string,
+  expected: string,
+): boolean {
+  const actual = contentType.split(";")[0]?.trim().toLowerCase() ?? "";
+  return expected.endsWith("/*")
+    ? actual.startsWith(expected.slice(0, -1))
+    : actual === expected;
+}
@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { MockNetworkClient } from "@sudobility/di/mocks";
+import { SvgrServerError } from "./errors";
+import {
+  createLoggingMiddleware,
+  createRetryMiddleware,
+  createTimingMiddleware,
+  type SvgrMiddleware,
+  type SvgrRequestTiming,
+} from "./middleware";
+import { SvgrClient } from "./SvgrClient";
+
+const BASE_URL = "http://localhost:3001";
+const STATUS_URL = `${BASE_URL}/api/v1/jobs/job-1`;
+
+describe("SvgrClient middleware", () => {
+  let mockNetwork: MockNetworkClient;
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    mockNetwork.setMockResponse(
+      STATUS_URL,
+      { data: { success: true, data: { jobId: "job-1" } }, ok: true },
+      "GET",
+    );
+  });
+
+  it("runs middleware in order and applies header and URL changes", async () => {
+    const order: string[] = [];
+    const tracing: SvgrMiddleware = (ctx, next) => {
+      order.push("tracing");
+      ctx.headers["X-Trace-Id"] = "trace-1";
+      return next();
+    };
+    const routing: SvgrMiddleware = (ctx, next) => {
+      order.push("routing");
+      return next({
+        ...ctx,
+        url: ctx.url.replace(BASE_URL, `${BASE_URL}/tenant-a`),
+      });
+    };
+    mockNetwork.setMockResponse(
+      `${BASE_URL}/tenant-a/api/v1/jobs/job-1`,
+      { data: { success: true, data: { jobId: "job-1" } }, ok: true },
+      "GET",
+    );
+    const client = new SvgrClient({
+      baseUrl: BASE_URL,
+      networkClient: mockNetwork,
+      middleware: [tracing, routing],
+    });
+
+    await client.getJobStatus("job-1");
+
+    expect(order).toEqual(["tracing", "routing"]);
+    const request = mockNetwork.getLastRequest();
+    expect(request?.url).toBe(`${BASE_URL}/tenant-a/api/v1/jobs/job-1`);
+    expect(request?.options?.headers).toEqual({ "X-Trace-Id": "trace-1" });
+  });
+
+  it("passes the operation to middleware and lets it change the response", async () => {
+    const operations: unknown[] = [];
+    const client = new SvgrClient({
+      baseUrl: BASE_URL,
+      networkClient: mockNetwork,
+      middleware: [
+        async (ctx, next) => {
+          operations.push(ctx.operation);
+          const response = await next();
+          return {
+            ...response,
+            data: { success: true, data: { jobId: "rewritten" } },
+          };
+        },
+      ],
+    });
+
+    const result = await client.getJobStatus("job-1");
+
+    expect(operations).toEqual(["getJobStatus"]);
+    expect(result.data?.jobId).toBe("rewritten");
+  });
+
+  it("lets middleware recover from a failed response", async () => {
+    mockNetwork.setMockResponse(
+      STATUS_URL,
+      { data: { error: "down" }, ok: false, status: 503 },
+      "GET",
+    );
+    const client = new SvgrClient({
+      baseUrl: BASE_URL,
+      networkClient: mockNetwork,
+      middleware: [
+        async (_ctx, next) => {
+          try {
+            return await next();
+          } catch (error) {
+            expect(error).toBeInstanceOf(SvgrServerError);
+            return {
+              ok: true,
+              success: true,
+              status: 200,
+              headers: {},
+              data: { success: true, data: { jobId: "fallback" } },
+              timestamp: new Date().toISOString(),
+            };
+          }
+        },
+      ],
+    });
+
+    const result = await client.getJobStatus("job-1");
+    expect(result.data?.jobId).toBe("fallback");
+  });
+
+  it("runs configured middleware once per call outside the retry policy", async () => {
+    mockNetwork.setMockResponse(
+      STATUS_URL,
+      { data: { error: "down" }, ok: false, status: 503 },
+      "GET",
+    );
+    const calls = vi.fn();
+    const client = new SvgrClient({
+      baseUrl: BASE_URL,
+      networkClient: mockNetwork,
+      retry: { maxRetries: 2, baseDelayMs: 1, jitter: "none" },
+      middleware: [
+        (ctx, next) => {
+          calls(ctx.attempt);
+          return next();
+        },
+      ],
+    });
+
+    await expect(client.getJobStatus("job-1")).rejects.toBeInstanceOf(
+      SvgrServerError,
+    );
+    expect(calls).toHaveBeenCalledTimes(1);
+    expect(mockNetwork.getRequests()).toHaveLength(3);
+  });
+
+  it("runs middleware after an explicit retry middleware for every attempt", async () => {
+    mockNetwork.setMockResponse(
+      STATUS_URL,
+      { data: { error: "down" }, ok: false, status: 503 },
+      "GET",
+    );
+    const timings: SvgrRequestTiming[] = [];
+    const client = new SvgrClient({
+      baseUrl: BASE_URL,
+      networkClient: mockNetwork,
+      retry: { maxRetries: 5, baseDelayMs: 1000 },
+      middleware: [
+        createRetryMiddleware({
+          maxRetries: 2,
+          baseDelayMs: 1,
+          jitter: "none",
+        }),
+        createTimingMiddleware((timing) => timings.push(timing)),
+      ],
+    });
+
+    await expect(client.getJobStatus("job-1")).rejects.toBeInstanceOf(
+      SvgrServerError,
+    );
+    // The explicit retry middleware replaces the one built from `retry`
+    expect(mockNetwork.getRequests()).toHaveLength(3);
+    expect(timings.map((timing) => timing.attempt)).toEqual([0, 1, 2]);
+    expect(timings[0]).toMatchObject({
+      operation: "getJobStatus",
+      method: "GET",
+      url: STATUS_URL,
+      status: 503,
+    });
+    expect(timings[0]?.error).toBeInstanceOf(SvgrServerError);
+  });
+
+  it("does not retry requests that are not marked retryable", async () => {
+    mockNetwork.setMockResponse(
+      `${BASE_URL}/api/v1/jobs`,
+      { data: { error: "down" }, ok: false, status: 503 },
+      "POST",
+    );
+    const client = new SvgrClient({
+      baseUrl: BASE_URL,
+      networkClient: mockNetwork,
+      idempotencyKeys: false,
+      middleware: [
+        createRetryMiddleware({
+          maxRetries: 2,
+          baseDelayMs: 1,
+          jitter: "none",
+        }),
+      ],
+    });
+
+    await expect(
+      client.createJob({ imageId: "img-1" } as never),
+    ).rejects.toBeInstanceOf(SvgrServerError);
+    expect(mockNetwork.getRequests()).toHaveLength(1);
+  });
+});
+
+describe("createTimingMiddleware", () => {
+  it("reports the status and duration of successful requests", async () => {
+    const mockNetwork = new MockNetworkClient();
+    mockNetwork.setMockResponse(
+      STATUS_URL,
+      {
+        data: { success: true, data: { jobId: "job-1" } },
+        ok: true,
+        delay: 20,
+      },
+      "GET",
+    );
+    const onTiming = vi.fn();
+    const client = new SvgrClient({
+      baseUrl: BASE_URL,
+      networkClient: mockNetwork,
+      middleware: [createTimingMiddleware(onTiming)],
+    });
+
+    await client.getJobStatus("job-1");
+
+    expect(onTiming).toHaveBeenCalledTimes(1);
+    const timing = onTiming.mock.calls[0]?.[0] as SvgrRequestTiming;
+    expect(timing).toMatchObject({
+      operation: "getJobStatus",
+      status: 200,
+      attempt: 0,
+    });
+    expect(timing.error).toBeUndefined();
+    expect(timing.durationMs).toBeGreaterThanOrEqual(15);
+  });
+});
+
+describe("createLoggingMiddleware", () => {
+  it("logs the request and its outcome", async () => {
+    const mockNetwork = new MockNetworkClient();
+    mockNetwork.setMockResponse(
+      STATUS_URL,
+      { data: { success: true, data: { jobId: "job-1" } }, ok: true },
+      "GET",
+    );
+    mockNetwork.setMockResponse(
+      `${BASE_URL}/api/v1/images`,
+      { data: { error: "Nope" }, ok: false, status: 401 },
+      "GET",
+    );
+    const log = vi.fn();
+    const client = new SvgrClient({
+      baseUrl: BASE_URL,
+      networkClient: mockNetwork,
+      middleware: [createLoggingMiddleware({ log })],
+    });
+
+    await client.getJobStatus("job-1");
+    await expect(client.getUserImages()).rejects.toThrow("Nope");
+
+    const lines = log.mock.calls.map(([line]) => line as string);
+    expect(lines[0]).toBe(`→ GET ${STATUS_URL}`);
+    expect(lines[1]).toMatch(
+      new RegExp(`^← 200 GET ${STATUS_URL} \\(\\d+ ms\\)$`),
+    );
+    expect(lines[2]).toBe(`→ GET ${BASE_URL}/api/v1/images`);
+    expect(lines[3]).toMatch(
+      /^✕ 401 GET .*\/api\/v1\/images \(\d+ ms\): Nope$/,
+    );
+  });
+});
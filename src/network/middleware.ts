@@ -0,0 +1,269 @@
+import type { NetworkResponse } from "@sudobility/types";
+import { sleep } from "../utils/async";
+import { getRetryDelay, isRetryable } from "./retry";
+import type { RetryConfig } from "./SvgrClient";
+import type { SvgrOperation } from "./timeouts";
+import type { SvgrHttpMethod } from "./transport";
+
+/**
+ * A request as seen by {@link SvgrMiddleware}.
+ *
+ * Middleware may change `method`, `url`, `headers` and `body` (in place or
+ * by passing a new context to `next`); the changes apply to the request
+ * that is eventually sent.
+ *
+ * @interface SvgrMiddlewareContext
+ * @property {SvgrOperation} [operation] - The {@link SvgrClient} operation sending the request
+ * @property {SvgrHttpMethod} method - HTTP method
+ * @property {string} url - Absolute request URL
+ * @property {Record<string, string>} headers - Request headers
+ * @property {unknown} [body] - Request body for POST/PUT
+ * @property {AbortSignal} [signal] - The caller's cancellation signal
+ * @property {number} [timeout] - Timeout for each attempt in milliseconds
+ * @property {boolean} retry - Whether the retry policy may repeat this request
+ * @property {number} attempt - Number of retries already made (0 for the first attempt)
+ */
+export interface SvgrMiddlewareContext {
+  /** The {@link SvgrClient} operation sending the request */
+  operation?: SvgrOperation;
+  /** HTTP method */
+  method: SvgrHttpMethod;
+  /** Absolute request URL */
+  url: string;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Request body for POST/PUT */
+  body?: unknown;
+  /** The caller's cancellation signal */
+  signal?: AbortSignal;
+  /** Timeout for each attempt in milliseconds */
+  timeout?: number;
+  /** Whether the retry policy may repeat this request */
+  retry: boolean;
+  /** Number of retries already made (0 for the first attempt) */
+  attempt: number;
+}
+
+/**
+ * Continue the pipeline with the next middleware, or send the request when
+ * there is none. Called without arguments it passes the current context on.
+ */
+export type SvgrMiddlewareNext = (
+  ctx?: SvgrMiddlewareContext,
+) => Promise<NetworkResponse<unknown>>;
+
+/**
+ * A step in the {@link SvgrClientConfig.middleware} pipeline.
+ *
+ * Receives the request context and `next`, and returns the response; it may
+ * change the request before calling `next`, change the response after, call
+ * `next` more than once (as {@link createRetryMiddleware} does) or answer
+ * without calling it. Failed responses arrive as thrown
+ * {@link SvgrApiError} subclasses, so a middleware that wants to see them
+ * catches around `next`.
+ *
+ * @example
+ * ```typescript
+ * const tracing: SvgrMiddleware = (ctx, next) => {
+ *   ctx.headers["X-Trace-Id"] = currentTraceId();
+ *   return next();
+ * };
+ * ```
+ */
+export type SvgrMiddleware = (
+  ctx: SvgrMiddlewareContext,
+  next: SvgrMiddlewareNext,
+) => Promise<NetworkResponse<unknown>>;
+
+/**
+ * Chain middleware in order around a handler that sends the request.
+ *
+ * @param middleware - The middleware, outermost first
+ * @param handler - Sends the request described by the final context
+ * @returns A function running the whole pipeline for one context
+ */
+export function composeMiddleware(
+  middleware: readonly SvgrMiddleware[],
+  handler: (ctx: SvgrMiddlewareContext) => Promise<NetworkResponse<unknown>>,
+): (ctx: SvgrMiddlewareContext) => Promise<NetworkResponse<unknown>> {
+  return middleware.reduceRight<
+    (ctx: SvgrMiddlewareContext) => Promise<NetworkResponse<unknown>>
+  >(
+    (next, current) => (ctx) => current(ctx, (nextCtx = ctx) => next(nextCtx)),
+    handler,
+  );
+}
+
+/** Middleware created by {@link createRetryMiddleware} */
+const retryMiddlewares = new WeakSet<SvgrMiddleware>();
+
+/**
+ * Whether `middleware` was created by {@link createRetryMiddleware}; the
+ * client only adds its own retry step when the pipeline has none.
+ */
+export function isRetryMiddleware(middleware: SvgrMiddleware): boolean {
+  return retryMiddlewares.has(middleware);
+}
+
+/**
+ * Middleware that applies a {@link RetryConfig} to requests marked as
+ * retryable.
+ *
+ * The client adds one after the configured middleware when
+ * {@link SvgrClientConfig.retry} is set, so the configured middleware runs
+ * once per call. Put one in the list yourself to choose its position:
+ * middleware before it wraps all attempts, middleware after it runs for
+ * every attempt.
+ *
+ * @param config - The retry policy
+ * @returns The retry middleware
+ *
+ * @example
+ * ```typescript
+ * const client = new SvgrClient({
+ *   baseUrl,
+ *   networkClient,
+ *   middleware: [
+ *     createTimingMiddleware(reportCallTiming),
+ *     createRetryMiddleware({ maxRetries: 3, baseDelayMs: 500 }),
+ *     createTimingMiddleware(reportAttemptTiming),
+ *   ],
+ * });
+ * ```
+ */
+export function createRetryMiddleware(config: RetryConfig): SvgrMiddleware {
+  const middleware: SvgrMiddleware = async (ctx, next) => {
+    if (!ctx.retry) return next();
+    for (let attempt = 0; ; attempt++) {
+      let delay: number | undefined;
+      try {
+        return await next({ ...ctx, attempt: ctx.attempt + attempt });
+      } catch (error) {
+        if (!isRetryable(error, attempt, config)) throw error;
+        delay = getRetryDelay(error, attempt, config);
+        if (delay === undefined) throw error;
+        config.onRetry?.(error, attempt + 1, delay);
+      }
+      await sleep(delay, ctx.signal);
+    }
+  };
+  retryMiddlewares.add(middleware);
+  return middleware;
+}
+
+/**
+ * Timing of one request reported by {@link createTimingMiddleware}.
+ *
+ * @interface SvgrRequestTiming
+ * @property {SvgrOperation} [operation] - The operation sending the request
+ * @property {SvgrHttpMethod} method - HTTP method
+ * @property {string} url - Request URL
+ * @property {number} attempt - Number of retries already made
+ * @property {number} durationMs - Time until the response or error, in milliseconds
+ * @property {number} [status] - Response status; the error's status for failed requests
+ * @property {unknown} [error] - The error, when the request failed
+ */
+export interface SvgrRequestTiming {
+  /** The operation sending the request */
+  operation?: SvgrOperation;
+  /** HTTP method */
+  method: SvgrHttpMethod;
+  /** Request URL */
+  url: string;
+  /** Number of retries already made */
+  attempt: number;
+  /** Time until the response or error, in milliseconds */
+  durationMs: number;
+  /** Response status; the error's status for failed requests */
+  status?: number;
+  /** The error, when the request failed */
+  error?: unknown;
+}
+
+/** Milliseconds from a monotonic clock where available */
+function now(): number {
+  return globalThis.performance?.now() ?? Date.now();
+}
+
+/** The HTTP status carried by an error, if any */
+function errorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Middleware that measures every request and reports it to `onTiming`,
+ * whether it succeeds or fails.
+ *
+ * @param onTiming - Called once per request with its {@link SvgrRequestTiming}
+ * @returns The timing middleware
+ */
+export function createTimingMiddleware(
+  onTiming: (timing: SvgrRequestTiming) => void,
+): SvgrMiddleware {
+  return async (ctx, next) => {
+    const start = now();
+    const report = (fields: Pick<SvgrRequestTiming, "status" | "error">) =>
+      onTiming({
+        ...(ctx.operation && { operation: ctx.operation }),
+        method: ctx.method,
+        url: ctx.url,
+        attempt: ctx.attempt,
+        durationMs: now() - start,
+        ...fields,
+      });
+    try {
+      const response = await next();
+      report({ status: response.status });
+      return response;
+    } catch (error) {
+      const status = errorStatus(error);
+      report({ ...(status !== undefined && { status }), error });
+      throw error;
+    }
+  };
+}
+
+/**
+ * Options for {@link createLoggingMiddleware}.
+ *
+ * @interface SvgrLoggingOptions
+ * @property {Function} [log] - Receives every log line (default: `console.debug`)
+ */
+export interface SvgrLoggingOptions {
+  /** Receives every log line. Default: `console.debug` */
+  log?: (message: string) => void;
+}
+
+/**
+ * Middleware that logs each request and its outcome, e.g.
+ * `→ POST https://api.svgr.app/api/v1/convert` followed by
+ * `← 200 POST https://api.svgr.app/api/v1/convert (412 ms)`.
+ * Headers and bodies are never logged.
+ *
+ * @param options - Where to send the log lines
+ * @returns The logging middleware
+ */
+export function createLoggingMiddleware(
+  options: SvgrLoggingOptions = {},
+): SvgrMiddleware {
+  const log = options.log ?? ((message: string) => console.debug(message));
+  return async (ctx, next) => {
+    const request = `${ctx.method} ${ctx.url}`;
+    const start = now();
+    const elapsed = () => `${Math.round(now() - start)} ms`;
+    log(`→ ${request}`);
+    try {
+      const response = await next();
+      log(`← ${response.status} ${request} (${elapsed()})`);
+      return response;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const status = errorStatus(error);
+      log(
+        `✕ ${status === undefined ? "" : `${status} `}${request} (${elapsed()}): ${message}`,
+      );
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { MockNetworkClient } from "@sudobility/di/mocks";
+import { MemoryCacheStorage } from "./cache";
+import { SvgrNetworkError, SvgrValidationError } from "./errors";
+import { ManualConnectivity, SvgrOfflineQueue } from "./offline";
+import { SvgrClient } from "./SvgrClient";
+
+const BASE = "http://localhost:3001/api/v1";
+const file = () => ({
+  buffer: new Uint8Array([1, 2, 3]).buffer,
+  filename: "a.png",
+  mimeType: "image/png",
+});
+
+describe("SvgrOfflineQueue", () => {
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+  let storage: MemoryCacheStorage;
+  let connectivity: ManualConnectivity;
+
+  const keysFor = (url: string) =>
+    mockNetwork
+      .getRequestsByUrl(url)
+      .map(
+        (request) =>
+          (request.options?.headers as Record<string, string> | undefined)?.[
+            "Idempotency-Key"
+          ],
+      );
+
+  beforeEach(() => {
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl: "http://localhost:3001",
+      networkClient: mockNetwork,
+    });
+    storage = new MemoryCacheStorage();
+    connectivity = new ManualConnectivity(false);
+    mockNetwork.setMockResponse(
+      `${BASE}/images/upload`,
+      { data: { success: true, data: { imageId: "img-1" } }, ok: true },
+      "POST",
+    );
+    mockNetwork.setMockResponse(
+      `${BASE}/jobs`,
+      {
+        data: { success: true, data: { jobId: "j1", status: "queued" } },
+        ok: true,
+      },
+      "POST",
+    );
+  });
+
+  it("stores operations while offline and replays them when back online", async () => {
+    const queue = new SvgrOfflineQueue(client, { storage, connectivity });
+    await queue.start();
+    const upload = await queue.enqueueUpload(file(), {
+      idempotencyKey: "up-1",
+      job: { quality: 7 } as never,
+    });
+    await queue.enqueueJob({ imageId: "img-0" }, { idempotencyKey: "job-1" });
+
+    expect(mockNetwork.getRequests()).toHaveLength(0);
+    expect(queue.getState().online).toBe(false);
+    expect(
+      JSON.parse((await storage.get("svgr-offline-queue")) ?? "[]"),
+    ).toHaveLength(2);
+
+    connectivity.setOnline(true);
+    await queue.flush();
+
+    const { items, online } = queue.getState();
+    expect(online).toBe(true);
+    expect(items.map((item) => item.status)).toEqual([
+      "succeeded",
+      "succeeded",
+    ]);
+    expect(items[0]).toMatchObject({
+      image: { imageId: "img-1" },
+      job: { jobId: "j1" },
+      attempts: 1,
+    });
+    expect(keysFor(`${BASE}/images/upload`)).toEqual(["up-1"]);
+    const jobKeys = keysFor(`${BASE}/jobs`);
+    expect(jobKeys[0]).toBe(
+      upload.operation.kind === "upload" && upload.operation.jobIdempotencyKey,
+    );
+    expect(jobKeys[1]).toBe("job-1");
+    const jobBody = JSON.parse(
+      mockNetwork.getRequestsByUrl(`${BASE}/jobs`)[0]?.options?.body as string,
+    );
+    expect(jobBody).toEqual({ quality: 7, imageId: "img-1" });
+    queue.stop();
+  });
+
+  it("returns the existing item for an idempotency key already queued", async () => {
+    const queue = new SvgrOfflineQueue(client, { storage, connectivity });
+    const first = await queue.enqueueJob(
+      { imageId: "a" },
+      {
+        idempotencyKey: "k",
+      },
+    );
+    const second = await queue.enqueueJob(
+      { imageId: "b" },
+      {
+        idempotencyKey: "k",
+      },
+    );
+
+    expect(second).toBe(first);
+    expect(queue.getState().items).toHaveLength(1);
+  });
+
+  it("resumes items interrupted by a restart without repeating finished steps", async () => {
+    await storage.set(
+      "svgr-offline-queue",
+      JSON.stringify([
+        {
+          id: "up-1",
+          operation: {
+            kind: "upload",
+            file: { data: "AQID", filename: "a.png", mimeType: "image/png" },
+            job: {},
+            jobIdempotencyKey: "job-1",
+          },
+          status: "running",
+          attempts: 1,
+          createdAt: 1,
+          image: { imageId: "img-1" },
+        },
+      ]),
+    );
+    connectivity.setOnline(true);
+
+    const queue = new SvgrOfflineQueue(client, { storage, connectivity });
+    await queue.start();
+    await queue.flush();
+
+    expect(mockNetwork.wasUrlCalled(`${BASE}/images/upload`)).toBe(false);
+    expect(keysFor(`${BASE}/jobs`)).toEqual(["job-1"]);
+    expect(queue.getState().items[0]).toMatchObject({
+      status: "succeeded",
+      attempts: 2,
+    });
+    queue.stop();
+  });
+
+  it("keeps items pending after transient errors and fails rejected ones", async () => {
+    let calls = 0;
+    const fakeClient = {
+      createJob: async (request: { imageId: string }) => {
+        calls++;
+        if (request.imageId === "bad") {
+          throw new SvgrValidationError([
+            { field: "imageId", message: "unknown image" },
+          ]);
+        }
+        if (calls <= 2) throw new SvgrNetworkError("offline");
+        return { success: true, data: { jobId: request.imageId } };
+      },
+    } as unknown as SvgrClient;
+    const changes: string[] = [];
+    const queue = new SvgrOfflineQueue(fakeClient, {
+      storage,
+      connectivity,
+      onItemChange: (item) => changes.push(`${item.id}:${item.status}`),
+    });
+    await queue.enqueueJob({ imageId: "bad" }, { idempotencyKey: "a" });
+    await queue.enqueueJob({ imageId: "ok" }, { idempotencyKey: "b" });
+    connectivity.setOnline(true);
+
+    await queue.flush();
+    expect(queue.getState().items.map((item) => item.status)).toEqual([
+      "failed",
+      "pending",
+    ]);
+    expect(queue.getState().items[1]?.error).toBe("offline");
+
+    await queue.flush();
+    await queue.flush();
+    expect(queue.getState().items[1]).toMatchObject({
+      status: "succeeded",
+      attempts: 2,
+      job: { jobId: "ok" },
+    });
+    expect(queue.getState().items[1]).not.toHaveProperty("error");
+    expect(changes).toEqual([
+      "a:running",
+      "a:failed",
+      "b:running",
+      "b:pending",
+      "b:running",
+      "b:succeeded",
+    ]);
+
+    await queue.removeCompleted();
+    await queue.remove("a");
+    expect(queue.getState().items).toEqual([]);
+  });
+
+  it("starts empty when the stored queue is corrupt", async () => {
+    await storage.set("svgr-offline-queue", "{not json");
+    const errors: unknown[] = [];
+    const queue = new SvgrOfflineQueue(client, {
+      storage,
+      connectivity,
+      onError: (error) => errors.push(error),
+    });
+
+    await queue.start();
+    expect(queue.getState().items).toEqual([]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(SyntaxError);
+
+    const item = await queue.enqueueJob(
+      { imageId: "img-1" },
+      {
+        idempotencyKey: "a",
+      },
+    );
+    expect(item.status).toBe("pending");
+    queue.stop();
+  });
+
+  it("reports storage write failures to onError", async () => {
+    const failure = new Error("quota exceeded");
+    storage.set = () => Promise.reject(failure);
+    const errors: unknown[] = [];
+    const queue = new SvgrOfflineQueue(client, {
+      storage,
+      connectivity,
+      onError: (error) => errors.push(error),
+    });
+
+    await queue.enqueueJob(
+      { imageId: "img-1" },
+      {
+        idempotencyKey: "a",
+      },
+    );
+
+    await vi.waitFor(() => expect(errors).toEqual([failure]));
+    expect(queue.getState().items).toHaveLength(1);
+  });
+});
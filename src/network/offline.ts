@@ -0,0 +1,564 @@
+import type {
+  BaseResponse,
+  CreateJobRequest,
+  ImageUploadResult,
+  JobResult,
+} from "@sudobility/svgr_types";
+import { decodeBase64, encodeBase64, toUint8Array } from "../utils/binary";
+import { createIdempotencyKey } from "../utils/idempotency";
+import { MemoryCacheStorage, type SvgrCacheStorage } from "./cache";
+import { SvgrApiError, SvgrNetworkError } from "./errors";
+import { DEFAULT_RETRYABLE_STATUSES } from "./retry";
+import type { SvgrClient, UploadImageInput } from "./SvgrClient";
+
+/** Storage key holding the queue */
+const STORAGE_KEY = "svgr-offline-queue";
+/** Default delay before a replay is retried after a server-side failure */
+const DEFAULT_RETRY_DELAY_MS = 30000;
+
+/**
+ * Source of online/offline state for {@link SvgrOfflineQueue}.
+ *
+ * Use {@link BrowserConnectivity} on the web, bridge React Native's NetInfo
+ * through a {@link ManualConnectivity}, or implement it directly.
+ *
+ * @interface SvgrConnectivity
+ */
+export interface SvgrConnectivity {
+  /** Whether the device is currently online */
+  isOnline(): boolean;
+  /**
+   * Call `listener` whenever the state changes.
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: (online: boolean) => void): () => void;
+}
+
+/**
+ * {@link SvgrConnectivity} whose state is set by hand. Use it in tests, or
+ * to feed another source such as React Native's NetInfo.
+ *
+ * @example
+ * ```typescript
+ * const connectivity = new ManualConnectivity();
+ * NetInfo.addEventListener((state) =>
+ *   connectivity.setOnline(state.isConnected !== false),
+ * );
+ * ```
+ */
+export class ManualConnectivity implements SvgrConnectivity {
+  private readonly listeners = new Set<(online: boolean) => void>();
+
+  constructor(private online = true) {}
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  /** Change the state; listeners are only called when it actually changes */
+  setOnline(online: boolean): void {
+    if (online === this.online) return;
+    this.online = online;
+    for (const listener of [...this.listeners]) listener(online);
+  }
+
+  subscribe(listener: (online: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * {@link SvgrConnectivity} for browsers, from `navigator.onLine` and the
+ * window's `online`/`offline` events.
+ */
+export class BrowserConnectivity implements SvgrConnectivity {
+  /** Whether the environment reports connectivity changes */
+  static isSupported(): boolean {
+    return (
+      typeof globalThis.navigator?.onLine === "boolean" &&
+      typeof globalThis.addEventListener === "function"
+    );
+  }
+
+  isOnline(): boolean {
+    return globalThis.navigator.onLine;
+  }
+
+  subscribe(listener: (online: boolean) => void): () => void {
+    const online = () => listener(true);
+    const offline = () => listener(false);
+    globalThis.addEventListener("online", online);
+    globalThis.addEventListener("offline", offline);
+    return () => {
+      globalThis.removeEventListener("online", online);
+      globalThis.removeEventListener("offline", offline);
+    };
+  }
+}
+
+/**
+ * An operation recorded by {@link SvgrOfflineQueue}, in its stored form.
+ *
+ * - `upload` — {@link SvgrClient.uploadImage}, optionally followed by
+ *   {@link SvgrClient.createJob} for the uploaded image
+ * - `createJob` — {@link SvgrClient.createJob} for an image already uploaded
+ */
+export type SvgrOfflineOperation =
+  | {
+      kind: "upload";
+      /** The image bytes, base64 encoded so the queue can be stored as JSON */
+      file: { data: string; filename: string; mimeType: string };
+      /** Job to create once the upload succeeds */
+      job?: Omit<CreateJobRequest, "imageId">;
+      /** `Idempotency-Key` of the follow-up job */
+      jobIdempotencyKey?: string;
+    }
+  | { kind: "createJob"; request: CreateJobRequest };
+
+/**
+ * Lifecycle of a queued operation.
+ *
+ * - `pending` — waiting to be sent (offline, or waiting to retry)
+ * - `running` — being sent
+ * - `succeeded` — done; `image` and/or `job` hold the results
+ * - `failed` — rejected by the server; retry it with {@link SvgrOfflineQueue.retry}
+ */
+export type SvgrOfflineItemStatus =
+  "pending" | "running" | "succeeded" | "failed";
+
+/**
+ * A queued operation and its state.
+ *
+ * @interface SvgrOfflineItem
+ */
+export interface SvgrOfflineItem {
+  /** The operation's `Idempotency-Key`, which also identifies the item */
+  id: string;
+  /** What to send */
+  operation: SvgrOfflineOperation;
+  /** Current state */
+  status: SvgrOfflineItemStatus;
+  /** Number of times sending was attempted */
+  attempts: number;
+  /** When the item was queued (epoch milliseconds) */
+  createdAt: number;
+  /** The uploaded image, once the upload succeeded */
+  image?: ImageUploadResult;
+  /** The created job, once it was created */
+  job?: JobResult;
+  /** Message of the last error */
+  error?: string;
+}
+
+/**
+ * State reported by {@link SvgrOfflineQueue.getState}; a new object after
+ * every change.
+ *
+ * @interface SvgrOfflineQueueState
+ */
+export interface SvgrOfflineQueueState {
+  /** Every item, oldest first */
+  items: readonly SvgrOfflineItem[];
+  /** Whether the connectivity source reports the device online */
+  online: boolean;
+}
+
+/**
+ * Options for {@link SvgrOfflineQueue}.
+ *
+ * @interface SvgrOfflineQueueOptions
+ */
+export interface SvgrOfflineQueueOptions {
+  /** Where the queue is persisted (default: in memory); e.g. an AsyncStorage adapter */
+  storage?: SvgrCacheStorage;
+  /** Online/offline signal (default: {@link BrowserConnectivity} where supported, else always online) */
+  connectivity?: SvgrConnectivity;
+  /** Delay before retrying after a network or server error while online, in milliseconds (default: 30000) */
+  retryDelayMs?: number;
+  /** Called after an item changed state */
+  onItemChange?: (item: SvgrOfflineItem) => void;
+  /** Called when the stored queue cannot be read or written; the queue keeps working in memory */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Options for {@link SvgrOfflineQueue.enqueueUpload} and
+ * {@link SvgrOfflineQueue.enqueueJob}.
+ *
+ * @interface SvgrEnqueueOptions
+ */
+export interface SvgrEnqueueOptions {
+  /** `Idempotency-Key` of the operation (default: generated). Enqueueing a key twice returns the existing item */
+  idempotencyKey?: string;
+}
+
+/** Connectivity that is always online, for environments without a signal */
+const ALWAYS_ONLINE: SvgrConnectivity = {
+  isOnline: () => true,
+  subscribe: () => () => undefined,
+};
+
+/** Whether a failure is worth replaying later rather than reporting */
+function isTransient(error: unknown): boolean {
+  return (
+    error instanceof SvgrNetworkError ||
+    (error instanceof SvgrApiError &&
+      DEFAULT_RETRYABLE_STATUSES.includes(error.status))
+  );
+}
+
+/** The data of a successful response, or an error for `success: false` */
+function unwrap<T>(response: BaseResponse<T>, message: string): T {
+  if (!response.success || response.data == null) {
+    throw new Error(response.error ?? message);
+  }
+  return response.data;
+}
+
+/**
+ * Persistent queue of uploads and jobs for unreliable connections.
+ *
+ * Operations are stored through a pluggable {@link SvgrCacheStorage} as soon
+ * as they are queued, and sent in order whenever the connectivity source
+ * reports the device online; items interrupted by an app restart are sent
+ * again when the queue is started. Every operation carries an
+ * `Idempotency-Key`, so replays never create duplicate uploads or jobs, and
+ * queueing a key that is already queued returns the existing item.
+ *
+ * Network errors, timeouts, `429` and `5xx` responses leave an item
+ * `pending` for the next replay; other errors mark it `failed`.
+ *
+ * @example
+ * ```typescript
+ * const queue = new SvgrOfflineQueue(client, {
+ *   storage: asyncStorageAdapter,
+ *   connectivity,
+ * });
+ * await queue.start();
+ * await queue.enqueueUpload(
+ *   { buffer, filename: "logo.png", mimeType: "image/png" },
+ *   { job: { quality: 7 } },
+ * );
+ * queue.subscribe(() => render(queue.getState().items));
+ * ```
+ */
+export class SvgrOfflineQueue {
+  private items: SvgrOfflineItem[] = [];
+  private state: SvgrOfflineQueueState;
+  private readonly listeners = new Set<() => void>();
+  private readonly storage: SvgrCacheStorage;
+  private readonly connectivity: SvgrConnectivity;
+  private loading: Promise<void> | undefined;
+  private flushing: Promise<void> | undefined;
+  private unsubscribe: (() => void) | undefined;
+  private retryTimer: ReturnType<typeof setTimeout> | undefined;
+  /** Serializes storage writes so a later state never loses to an earlier one */
+  private saving: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly client: SvgrClient,
+    private readonly options: SvgrOfflineQueueOptions = {},
+  ) {
+    this.storage = options.storage ?? new MemoryCacheStorage();
+    this.connectivity =
+      options.connectivity ??
+      (BrowserConnectivity.isSupported()
+        ? new BrowserConnectivity()
+        : ALWAYS_ONLINE);
+    this.state = { items: [], online: this.connectivity.isOnline() };
+  }
+
+  /** The current items and connectivity */
+  getState(): SvgrOfflineQueueState {
+    return this.state;
+  }
+
+  /**
+   * Call `listener` after every change of {@link getState}.
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Load the stored queue, start following the connectivity source and send
+   * pending items if online. Safe to call more than once.
+   */
+  async start(): Promise<void> {
+    await this.load();
+    if (!this.unsubscribe) {
+      this.unsubscribe = this.connectivity.subscribe((online) => {
+        this.emit();
+        if (online) void this.flush();
+      });
+      this.emit();
+    }
+    void this.flush();
+  }
+
+  /** Stop following the connectivity source; items being sent still finish */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+  }
+
+  /**
+   * Queue an image upload, optionally followed by a job for the uploaded
+   * image. The file is read and stored immediately.
+   *
+   * @param file - The image to upload
+   * @param options - Follow-up `job` options and the `Idempotency-Key`
+   * @returns The queued item (the existing one when the key is already queued)
+   */
+  async enqueueUpload(
+    file: UploadImageInput,
+    options: SvgrEnqueueOptions & {
+      job?: Omit<CreateJobRequest, "imageId">;
+    } = {},
+  ): Promise<SvgrOfflineItem> {
+    const stored =
+      "buffer" in file
+        ? { bytes: file.buffer, filename: file.filename, type: file.mimeType }
+        : { bytes: file, filename: file.name, type: file.type };
+    return this.enqueue(
+      {
+        kind: "upload",
+        file: {
+          data: encodeBase64(await toUint8Array(stored.bytes)),
+          filename: stored.filename,
+          mimeType: stored.type,
+        },
+        ...(options.job && {
+          job: options.job,
+          jobIdempotencyKey: createIdempotencyKey(),
+        }),
+      },
+      options.idempotencyKey,
+    );
+  }
+
+  /**
+   * Queue a job for an image that is already uploaded.
+   *
+   * @param request - The job to create
+   * @param options - The `Idempotency-Key`
+   * @returns The queued item (the existing one when the key is already queued)
+   */
+  enqueueJob(
+    request: CreateJobRequest,
+    options: SvgrEnqueueOptions = {},
+  ): Promise<SvgrOfflineItem> {
+    return this.enqueue({ kind: "createJob", request }, options.idempotencyKey);
+  }
+
+  /** Send a `failed` item again */
+  async retry(id: string): Promise<void> {
+    await this.load();
+    const item = this.items.find((candidate) => candidate.id === id);
+    if (item?.status !== "failed") return;
+    this.update(item, { status: "pending" });
+    void this.flush();
+  }
+
+  /** Remove an item that is not being sent */
+  async remove(id: string): Promise<void> {
+    await this.load();
+    this.setItems(
+      this.items.filter((item) => item.id !== id || item.status === "running"),
+    );
+  }
+
+  /** Remove every `succeeded` item */
+  async removeCompleted(): Promise<void> {
+    await this.load();
+    this.setItems(this.items.filter((item) => item.status !== "succeeded"));
+  }
+
+  /**
+   * Send pending items in order while online. Resolves when the queue is
+   * empty, the device goes offline, or a transient error postpones the
+   * rest. Concurrent calls share one run.
+   */
+  flush(): Promise<void> {
+    this.flushing ??= this.drain().finally(() => {
+      this.flushing = undefined;
+    });
+    return this.flushing;
+  }
+
+  private async drain(): Promise<void> {
+    await this.load();
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+    for (;;) {
+      const item = this.items.find(
+        (candidate) => candidate.status === "pending",
+      );
+      if (!item || !this.connectivity.isOnline()) return;
+      if (!(await this.send(item))) {
+        this.scheduleRetry();
+        return;
+      }
+    }
+  }
+
+  /** Send one item; `false` when it should be retried later */
+  private async send(item: SvgrOfflineItem): Promise<boolean> {
+    item = this.update(item, {
+      status: "running",
+      attempts: item.attempts + 1,
+    });
+    try {
+      const { operation } = item;
+      let job: JobResult | undefined;
+      if (operation.kind === "createJob") {
+        job = unwrap(
+          await this.client.createJob(operation.request, {
+            idempotencyKey: item.id,
+          }),
+          "Job creation failed",
+        );
+      } else {
+        const image =
+          item.image ??
+          unwrap(
+            await this.client.uploadImage(
+              {
+                buffer: decodeBase64(operation.file.data).slice().buffer,
+                filename: operation.file.filename,
+                mimeType: operation.file.mimeType,
+              },
+              { idempotencyKey: item.id },
+            ),
+            "Upload failed",
+          );
+        // Stored right away so a restart does not upload the image again
+        if (!item.image) item = this.update(item, { image });
+        if (operation.job) {
+          job = unwrap(
+            await this.client.createJob(
+              { ...operation.job, imageId: image.imageId },
+              { idempotencyKey: operation.jobIdempotencyKey ?? item.id },
+            ),
+            "Job creation failed",
+          );
+        }
+      }
+      const { error: _error, ...succeeded } = item;
+      this.replace({ ...succeeded, ...(job && { job }), status: "succeeded" });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const transient = isTransient(error);
+      this.update(item, {
+        status: transient ? "pending" : "failed",
+        error: message,
+      });
+      return !transient;
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (!this.unsubscribe || !this.connectivity.isOnline()) return;
+    this.retryTimer = setTimeout(
+      () => void this.flush(),
+      this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+    );
+  }
+
+  private async enqueue(
+    operation: SvgrOfflineOperation,
+    idempotencyKey = createIdempotencyKey(),
+  ): Promise<SvgrOfflineItem> {
+    await this.load();
+    const existing = this.items.find((item) => item.id === idempotencyKey);
+    if (existing) return existing;
+
+    const item: SvgrOfflineItem = {
+      id: idempotencyKey,
+      operation,
+      status: "pending",
+      attempts: 0,
+      createdAt: Date.now(),
+    };
+    this.setItems([...this.items, item]);
+    await this.saving;
+    if (this.unsubscribe) void this.flush();
+    return item;
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= (async () => {
+      let items: SvgrOfflineItem[] = [];
+      try {
+        const stored = await this.storage.get(STORAGE_KEY);
+        const parsed: unknown = stored ? JSON.parse(stored) : [];
+        if (!Array.isArray(parsed)) {
+          throw new TypeError("Stored offline queue is not a list");
+        }
+        items = parsed as SvgrOfflineItem[];
+      } catch (error) {
+        // Unreadable storage starts an empty queue instead of failing every call
+        this.options.onError?.(error);
+      }
+      // Items that were being sent when the app stopped are sent again;
+      // their idempotency keys make that safe
+      this.items = [
+        ...items.map((item) =>
+          item.status === "running"
+            ? { ...item, status: "pending" as const }
+            : item,
+        ),
+        ...this.items,
+      ];
+      this.emit();
+    })();
+    return this.loading;
+  }
+
+  /** Replace an item with an updated copy and return the copy */
+  private update(
+    item: SvgrOfflineItem,
+    changes: Partial<SvgrOfflineItem>,
+  ): SvgrOfflineItem {
+    return this.replace({ ...item, ...changes });
+  }
+
+  private replace(updated: SvgrOfflineItem): SvgrOfflineItem {
+    this.setItems(
+      this.items.map((candidate) =>
+        candidate.id === updated.id ? updated : candidate,
+      ),
+    );
+    this.options.onItemChange?.(updated);
+    return updated;
+  }
+
+  private setItems(items: SvgrOfflineItem[]): void {
+    this.items = items;
+    const json = JSON.stringify(items);
+    this.saving = this.saving
+      .then(() => this.storage.set(STORAGE_KEY, json))
+      .catch((error: unknown) => this.options.onError?.(error));
+    this.emit();
+  }
+
+  private emit(): void {
+    this.state = {
+      items: this.items,
+      online: this.connectivity.isOnline(),
+    };
+    for (const listener of [...this.listeners]) listener();
+  }
+}
@@ -0,0 +1,138 @@
+import type { JobResult } from "@sudobility/svgr_types";
+import {
+  exportSvg,
+  type SvgExportFormat,
+  type SvgExportOptions,
+  type SvgExportResult,
+} from "../svg/export";
+import { getJobFilename, type SvgrJobFileKind } from "./files";
+import type { SvgrClient, SvgrRequestOptions } from "./SvgrClient";
+import { blobToText } from "./transport";
+
+/**
+ * An object URL for a downloaded file, e.g. for an `<img src>`.
+ *
+ * @interface SvgrObjectUrl
+ * @property {string} url - The `blob:` URL
+ * @property {() => void} revoke - Release the file's memory; the URL stops working. Safe to call twice
+ */
+export interface SvgrObjectUrl {
+  /** The `blob:` URL */
+  url: string;
+  /** Release the file's memory; the URL stops working. Safe to call twice */
+  revoke: () => void;
+}
+
+/**
+ * Create an object URL for a Blob.
+ *
+ * @param blob - The file contents
+ * @throws {Error} Where `URL.createObjectURL` is missing (e.g. React Native)
+ */
+export function createObjectUrl(blob: Blob): SvgrObjectUrl {
+  if (typeof URL.createObjectURL !== "function") {
+    throw new Error("URL.createObjectURL is not available");
+  }
+  const url = URL.createObjectURL(blob);
+  let revoked = false;
+  return {
+    url,
+    revoke: () => {
+      if (revoked) return;
+      revoked = true;
+      URL.revokeObjectURL(url);
+    },
+  };
+}
+
+/**
+ * Typed access to the files of a conversion job, returned by
+ * {@link SvgrClient.getJobOutputs}.
+ *
+ * Each accessor downloads its file through {@link SvgrClient.fetchJobFile},
+ * which checks the `Content-Type`, so callers never deal with the server's
+ * file names. Nothing is fetched until an accessor is called.
+ *
+ * @example
+ * ```typescript
+ * const outputs = client.getJobOutputs(job);
+ * const svg = await outputs.svgText();
+ * const preview = await outputs.objectUrl("preview");
+ * img.src = preview.url;
+ * // later
+ * outputs.revokeAll();
+ * ```
+ */
+export class SvgrJobOutputs {
+  private readonly objectUrls = new Set<SvgrObjectUrl>();
+
+  constructor(
+    private readonly client: SvgrClient,
+    /** The job whose files to fetch */
+    readonly job: JobResult,
+  ) {}
+
+  /** Server file name of one of the job's files */
+  filename(kind: SvgrJobFileKind): string {
+    return getJobFilename(this.job, kind);
+  }
+
+  /** The converted SVG as text */
+  async svgText(options: SvgrRequestOptions = {}): Promise<string> {
+    return blobToText(await this.client.fetchJobFile(this.job, "svg", options));
+  }
+
+  /**
+   * Download the SVG and export it as a PNG, a PDF, or a React / React
+   * Native component (see {@link exportSvg}), using the client's
+   * rasterizer unless `options.rasterizer` is given.
+   */
+  async exportSvg<F extends SvgExportFormat>(
+    options: SvgExportOptions<F>,
+    requestOptions: SvgrRequestOptions = {},
+  ): Promise<SvgExportResult<F>> {
+    const svg = await this.svgText(requestOptions);
+    const rasterizer = options.rasterizer ?? this.client.rasterizer;
+    return exportSvg(svg, rasterizer ? { ...options, rasterizer } : options);
+  }
+
+  /** The JPEG preview rendered from the SVG */
+  previewBlob(options: SvgrRequestOptions = {}): Promise<Blob> {
+    return this.client.fetchJobFile(this.job, "preview", options);
+  }
+
+  /** The uploaded image the job converted */
+  originalBlob(options: SvgrRequestOptions = {}): Promise<Blob> {
+    return this.client.fetchJobFile(this.job, "original", options);
+  }
+
+  /**
+   * Download a file and create an object URL for it. Revoke it with its
+   * `revoke()` once it is no longer displayed, or all at once with
+   * {@link revokeAll}.
+   *
+   * @param kind - Which file (default: `svg`)
+   * @throws {Error} Where `URL.createObjectURL` is missing (e.g. React Native)
+   */
+  async objectUrl(
+    kind: SvgrJobFileKind = "svg",
+    options: SvgrRequestOptions = {},
+  ): Promise<SvgrObjectUrl> {
+    const blob = await this.client.fetchJobFile(this.job, kind, options);
+    const objectUrl = createObjectUrl(blob);
+    this.objectUrls.add(objectUrl);
+    return {
+      url: objectUrl.url,
+      revoke: () => {
+        this.objectUrls.delete(objectUrl);
+        objectUrl.revoke();
+      },
+    };
+  }
+
+  /** Revoke every object URL created by {@link objectUrl} and not yet revoked */
+  revokeAll(): void {
+    for (const objectUrl of this.objectUrls) objectUrl.revoke();
+    this.objectUrls.clear();
+  }
+}
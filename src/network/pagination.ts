@@ -0,0 +1,93 @@
+import type {
+  BaseResponse,
+  ImageType,
+  JobStatus,
+} from "@sudobility/svgr_types";
+
+/**
+ * Filters and sort order for image and job listings.
+ *
+ * Array values match any of their entries. Dates accept a `Date` or an ISO
+ * 8601 string and are sent as ISO strings.
+ *
+ * @interface SvgrListFilters
+ * @property {JobStatus | JobStatus[]} [status] - Only items with a job in this status
+ * @property {ImageType | ImageType[]} [imageType] - Only items converted with this image type
+ * @property {Date | string} [createdAfter] - Only items created at or after this time
+ * @property {Date | string} [createdBefore] - Only items created before this time
+ * @property {string} [sortBy] - Field to sort by (default: `createdAt`)
+ * @property {string} [order] - Sort direction (default: `desc`, newest first)
+ */
+export interface SvgrListFilters {
+  /** Only items with a job in this status */
+  status?: JobStatus | JobStatus[];
+  /** Only items converted with this image type */
+  imageType?: ImageType | ImageType[];
+  /** Only items created at or after this time */
+  createdAfter?: Date | string;
+  /** Only items created before this time */
+  createdBefore?: Date | string;
+  /** Field to sort by (default: `createdAt`) */
+  sortBy?: "createdAt" | "updatedAt";
+  /** Sort direction (default: `desc`, newest first) */
+  order?: "asc" | "desc";
+}
+
+/**
+ * A page request: filters plus the cursor and page size.
+ *
+ * @interface SvgrListQuery
+ * @extends SvgrListFilters
+ * @property {string} [cursor] - `nextCursor` of the previous page; omit for the first page
+ * @property {number} [limit] - Maximum number of items per page (server default when omitted)
+ */
+export interface SvgrListQuery extends SvgrListFilters {
+  /** `nextCursor` of the previous page; omit for the first page */
+  cursor?: string;
+  /** Maximum number of items per page (server default when omitted) */
+  limit?: number;
+}
+
+/**
+ * A page of a listing: the API's `BaseResponse` with the cursor of the next
+ * page. `nextCursor` is `null` or absent on the last page, and on servers
+ * that return the whole list at once.
+ */
+export type SvgrListResponse<T> = BaseResponse<T[]> & {
+  /** Cursor for the next page; `null` or absent on the last page */
+  nextCursor?: string | null;
+};
+
+function toIsoString(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Encode a {@link SvgrListQuery} as URL query parameters. Lists are sent
+ * comma-separated; unset fields are omitted.
+ *
+ * @param query - The page request
+ * @param params - Parameters to append to (e.g. an existing `imageId`)
+ * @returns `params` with the query appended
+ */
+export function toListSearchParams(
+  query: SvgrListQuery,
+  params: URLSearchParams = new URLSearchParams(),
+): URLSearchParams {
+  const { status, imageType, createdAfter, createdBefore } = query;
+  if (query.cursor !== undefined) params.set("cursor", query.cursor);
+  if (query.limit !== undefined) params.set("limit", String(query.limit));
+  if (status !== undefined) params.set("status", [status].flat().join(","));
+  if (imageType !== undefined) {
+    params.set("imageType", [imageType].flat().join(","));
+  }
+  if (createdAfter !== undefined) {
+    params.set("createdAfter", toIsoString(createdAfter));
+  }
+  if (createdBefore !== undefined) {
+    params.set("createdBefore", toIsoString(createdBefore));
+  }
+  if (query.sortBy !== undefined) params.set("sortBy", query.sortBy);
+  if (query.order !== undefined) params.set("order", query.order);
+  return params;
+}
@@ -0,0 +1,74 @@
+import type { JobResult, JobStatus } from "@sudobility/svgr_types";
+
+/** Default delay before the second status poll, in milliseconds */
+export const DEFAULT_POLL_INTERVAL_MS = 1000;
+/** Default upper bound for the poll interval, in milliseconds */
+export const DEFAULT_MAX_POLL_INTERVAL_MS = 10000;
+/** Default time to wait for a job before giving up, in milliseconds */
+export const DEFAULT_JOB_TIMEOUT_MS = 10 * 60 * 1000;
+/** Factor applied to the interval after every poll */
+const POLL_BACKOFF_FACTOR = 1.5;
+
+/**
+ * Tuning options for job status polling, shared by
+ * {@link SvgrClient.waitForJob} and {@link useJobStatus}.
+ *
+ * @interface JobPollingOptions
+ * @property {number} [intervalMs] - Delay before the second poll (default: 1000)
+ * @property {number} [maxIntervalMs] - Upper bound for the growing interval (default: 10000)
+ * @property {number} [timeoutMs] - Give up after this long (default: 600000)
+ */
+export interface JobPollingOptions {
+  /** Delay before the second poll in milliseconds (default: 1000) */
+  intervalMs?: number;
+  /** Upper bound for the growing poll interval in milliseconds (default: 10000) */
+  maxIntervalMs?: number;
+  /** Give up after this many milliseconds (default: 600000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for {@link SvgrClient.waitForJob}.
+ *
+ * @interface WaitForJobOptions
+ * @extends JobPollingOptions
+ * @property {AbortSignal} [signal] - Signal used to stop waiting
+ * @property {Function} [onProgress] - Called with the job after every poll
+ */
+export interface WaitForJobOptions extends JobPollingOptions {
+  /** Signal used to stop waiting */
+  signal?: AbortSignal;
+  /** Called with the latest job state after every poll */
+  onProgress?: (job: JobResult) => void;
+}
+
+/**
+ * Whether a job has reached a final state and polling can stop.
+ *
+ * @param status - The job status, if known
+ */
+export function isTerminalJobStatus(status: JobStatus | undefined): boolean {
+  return status === "done" || status === "error";
+}
+
+/**
+ * Compute the delay before the next poll using exponential backoff.
+ *
+ * @param attempt - Number of polls already made (0 before the second poll)
+ * @param options - Polling tuning options
+ * @returns The delay in milliseconds, capped at `maxIntervalMs`
+ */
+export function getPollInterval(
+  attempt: number,
+  options: JobPollingOptions = {},
+): number {
+  const intervalMs = options.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const maxIntervalMs = Math.max(
+    intervalMs,
+    options.maxIntervalMs ?? DEFAULT_MAX_POLL_INTERVAL_MS,
+  );
+  return Math.min(
+    intervalMs * Math.pow(POLL_BACKOFF_FACTOR, attempt),
+    maxIntervalMs,
+  );
+}
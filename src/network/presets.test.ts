@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { SvgrValidationError } from "./errors";
+import { SvgrPresetRegistry, SvgrPresets } from "./presets";
+import { validateConvertRequest } from "./validation";
+
+describe("SvgrPresetRegistry", () => {
+  it("starts with valid built-in presets", () => {
+    expect(SvgrPresets.list().map((preset) => preset.name)).toEqual([
+      "logo",
+      "icon",
+      "illustration",
+      "photo-poster",
+      "scanned-document",
+    ]);
+    for (const { params } of SvgrPresets.list()) {
+      expect(validateConvertRequest({ original: "aGk=", ...params })).toEqual(
+        [],
+      );
+    }
+  });
+
+  it("fills parameters from the preset, keeping explicit ones", () => {
+    const request = SvgrPresets.apply(
+      { original: "aGk=", quality: 3, smooth: undefined },
+      "logo",
+    );
+
+    expect(request).toEqual({
+      original: "aGk=",
+      quality: 3,
+      transparentBg: true,
+      ocr: false,
+      mergePaths: true,
+      smooth: 2,
+      imageType: "logo",
+    });
+    const plain = { original: "aGk=" };
+    expect(SvgrPresets.apply(plain)).toBe(plain);
+  });
+
+  it("accepts app presets and rejects unknown names", () => {
+    const registry = new SvgrPresetRegistry().register("sticker", {
+      description: "Die-cut stickers",
+      params: { quality: 5, imageType: "sticker_sheet" },
+    });
+
+    expect(registry.apply({ imageId: "i1" }, "sticker")).toEqual({
+      imageId: "i1",
+      quality: 5,
+      imageType: "sticker_sheet",
+    });
+    expect(SvgrPresets.has("sticker")).toBe(false);
+    expect(() => registry.apply({}, "poster")).toThrow(SvgrValidationError);
+  });
+});
@@ -0,0 +1,177 @@
+import type { ConvertRequest } from "@sudobility/svgr_types";
+import { SvgrValidationError } from "./errors";
+
+/**
+ * Conversion parameters a preset sets: the options shared by
+ * {@link ConvertRequest} and `CreateJobRequest`.
+ */
+export type SvgrPresetParams = Pick<
+  ConvertRequest,
+  "quality" | "transparentBg" | "ocr" | "mergePaths" | "smooth" | "imageType"
+>;
+
+/** Names of the presets every {@link SvgrPresetRegistry} starts with */
+export type SvgrBuiltInPresetName =
+  "logo" | "icon" | "illustration" | "photo-poster" | "scanned-document";
+
+/**
+ * A preset name: a built-in one or any name registered by the app.
+ * (`string & {}` keeps editor completion for the built-in names.)
+ */
+export type SvgrPresetName = SvgrBuiltInPresetName | (string & {});
+
+/**
+ * A named set of conversion parameters.
+ *
+ * @interface SvgrPreset
+ * @property {string} description - What the preset is for, suitable for a picker
+ * @property {SvgrPresetParams} params - The conversion parameters it sets
+ */
+export interface SvgrPreset {
+  /** What the preset is for, suitable for a picker */
+  description: string;
+  /** The conversion parameters it sets */
+  params: SvgrPresetParams;
+}
+
+/** The built-in presets */
+const BUILT_IN_PRESETS: Record<SvgrBuiltInPresetName, SvgrPreset> = {
+  logo: {
+    description: "Logos and wordmarks: few flat colours and crisp edges",
+    params: {
+      quality: 8,
+      transparentBg: true,
+      ocr: false,
+      mergePaths: true,
+      smooth: 2,
+      imageType: "logo",
+    },
+  },
+  icon: {
+    description: "Small icons and glyphs",
+    params: {
+      quality: 6,
+      transparentBg: true,
+      ocr: false,
+      mergePaths: true,
+      smooth: 2,
+      imageType: "design",
+    },
+  },
+  illustration: {
+    description: "Drawings and flat artwork with many colours",
+    params: {
+      quality: 7,
+      transparentBg: false,
+      ocr: false,
+      mergePaths: true,
+      smooth: 1,
+      imageType: "illustration",
+    },
+  },
+  "photo-poster": {
+    description: "Photos rendered as a detailed poster",
+    params: {
+      quality: 9,
+      transparentBg: false,
+      ocr: false,
+      mergePaths: false,
+      smooth: 0,
+      imageType: "photo",
+    },
+  },
+  "scanned-document": {
+    description: "Scans and photos of printed or handwritten pages",
+    params: {
+      quality: 7,
+      transparentBg: false,
+      ocr: true,
+      mergePaths: true,
+      smooth: 1,
+      imageType: "document_scan",
+    },
+  },
+};
+
+/**
+ * A registry of named conversion presets.
+ *
+ * Starts with the built-in presets (`logo`, `icon`, `illustration`,
+ * `photo-poster` and `scanned-document`); apps add their own or replace
+ * built-ins with {@link register}. The hooks use the shared
+ * {@link SvgrPresets} registry.
+ *
+ * @example
+ * ```typescript
+ * SvgrPresets.register("sticker", {
+ *   description: "Die-cut stickers",
+ *   params: { quality: 7, transparentBg: true, imageType: "sticker_sheet" },
+ * });
+ * convert.mutate({ original, preset: "sticker" });
+ * ```
+ */
+export class SvgrPresetRegistry {
+  private readonly presets = new Map<string, SvgrPreset>(
+    Object.entries(BUILT_IN_PRESETS),
+  );
+
+  /**
+   * Add a preset, or replace the one with the same name.
+   *
+   * @param name - The preset's name
+   * @param preset - Its description and parameters
+   */
+  register(name: SvgrPresetName, preset: SvgrPreset): this {
+    this.presets.set(name, preset);
+    return this;
+  }
+
+  /** Remove a preset; returns whether it existed */
+  unregister(name: SvgrPresetName): boolean {
+    return this.presets.delete(name);
+  }
+
+  /** The preset registered under `name` */
+  get(name: SvgrPresetName): SvgrPreset | undefined {
+    return this.presets.get(name);
+  }
+
+  /** Whether a preset is registered under `name` */
+  has(name: SvgrPresetName): boolean {
+    return this.presets.has(name);
+  }
+
+  /** Every registered preset with its name, in registration order */
+  list(): Array<SvgrPreset & { name: SvgrPresetName }> {
+    return [...this.presets].map(([name, preset]) => ({ ...preset, name }));
+  }
+
+  /**
+   * Combine a preset with explicit parameters. Parameters set on `request`
+   * take precedence over the preset's.
+   *
+   * @param request - The request; its `undefined` fields are filled from the preset
+   * @param name - The preset to apply; the request is returned as-is when omitted
+   * @returns The request with the preset's parameters
+   * @throws {SvgrValidationError} When no preset is registered under `name`
+   */
+  apply<T extends object>(request: T, name?: SvgrPresetName): T {
+    if (name === undefined) return request;
+    const preset = this.presets.get(name);
+    if (!preset) {
+      throw new SvgrValidationError([
+        {
+          field: "preset",
+          message: `preset must be one of: ${[...this.presets.keys()].join(", ")}`,
+        },
+      ]);
+    }
+    const explicit = Object.fromEntries(
+      Object.entries(request).filter(([, value]) => value !== undefined),
+    );
+    return { ...preset.params, ...explicit } as T;
+  }
+}
+
+/** The shared preset registry used by {@link useConvert} and {@link useCreateJob} */
+export const SvgrPresets = new SvgrPresetRegistry();
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  SvgrApiError,
+  SvgrNetworkError,
+  SvgrRateLimitError,
+  SvgrServerError,
+} from "./errors";
+import { getRetryDelay, isRetryable } from "./retry";
+
+describe("isRetryable", () => {
+  const config = { maxRetries: 2, baseDelayMs: 100 };
+
+  it("retries retryable statuses until maxRetries", () => {
+    const error = new SvgrServerError(503, "Unavailable");
+    expect(isRetryable(error, 0, config)).toBe(true);
+    expect(isRetryable(error, 1, config)).toBe(true);
+    expect(isRetryable(error, 2, config)).toBe(false);
+    expect(isRetryable(new SvgrApiError(400, "Bad"), 0, config)).toBe(false);
+  });
+
+  it("retries network errors unless disabled", () => {
+    const error = new SvgrNetworkError("offline");
+    expect(isRetryable(error, 0, config)).toBe(true);
+    expect(
+      isRetryable(error, 0, { ...config, retryOnNetworkError: false }),
+    ).toBe(false);
+  });
+
+  it("never retries non-API errors such as abort reasons", () => {
+    expect(isRetryable(new Error("aborted"), 0, config)).toBe(false);
+  });
+
+  it("lets shouldRetry replace the default decision", () => {
+    const shouldRetry = (error: SvgrApiError, attempt: number) =>
+      error.status === 400 && attempt === 0;
+    expect(
+      isRetryable(new SvgrApiError(400, "Bad"), 0, { ...config, shouldRetry }),
+    ).toBe(true);
+    expect(
+      isRetryable(new SvgrServerError(500, "Oops"), 0, {
+        ...config,
+        shouldRetry,
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("getRetryDelay", () => {
+  const error = new SvgrServerError(500, "Oops");
+
+  it("grows exponentially and caps at maxDelayMs without jitter", () => {
+    const config = {
+      maxRetries: 5,
+      baseDelayMs: 100,
+      maxDelayMs: 500,
+      jitter: "none" as const,
+    };
+    expect([0, 1, 2, 3].map((a) => getRetryDelay(error, a, config))).toEqual([
+      100, 200, 400, 500,
+    ]);
+  });
+
+  it("applies full and equal jitter", () => {
+    const config = { maxRetries: 3, baseDelayMs: 100 };
+    expect(getRetryDelay(error, 1, config, () => 0.25)).toBe(50);
+    expect(
+      getRetryDelay(error, 1, { ...config, jitter: "equal" }, () => 0.5),
+    ).toBe(150);
+  });
+
+  it("uses Retry-After as the minimum delay", () => {
+    const config = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 5000 };
+    const limited = new SvgrRateLimitError("Slow down", 2000);
+    expect(getRetryDelay(limited, 0, config, () => 0.5)).toBe(2000);
+  });
+
+  it("gives up when Retry-After exceeds maxDelayMs", () => {
+    const config = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+    const limited = new SvgrRateLimitError("Slow down", 60000);
+    expect(getRetryDelay(limited, 0, config)).toBeUndefined();
+  });
+});
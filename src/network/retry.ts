@@ -0,0 +1,92 @@
+import { SvgrApiError, SvgrNetworkError, SvgrRateLimitError } from "./errors";
+import type { RetryConfig } from "./SvgrClient";
+
+/** Default HTTP status codes considered retryable */
+export const DEFAULT_RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+/** Default upper bound for a single retry delay, in milliseconds */
+export const DEFAULT_MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * How random jitter is applied to the exponential retry delay.
+ *
+ * - `full` — a random delay between 0 and the backoff delay (default)
+ * - `equal` — half the backoff delay plus a random share of the other half
+ * - `none` — exactly the backoff delay
+ */
+export type RetryJitter = "full" | "equal" | "none";
+
+/**
+ * Whether a failed request should be retried under the given policy.
+ *
+ * Uses `config.shouldRetry` when provided. Otherwise retries
+ * {@link SvgrNetworkError}s (unless `retryOnNetworkError` is `false`) and
+ * {@link SvgrApiError}s whose status is in `retryableStatuses`. Errors that
+ * are not {@link SvgrApiError}s (e.g. abort reasons) are never retried, and
+ * neither is anything once `maxRetries` is reached.
+ *
+ * @param error - The error thrown by the last attempt
+ * @param attempt - Number of retries already made (0 after the first failure)
+ * @param config - The retry policy
+ */
+export function isRetryable(
+  error: unknown,
+  attempt: number,
+  config: RetryConfig,
+): error is SvgrApiError {
+  if (attempt >= config.maxRetries || !(error instanceof SvgrApiError)) {
+    return false;
+  }
+  if (config.shouldRetry) return config.shouldRetry(error, attempt);
+  if (error instanceof SvgrNetworkError) {
+    return config.retryOnNetworkError ?? true;
+  }
+  return (config.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES).includes(
+    error.status,
+  );
+}
+
+/**
+ * Compute the delay before the next retry.
+ *
+ * Uses exponential backoff (`baseDelayMs * 2^attempt`, capped at
+ * `maxDelayMs`) with the configured jitter. A {@link SvgrRateLimitError}'s
+ * `Retry-After` is honoured as a minimum; when the server asks for longer
+ * than `maxDelayMs`, `undefined` is returned and the error should be
+ * surfaced instead of waiting.
+ *
+ * @param error - The error thrown by the last attempt
+ * @param attempt - Number of retries already made (0 before the first retry)
+ * @param config - The retry policy
+ * @param random - Source of randomness in `[0, 1)` (injectable for tests)
+ * @returns The delay in milliseconds, or `undefined` to stop retrying
+ */
+export function getRetryDelay(
+  error: SvgrApiError,
+  attempt: number,
+  config: RetryConfig,
+  random: () => number = Math.random,
+): number | undefined {
+  const maxDelayMs = config.maxDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS;
+  const backoff = Math.min(
+    config.baseDelayMs * Math.pow(2, attempt),
+    maxDelayMs,
+  );
+
+  let delay: number;
+  switch (config.jitter ?? "full") {
+    case "full":
+      delay = random() * backoff;
+      break;
+    case "equal":
+      delay = backoff / 2 + (random() * backoff) / 2;
+      break;
+    default:
+      delay = backoff;
+  }
+
+  if (error instanceof SvgrRateLimitError && error.retryAfterMs !== undefined) {
+    if (error.retryAfterMs > maxDelayMs) return undefined;
+    delay = Math.max(delay, error.retryAfterMs);
+  }
+  return delay;
+}
@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { MockNetworkClient } from "@sudobility/di/mocks";
+import type { JobResult } from "@sudobility/svgr_types";
+import { isSvgrAuthError } from "./errors";
+import { FetchEventStreamTransport } from "./events";
+import { SvgrClient } from "./SvgrClient";
+import type { JobSubscriptionMode } from "./subscriptions";
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+function job(status: string, jobId = "job-1"): JobResult {
+  return { jobId, imageId: "img-1", status } as unknown as JobResult;
+}
+
+function sendEvent(res: ServerResponse, data: unknown, id?: string) {
+  res.write(
+    `event: job\n${id ? `id: ${id}\n` : ""}data: ${JSON.stringify(data)}\n\n`,
+  );
+}
+
+function openStream(res: ServerResponse) {
+  res.writeHead(200, { "Content-Type": "text/event-stream" });
+  res.flushHeaders();
+}
+
+describe("SvgrClient job subscriptions", () => {
+  // A local event-stream server; each test sets its behaviour via `handler`
+  let server: Server;
+  let baseUrl: string;
+  let handler: Handler;
+  let mockNetwork: MockNetworkClient;
+  let client: SvgrClient;
+  const requests: IncomingMessage[] = [];
+
+  beforeEach(async () => {
+    requests.length = 0;
+    handler = (_req, res) => {
+      res.writeHead(404).end();
+    };
+    server = createServer((req, res) => {
+      requests.push(req);
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    mockNetwork = new MockNetworkClient();
+    client = new SvgrClient({
+      baseUrl,
+      networkClient: mockNetwork,
+      eventTransport: new FetchEventStreamTransport(),
+    });
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("streams job updates and closes once the job finishes", async () => {
+    let closed = false;
+    handler = (req, res) => {
+      req.on("close", () => {
+        closed = true;
+      });
+      openStream(res);
+      sendEvent(res, job("processing"), "1");
+      res.write(": ping\n\nevent: ping\ndata: {}\n\n");
+      sendEvent(res, job("done"), "2");
+    };
+    const updates: string[] = [];
+    const modes: JobSubscriptionMode[] = [];
+
+    client.subscribeJob("job-1", (update) => updates.push(update.status), {
+      onModeChange: (mode) => modes.push(mode),
+    });
+
+    await vi.waitFor(() => expect(closed).toBe(true));
+    expect(updates).toEqual(["processing", "done"]);
+    expect(modes).toEqual(["connecting", "stream"]);
+    expect(requests[0]?.url).toBe("/api/v1/jobs/job-1/events");
+    expect(requests[0]?.headers.accept).toBe("text/event-stream");
+    expect(mockNetwork.getRequests()).toHaveLength(0);
+  });
+
+  it("falls back to polling when the server has no event stream", async () => {
+    mockNetwork.setMockResponse(
+      `${baseUrl}/api/v1/jobs/job-1`,
+      { data: { success: true, data: job("done") }, ok: true },
+      "GET",
+    );
+    const updates: string[] = [];
+    const modes: JobSubscriptionMode[] = [];
+
+    client.subscribeJob("job-1", (update) => updates.push(update.status), {
+      onModeChange: (mode) => modes.push(mode),
+    });
+
+    await vi.waitFor(() => expect(updates).toEqual(["done"]));
+    expect(modes).toEqual(["connecting", "polling"]);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("sends the headers added by middleware with the stream request", async () => {
+    handler = (_req, res) => {
+      openStream(res);
+      sendEvent(res, job("done"));
+    };
+    const authed = new SvgrClient({
+      baseUrl,
+      networkClient: mockNetwork,
+      eventTransport: new FetchEventStreamTransport(),
+      middleware: [
+        (ctx, next) => {
+          ctx.headers["Authorization"] = "Bearer token";
+          return next();
+        },
+      ],
+    });
+    const updates: string[] = [];
+
+    authed.subscribeJob("job-1", (update) => updates.push(update.status));
+
+    await vi.waitFor(() => expect(updates).toEqual(["done"]));
+    expect(requests[0]?.headers.authorization).toBe("Bearer token");
+  });
+
+  it("reports a refused stream and polls instead of reconnecting", async () => {
+    handler = (_req, res) => {
+      res.writeHead(401, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Unauthorized" }));
+    };
+    mockNetwork.setMockResponse(
+      `${baseUrl}/api/v1/jobs/job-1`,
+      { data: { success: true, data: job("done") }, ok: true },
+      "GET",
+    );
+    const updates: string[] = [];
+    const errors: unknown[] = [];
+
+    client.subscribeJob("job-1", (update) => updates.push(update.status), {
+      onError: (error) => errors.push(error),
+    });
+
+    await vi.waitFor(() => expect(updates).toEqual(["done"]));
+    expect(requests).toHaveLength(1);
+    expect(errors).toHaveLength(1);
+    expect(isSvgrAuthError(errors[0])).toBe(true);
+  });
+
+  it("polls without opening a stream when no event transport is configured", async () => {
+    const polling = new SvgrClient({ baseUrl, networkClient: mockNetwork });
+    mockNetwork.setMockResponse(
+      `${baseUrl}/api/v1/jobs/job-1`,
+      { data: { success: true, data: job("done") }, ok: true },
+      "GET",
+    );
+    const modes: JobSubscriptionMode[] = [];
+
+    polling.subscribeJob("job-1", () => undefined, {
+      onModeChange: (mode) => modes.push(mode),
+    });
+
+    await vi.waitFor(() => expect(mockNetwork.getRequests()).toHaveLength(1));
+    expect(modes).toEqual(["polling"]);
+    expect(requests).toHaveLength(0);
+  });
+
+  it("reconnects with Last-Event-ID when the stream drops", async () => {
+    handler = (req, res) => {
+      openStream(res);
+      if (req.headers["last-event-id"] === undefined) {
+        sendEvent(res, job("processing"), "41");
+        res.end();
+      } else {
+        sendEvent(res, job("done"), "42");
+      }
+    };
+    const updates: string[] = [];
+
+    client.subscribeJob("job-1", (update) => updates.push(update.status), {
+      reconnect: { baseDelayMs: 5 },
+    });
+
+    await vi.waitFor(() => expect(updates).toEqual(["processing", "done"]));
+    expect(requests).toHaveLength(2);
+    expect(requests[1]?.headers["last-event-id"]).toBe("41");
+  });
+
+  it("polls after repeated connection failures", async () => {
+    handler = (_req, res) => {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Unavailable" }));
+    };
+    mockNetwork.setMockResponse(
+      `${baseUrl}/api/v1/jobs/job-1`,
+      { data: { success: true, data: job("done") }, ok: true },
+      "GET",
+    );
+    const updates: string[] = [];
+
+    client.subscribeJob("job-1", (update) => updates.push(update.status), {
+      reconnect: { baseDelayMs: 1, maxAttempts: 3 },
+    });
+
+    await vi.waitFor(() => expect(updates).toEqual(["done"]));
+    expect(requests).toHaveLength(3);
+  });
+
+  it("stops when unsubscribed", async () => {
+    let closed = false;
+    handler = (req, res) => {
+      req.on("close", () => {
+        closed = true;
+      });
+      openStream(res);
+      sendEvent(res, job("processing"));
+    };
+    const listener = vi.fn();
+
+    const unsubscribe = client.subscribeJobs("img-1", listener);
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1));
+    unsubscribe();
+
+    await vi.waitFor(() => expect(closed).toBe(true));
+    expect(requests[0]?.url).toBe("/api/v1/jobs/events?imageId=img-1");
+  });
+
+  it("delivers only changed jobs when polling an image's jobs", async () => {
+    const polling = new SvgrClient({ baseUrl, networkClient: mockNetwork });
+    mockNetwork.setMockResponse(
+      `${baseUrl}/api/v1/jobs?imageId=img-1`,
+      {
+        data: {
+          success: true,
+          data: [job("done", "a"), job("processing", "b")],
+        },
+        ok: true,
+      },
+      "GET",
+    );
+    const updates: string[] = [];
+    const controller = new AbortController();
+
+    polling.subscribeJobs(
+      "img-1",
+      (update) => updates.push(`${update.jobId}:${update.status}`),
+      { intervalMs: 5, signal: controller.signal },
+    );
+    await vi.waitFor(() =>
+      expect(mockNetwork.getRequests().length).toBeGreaterThanOrEqual(3),
+    );
+    controller.abort();
+
+    expect(updates).toEqual(["a:done", "b:processing"]);
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,230 @@
+import type { JobResult } from "@sudobility/svgr_types";
+import { sleep } from "../utils/async";
+import { isSvgrAuthError } from "./errors";
+import type { SvgrEventStreamTransport } from "./events";
+import { getPollInterval, type JobPollingOptions } from "./polling";
+
+/** Default delay before the first reconnect, in milliseconds */
+export const DEFAULT_RECONNECT_DELAY_MS = 1000;
+/** Default upper bound for the reconnect delay, in milliseconds */
+export const DEFAULT_MAX_RECONNECT_DELAY_MS = 30000;
+/** Default number of failed connections in a row before falling back to polling */
+export const DEFAULT_MAX_RECONNECT_ATTEMPTS = 5;
+
+/**
+ * How a job subscription currently receives updates.
+ *
+ * - `connecting` — opening (or reopening) the event stream
+ * - `stream` — receiving server-sent events
+ * - `polling` — no stream available; polling the job endpoints
+ */
+export type JobSubscriptionMode = "connecting" | "stream" | "polling";
+
+/** Called with every new state of a subscribed job */
+export type JobUpdateListener = (job: JobResult) => void;
+
+/**
+ * Reconnect tuning for job subscriptions.
+ *
+ * @interface JobReconnectOptions
+ * @property {number} [baseDelayMs] - Delay before the first reconnect (default: 1000)
+ * @property {number} [maxDelayMs] - Upper bound for the growing delay (default: 30000)
+ * @property {number} [maxAttempts] - Failed connections in a row before polling instead (default: 5)
+ */
+export interface JobReconnectOptions {
+  /** Delay before the first reconnect in milliseconds (default: 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for the growing reconnect delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+  /** Failed connections in a row before falling back to polling (default: 5) */
+  maxAttempts?: number;
+}
+
+/**
+ * Options for {@link SvgrClient.subscribeJob} and
+ * {@link SvgrClient.subscribeJobs}.
+ *
+ * `intervalMs` and `maxIntervalMs` tune the polling fallback.
+ *
+ * @interface JobSubscriptionOptions
+ * @extends JobPollingOptions
+ * @property {AbortSignal} [signal] - Signal that ends the subscription
+ * @property {JobReconnectOptions} [reconnect] - Reconnect backoff for the event stream
+ * @property {Function} [onModeChange] - Called when the subscription switches between stream and polling
+ * @property {Function} [onError] - Called with polling errors and malformed events; the subscription keeps running
+ */
+export interface JobSubscriptionOptions extends Omit<
+  JobPollingOptions,
+  "timeoutMs"
+> {
+  /** Signal that ends the subscription */
+  signal?: AbortSignal;
+  /** Reconnect backoff for the event stream */
+  reconnect?: JobReconnectOptions;
+  /** Called when the subscription switches between stream and polling */
+  onModeChange?: (mode: JobSubscriptionMode) => void;
+  /** Called with polling errors and malformed events; the subscription keeps running */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Where a job subscription gets its updates from.
+ *
+ * @interface JobUpdateSource
+ */
+export interface JobUpdateSource {
+  /** Absolute URL of the event stream */
+  streamUrl: string;
+  /** Transport for the stream; polling is used directly when absent */
+  transport: SvgrEventStreamTransport | undefined;
+  /** Fetch the current state of the subscribed jobs */
+  poll: (signal: AbortSignal) => Promise<JobResult[]>;
+  /** Whether the subscription is finished once `job` is received */
+  isComplete?: (job: JobResult) => boolean;
+}
+
+/**
+ * Delay before reconnect number `attempt`: exponential backoff with equal
+ * jitter, so clients dropped together do not reconnect together.
+ */
+function getReconnectDelay(
+  attempt: number,
+  options: JobReconnectOptions,
+): number {
+  const delay = Math.min(
+    (options.baseDelayMs ?? DEFAULT_RECONNECT_DELAY_MS) * Math.pow(2, attempt),
+    options.maxDelayMs ?? DEFAULT_MAX_RECONNECT_DELAY_MS,
+  );
+  return delay / 2 + (Math.random() * delay) / 2;
+}
+
+/**
+ * Deliver job updates from an event stream, reconnecting with backoff when
+ * it drops (sending `Last-Event-ID`), and fall back to polling when no
+ * stream is available, the stream is refused with `401`/`403` (reported to
+ * `onError`) or reconnecting keeps failing.
+ *
+ * Each job state is delivered once: repeats of an unchanged job (from a
+ * replayed event or a poll) are skipped. Events are `JobResult` JSON in the
+ * `data` field, named `job` or unnamed; other events (e.g. keep-alives) are
+ * ignored.
+ *
+ * @param source - The stream and polling endpoints
+ * @param listener - Called with every new job state
+ * @param options - Cancellation, reconnect and polling tuning, callbacks
+ * @returns A function that ends the subscription
+ */
+export function subscribeToJobUpdates(
+  source: JobUpdateSource,
+  listener: JobUpdateListener,
+  options: JobSubscriptionOptions = {},
+): () => void {
+  const controller = new AbortController();
+  const { signal } = controller;
+  const unsubscribe = () => controller.abort();
+  if (options.signal?.aborted) unsubscribe();
+  options.signal?.addEventListener("abort", unsubscribe, { once: true });
+  signal.addEventListener(
+    "abort",
+    () => options.signal?.removeEventListener("abort", unsubscribe),
+    { once: true },
+  );
+
+  const delivered = new Map<string, string>();
+  let mode: JobSubscriptionMode | undefined;
+  const setMode = (next: JobSubscriptionMode) => {
+    if (next === mode || signal.aborted) return;
+    mode = next;
+    options.onModeChange?.(next);
+  };
+  const reportError = (error: unknown) => {
+    if (!signal.aborted) options.onError?.(error);
+  };
+
+  /** Deliver `job` unless it is unchanged; returns whether it was new */
+  const deliver = (job: JobResult): boolean => {
+    if (signal.aborted) return false;
+    const state = JSON.stringify(job);
+    if (delivered.get(job.jobId) === state) return false;
+    delivered.set(job.jobId, state);
+    listener(job);
+    if (source.isComplete?.(job)) unsubscribe();
+    return true;
+  };
+
+  /** Follow the stream; resolves `false` when polling should take over */
+  const stream = async (
+    transport: SvgrEventStreamTransport,
+  ): Promise<boolean> => {
+    const reconnect = options.reconnect ?? {};
+    const maxAttempts = reconnect.maxAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+    let failures = 0;
+    let lastEventId: string | undefined;
+
+    while (!signal.aborted) {
+      setMode("connecting");
+      try {
+        const events = await transport.connect({
+          url: source.streamUrl,
+          signal,
+          ...(lastEventId !== undefined && {
+            headers: { "Last-Event-ID": lastEventId },
+          }),
+        });
+        if (!events) return false;
+        failures = 0;
+        setMode("stream");
+        for await (const event of events) {
+          if (event.id !== undefined) lastEventId = event.id;
+          if (event.event !== undefined && event.event !== "job") continue;
+          try {
+            deliver(JSON.parse(event.data) as JobResult);
+          } catch (error) {
+            reportError(error);
+          }
+          if (signal.aborted) break;
+        }
+      } catch (error) {
+        if (signal.aborted) break;
+        // Reconnecting will not fix credentials; polling uses the NetworkClient's
+        if (isSvgrAuthError(error)) {
+          reportError(error);
+          return false;
+        }
+        failures++;
+        if (failures >= maxAttempts) return false;
+      }
+      if (signal.aborted) break;
+      await sleep(getReconnectDelay(failures, reconnect), signal).catch(
+        () => undefined,
+      );
+    }
+    return true;
+  };
+
+  const poll = async () => {
+    setMode("polling");
+    for (let attempt = 0; !signal.aborted;) {
+      try {
+        const jobs = await source.poll(signal);
+        // Start over with short intervals whenever something changed
+        const changed = jobs.map(deliver).some(Boolean);
+        attempt = changed ? 0 : attempt + 1;
+      } catch (error) {
+        reportError(error);
+        attempt++;
+      }
+      if (signal.aborted) break;
+      await sleep(getPollInterval(attempt, options), signal).catch(
+        () => undefined,
+      );
+    }
+  };
+
+  void (async () => {
+    if (source.transport && (await stream(source.transport))) return;
+    await poll();
+  })().catch(reportError);
+
+  return unsubscribe;
+}
@@ -0,0 +1,61 @@
+/** Default timeout for requests without an operation-specific default, in milliseconds */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+/** Built-in per-operation timeouts, in milliseconds */
+const DEFAULT_OPERATION_TIMEOUTS: Partial<Record<SvgrOperation, number>> = {
+  convert: 120000,
+  uploadImage: 60000,
+};
+
+/** The {@link SvgrClient} operations that send a request */
+export type SvgrOperation =
+  | "convert"
+  | "fetchSvg"
+  | "uploadImage"
+  | "createJob"
+  | "getJobStatus"
+  | "getJobsForImage"
+  | "fetchFile"
+  | "getCommunities"
+  | "getUserImages"
+  | "updateImage"
+  | "deleteImage"
+  | "deleteJob"
+  | "retryJob"
+  | "rerunJob"
+  | "cancelJob";
+
+/**
+ * Default request timeouts for {@link SvgrClientConfig.timeouts}, in
+ * milliseconds. Operations without an entry keep their built-in default
+ * (`convert` 120000, `uploadImage` 60000) or else use `default` (30000).
+ *
+ * @example
+ * ```typescript
+ * const timeouts: SvgrTimeouts = { default: 15000, convert: 300000 };
+ * ```
+ */
+export type SvgrTimeouts = Partial<Record<SvgrOperation | "default", number>>;
+
+/**
+ * Resolve the timeout for one request: the per-call value, then the
+ * configured per-operation and default values, then the built-in ones.
+ *
+ * @param operation - The operation sending the request
+ * @param timeouts - The client's configured timeouts
+ * @param timeoutMs - The per-call timeout, if any
+ * @returns The timeout in milliseconds
+ */
+export function resolveTimeout(
+  operation: SvgrOperation,
+  timeouts: SvgrTimeouts = {},
+  timeoutMs?: number,
+): number {
+  return (
+    timeoutMs ??
+    timeouts[operation] ??
+    DEFAULT_OPERATION_TIMEOUTS[operation] ??
+    timeouts.default ??
+    DEFAULT_REQUEST_TIMEOUT_MS
+  );
+}
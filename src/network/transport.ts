@@ -0,0 +1,497 @@
+import {
+  type NetworkClient,
+  NetworkError,
+  type NetworkResponse,
+} from "@sudobility/types";
+import {
+  SvgrApiError,
+  SvgrAuthError,
+  type SvgrErrorContext,
+  SvgrNetworkError,
+  SvgrNotFoundError,
+  SvgrRateLimitError,
+  SvgrServerError,
+  SvgrTimeoutError,
+  SvgrValidationError,
+  toAbortError,
+} from "./errors";
+import {
+  composeMiddleware,
+  createRetryMiddleware,
+  isRetryMiddleware,
+  type SvgrMiddleware,
+  type SvgrMiddlewareContext,
+} from "./middleware";
+import type { RetryConfig } from "./SvgrClient";
+import type {
+  SvgrEventStreamRequest,
+  SvgrEventStreamTransport,
+  SvgrServerSentEvent,
+} from "./events";
+import type { SvgrOperation } from "./timeouts";
+import type { SvgrValidationIssue } from "./validation";
+import type { SvgrUploadTransport, UploadProgressCallback } from "./upload";
+
+/**
+ * How the transport should interpret a response body.
+ *
+ * - `json` — passed through as parsed by the `NetworkClient`
+ * - `text` — coerced to a string (e.g. raw SVG markup)
+ * - `blob` — coerced to a `Blob` (e.g. images and other binary files)
+ */
+export type SvgrResponseType = "json" | "text" | "blob";
+
+/** HTTP methods used by the SVGR API */
+export type SvgrHttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+/**
+ * A single request sent through {@link SvgrTransport}.
+ *
+ * @interface SvgrTransportRequest
+ */
+export interface SvgrTransportRequest {
+  /** HTTP method */
+  method: SvgrHttpMethod;
+  /** Absolute request URL */
+  url: string;
+  /** Request body for POST/PUT; serialized by the `NetworkClient` */
+  body?: unknown;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Signal used to cancel the request (and any pending retry delay) */
+  signal?: AbortSignal;
+  /** Timeout for each attempt in milliseconds, enforced by the transport */
+  timeout?: number;
+  /** How to interpret the response body. Default: `json` */
+  responseType?: SvgrResponseType;
+  /** Whether the client's {@link RetryConfig} applies to this request. Default: false */
+  retry?: boolean;
+  /** When set, the request is sent through the upload transport and reports progress */
+  onUploadProgress?: UploadProgressCallback;
+  /** Error message used when the error response has no `error` or `message` field */
+  errorMessage?: string;
+  /** The {@link SvgrClient} operation sending the request, reported to middleware */
+  operation?: SvgrOperation;
+}
+
+/** Look up a response header case-insensitively */
+export function getHeader(
+  headers: Record<string, string> | undefined,
+  name: string,
+): string | undefined {
+  const lower = name.toLowerCase();
+  return Object.entries(headers ?? {}).find(
+    ([key]) => key.toLowerCase() === lower,
+  )?.[1];
+}
+
+/**
+ * Parse a `Retry-After` response header (delay in seconds or an HTTP date).
+ *
+ * @param headers - Response headers (matched case-insensitively)
+ * @returns The delay in milliseconds, or `undefined` when absent or invalid
+ */
+export function parseRetryAfter(
+  headers: Record<string, string> | undefined,
+): number | undefined {
+  const value = getHeader(headers, "retry-after")?.trim();
+  if (!value) return undefined;
+  if (/^\d+(\.\d+)?$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Describe a request for error reporting: its path (without origin or query)
+ * and method.
+ */
+function requestContext(request: SvgrTransportRequest): SvgrErrorContext {
+  return {
+    endpoint: request.url
+      .replace(/^[a-z][a-z\d+.-]*:\/\/[^/]+/i, "")
+      .replace(/[?#].*$/, ""),
+    method: request.method,
+  };
+}
+
+/**
+ * Build the {@link SvgrApiError} subclass matching a non-ok response,
+ * preferring the API's `error` (or `message`) field over the request's
+ * fallback message.
+ */
+export function toSvgrError(
+  response: NetworkResponse<unknown>,
+  request: SvgrTransportRequest,
+): SvgrApiError {
+  const body = response.data;
+  const fields =
+    typeof body === "object" && body !== null
+      ? (body as Record<string, unknown>)
+      : {};
+  const message =
+    (typeof fields["error"] === "string" && fields["error"]) ||
+    (typeof fields["message"] === "string" && fields["message"]) ||
+    request.errorMessage ||
+    `Request failed with status ${response.status}`;
+  const requestId =
+    getHeader(response.headers, "x-request-id") ??
+    (typeof fields["requestId"] === "string" ? fields["requestId"] : undefined);
+  const context: SvgrErrorContext = {
+    ...requestContext(request),
+    ...(requestId !== undefined && { requestId }),
+    body,
+  };
+
+  const { status } = response;
+  if (status === 400 || status === 422) {
+    const issues = Array.isArray(fields["issues"])
+      ? (fields["issues"] as SvgrValidationIssue[])
+      : [{ field: "request", message }];
+    return new SvgrValidationError(issues, message, context, status);
+  }
+  if (status === 401 || status === 403) {
+    return new SvgrAuthError(status, message, context);
+  }
+  if (status === 404) return new SvgrNotFoundError(message, context);
+  if (status === 408) {
+    return new SvgrTimeoutError(request.timeout, message, context);
+  }
+  if (status === 429) {
+    return new SvgrRateLimitError(
+      message,
+      parseRetryAfter(response.headers),
+      context,
+    );
+  }
+  if (status >= 500) return new SvgrServerError(status, message, context);
+  return new SvgrApiError(status, message, context);
+}
+
+/** Wrap an exception thrown by the network layer in an SDK error */
+function toNetworkError(
+  error: unknown,
+  request: SvgrTransportRequest,
+): unknown {
+  if (error instanceof SvgrApiError) return error;
+  const context = requestContext(request);
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return new SvgrTimeoutError(request.timeout, error.message, context);
+  }
+  return new SvgrNetworkError(
+    error instanceof Error ? error.message : "Network request failed",
+    context,
+    error,
+  );
+}
+
+/** Best-effort byte size of a request body, used when progress cannot be observed. */
+function estimateBodySize(body: unknown): number {
+  if (body === undefined || body === null) return 0;
+  if (typeof body === "string") return new TextEncoder().encode(body).length;
+  if (body instanceof Blob) return body.size;
+  if (body instanceof FormData) {
+    let size = 0;
+    body.forEach((value) => {
+      size += estimateBodySize(value);
+    });
+    return size;
+  }
+  return estimateBodySize(JSON.stringify(body));
+}
+
+/** Read a Blob as text, falling back to `FileReader` where `Blob.text()` is missing (React Native). */
+export async function blobToText(blob: Blob): Promise<string> {
+  if (typeof blob.text === "function") {
+    return blob.text();
+  }
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+}
+
+async function coerceData(
+  data: unknown,
+  responseType: SvgrResponseType,
+): Promise<unknown> {
+  if (data === undefined || data === null) return data;
+  if (responseType === "text") {
+    if (typeof data === "string") return data;
+    if (data instanceof Blob) return blobToText(data);
+    if (data instanceof ArrayBuffer || data instanceof Uint8Array) {
+      return new TextDecoder().decode(data);
+    }
+    return String(data);
+  }
+  if (responseType === "blob") {
+    if (data instanceof Blob) return data;
+    if (
+      typeof data === "string" ||
+      data instanceof ArrayBuffer ||
+      data instanceof Uint8Array
+    ) {
+      return new Blob([data as BlobPart]);
+    }
+  }
+  return data;
+}
+
+/**
+ * Shared request pipeline for every {@link SvgrClient} call.
+ *
+ * Sends requests through the injected `NetworkClient` (so auth headers and
+ * test mocks apply uniformly), turns non-ok responses and network failures
+ * into the matching {@link SvgrApiError} subclass, runs the
+ * {@link SvgrMiddleware} pipeline (ending with the retry policy) and coerces
+ * the response body to the requested {@link SvgrResponseType}.
+ * Timeouts and cancellation are enforced here rather than trusted to the
+ * `NetworkClient`: each attempt runs under its own `AbortSignal`, and the
+ * request settles as soon as that signal fires. Requests that ask for upload
+ * progress go through the {@link SvgrUploadTransport} when one is available;
+ * otherwise they use the `NetworkClient` and report a single final progress
+ * event.
+ */
+export class SvgrTransport {
+  private readonly middleware: readonly SvgrMiddleware[];
+
+  constructor(
+    private readonly networkClient: NetworkClient,
+    retryConfig: RetryConfig | undefined,
+    private readonly uploadTransport?: SvgrUploadTransport,
+    middleware: readonly SvgrMiddleware[] = [],
+  ) {
+    this.middleware =
+      retryConfig && !middleware.some(isRetryMiddleware)
+        ? [...middleware, createRetryMiddleware(retryConfig)]
+        : middleware;
+  }
+
+  /**
+   * Send a request and return the successful network response.
+   *
+   * @param request - The request to send
+   * @returns The network response with `data` coerced to the requested type
+   * @throws {SvgrApiError} The subclass matching the failure, once retries are exhausted
+   * @throws {SvgrAbortError} When `request.signal` is aborted
+   */
+  async send<T>(request: SvgrTransportRequest): Promise<NetworkResponse<T>> {
+    const { signal } = request;
+    const run = composeMiddleware(this.middleware, (ctx) =>
+      this.sendAttempt({
+        ...request,
+        method: ctx.method,
+        url: ctx.url,
+        body: ctx.body,
+        ...(Object.keys(ctx.headers).length > 0 && { headers: ctx.headers }),
+      }),
+    );
+    let response: NetworkResponse<T>;
+    try {
+      if (signal?.aborted) throw signal.reason;
+      response = (await run(
+        this.middlewareContext(request),
+      )) as NetworkResponse<T>;
+    } catch (error) {
+      throw signal?.aborted ? toAbortError(signal.reason) : error;
+    }
+
+    return {
+      ...response,
+      data: (await coerceData(
+        response.data,
+        request.responseType ?? "json",
+      )) as T,
+    };
+  }
+
+  /**
+   * Open an event stream through `streamTransport`, running the middleware
+   * pipeline first so the headers it adds (e.g. `Authorization`) and URL
+   * rewrites apply to the stream request too. Middleware sees the stream as
+   * the response `data`, or `null` when the server offers none.
+   *
+   * @param streamTransport - The transport that opens the stream
+   * @param request - The stream to open
+   * @returns The stream's events, or `null` when no stream is available
+   * @throws {SvgrApiError} When the stream cannot be opened
+   */
+  async connectStream(
+    streamTransport: SvgrEventStreamTransport,
+    request: SvgrEventStreamRequest,
+  ): Promise<AsyncIterable<SvgrServerSentEvent> | null> {
+    const run = composeMiddleware(this.middleware, async (ctx) => {
+      const events = await streamTransport.connect({
+        url: ctx.url,
+        signal: request.signal,
+        ...(Object.keys(ctx.headers).length > 0 && { headers: ctx.headers }),
+      });
+      return {
+        ok: true,
+        success: true,
+        status: events ? 200 : 204,
+        statusText: events ? "OK" : "No Content",
+        headers: {},
+        data: events,
+        timestamp: new Date().toISOString(),
+      };
+    });
+    const response = await run(
+      this.middlewareContext({
+        method: "GET",
+        url: request.url,
+        signal: request.signal,
+        ...(request.headers && { headers: request.headers }),
+      }),
+    );
+    return response.data as AsyncIterable<SvgrServerSentEvent> | null;
+  }
+
+  /** The context the middleware pipeline starts from */
+  private middlewareContext(
+    request: SvgrTransportRequest,
+  ): SvgrMiddlewareContext {
+    return {
+      ...(request.operation && { operation: request.operation }),
+      method: request.method,
+      url: request.url,
+      headers: { ...request.headers },
+      ...(request.body !== undefined && { body: request.body }),
+      ...(request.signal && { signal: request.signal }),
+      ...(request.timeout !== undefined && { timeout: request.timeout }),
+      retry: request.retry ?? false,
+      attempt: 0,
+    };
+  }
+
+  /**
+   * Send one attempt under a signal that fires when the caller aborts or the
+   * attempt times out, and turn failures into SDK errors.
+   */
+  private async sendAttempt<T>(
+    request: SvgrTransportRequest,
+  ): Promise<NetworkResponse<T>> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(request.signal?.reason);
+    request.signal?.addEventListener("abort", onAbort, { once: true });
+    const timer =
+      request.timeout === undefined
+        ? undefined
+        : setTimeout(
+            () =>
+              controller.abort(
+                new SvgrTimeoutError(
+                  request.timeout,
+                  `Request timed out after ${request.timeout} ms`,
+                  requestContext(request),
+                ),
+              ),
+            request.timeout,
+          );
+    // Settle on abort even when the NetworkClient ignores the signal
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener(
+        "abort",
+        () => reject(controller.signal.reason),
+        { once: true },
+      );
+    });
+
+    try {
+      let response: NetworkResponse<T>;
+      try {
+        response = await Promise.race([
+          this.sendOnce<T>({ ...request, signal: controller.signal }),
+          aborted,
+        ]);
+      } catch (error) {
+        if (controller.signal.aborted) throw controller.signal.reason;
+        throw toNetworkError(error, request);
+      }
+      if (!response.ok) throw toSvgrError(response, request);
+      return response;
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  private async sendOnce<T>(
+    request: SvgrTransportRequest,
+  ): Promise<NetworkResponse<T>> {
+    const options = {
+      ...(request.headers && { headers: request.headers }),
+      ...(request.signal && { signal: request.signal }),
+      ...(request.timeout !== undefined && { timeout: request.timeout }),
+    };
+
+    try {
+      if (request.onUploadProgress) {
+        return await this.sendWithProgress<T>(
+          request,
+          request.onUploadProgress,
+        );
+      }
+      switch (request.method) {
+        case "GET":
+          return await this.networkClient.get<T>(request.url, options);
+        case "POST":
+          return await this.networkClient.post<T>(
+            request.url,
+            request.body,
+            options,
+          );
+        case "PUT":
+          return await this.networkClient.put<T>(
+            request.url,
+            request.body,
+            options,
+          );
+        case "DELETE":
+          return await this.networkClient.delete<T>(request.url, options);
+      }
+    } catch (error) {
+      // Platform clients throw on non-2xx; surface those as regular responses
+      // so status handling and retries behave the same for every client.
+      if (error instanceof NetworkError) {
+        return {
+          ok: false,
+          success: false,
+          status: error.status,
+          statusText: error.statusText,
+          headers: {},
+          data: error.response as T,
+          timestamp: new Date().toISOString(),
+        };
+      }
+      throw error;
+    }
+  }
+
+  private async sendWithProgress<T>(
+    request: SvgrTransportRequest,
+    onUploadProgress: UploadProgressCallback,
+  ): Promise<NetworkResponse<T>> {
+    if (
+      this.uploadTransport &&
+      (request.method === "POST" || request.method === "PUT")
+    ) {
+      return this.uploadTransport.send<T>({
+        method: request.method,
+        url: request.url,
+        body: request.body,
+        onUploadProgress,
+        ...(request.headers && { headers: request.headers }),
+        ...(request.signal && { signal: request.signal }),
+        ...(request.timeout !== undefined && { timeout: request.timeout }),
+      });
+    }
+
+    const { onUploadProgress: _omit, ...plain } = request;
+    const response = await this.sendOnce<T>(plain);
+    const size = estimateBodySize(request.body);
+    onUploadProgress(size, size);
+    return response;
+  }
+}
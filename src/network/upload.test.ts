@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { XhrUploadTransport } from "./upload";
+
+/** Minimal XMLHttpRequest stand-in that uploads in two progress steps */
+class FakeXhr {
+  static instances: FakeXhr[] = [];
+  upload: { onprogress?: (e: Partial<ProgressEvent>) => void } = {};
+  onload?: () => void;
+  onerror?: () => void;
+  ontimeout?: () => void;
+  timeout = 0;
+  status = 0;
+  statusText = "";
+  responseText = "";
+  method = "";
+  url = "";
+  headers: Record<string, string> = {};
+  body: unknown;
+  aborted = false;
+
+  constructor() {
+    FakeXhr.instances.push(this);
+  }
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  getAllResponseHeaders() {
+    return "content-type: application/json\r\nx-request-id: r1\r\n";
+  }
+
+  abort() {
+    this.aborted = true;
+  }
+
+  send(body: unknown) {
+    this.body = body;
+    queueMicrotask(() => {
+      if (this.aborted) return;
+      this.upload.onprogress?.({
+        loaded: 5,
+        total: 10,
+        lengthComputable: true,
+      });
+      this.upload.onprogress?.({
+        loaded: 10,
+        total: 10,
+        lengthComputable: true,
+      });
+      this.status = 201;
+      this.statusText = "Created";
+      this.responseText = JSON.stringify({ success: true });
+      this.onload?.();
+    });
+  }
+}
+
+describe("XhrUploadTransport", () => {
+  afterEach(() => {
+    FakeXhr.instances = [];
+    vi.unstubAllGlobals();
+  });
+
+  it("reports progress and parses the JSON response", async () => {
+    vi.stubGlobal("XMLHttpRequest", FakeXhr);
+    const transport = new XhrUploadTransport({
+      getHeaders: async () => ({ Authorization: "Bearer t" }),
+    });
+    const events: number[] = [];
+
+    const response = await transport.send({
+      method: "POST",
+      url: "http://localhost/upload",
+      body: { original: "aGVsbG8=" },
+      onUploadProgress: (loaded) => events.push(loaded),
+    });
+
+    expect(events).toEqual([5, 10]);
+    expect(response.ok).toBe(true);
+    expect(response.status).toBe(201);
+    expect(response.data).toEqual({ success: true });
+    expect(response.headers["x-request-id"]).toBe("r1");
+    const xhr = FakeXhr.instances[0];
+    expect(xhr?.headers).toEqual({
+      Authorization: "Bearer t",
+      "Content-Type": "application/json",
+    });
+    expect(xhr?.body).toBe(JSON.stringify({ original: "aGVsbG8=" }));
+  });
+
+  it("aborts the request when the signal fires", async () => {
+    vi.stubGlobal("XMLHttpRequest", FakeXhr);
+    const controller = new AbortController();
+
+    const promise = new XhrUploadTransport().send({
+      method: "POST",
+      url: "http://localhost/upload",
+      body: "x",
+      signal: controller.signal,
+      onUploadProgress: () => {},
+    });
+    controller.abort(new Error("stop"));
+
+    await expect(promise).rejects.toThrow("stop");
+  });
+});
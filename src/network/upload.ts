@@ -0,0 +1,205 @@
+import type { NetworkResponse } from "@sudobility/types";
+import { SvgrNetworkError, SvgrTimeoutError } from "./errors";
+
+/**
+ * Callback reporting how many request-body bytes have been sent.
+ *
+ * @param loaded - Bytes uploaded so far
+ * @param total - Total bytes to upload (equals `loaded` when unknown)
+ */
+export type UploadProgressCallback = (loaded: number, total: number) => void;
+
+/**
+ * Snapshot of upload progress exposed by the upload hooks.
+ *
+ * @interface UploadProgress
+ * @property {number} loaded - Bytes uploaded so far
+ * @property {number} total - Total bytes to upload
+ */
+export interface UploadProgress {
+  /** Bytes uploaded so far */
+  loaded: number;
+  /** Total bytes to upload */
+  total: number;
+}
+
+/**
+ * A request sent through an {@link SvgrUploadTransport}.
+ *
+ * @interface SvgrUploadRequest
+ */
+export interface SvgrUploadRequest {
+  /** HTTP method (uploads are always POST today) */
+  method: "POST" | "PUT";
+  /** Absolute request URL */
+  url: string;
+  /** Request body; plain objects are sent as JSON */
+  body: unknown;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Signal used to cancel the upload */
+  signal?: AbortSignal;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Called as request-body bytes are sent */
+  onUploadProgress: UploadProgressCallback;
+}
+
+/**
+ * Transport able to report upload progress.
+ *
+ * The platform-agnostic `NetworkClient` has no progress callbacks, so
+ * {@link SvgrClient} sends requests that ask for `onUploadProgress` through
+ * this interface instead. Implement it to plug in a platform-specific
+ * uploader, or a fake transport in tests.
+ *
+ * @interface SvgrUploadTransport
+ */
+export interface SvgrUploadTransport {
+  /**
+   * Send the request, invoking `request.onUploadProgress` as bytes are sent.
+   * Non-2xx responses resolve with `ok: false` rather than rejecting.
+   */
+  send<T>(request: SvgrUploadRequest): Promise<NetworkResponse<T>>;
+}
+
+/**
+ * Options for {@link XhrUploadTransport}.
+ *
+ * @interface XhrUploadTransportOptions
+ * @property {Function} [getHeaders] - Returns headers (e.g. `Authorization`) added to every upload
+ */
+export interface XhrUploadTransportOptions {
+  /** Returns headers (e.g. `Authorization`) added to every upload */
+  getHeaders?: () => Record<string, string> | Promise<Record<string, string>>;
+}
+
+function parseHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const index = line.indexOf(":");
+    if (index > 0) {
+      headers[line.slice(0, index).trim().toLowerCase()] = line
+        .slice(index + 1)
+        .trim();
+    }
+  }
+  return headers;
+}
+
+function parseBody(text: string, contentType: string): unknown {
+  if (contentType.includes("application/json")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+/**
+ * {@link SvgrUploadTransport} built on `XMLHttpRequest`, which reports upload
+ * progress in browsers and React Native.
+ *
+ * Requests bypass the injected `NetworkClient`, so supply auth headers
+ * through `getHeaders`.
+ *
+ * @example
+ * ```typescript
+ * const client = new SvgrClient({
+ *   baseUrl,
+ *   networkClient,
+ *   uploadTransport: new XhrUploadTransport({
+ *     getHeaders: async () => ({ Authorization: `Bearer ${await getToken()}` }),
+ *   }),
+ * });
+ * ```
+ */
+export class XhrUploadTransport implements SvgrUploadTransport {
+  constructor(private readonly options: XhrUploadTransportOptions = {}) {}
+
+  /** Whether `XMLHttpRequest` exists in the current environment */
+  static isSupported(): boolean {
+    return typeof XMLHttpRequest !== "undefined";
+  }
+
+  async send<T>(request: SvgrUploadRequest): Promise<NetworkResponse<T>> {
+    const headers: Record<string, string> = {
+      ...(await this.options.getHeaders?.()),
+      ...request.headers,
+    };
+    let body = request.body;
+    if (
+      typeof body !== "string" &&
+      !(body instanceof FormData) &&
+      !(body instanceof Blob)
+    ) {
+      body = JSON.stringify(body);
+      headers["Content-Type"] ??= "application/json";
+    }
+
+    return new Promise<NetworkResponse<T>>((resolve, reject) => {
+      const { signal } = request;
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      const onAbort = () => {
+        xhr.abort();
+        reject(signal?.reason);
+      };
+      const cleanup = () => signal?.removeEventListener("abort", onAbort);
+
+      xhr.open(request.method, request.url);
+      for (const [name, value] of Object.entries(headers)) {
+        xhr.setRequestHeader(name, value);
+      }
+      if (request.timeout !== undefined) xhr.timeout = request.timeout;
+
+      xhr.upload.onprogress = (event) => {
+        request.onUploadProgress(
+          event.loaded,
+          event.lengthComputable ? event.total : event.loaded,
+        );
+      };
+      xhr.onload = () => {
+        cleanup();
+        const responseHeaders = parseHeaders(xhr.getAllResponseHeaders());
+        const ok = xhr.status >= 200 && xhr.status < 300;
+        resolve({
+          ok,
+          success: ok,
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: responseHeaders,
+          data: parseBody(
+            xhr.responseText,
+            responseHeaders["content-type"] ?? "",
+          ) as T,
+          timestamp: new Date().toISOString(),
+        });
+      };
+      const context = { method: request.method, endpoint: request.url };
+      xhr.onerror = () => {
+        cleanup();
+        reject(new SvgrNetworkError("Network request failed", context));
+      };
+      xhr.ontimeout = () => {
+        cleanup();
+        reject(
+          new SvgrTimeoutError(
+            request.timeout,
+            `Request timed out after ${request.timeout} ms`,
+            context,
+          ),
+        );
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      xhr.send(body as XMLHttpRequestBodyInit);
+    });
+  }
+}
@@ -0,0 +1,208 @@
+import { type ConvertRequest, IMAGE_TYPES } from "@sudobility/svgr_types";
+import type { SvgrListQuery } from "./pagination";
+import type { UpdateImageRequest } from "./SvgrClient";
+
+/**
+ * A single invalid field detected by client-side request validation.
+ *
+ * @interface SvgrValidationIssue
+ * @property {string} field - Name of the offending request field (e.g. `quality`)
+ * @property {string} message - Human-readable description of the problem
+ */
+export interface SvgrValidationIssue {
+  /** Name of the offending request field (e.g. `quality`) */
+  field: string;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/** Matches a `data:<mime>;base64,<payload>` URL and captures the payload */
+const DATA_URL_PATTERN = /^data:[\w.+-]+\/[\w.+-]+;base64,(.*)$/s;
+
+/** Matches a standard (RFC 4648) base64 string with optional padding */
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Check whether a string is well-formed base64 or a base64 data URL.
+ * Whitespace (e.g. MIME line breaks) inside the payload is ignored.
+ */
+function isBase64Image(value: string): boolean {
+  const match = DATA_URL_PATTERN.exec(value);
+  const payload = (match ? (match[1] ?? "") : value).replace(/\s+/g, "");
+  return (
+    payload.length > 0 &&
+    payload.length % 4 === 0 &&
+    BASE64_PATTERN.test(payload)
+  );
+}
+
+function checkIntegerRange(
+  issues: SvgrValidationIssue[],
+  field: string,
+  value: unknown,
+  min: number,
+  max: number,
+): void {
+  if (value === undefined) return;
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < min ||
+    value > max
+  ) {
+    issues.push({
+      field,
+      message: `${field} must be an integer between ${min} and ${max}`,
+    });
+  }
+}
+
+function checkBoolean(
+  issues: SvgrValidationIssue[],
+  field: string,
+  value: unknown,
+): void {
+  if (value !== undefined && typeof value !== "boolean") {
+    issues.push({ field, message: `${field} must be a boolean` });
+  }
+}
+
+/**
+ * Validate a {@link ConvertRequest} before it is sent to the API.
+ *
+ * Collects every problem rather than stopping at the first one, so callers
+ * can surface all invalid fields at once.
+ *
+ * @param request - The conversion request to validate
+ * @returns The list of issues found; empty when the request is valid
+ */
+export function validateConvertRequest(
+  request: ConvertRequest,
+): SvgrValidationIssue[] {
+  const issues: SvgrValidationIssue[] = [];
+
+  if (
+    typeof request.original !== "string" ||
+    !isBase64Image(request.original)
+  ) {
+    issues.push({
+      field: "original",
+      message: "original must be a base64 string or a base64 data URL",
+    });
+  }
+  if (request.filename !== undefined && typeof request.filename !== "string") {
+    issues.push({ field: "filename", message: "filename must be a string" });
+  }
+  checkIntegerRange(issues, "quality", request.quality, 1, 10);
+  checkBoolean(issues, "transparentBg", request.transparentBg);
+  checkBoolean(issues, "ocr", request.ocr);
+  checkBoolean(issues, "mergePaths", request.mergePaths);
+  checkIntegerRange(issues, "smooth", request.smooth, 0, 3);
+  if (
+    request.imageType !== undefined &&
+    !IMAGE_TYPES.includes(request.imageType)
+  ) {
+    issues.push({
+      field: "imageType",
+      message: `imageType must be one of: ${IMAGE_TYPES.join(", ")}`,
+    });
+  }
+
+  return issues;
+}
+
+/** Parse a date filter; `undefined` when it is not a valid date */
+function toTime(value: Date | string): number | undefined {
+  const time =
+    value instanceof Date ? value.getTime() : Date.parse(String(value));
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Validate a {@link SvgrListQuery} before it is sent to the API.
+ *
+ * @param query - The page request to validate
+ * @returns The list of issues found; empty when the query is valid
+ */
+export function validateListQuery(query: SvgrListQuery): SvgrValidationIssue[] {
+  const issues: SvgrValidationIssue[] = [];
+
+  if (
+    query.limit !== undefined &&
+    (!Number.isInteger(query.limit) || query.limit < 1)
+  ) {
+    issues.push({
+      field: "limit",
+      message: "limit must be a positive integer",
+    });
+  }
+  const imageTypes =
+    query.imageType === undefined ? [] : [query.imageType].flat();
+  if (imageTypes.some((imageType) => !IMAGE_TYPES.includes(imageType))) {
+    issues.push({
+      field: "imageType",
+      message: `imageType must be one of: ${IMAGE_TYPES.join(", ")}`,
+    });
+  }
+  const after =
+    query.createdAfter === undefined ? undefined : toTime(query.createdAfter);
+  const before =
+    query.createdBefore === undefined ? undefined : toTime(query.createdBefore);
+  if (query.createdAfter !== undefined && after === undefined) {
+    issues.push({
+      field: "createdAfter",
+      message: "createdAfter must be a Date or an ISO 8601 date string",
+    });
+  }
+  if (query.createdBefore !== undefined && before === undefined) {
+    issues.push({
+      field: "createdBefore",
+      message: "createdBefore must be a Date or an ISO 8601 date string",
+    });
+  }
+  if (after !== undefined && before !== undefined && after > before) {
+    issues.push({
+      field: "createdAfter",
+      message: "createdAfter must not be later than createdBefore",
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Validate an {@link UpdateImageRequest} before it is sent to the API.
+ *
+ * @param request - The image update to validate
+ * @returns The list of issues found; empty when the request is valid
+ */
+export function validateUpdateImageRequest(
+  request: UpdateImageRequest,
+): SvgrValidationIssue[] {
+  const issues: SvgrValidationIssue[] = [];
+
+  if (request.name === undefined && request.tags === undefined) {
+    issues.push({
+      field: "request",
+      message: "request must set name or tags",
+    });
+  }
+  if (
+    request.name !== undefined &&
+    (typeof request.name !== "string" || request.name.trim() === "")
+  ) {
+    issues.push({ field: "name", message: "name must be a non-empty string" });
+  }
+  if (
+    request.tags !== undefined &&
+    (!Array.isArray(request.tags) ||
+      request.tags.some((tag) => typeof tag !== "string" || tag.trim() === ""))
+  ) {
+    issues.push({
+      field: "tags",
+      message: "tags must be an array of non-empty strings",
+    });
+  }
+
+  return issues;
+}
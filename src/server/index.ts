@@ -0,0 +1,18 @@
+export {
+  SvgrClient,
+  type SvgrClientConfig,
+  type SvgrRequestOptions,
+} from "../network/SvgrClient";
+export { svgrKeys } from "../hooks/query-keys";
+export {
+  userImagesQueryOptions,
+  infiniteUserImagesQueryOptions,
+  imageJobsQueryOptions,
+  communitiesQueryOptions,
+  jobStatusQueryOptions,
+  jobSvgQueryOptions,
+  jobPreviewQueryOptions,
+  prefetchUserImages,
+  prefetchImageJobs,
+  prefetchCommunities,
+} from "../hooks/query-options";
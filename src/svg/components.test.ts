@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  svgToReactComponent,
+  svgToReactNativeComponent,
+  toComponentName,
+} from "./components";
+
+const SVG =
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" class="icon">' +
+  "<!-- logo --><style>.a{fill:red}</style>" +
+  '<path d="M0 0h24" stroke-width="2" style="fill-opacity: 0.5; stroke: #000"/>' +
+  '<text x="1" data-id="t">{A & B}</text></svg>';
+
+describe("svgToReactComponent", () => {
+  it("generates a JSX component", () => {
+    expect(svgToReactComponent(SVG, { componentName: "company-logo.svg" }))
+      .toBe(`const CompanyLogo = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" className="icon" {...props}>
+    <style>
+      {".a{fill:red}"}
+    </style>
+    <path d="M0 0h24" strokeWidth="2" style={{ fillOpacity: "0.5", stroke: "#000" }} />
+    <text x="1" data-id="t">
+      {"{A & B}"}
+    </text>
+  </svg>
+);
+
+export default CompanyLogo;
+`);
+  });
+
+  it("types the props for TSX", () => {
+    const tsx = svgToReactComponent("<svg/>", { typescript: true });
+    expect(tsx).toBe(`import type { SVGProps } from "react";
+
+const SvgComponent = (props: SVGProps<SVGSVGElement>) => (
+  <svg {...props} />
+);
+
+export default SvgComponent;
+`);
+  });
+});
+
+describe("svgToReactNativeComponent", () => {
+  it("maps elements to react-native-svg and inlines styles", () => {
+    expect(svgToReactNativeComponent(SVG, { componentName: "Logo" }))
+      .toBe(`import Svg, { Path, Text } from "react-native-svg";
+
+const Logo = (props) => (
+  <Svg viewBox="0 0 24 24" {...props}>
+    <Path d="M0 0h24" strokeWidth="2" fillOpacity="0.5" stroke="#000" />
+    <Text x="1" data-id="t">
+      {"{A & B}"}
+    </Text>
+  </Svg>
+);
+
+export default Logo;
+`);
+  });
+});
+
+describe("toComponentName", () => {
+  it("makes PascalCase identifiers", () => {
+    expect(toComponentName("my_icon-24.svg")).toBe("MyIcon24");
+    expect(toComponentName("3d box")).toBe("Svg3dBox");
+    expect(toComponentName("---")).toBe("SvgComponent");
+    expect(toComponentName(undefined)).toBe("SvgComponent");
+  });
+});
@@ -0,0 +1,240 @@
+import { localName, parseSvg, type SvgElement, type SvgNode } from "./parser";
+
+/**
+ * Options for the component generators.
+ *
+ * @interface SvgComponentOptions
+ * @property {string} [componentName] - Name of the generated component (default: `SvgComponent`); made a valid PascalCase identifier
+ */
+export interface SvgComponentOptions {
+  /** Name of the generated component (default: `SvgComponent`); made a valid PascalCase identifier */
+  componentName?: string;
+}
+
+/** Component name used when none is given */
+export const DEFAULT_COMPONENT_NAME = "SvgComponent";
+
+/** `react-native-svg` component for each supported SVG element */
+const NATIVE_COMPONENTS: Record<string, string> = {
+  svg: "Svg",
+  g: "G",
+  path: "Path",
+  rect: "Rect",
+  circle: "Circle",
+  ellipse: "Ellipse",
+  line: "Line",
+  polyline: "Polyline",
+  polygon: "Polygon",
+  text: "Text",
+  tspan: "TSpan",
+  textpath: "TextPath",
+  defs: "Defs",
+  use: "Use",
+  symbol: "Symbol",
+  image: "Image",
+  lineargradient: "LinearGradient",
+  radialgradient: "RadialGradient",
+  stop: "Stop",
+  clippath: "ClipPath",
+  mask: "Mask",
+  pattern: "Pattern",
+  marker: "Marker",
+};
+
+/** Attributes with a JSX name that is not plain camelCase */
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+  class: "className",
+  for: "htmlFor",
+};
+
+/**
+ * Turn a file or display name into a PascalCase component name, e.g.
+ * `company-logo.svg` → `CompanyLogo`. Names that would start with a digit
+ * get an `Svg` prefix.
+ *
+ * @param name - Any name
+ */
+export function toComponentName(name: string | undefined): string {
+  const words = (name ?? "")
+    .replace(/\.svg$/i, "")
+    .split(/[^a-z0-9]+/i)
+    .filter(Boolean);
+  const pascal = words
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+  if (!pascal) return DEFAULT_COMPONENT_NAME;
+  return /^\d/.test(pascal) ? `Svg${pascal}` : pascal;
+}
+
+function camelCase(name: string): string {
+  return name.replace(/[-:]([a-z])/g, (_match, letter: string) =>
+    letter.toUpperCase(),
+  );
+}
+
+/** JSX prop name for an SVG attribute: `stroke-width` → `strokeWidth`, `xlink:href` → `xlinkHref` */
+function jsxAttributeName(name: string): string {
+  if (/^(data|aria)-/.test(name)) return name;
+  return JSX_ATTRIBUTE_NAMES[name] ?? camelCase(name);
+}
+
+/** Parse a `style` attribute into camelCased CSS properties */
+function parseStyle(style: string): Array<[string, string]> {
+  return style
+    .split(";")
+    .map((declaration) => {
+      const colon = declaration.indexOf(":");
+      return [
+        declaration.slice(0, colon).trim(),
+        declaration.slice(colon + 1).trim(),
+      ] as [string, string];
+    })
+    .filter(([property, value]) => property && value)
+    .map(([property, value]) => [
+      property.startsWith("--") ? property : camelCase(property),
+      value,
+    ]);
+}
+
+function styleObject(declarations: Array<[string, string]>): string {
+  const entries = declarations.map(
+    ([property, value]) =>
+      `${/^[a-z]\w*$/i.test(property) ? property : JSON.stringify(property)}: ${JSON.stringify(value)}`,
+  );
+  return `{{ ${entries.join(", ")} }}`;
+}
+
+/** A text value as a JSX expression, so braces and `<` need no escaping */
+function textExpression(value: string): string {
+  return `{${JSON.stringify(value)}}`;
+}
+
+interface JsxTarget {
+  /** The tag to emit for an element, or `null` to drop it */
+  tagName: (element: SvgElement) => string | null;
+  /** Props for an element, already formatted as `name={...}` or `name="..."` */
+  props: (element: SvgElement) => string[];
+}
+
+function renderNode(
+  node: SvgNode,
+  target: JsxTarget,
+  depth: number,
+  isRoot = false,
+): string | null {
+  const indent = "  ".repeat(depth);
+  if (node.type === "comment") return null;
+  if (node.type !== "element") {
+    return node.value.trim() ? `${indent}${textExpression(node.value)}` : null;
+  }
+
+  const tag = target.tagName(node);
+  if (!tag) return null;
+  const props = target.props(node);
+  if (isRoot) props.push("{...props}");
+  const open = props.length > 0 ? `<${tag} ${props.join(" ")}` : `<${tag}`;
+  const children = node.children
+    .map((child) => renderNode(child, target, depth + 1))
+    .filter((child): child is string => child !== null);
+  if (children.length === 0) return `${indent}${open} />`;
+  return `${indent}${open}>\n${children.join("\n")}\n${indent}</${tag}>`;
+}
+
+function jsxValue(value: string): string {
+  return /["{}&\n]/.test(value) ? `{${JSON.stringify(value)}}` : `"${value}"`;
+}
+
+const REACT_TARGET: JsxTarget = {
+  tagName: (element) => element.name.slice(element.name.indexOf(":") + 1),
+  props: (element) =>
+    Object.entries(element.attributes).map(([name, value]) =>
+      name === "style"
+        ? `style=${styleObject(parseStyle(value))}`
+        : `${jsxAttributeName(name)}=${jsxValue(value)}`,
+    ),
+};
+
+function nativeTarget(used: Set<string>): JsxTarget {
+  return {
+    tagName: (element) => {
+      const component = NATIVE_COMPONENTS[localName(element.name)];
+      if (component) used.add(component);
+      return component ?? null;
+    },
+    // react-native-svg has no stylesheets or namespaces: inline styles
+    // become props and classes are dropped
+    props: (element) => {
+      const props = new Map<string, string>();
+      for (const [name, value] of Object.entries(element.attributes)) {
+        if (name === "class" || name === "xmlns" || name.startsWith("xmlns:")) {
+          continue;
+        }
+        if (name === "style") {
+          for (const [property, css] of parseStyle(value)) {
+            if (!property.startsWith("--")) props.set(property, css);
+          }
+        } else {
+          props.set(jsxAttributeName(name), value);
+        }
+      }
+      return [...props].map(([name, value]) => `${name}=${jsxValue(value)}`);
+    },
+  };
+}
+
+function render(svg: string | SvgElement, target: JsxTarget): string {
+  const root = typeof svg === "string" ? parseSvg(svg) : svg;
+  return renderNode(root, target, 1, true) as string;
+}
+
+/**
+ * Generate a React component (JSX or TSX source) that renders an SVG.
+ *
+ * Attributes are renamed to their JSX props (`class` → `className`,
+ * `stroke-width` → `strokeWidth`), `style` strings become objects, and
+ * props passed to the component are spread onto the `<svg>`.
+ *
+ * @param svg - The SVG markup or its parsed root element
+ * @param options - Component name and whether to emit TypeScript
+ * @returns The source of a module whose default export is the component
+ * @throws {SvgParseError} When `svg` is not a well-formed SVG document
+ */
+export function svgToReactComponent(
+  svg: string | SvgElement,
+  options: SvgComponentOptions & { typescript?: boolean } = {},
+): string {
+  const name = toComponentName(options.componentName);
+  const body = render(svg, REACT_TARGET);
+  const header = options.typescript
+    ? `import type { SVGProps } from "react";\n\nconst ${name} = (props: SVGProps<SVGSVGElement>) => (`
+    : `const ${name} = (props) => (`;
+  return `${header}\n${body}\n);\n\nexport default ${name};\n`;
+}
+
+/**
+ * Generate a React Native component that renders an SVG with
+ * `react-native-svg`.
+ *
+ * Elements `react-native-svg` cannot draw (`<style>`, `<title>`, filters,
+ * ...) are dropped, as are classes; declarations in `style` attributes
+ * become props.
+ *
+ * @param svg - The SVG markup or its parsed root element
+ * @param options - Component name
+ * @returns The source of a module whose default export is the component
+ * @throws {SvgParseError} When `svg` is not a well-formed SVG document
+ */
+export function svgToReactNativeComponent(
+  svg: string | SvgElement,
+  options: SvgComponentOptions = {},
+): string {
+  const name = toComponentName(options.componentName);
+  const used = new Set<string>();
+  const body = render(svg, nativeTarget(used));
+  const named = [...used].filter((component) => component !== "Svg").sort();
+  const imports = named.length > 0 ? `Svg, { ${named.join(", ")} }` : "Svg";
+  return (
+    `import ${imports} from "react-native-svg";\n\n` +
+    `const ${name} = (props) => (\n${body}\n);\n\nexport default ${name};\n`
+  );
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from "vitest";
+import { exportSvg } from "./export";
+import type { SvgRasterizer } from "./raster";
+import { getSvgSize } from "./raster";
+
+/** A rasterizer that paints every pixel one colour */
+function solidRasterizer(rgba: number[]): SvgRasterizer {
+  return {
+    rasterize: vi.fn(async (_svg: string, { width, height }) => {
+      const data = new Uint8Array(width * height * 4);
+      for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+      return { width, height, data };
+    }),
+  };
+}
+
+const SVG = '<svg viewBox="0 0 40 20"><rect width="40" height="20"/></svg>';
+
+describe("exportSvg", () => {
+  it("exports a PNG at the requested scale", async () => {
+    const rasterizer = solidRasterizer([255, 0, 0, 255]);
+    const result = await exportSvg(SVG, {
+      format: "png",
+      scale: 2,
+      rasterizer,
+    });
+
+    expect(rasterizer.rasterize).toHaveBeenCalledWith(SVG, {
+      width: 80,
+      height: 40,
+    });
+    expect(result).toMatchObject({
+      format: "png",
+      mimeType: "image/png",
+      extension: "png",
+      width: 80,
+      height: 40,
+    });
+    expect([...result.data.subarray(1, 4)]).toEqual([0x50, 0x4e, 0x47]);
+  });
+
+  it("exports a PDF sized in points with a soft mask for transparency", async () => {
+    const result = await exportSvg(SVG, {
+      format: "pdf",
+      scale: 3,
+      rasterizer: solidRasterizer([0, 0, 0, 128]),
+    });
+    const text = new TextDecoder("latin1").decode(result.data);
+
+    expect(result.mimeType).toBe("application/pdf");
+    expect(text.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(text).toContain("/MediaBox [0 0 30 15]");
+    expect(text).toContain("/Width 120 /Height 60");
+    expect(text).toContain("/SMask 6 0 R");
+    expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+
+    // Every xref entry points at its object
+    const xref = Number(/startxref\n(\d+)/.exec(text)?.[1]);
+    const offsets = text
+      .slice(xref)
+      .split("\n")
+      .filter((line) => / 00000 n $/.test(line))
+      .map((line) => Number(line.slice(0, 10)));
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj`));
+    });
+  });
+
+  it("generates components", async () => {
+    const tsx = await exportSvg(SVG, { format: "tsx", componentName: "box" });
+    expect(tsx.extension).toBe("tsx");
+    expect(tsx.data).toContain("const Box = (props: SVGProps<SVGSVGElement>)");
+
+    const native = await exportSvg(SVG, { format: "react-native" });
+    expect(native.data).toContain(
+      'import Svg, { Rect } from "react-native-svg"',
+    );
+  });
+
+  it("requires a rasterizer without a canvas and a positive scale", async () => {
+    await expect(exportSvg(SVG, { format: "png" })).rejects.toThrow(
+      /rasterizer/,
+    );
+    await expect(
+      exportSvg(SVG, {
+        format: "png",
+        scale: 0,
+        rasterizer: solidRasterizer([0, 0, 0, 0]),
+      }),
+    ).rejects.toThrow(RangeError);
+  });
+});
+
+describe("getSvgSize", () => {
+  it("reads width, height and the viewBox", () => {
+    expect(getSvgSize('<svg width="1in" height="2cm"/>')).toEqual({
+      width: 96,
+      height: (96 / 2.54) * 2,
+    });
+    expect(getSvgSize('<svg width="50" viewBox="0 0 10 20"/>')).toEqual({
+      width: 50,
+      height: 100,
+    });
+    expect(getSvgSize('<svg width="100%"/>')).toEqual({
+      width: 300,
+      height: 150,
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { encodePng } from "../utils/png";
+import {
+  type SvgComponentOptions,
+  svgToReactComponent,
+  svgToReactNativeComponent,
+} from "./components";
+import { encodePdf } from "./pdf";
+import {
+  CanvasSvgRasterizer,
+  getSvgSize,
+  rasterizeSvg,
+  type SvgRasterizer,
+} from "./raster";
+
+/**
+ * Formats {@link exportSvg} can produce:
+ *
+ * - `png` — a raster image at `scale` times the SVG's size
+ * - `pdf` — a one-page PDF of the SVG's size, showing it rendered at `scale`
+ * - `jsx` / `tsx` — a React component
+ * - `react-native` — a `react-native-svg` component
+ */
+export type SvgExportFormat = "png" | "pdf" | "jsx" | "tsx" | "react-native";
+
+/**
+ * Options for {@link exportSvg}.
+ *
+ * @interface SvgExportOptions
+ * @extends SvgComponentOptions
+ * @property {SvgExportFormat} format - The output format
+ * @property {number} [scale] - Output pixels per CSS pixel for `png` and `pdf` (default: 1)
+ * @property {SvgRasterizer} [rasterizer] - Renderer for `png` and `pdf` (default: {@link CanvasSvgRasterizer} where supported)
+ */
+export interface SvgExportOptions<
+  F extends SvgExportFormat = SvgExportFormat,
+> extends SvgComponentOptions {
+  /** The output format */
+  format: F;
+  /** Output pixels per CSS pixel for `png` and `pdf` (default: 1) */
+  scale?: number;
+  /** Renderer for `png` and `pdf` (default: {@link CanvasSvgRasterizer} where supported) */
+  rasterizer?: SvgRasterizer;
+}
+
+/**
+ * A `png` or `pdf` export.
+ *
+ * @interface SvgBinaryExport
+ * @property {string} mimeType - `image/png` or `application/pdf`
+ * @property {string} extension - `png` or `pdf`
+ * @property {Uint8Array} data - The file contents
+ * @property {number} width - Width of the rendered image in pixels
+ * @property {number} height - Height of the rendered image in pixels
+ */
+export interface SvgBinaryExport {
+  format: "png" | "pdf";
+  /** `image/png` or `application/pdf` */
+  mimeType: string;
+  /** `png` or `pdf` */
+  extension: string;
+  /** The file contents */
+  data: Uint8Array;
+  /** Width of the rendered image in pixels */
+  width: number;
+  /** Height of the rendered image in pixels */
+  height: number;
+}
+
+/**
+ * A component export.
+ *
+ * @interface SvgComponentExport
+ * @property {string} extension - `jsx` or `tsx`
+ * @property {string} data - The component's source code
+ */
+export interface SvgComponentExport {
+  format: "jsx" | "tsx" | "react-native";
+  /** `jsx` or `tsx` */
+  extension: string;
+  /** The component's source code */
+  data: string;
+}
+
+/** The result of {@link exportSvg} for a format */
+export type SvgExportResult<F extends SvgExportFormat = SvgExportFormat> =
+  F extends "png" | "pdf" ? SvgBinaryExport : SvgComponentExport;
+
+/** The rasterizer to use: the given one, or the canvas where available */
+function resolveRasterizer(rasterizer: SvgRasterizer | undefined) {
+  if (rasterizer) return rasterizer;
+  if (CanvasSvgRasterizer.isSupported()) return new CanvasSvgRasterizer();
+  throw new Error(
+    "No SVG rasterizer available; pass `rasterizer` to export png or pdf here",
+  );
+}
+
+async function exportBinary(
+  svg: string,
+  format: "png" | "pdf",
+  options: SvgExportOptions,
+): Promise<SvgBinaryExport> {
+  const image = await rasterizeSvg(
+    svg,
+    options.scale ?? 1,
+    resolveRasterizer(options.rasterizer),
+  );
+  const size = { width: image.width, height: image.height };
+  if (format === "png") {
+    return {
+      format,
+      mimeType: "image/png",
+      extension: "png",
+      data: encodePng(image),
+      ...size,
+    };
+  }
+  return {
+    format,
+    mimeType: "application/pdf",
+    extension: "pdf",
+    data: encodePdf(image, getSvgSize(svg)),
+    ...size,
+  };
+}
+
+/**
+ * Convert an SVG to a PNG, a PDF, or a React / React Native component.
+ *
+ * Components are generated in plain TypeScript. `png` and `pdf` need a
+ * rasterizer: the canvas in browsers, or any {@link SvgRasterizer} passed
+ * as `rasterizer` (e.g. a pure-JS renderer in Node).
+ *
+ * @param svg - The SVG markup
+ * @param options - Format, `scale`, `componentName` and `rasterizer`
+ * @returns The exported file
+ * @throws {SvgParseError} When `svg` is not a well-formed SVG document
+ * @throws {Error} When exporting `png` or `pdf` without a rasterizer where there is no canvas
+ *
+ * @example
+ * ```typescript
+ * const svg = await client.fetchSvg(cacheId, { sanitize: true });
+ * const { data } = await exportSvg(svg, { format: "tsx", componentName: "Logo" });
+ * const png = await exportSvg(svg, { format: "png", scale: 2 });
+ * ```
+ */
+export async function exportSvg<F extends SvgExportFormat>(
+  svg: string,
+  options: SvgExportOptions<F>,
+): Promise<SvgExportResult<F>> {
+  const { format } = options;
+  let result: SvgBinaryExport | SvgComponentExport;
+  switch (format) {
+    case "png":
+    case "pdf":
+      result = await exportBinary(svg, format, options);
+      break;
+    case "jsx":
+    case "tsx":
+      result = {
+        format,
+        extension: format,
+        data: svgToReactComponent(svg, {
+          ...options,
+          typescript: format === "tsx",
+        }),
+      };
+      break;
+    case "react-native":
+      result = {
+        format,
+        extension: "jsx",
+        data: svgToReactNativeComponent(svg, options),
+      };
+      break;
+    default:
+      throw new RangeError(`Unknown export format: ${String(format)}`);
+  }
+  return result as SvgExportResult<F>;
+}
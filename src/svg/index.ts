@@ -0,0 +1,53 @@
+export {
+  parseSvg,
+  serializeSvg,
+  SvgParseError,
+  type SvgElement,
+  type SvgNode,
+  type SvgTextNode,
+} from "./parser";
+export {
+  sanitizeCss,
+  sanitizeSvg,
+  sanitizeTree,
+  type SvgSanitizeOptions,
+} from "./sanitize";
+export {
+  DEFAULT_SVG_PRECISION,
+  optimizeSvg,
+  optimizeTree,
+  roundNumber,
+  roundPathData,
+  type SvgOptimizeOptions,
+} from "./optimize";
+export {
+  getSvgStats,
+  normalizeColor,
+  type SvgColorUsage,
+  type SvgStats,
+} from "./stats";
+export { processSvg, type SvgProcessOptions } from "./process";
+export {
+  DEFAULT_COMPONENT_NAME,
+  svgToReactComponent,
+  svgToReactNativeComponent,
+  toComponentName,
+  type SvgComponentOptions,
+} from "./components";
+export {
+  CanvasSvgRasterizer,
+  getSvgSize,
+  rasterizeSvg,
+  type SvgRasterizer,
+  type SvgSize,
+} from "./raster";
+export { encodePdf } from "./pdf";
+export {
+  exportSvg,
+  type SvgBinaryExport,
+  type SvgComponentExport,
+  type SvgExportFormat,
+  type SvgExportOptions,
+  type SvgExportResult,
+} from "./export";
+export { encodePng, type RgbaImage } from "../utils/png";
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { optimizeSvg, roundPathData } from "./optimize";
+
+describe("optimizeSvg", () => {
+  it("rounds coordinates and lengths", () => {
+    const svg =
+      '<svg viewBox="0 0 100.0004 50.5"><path d="M 10.12345,20.00001 L-0.0001 3.33333 Z"/>' +
+      '<rect x="1.23456" width="50.55555%" fill="#123456"/></svg>';
+
+    expect(optimizeSvg(svg, { precision: 2 })).toBe(
+      '<svg viewBox="0 0 100 50.5"><path d="M10.12 20L0 3.33Z"/>' +
+        '<rect x="1.23" width="50.56%" fill="#123456"/></svg>',
+    );
+    expect(optimizeSvg(svg, { precision: false })).toContain('x="1.23456"');
+  });
+
+  it("keeps compact arc flags and implicit commands intact", () => {
+    expect(roundPathData("M0 0a5.5555 5 0 01.12345 9.5l1 1 2-2", 2)).toBe(
+      "M0 0a5.56 5 0 0 1 0.12 9.5l1 1 2-2",
+    );
+    expect(roundPathData("M0 0 X 1", 2)).toBe("M0 0 X 1");
+  });
+
+  it("merges identical styles, removes empty groups, comments and whitespace", () => {
+    const svg = `<svg>
+      <!-- generated -->
+      <g><g> </g></g>
+      <path style="fill: red; stroke:blue" d="M0 0"/>
+      <path style="fill:red;stroke:blue;" class="x" d="M1 1"/>
+      <path style="fill:green" d="M2 2"/>
+    </svg>`;
+
+    expect(optimizeSvg(svg)).toBe(
+      "<svg><style>.s0{fill:red;stroke:blue}</style>" +
+        '<path d="M0 0" class="s0"/><path class="x s0" d="M1 1"/>' +
+        '<path style="fill:green" d="M2 2"/></svg>',
+    );
+  });
+
+  it("leaves styles alone when the document has a stylesheet", () => {
+    const svg =
+      "<svg><style>path{fill:blue}</style>" +
+      '<path style="fill:red"/><path style="fill:red"/></svg>';
+    expect(optimizeSvg(svg)).toBe(svg);
+  });
+});
@@ -0,0 +1,296 @@
+import {
+  localName,
+  parseSvg,
+  serializeSvg,
+  type SvgElement,
+  type SvgNode,
+  walkElements,
+} from "./parser";
+
+/** Default number of decimal places kept by {@link optimizeSvg} */
+export const DEFAULT_SVG_PRECISION = 3;
+
+/**
+ * Options for {@link optimizeSvg}. Every step is on by default.
+ *
+ * @interface SvgOptimizeOptions
+ * @property {number | false} [precision] - Decimal places kept in coordinates and lengths (default: 3); `false` keeps numbers as they are
+ * @property {boolean} [mergeStyles] - Move `style` attributes shared by several elements into one CSS class each (default: true)
+ * @property {boolean} [removeEmptyGroups] - Remove `<g>` elements without content (default: true)
+ * @property {boolean} [removeComments] - Remove comments (default: true)
+ */
+export interface SvgOptimizeOptions {
+  /** Decimal places kept in coordinates and lengths (default: 3); `false` keeps numbers as they are */
+  precision?: number | false;
+  /** Move `style` attributes shared by several elements into one CSS class each (default: true) */
+  mergeStyles?: boolean;
+  /** Remove `<g>` elements without content (default: true) */
+  removeEmptyGroups?: boolean;
+  /** Remove comments (default: true) */
+  removeComments?: boolean;
+}
+
+/** Attributes holding numbers (possibly with units) whose precision is reduced */
+const NUMERIC_ATTRIBUTES = new Set([
+  "x",
+  "y",
+  "x1",
+  "y1",
+  "x2",
+  "y2",
+  "cx",
+  "cy",
+  "r",
+  "rx",
+  "ry",
+  "fx",
+  "fy",
+  "dx",
+  "dy",
+  "width",
+  "height",
+  "points",
+  "viewbox",
+  "transform",
+  "gradienttransform",
+  "patterntransform",
+  "stroke-width",
+  "stroke-dasharray",
+  "stroke-dashoffset",
+  "opacity",
+  "fill-opacity",
+  "stroke-opacity",
+  "stop-opacity",
+  "offset",
+]);
+
+/** Elements whose whitespace-only text is significant */
+const TEXT_ELEMENTS = new Set(["text", "tspan", "textpath", "style", "title"]);
+
+const NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi;
+
+/** Number of arguments per path command */
+const PATH_ARGUMENTS: Record<string, number> = {
+  m: 2,
+  l: 2,
+  h: 1,
+  v: 1,
+  c: 6,
+  s: 4,
+  q: 4,
+  t: 2,
+  a: 7,
+  z: 0,
+};
+
+/**
+ * Format a number with at most `precision` decimal places, without
+ * trailing zeros or negative zero.
+ */
+export function roundNumber(value: number, precision: number): string {
+  const rounded = Number(value.toFixed(precision));
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+}
+
+/** Round every number in a list-like attribute value, keeping separators and units */
+function roundNumbers(value: string, precision: number): string {
+  return value.replace(NUMBER, (token) =>
+    roundNumber(Number(token), precision),
+  );
+}
+
+/**
+ * Round the numbers in path data (`d`).
+ *
+ * Path data is tokenized by command so that compact arc flags (`a5 5 0 01 9 9`)
+ * keep their meaning. Returns `d` unchanged when it cannot be parsed.
+ *
+ * @param d - The path data
+ * @param precision - Decimal places to keep
+ */
+export function roundPathData(d: string, precision: number): string {
+  const number = /\s*,?\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)/iy;
+  const flag = /\s*,?\s*([01])/y;
+  const command = /\s*([mlhvcsqtaz])/iy;
+  const moreArguments = /\s*,?\s*[-+.\d]/y;
+  let position = 0;
+  let output = "";
+
+  const read = (pattern: RegExp): string | undefined => {
+    pattern.lastIndex = position;
+    const match = pattern.exec(d);
+    if (!match) return undefined;
+    position = pattern.lastIndex;
+    return match[1];
+  };
+
+  while (position < d.length) {
+    const letter = read(command);
+    if (letter === undefined) {
+      if (d.slice(position).trim() === "") break;
+      return d;
+    }
+    output += letter;
+    const count = PATH_ARGUMENTS[letter.toLowerCase()] ?? 0;
+    // Commands repeat implicitly while arguments follow
+    for (let repeat = 0; count > 0; repeat++) {
+      moreArguments.lastIndex = position;
+      if (repeat > 0 && !moreArguments.test(d)) break;
+      for (let i = 0; i < count; i++) {
+        const isFlag = letter.toLowerCase() === "a" && (i === 3 || i === 4);
+        const token = read(isFlag ? flag : number);
+        if (token === undefined) return d;
+        const text = isFlag ? token : roundNumber(Number(token), precision);
+        output +=
+          /[a-z]$/i.test(output) || text.startsWith("-") ? text : ` ${text}`;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Parse a `style` attribute into `property:value` declarations, normalised
+ * so equivalent styles compare equal.
+ */
+function normalizeStyle(style: string): string {
+  return style
+    .split(";")
+    .map((declaration) => declaration.trim().replace(/\s*:\s*/, ":"))
+    .filter(Boolean)
+    .join(";");
+}
+
+function optimizeElement(
+  element: SvgElement,
+  options: Required<SvgOptimizeOptions>,
+): SvgElement | null {
+  const name = localName(element.name);
+  const attributes: Record<string, string> = {};
+  for (const [attribute, value] of Object.entries(element.attributes)) {
+    const local = attribute.toLowerCase();
+    if (options.precision === false) attributes[attribute] = value;
+    else if (local === "d" && name === "path") {
+      attributes[attribute] = roundPathData(value, options.precision);
+    } else if (NUMERIC_ATTRIBUTES.has(local)) {
+      attributes[attribute] = roundNumbers(value, options.precision);
+    } else {
+      attributes[attribute] = value;
+    }
+  }
+
+  const children: SvgNode[] = [];
+  for (const child of element.children) {
+    if (child.type === "element") {
+      const optimized = optimizeElement(child, options);
+      if (optimized) children.push(optimized);
+    } else if (child.type === "comment") {
+      if (!options.removeComments) children.push(child);
+    } else if (child.value.trim() !== "" || TEXT_ELEMENTS.has(name)) {
+      children.push(child);
+    }
+  }
+
+  if (options.removeEmptyGroups && name === "g" && children.length === 0) {
+    return null;
+  }
+  return { ...element, attributes, children };
+}
+
+/**
+ * Replace `style` attributes used by more than one element with a class
+ * each, defined in a new `<style>` element at the start of the document.
+ *
+ * Skipped when the document already has a stylesheet: class rules are
+ * weaker than inline styles, so existing rules could start to win.
+ */
+function mergeStyles(root: SvgElement): void {
+  const uses = new Map<string, SvgElement[]>();
+  const classNames = new Set<string>();
+  let hasStylesheet = false;
+  walkElements(root, (element) => {
+    if (localName(element.name) === "style") hasStylesheet = true;
+    for (const name of (element.attributes.class ?? "").split(/\s+/)) {
+      if (name) classNames.add(name);
+    }
+    const style = element.attributes.style;
+    if (style === undefined) return;
+    const normalized = normalizeStyle(style);
+    if (!normalized) return;
+    const elements = uses.get(normalized);
+    if (elements) elements.push(element);
+    else uses.set(normalized, [element]);
+  });
+  if (hasStylesheet) return;
+
+  const rules: string[] = [];
+  let next = 0;
+  for (const [style, elements] of uses) {
+    if (elements.length < 2) continue;
+    let className: string;
+    do className = `s${next++}`;
+    while (classNames.has(className));
+    rules.push(`.${className}{${style}}`);
+    for (const element of elements) {
+      const attributes = { ...element.attributes };
+      delete attributes.style;
+      const existing = attributes.class?.trim();
+      attributes.class = existing ? `${existing} ${className}` : className;
+      element.attributes = attributes;
+    }
+  }
+
+  if (rules.length > 0) {
+    root.children.unshift({
+      type: "element",
+      name: "style",
+      attributes: {},
+      children: [{ type: "text", value: rules.join("") }],
+    });
+  }
+}
+
+/**
+ * Shrink an SVG without changing how it renders.
+ *
+ * Rounds coordinates and lengths to `precision` decimal places, moves
+ * `style` attributes shared by several elements into CSS classes (unless
+ * the document has its own `<style>`), removes
+ * empty groups and comments, and drops whitespace between elements.
+ *
+ * @param svg - The SVG markup
+ * @param options - Which steps to run and the precision
+ * @returns The optimized SVG markup
+ * @throws {SvgParseError} When `svg` is not a well-formed SVG document
+ *
+ * @example
+ * ```typescript
+ * const smaller = optimizeSvg(svg, { precision: 2 });
+ * ```
+ */
+export function optimizeSvg(
+  svg: string,
+  options: SvgOptimizeOptions = {},
+): string {
+  return serializeSvg(optimizeTree(parseSvg(svg), options));
+}
+
+/**
+ * {@link optimizeSvg} on a parsed document. Returns a new tree; the input
+ * is not modified.
+ */
+export function optimizeTree(
+  root: SvgElement,
+  options: SvgOptimizeOptions = {},
+): SvgElement {
+  const resolved: Required<SvgOptimizeOptions> = {
+    precision: options.precision ?? DEFAULT_SVG_PRECISION,
+    mergeStyles: options.mergeStyles ?? true,
+    removeEmptyGroups: options.removeEmptyGroups ?? true,
+    removeComments: options.removeComments ?? true,
+  };
+  // The root is an <svg>, never an empty group, so it is always kept
+  const optimized = optimizeElement(root, resolved) as SvgElement;
+  if (resolved.mergeStyles) mergeStyles(optimized);
+  return optimized;
+}
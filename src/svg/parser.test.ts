@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { parseSvg, serializeSvg, SvgParseError } from "./parser";
+
+describe("parseSvg", () => {
+  it("round-trips elements, attributes, text, CDATA and comments", () => {
+    const svg =
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">' +
+      '<!-- c --><text x="1">a &amp; b &#x3c;</text>' +
+      "<style><![CDATA[.a{fill:red}]]></style><path d='M0 0' title=\"&quot;q&quot;\"/></svg>";
+
+    expect(serializeSvg(parseSvg(svg))).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">' +
+        '<!-- c --><text x="1">a &amp; b &lt;</text>' +
+        '<style><![CDATA[.a{fill:red}]]></style><path d="M0 0" title="&quot;q&quot;"/></svg>',
+    );
+  });
+
+  it("drops the XML declaration and DOCTYPE", () => {
+    const root = parseSvg(
+      '<?xml version="1.0"?>\n<!DOCTYPE svg [<!ENTITY x "y">]>\n<svg><g/></svg>\n',
+    );
+    expect(serializeSvg(root)).toBe("<svg><g/></svg>");
+  });
+
+  it("rejects malformed documents", () => {
+    expect(() => parseSvg("<svg><g></svg>")).toThrow(SvgParseError);
+    expect(() => parseSvg("<svg a=1/>")).toThrow("not quoted");
+    expect(() => parseSvg("<html/>")).toThrow("not <svg>");
+    expect(() => parseSvg("<svg/><svg/>")).toThrow("after the root");
+  });
+});
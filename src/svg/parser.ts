@@ -0,0 +1,303 @@
+/**
+ * Minimal XML parser and serializer for SVG documents.
+ *
+ * Pure TypeScript with no DOM dependency, so SVG post-processing runs the
+ * same in Node, browsers and React Native. It understands elements,
+ * attributes, text, CDATA sections and comments; the XML declaration,
+ * `DOCTYPE` (including any internal subset) and processing instructions
+ * are dropped.
+ */
+
+/** An element with its attributes (in source order) and children */
+export interface SvgElement {
+  type: "element";
+  /** Tag name as written, including any namespace prefix */
+  name: string;
+  /** Attribute values, entity-decoded, in source order */
+  attributes: Record<string, string>;
+  children: SvgNode[];
+}
+
+/** Character data: `text` (entity-decoded), `cdata` (verbatim) or a `comment` */
+export interface SvgTextNode {
+  type: "text" | "cdata" | "comment";
+  value: string;
+}
+
+/** A node of a parsed SVG document */
+export type SvgNode = SvgElement | SvgTextNode;
+
+/**
+ * Error thrown when a string is not a well-formed SVG document.
+ *
+ * @extends Error
+ * @property {number} position - Offset in the source where parsing failed
+ */
+export class SvgParseError extends Error {
+  constructor(
+    message: string,
+    /** Offset in the source where parsing failed */
+    public position: number,
+  ) {
+    super(`${message} at position ${position}`);
+    this.name = "SvgParseError";
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/** Decode the predefined XML entities and character references; unknown entities are kept as written */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name) => {
+    const code = name.startsWith("#x")
+      ? parseInt(name.slice(2), 16)
+      : name.startsWith("#")
+        ? parseInt(name.slice(1), 10)
+        : undefined;
+    if (code === undefined) return NAMED_ENTITIES[name] ?? entity;
+    return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+}
+
+const NAME = /[^\s/>=]+/y;
+const WHITESPACE = /\s*/y;
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): SvgElement {
+    let root: SvgElement | undefined;
+    while (this.position < this.source.length) {
+      if (this.startsWith("<") && !this.startsWith("<!--")) {
+        if (this.skipMarkupDeclaration()) continue;
+        if (root) this.fail("Unexpected content after the root element");
+        root = this.element();
+      } else if (this.startsWith("<!--")) {
+        this.comment();
+      } else {
+        const text = this.text();
+        if (text.trim()) this.fail("Unexpected text outside the root element");
+      }
+    }
+    if (!root) this.fail("No root element");
+    if (root.name !== "svg" && !root.name.endsWith(":svg")) {
+      throw new SvgParseError(`Root element is <${root.name}>, not <svg>`, 0);
+    }
+    return root;
+  }
+
+  private fail(message: string): never {
+    throw new SvgParseError(message, this.position);
+  }
+
+  private startsWith(token: string): boolean {
+    return this.source.startsWith(token, this.position);
+  }
+
+  private skipUntil(token: string, message: string): string {
+    const end = this.source.indexOf(token, this.position);
+    if (end === -1) this.fail(message);
+    const content = this.source.slice(this.position, end);
+    this.position = end + token.length;
+    return content;
+  }
+
+  private skipWhitespace(): void {
+    WHITESPACE.lastIndex = this.position;
+    WHITESPACE.test(this.source);
+    this.position = WHITESPACE.lastIndex;
+  }
+
+  private name(): string {
+    NAME.lastIndex = this.position;
+    const match = NAME.exec(this.source);
+    if (!match) this.fail("Expected a name");
+    this.position = NAME.lastIndex;
+    return match[0];
+  }
+
+  /** Skip `<?...?>` and `<!DOCTYPE ...>`; returns whether anything was skipped */
+  private skipMarkupDeclaration(): boolean {
+    if (this.startsWith("<?")) {
+      this.skipUntil("?>", "Unterminated processing instruction");
+      return true;
+    }
+    if (!this.startsWith("<!") || this.startsWith("<![CDATA[")) return false;
+    let depth = 0;
+    for (let i = this.position + 2; i < this.source.length; i++) {
+      const char = this.source[i];
+      if (char === "[") depth++;
+      else if (char === "]") depth--;
+      else if (char === ">" && depth <= 0) {
+        this.position = i + 1;
+        return true;
+      }
+    }
+    return this.fail("Unterminated declaration");
+  }
+
+  private comment(): SvgTextNode {
+    this.position += 4;
+    return {
+      type: "comment",
+      value: this.skipUntil("-->", "Unterminated comment"),
+    };
+  }
+
+  private text(): string {
+    const end = this.source.indexOf("<", this.position);
+    const stop = end === -1 ? this.source.length : end;
+    const text = this.source.slice(this.position, stop);
+    this.position = stop;
+    return text;
+  }
+
+  private attributes(): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (;;) {
+      this.skipWhitespace();
+      if (this.startsWith("/>") || this.startsWith(">")) return attributes;
+      if (this.position >= this.source.length) this.fail("Unterminated tag");
+      const name = this.name();
+      this.skipWhitespace();
+      if (!this.startsWith("=")) this.fail(`Attribute ${name} has no value`);
+      this.position++;
+      this.skipWhitespace();
+      const quote = this.source[this.position];
+      if (quote !== '"' && quote !== "'") {
+        this.fail(`Attribute ${name} is not quoted`);
+      }
+      this.position++;
+      const value = this.skipUntil(quote, "Unterminated attribute value");
+      if (Object.prototype.hasOwnProperty.call(attributes, name)) {
+        this.fail(`Duplicate attribute ${name}`);
+      }
+      attributes[name] = decodeEntities(value);
+    }
+  }
+
+  private element(): SvgElement {
+    this.position++;
+    const name = this.name();
+    const element: SvgElement = {
+      type: "element",
+      name,
+      attributes: this.attributes(),
+      children: [],
+    };
+    if (this.startsWith("/>")) {
+      this.position += 2;
+      return element;
+    }
+    this.position++;
+
+    for (;;) {
+      if (this.position >= this.source.length) {
+        this.fail(`Unclosed element <${name}>`);
+      }
+      if (this.startsWith("</")) {
+        this.position += 2;
+        const closing = this.name();
+        if (closing !== name) {
+          this.fail(`Expected </${name}> but found </${closing}>`);
+        }
+        this.skipWhitespace();
+        if (!this.startsWith(">")) this.fail("Expected >");
+        this.position++;
+        return element;
+      }
+      if (this.startsWith("<!--")) {
+        element.children.push(this.comment());
+      } else if (this.startsWith("<![CDATA[")) {
+        this.position += 9;
+        element.children.push({
+          type: "cdata",
+          value: this.skipUntil("]]>", "Unterminated CDATA section"),
+        });
+      } else if (this.startsWith("<")) {
+        if (!this.skipMarkupDeclaration()) {
+          element.children.push(this.element());
+        }
+      } else {
+        element.children.push({
+          type: "text",
+          value: decodeEntities(this.text()),
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Parse an SVG document.
+ *
+ * @param svg - The SVG markup
+ * @returns The root `<svg>` element
+ * @throws {SvgParseError} When the markup is malformed or its root is not `<svg>`
+ */
+export function parseSvg(svg: string): SvgElement {
+  return new Parser(svg.replace(/^\uFEFF/, "")).parse();
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, "&quot;");
+}
+
+function serializeNode(node: SvgNode): string {
+  switch (node.type) {
+    case "text":
+      return escapeText(node.value);
+    case "cdata":
+      return `<![CDATA[${node.value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+    case "comment":
+      return `<!--${node.value}-->`;
+    case "element": {
+      const attributes = Object.entries(node.attributes)
+        .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+        .join("");
+      if (node.children.length === 0) return `<${node.name}${attributes}/>`;
+      const children = node.children.map(serializeNode).join("");
+      return `<${node.name}${attributes}>${children}</${node.name}>`;
+    }
+  }
+}
+
+/**
+ * Serialize a parsed SVG element back to markup.
+ *
+ * @param root - The element to serialize (usually from {@link parseSvg})
+ */
+export function serializeSvg(root: SvgElement): string {
+  return serializeNode(root);
+}
+
+/** Local name of an element or attribute, without namespace prefix, lower-cased */
+export function localName(name: string): string {
+  return name.slice(name.indexOf(":") + 1).toLowerCase();
+}
+
+/** Call `visit` for `root` and every element below it, parents first */
+export function walkElements(
+  root: SvgElement,
+  visit: (element: SvgElement) => void,
+): void {
+  visit(root);
+  for (const child of root.children) {
+    if (child.type === "element") walkElements(child, visit);
+  }
+}
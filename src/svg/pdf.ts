@@ -0,0 +1,100 @@
+import type { RgbaImage } from "../utils/png";
+import { zlibDeflate } from "../utils/zlib";
+import type { SvgSize } from "./raster";
+
+/** PDF points per CSS pixel (72 pt per inch, 96 px per inch) */
+const POINTS_PER_PIXEL = 72 / 96;
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Write a single-page PDF showing an image.
+ *
+ * The page has the given size and the image fills it; transparency is kept
+ * through a soft mask. Pixel data is compressed with `FlateDecode`.
+ *
+ * @param image - The pixels to show
+ * @param pageSize - Page size in CSS pixels (converted to points)
+ * @returns The PDF file
+ */
+export function encodePdf(image: RgbaImage, pageSize: SvgSize): Uint8Array {
+  const pixels = image.width * image.height;
+  const rgb = new Uint8Array(pixels * 3);
+  const alpha = new Uint8Array(pixels);
+  let opaque = true;
+  for (let i = 0; i < pixels; i++) {
+    rgb[i * 3] = image.data[i * 4] as number;
+    rgb[i * 3 + 1] = image.data[i * 4 + 1] as number;
+    rgb[i * 3 + 2] = image.data[i * 4 + 2] as number;
+    alpha[i] = image.data[i * 4 + 3] as number;
+    if (alpha[i] !== 255) opaque = false;
+  }
+
+  const width = formatNumber(pageSize.width * POINTS_PER_PIXEL);
+  const height = formatNumber(pageSize.height * POINTS_PER_PIXEL);
+  const imageDictionary = (colorSpace: string, extra = "") =>
+    `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+    `/ColorSpace /${colorSpace} /BitsPerComponent 8 /Filter /FlateDecode${extra}`;
+  const content = new TextEncoder().encode(
+    `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`,
+  );
+
+  // Objects in order: dictionary entries, and the stream for stream objects
+  const objects: Array<[string, Uint8Array?]> = [
+    ["/Type /Catalog /Pages 2 0 R"],
+    ["/Type /Pages /Kids [3 0 R] /Count 1"],
+    [
+      `/Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        "/Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R",
+    ],
+    ["", content],
+    [
+      imageDictionary("DeviceRGB", opaque ? "" : " /SMask 6 0 R"),
+      zlibDeflate(rgb),
+    ],
+  ];
+  if (!opaque)
+    objects.push([imageDictionary("DeviceGray"), zlibDeflate(alpha)]);
+
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part;
+    parts.push(bytes);
+    size += bytes.length;
+  };
+
+  write("%PDF-1.4\n");
+  const offsets: number[] = [];
+  objects.forEach(([dictionary, stream], index) => {
+    offsets.push(size);
+    write(`${index + 1} 0 obj\n`);
+    if (stream) {
+      write(`<< ${dictionary} /Length ${stream.length} >>\nstream\n`);
+      write(stream);
+      write("\nendstream\nendobj\n");
+    } else {
+      write(`<< ${dictionary} >>\nendobj\n`);
+    }
+  });
+
+  const xref = size;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  for (const offset of offsets) {
+    write(`${String(offset).padStart(10, "0")} 00000 n \n`);
+  }
+  write(
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`,
+  );
+
+  const pdf = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    pdf.set(part, offset);
+    offset += part.length;
+  }
+  return pdf;
+}
@@ -0,0 +1,38 @@
+import { optimizeTree, type SvgOptimizeOptions } from "./optimize";
+import { parseSvg, serializeSvg } from "./parser";
+import { sanitizeTree, type SvgSanitizeOptions } from "./sanitize";
+
+/**
+ * Post-processing steps for {@link processSvg} and
+ * {@link SvgrClient.fetchSvg}. Pass `true` for the defaults or an options
+ * object.
+ *
+ * @interface SvgProcessOptions
+ * @property {boolean | SvgSanitizeOptions} [sanitize] - Remove scripts, event handlers and external references
+ * @property {boolean | SvgOptimizeOptions} [optimize] - Round numbers, merge styles and remove empty groups
+ */
+export interface SvgProcessOptions {
+  /** Remove scripts, event handlers and external references */
+  sanitize?: boolean | SvgSanitizeOptions;
+  /** Round numbers, merge styles and remove empty groups */
+  optimize?: boolean | SvgOptimizeOptions;
+}
+
+/**
+ * Sanitize and/or optimize an SVG in one pass over a single parse.
+ * Sanitizing runs first. Returns `svg` untouched when no step is enabled.
+ *
+ * @param svg - The SVG markup
+ * @param options - The steps to run
+ * @throws {SvgParseError} When a step is enabled and `svg` is not a well-formed SVG document
+ */
+export function processSvg(
+  svg: string,
+  { sanitize, optimize }: SvgProcessOptions,
+): string {
+  if (!sanitize && !optimize) return svg;
+  let root = parseSvg(svg);
+  if (sanitize) root = sanitizeTree(root, sanitize === true ? {} : sanitize);
+  if (optimize) root = optimizeTree(root, optimize === true ? {} : optimize);
+  return serializeSvg(root);
+}
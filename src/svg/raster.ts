@@ -0,0 +1,159 @@
+import type { RgbaImage } from "../utils/png";
+import { parseSvg, type SvgElement } from "./parser";
+
+/**
+ * Renders SVG markup to pixels. Implement it to rasterize where there is
+ * no canvas (Node, React Native), e.g. with resvg or a pure-JS renderer.
+ *
+ * @interface SvgRasterizer
+ */
+export interface SvgRasterizer {
+  /**
+   * Render `svg` scaled to fill `width` × `height` pixels.
+   *
+   * @param svg - The SVG markup
+   * @param size - The output size in pixels
+   * @returns The rendered pixels, `width` × `height`
+   */
+  rasterize(
+    svg: string,
+    size: { width: number; height: number },
+  ): Promise<RgbaImage>;
+}
+
+/**
+ * The intrinsic size of an SVG in CSS pixels.
+ *
+ * @interface SvgSize
+ * @property {number} width - Width in CSS pixels
+ * @property {number} height - Height in CSS pixels
+ */
+export interface SvgSize {
+  /** Width in CSS pixels */
+  width: number;
+  /** Height in CSS pixels */
+  height: number;
+}
+
+/** CSS pixels per unit of absolute length */
+const UNITS: Record<string, number> = {
+  "": 1,
+  px: 1,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+  pt: 96 / 72,
+  pc: 16,
+};
+
+/** Size used by browsers for SVGs without a usable size or `viewBox` */
+const DEFAULT_SIZE: SvgSize = { width: 300, height: 150 };
+
+/** Parse an absolute length such as `24`, `24px` or `10mm`; percentages and `em` give `undefined` */
+function parseLength(value: string | undefined): number | undefined {
+  const match = /^\s*([\d.]+(?:e[-+]?\d+)?)\s*([a-z]*)\s*$/i.exec(value ?? "");
+  const factor = match ? UNITS[(match[2] ?? "").toLowerCase()] : undefined;
+  if (!match || factor === undefined) return undefined;
+  const length = parseFloat(match[1] as string) * factor;
+  return length > 0 ? length : undefined;
+}
+
+/**
+ * The intrinsic size of an SVG: its `width` and `height`, with the
+ * `viewBox` aspect ratio filling in a missing one, or the `viewBox` size
+ * when neither is set. Falls back to 300 × 150 like browsers do.
+ *
+ * @param svg - The SVG markup or its parsed root element
+ */
+export function getSvgSize(svg: string | SvgElement): SvgSize {
+  const root = typeof svg === "string" ? parseSvg(svg) : svg;
+  const width = parseLength(root.attributes.width);
+  const height = parseLength(root.attributes.height);
+  const [, , boxWidth, boxHeight] = (root.attributes.viewBox ?? "")
+    .trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  const ratio =
+    boxWidth && boxHeight && boxWidth > 0 && boxHeight > 0
+      ? boxWidth / boxHeight
+      : undefined;
+
+  if (width && height) return { width, height };
+  if (width && ratio) return { width, height: width / ratio };
+  if (height && ratio) return { width: height * ratio, height };
+  if (ratio) return { width: boxWidth as number, height: boxHeight as number };
+  return DEFAULT_SIZE;
+}
+
+/**
+ * Rasterizer for browsers: draws the SVG as an image onto a canvas.
+ *
+ * @example
+ * ```typescript
+ * if (CanvasSvgRasterizer.isSupported()) {
+ *   const rasterizer = new CanvasSvgRasterizer();
+ * }
+ * ```
+ */
+export class CanvasSvgRasterizer implements SvgRasterizer {
+  /** Whether the environment has `<canvas>`, `Image` and object URLs */
+  static isSupported(): boolean {
+    return (
+      typeof document !== "undefined" &&
+      typeof Image !== "undefined" &&
+      typeof URL.createObjectURL === "function"
+    );
+  }
+
+  async rasterize(
+    svg: string,
+    { width, height }: { width: number; height: number },
+  ): Promise<RgbaImage> {
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    try {
+      const image = new globalThis.Image();
+      await new Promise<void>((resolve, reject) => {
+        image.onload = () => resolve();
+        image.onerror = () => reject(new Error("The SVG could not be drawn"));
+        image.src = url;
+      });
+      const canvas = globalThis.document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext("2d");
+      if (!context) throw new Error("Canvas 2D context is not available");
+      context.drawImage(image, 0, 0, width, height);
+      const { data } = context.getImageData(0, 0, width, height);
+      return {
+        width,
+        height,
+        data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+      };
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
+
+/**
+ * Render an SVG at `scale` times its intrinsic size (see {@link getSvgSize}).
+ *
+ * @param svg - The SVG markup
+ * @param scale - Output pixels per CSS pixel
+ * @param rasterizer - The renderer to use
+ * @throws {RangeError} When `scale` is not a positive number
+ */
+export async function rasterizeSvg(
+  svg: string,
+  scale: number,
+  rasterizer: SvgRasterizer,
+): Promise<RgbaImage> {
+  if (!(scale > 0) || !Number.isFinite(scale)) {
+    throw new RangeError(`scale must be a positive number, got ${scale}`);
+  }
+  const size = getSvgSize(svg);
+  return rasterizer.rasterize(svg, {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  });
+}
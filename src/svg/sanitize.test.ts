@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { sanitizeCss, sanitizeSvg } from "./sanitize";
+
+describe("sanitizeSvg", () => {
+  it("removes scripts, embedded documents and event handlers", () => {
+    const svg =
+      '<svg onload="alert(1)"><script>alert(2)</script>' +
+      "<foreignObject><div/></foreignObject>" +
+      '<path d="M0 0" onClick="alert(3)" fill="red"/></svg>';
+
+    expect(sanitizeSvg(svg)).toBe('<svg><path d="M0 0" fill="red"/></svg>');
+  });
+
+  it("keeps fragment links and removes external references", () => {
+    const svg =
+      '<svg xmlns:xlink="http://www.w3.org/1999/xlink">' +
+      '<use href="#a"/><use xlink:href=" javascript:alert(1)"/>' +
+      '<a href="https://example.com"><rect fill="url(https://x/y.svg#p)" stroke="url(#g)"/></a>' +
+      '<image href="data:image/png;base64,AAAA"/></svg>';
+
+    expect(sanitizeSvg(svg)).toBe(
+      '<svg xmlns:xlink="http://www.w3.org/1999/xlink">' +
+        '<use href="#a"/><use/>' +
+        '<a><rect fill="none" stroke="url(#g)"/></a><image/></svg>',
+    );
+    expect(sanitizeSvg(svg, { allowDataImages: true })).toContain(
+      '<image href="data:image/png;base64,AAAA"/>',
+    );
+  });
+
+  it("neutralises styles and animations that load or run code", () => {
+    const svg =
+      "<svg><style>@import url(https://x/a.css);.a{background:url('//x/b.png')}</style>" +
+      '<rect style="fill:url(http://x/c)"/>' +
+      '<set attributeName="href" to="javascript:alert(1)"/>' +
+      '<animate attributeName="opacity" to="0"/></svg>';
+
+    expect(sanitizeSvg(svg)).toBe(
+      "<svg><style>.a{background:none}</style>" +
+        '<rect style="fill:none"/>' +
+        '<animate attributeName="opacity" to="0"/></svg>',
+    );
+  });
+
+  it("drops comments that an HTML parser would end early", () => {
+    const svg = "<svg><!-- --!><img src=x onerror=alert(1)> --><path/></svg>";
+
+    expect(sanitizeSvg(svg)).toBe("<svg><path/></svg>");
+  });
+
+  it("writes CDATA sections out as escaped text", () => {
+    const breakout = "</style><img src=x onerror=alert(1)>";
+    const svg =
+      `<svg><style><![CDATA[${breakout}]]></style>` +
+      `<desc><![CDATA[${breakout}]]></desc></svg>`;
+
+    const sanitized = sanitizeSvg(svg);
+
+    expect(sanitized).not.toContain("<img");
+    expect(sanitized).not.toContain("CDATA");
+    expect(sanitized).toBe(
+      "<svg><style>&lt;/style&gt;&lt;img src=x onerror=alert(1)&gt;</style>" +
+        "<desc>&lt;/style&gt;&lt;img src=x onerror=alert(1)&gt;</desc></svg>",
+    );
+  });
+
+  it("removes HTML elements, which make an HTML parser leave SVG", () => {
+    const svg =
+      '<svg><p><form action="javascript:alert(1)"><button>Open</button></form></p>' +
+      '<g><button formaction="javascript:alert(2)">Go</button>' +
+      '<img srcset="http://evil/x.png 1x"/></g></svg>';
+
+    expect(sanitizeSvg(svg)).toBe("<svg><g/></svg>");
+  });
+
+  it("drops attributes that are not SVG attributes", () => {
+    const svg =
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1">' +
+      '<rect formaction="javascript:alert(1)" srcset="http://evil/x" ' +
+      'aria-label="Box" width="1"/></svg>';
+
+    expect(sanitizeSvg(svg)).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1">' +
+        '<rect aria-label="Box" width="1"/></svg>',
+    );
+  });
+
+  it("decodes CSS escapes and comments before checking styles", () => {
+    const svg =
+      '<svg><style>a{background:\\75 rl(http://evil/x)}@im\\port "http://e";</style>' +
+      '<rect style="fill:u\\72l(http://evil/y)" stroke="/* x */u\\72l(http://evil/z)"/></svg>';
+
+    const sanitized = sanitizeSvg(svg);
+
+    expect(sanitized).not.toContain("evil");
+    expect(sanitized).not.toContain("http://e");
+    expect(sanitized).toBe(
+      '<svg><style>a{background:none}</style><rect style="fill:none" stroke=" none"/></svg>',
+    );
+  });
+
+  it("leaves CSS without external references unchanged", () => {
+    expect(sanitizeCss('.a{content:"\\201C"}/* note */')).toBe(
+      '.a{content:"\\201C"}/* note */',
+    );
+    expect(sanitizeCss("@im\\port 'x.css';.a{fill:url(#g)}")).toBe(
+      ".a{fill:url(#g)}",
+    );
+  });
+});
@@ -0,0 +1,249 @@
+import {
+  localName,
+  parseSvg,
+  serializeSvg,
+  type SvgElement,
+  type SvgNode,
+} from "./parser";
+
+/**
+ * Options for {@link sanitizeSvg}.
+ *
+ * @interface SvgSanitizeOptions
+ * @property {boolean} [allowDataImages] - Keep `<image>` elements with inline PNG, JPEG, GIF or WebP `data:` URLs (default: false)
+ */
+export interface SvgSanitizeOptions {
+  /** Keep `<image>` elements with inline PNG, JPEG, GIF or WebP `data:` URLs (default: false) */
+  allowDataImages?: boolean;
+}
+
+/**
+ * SVG elements that are kept (lowercased local names). Anything else is
+ * removed with its content: scripts, `<foreignObject>`, and HTML elements,
+ * which make an HTML parser leave SVG parsing.
+ */
+const SVG_ELEMENTS = new Set(
+  `a animate animatemotion animatetransform circle clippath defs desc ellipse
+  feblend fecolormatrix fecomponenttransfer fecomposite feconvolvematrix
+  fediffuselighting fedisplacementmap fedistantlight fedropshadow feflood
+  fefunca fefuncb fefuncg fefuncr fegaussianblur feimage femerge femergenode
+  femorphology feoffset fepointlight fespecularlighting fespotlight fetile
+  feturbulence filter g image line lineargradient marker mask metadata mpath
+  path pattern polygon polyline radialgradient rect set stop style svg switch
+  symbol text textpath title tspan use view`.split(/\s+/),
+);
+
+/**
+ * SVG attributes that are kept (lowercased local names), besides `xmlns`
+ * declarations and `aria-*`/`data-*`. `href` is kept only for the
+ * references {@link isSafeReference} allows.
+ */
+const SVG_ATTRIBUTES = new Set(
+  `accumulate additive alignment-baseline amplitude attributename
+  attributetype azimuth basefrequency baseline-shift baseprofile begin bias
+  by calcmode class clip clip-path clip-rule clippathunits color
+  color-interpolation color-interpolation-filters color-rendering cx cy d
+  diffuseconstant direction display divisor dominant-baseline dur dx dy
+  edgemode elevation end exponent fill fill-opacity fill-rule filter
+  filterunits flood-color flood-opacity font-family font-size
+  font-size-adjust font-stretch font-style font-variant font-weight fr from
+  fx fy gradienttransform gradientunits height href id image-rendering in in2
+  intercept isolation k1 k2 k3 k4 kernelmatrix kernelunitlength keypoints
+  keysplines keytimes lang lengthadjust letter-spacing lighting-color
+  limitingconeangle marker-end marker-mid marker-start markerheight
+  markerunits markerwidth mask maskcontentunits maskunits max method min
+  mix-blend-mode mode numoctaves offset opacity operator order orient
+  overflow paint-order path pathlength patterncontentunits patterntransform
+  patternunits points pointsatx pointsaty pointsatz preservealpha
+  preserveaspectratio primitiveunits r radius refx refy repeatcount
+  repeatdur requiredextensions requiredfeatures restart result role rotate
+  rx ry scale seed shape-rendering side slope space spacing
+  specularconstant specularexponent spreadmethod startoffset stddeviation
+  stitchtiles stop-color stop-opacity stroke stroke-dasharray
+  stroke-dashoffset stroke-linecap stroke-linejoin stroke-miterlimit
+  stroke-opacity stroke-width style surfacescale systemlanguage tablevalues
+  targetx targety text-anchor text-decoration text-rendering textlength to
+  transform transform-origin type unicode-bidi values vector-effect version
+  viewbox visibility width word-spacing writing-mode x x1 x2
+  xchannelselector y y1 y2 ychannelselector z`.split(/\s+/),
+);
+
+/** Animation elements, which can set `href` or event handler attributes */
+const ANIMATION_ELEMENTS = new Set(["animate", "set"]);
+
+const DATA_IMAGE = /^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=\s]*$/i;
+
+/** CSS that can load or run something once escapes and comments are decoded */
+const UNSAFE_CSS = /url\s*\(|@import|expression/i;
+
+/** Characters that have to stay escaped in CSS to keep their meaning */
+const CSS_SYNTAX_CHARACTERS = /["'\\\n\r\f]/;
+
+/** Whether an attribute name is an event handler or a link */
+function isUnsafeAttributeName(name: string): boolean {
+  const local = localName(name);
+  return local.startsWith("on") || local === "href" || local === "src";
+}
+
+function isAllowedAttribute(name: string): boolean {
+  if (name === "xmlns" || name.startsWith("xmlns:")) return true;
+  const local = localName(name);
+  return (
+    SVG_ATTRIBUTES.has(local) ||
+    local.startsWith("aria-") ||
+    local.startsWith("data-")
+  );
+}
+
+/** Decode one CSS escape, keeping it when the character is CSS syntax */
+function decodeCssEscape(
+  escape: string,
+  hex: string | undefined,
+  character: string | undefined,
+): string {
+  let decoded = character ?? "";
+  if (hex !== undefined) {
+    const code = parseInt(hex, 16);
+    decoded =
+      code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)
+        ? "\ufffd"
+        : String.fromCodePoint(code);
+  }
+  return CSS_SYNTAX_CHARACTERS.test(decoded) ? escape : decoded;
+}
+
+/**
+ * Replace CSS comments with a space and decode escapes (`\75 rl(` is
+ * `url(`), so that checks see what the browser sees.
+ */
+function decodeCss(css: string): string {
+  return css
+    .replace(/\/\*[\s\S]*?(\*\/|$)/g, " ")
+    .replace(
+      /\\(?:([0-9a-f]{1,6})[ \t\n\r\f]?|([^\n\r\f0-9a-f]))/gi,
+      decodeCssEscape,
+    );
+}
+
+/**
+ * Neutralise CSS that loads or runs anything: drops `@import` rules and
+ * `expression(...)`, and replaces `url(...)` references to anything but a
+ * fragment of the same document (`url(#id)`) with `none`. Escapes and
+ * comments are decoded first, so `\75 rl(...)` and `@im\port` are caught
+ * too; CSS without such references is returned unchanged.
+ */
+export function sanitizeCss(css: string): string {
+  const decoded = decodeCss(css);
+  if (!UNSAFE_CSS.test(decoded)) return css;
+  return decoded
+    .replace(/@import[^;]*;?/gi, "")
+    .replace(/expression\s*\(/gi, "(")
+    .replace(/url\s*\(\s*(['"]?)(.*?)\1\s*\)/gi, (match, _quote, target) =>
+      String(target).trim().startsWith("#") ? match : "none",
+    );
+}
+
+function isSafeReference(
+  element: SvgElement,
+  attribute: string,
+  value: string,
+  options: SvgSanitizeOptions,
+): boolean {
+  if (localName(attribute) !== "href") return false;
+  if (value.trim().startsWith("#")) return true;
+  return (
+    !!options.allowDataImages &&
+    localName(element.name) === "image" &&
+    DATA_IMAGE.test(value.trim())
+  );
+}
+
+function sanitizeElement(
+  element: SvgElement,
+  options: SvgSanitizeOptions,
+): SvgElement | null {
+  const name = localName(element.name);
+  if (!SVG_ELEMENTS.has(name)) return null;
+  if (
+    ANIMATION_ELEMENTS.has(name) &&
+    isUnsafeAttributeName(element.attributes.attributeName ?? "")
+  ) {
+    return null;
+  }
+
+  const attributes: Record<string, string> = {};
+  for (const [attribute, value] of Object.entries(element.attributes)) {
+    if (
+      !isAllowedAttribute(attribute) ||
+      (isUnsafeAttributeName(attribute) &&
+        !isSafeReference(element, attribute, value, options))
+    ) {
+      continue;
+    }
+    attributes[attribute] = sanitizeCss(value);
+  }
+
+  const children: SvgNode[] = [];
+  for (const child of element.children) {
+    // Comments and CDATA are written out verbatim, and an HTML parser ends
+    // them early (`--!>`, `</style>`); drop comments and keep CDATA as text,
+    // which is escaped
+    if (child.type === "comment") continue;
+    if (child.type === "element") {
+      const sanitized = sanitizeElement(child, options);
+      if (sanitized) children.push(sanitized);
+    } else {
+      children.push({
+        type: "text",
+        value: name === "style" ? sanitizeCss(child.value) : child.value,
+      });
+    }
+  }
+  return { ...element, attributes, children };
+}
+
+/**
+ * Make an SVG safe to insert into a page.
+ *
+ * Keeps only known SVG elements and attributes, so scripts,
+ * `<foreignObject>`, HTML elements and event handler attributes (`on*`) are
+ * removed. Also removes references to anything outside the document:
+ * `href`/`xlink:href` except `#fragment` links, `url(...)` in attributes
+ * and styles except `url(#id)`, and CSS `@import`, after decoding CSS
+ * escapes and comments. Animations that target `href` or event handlers
+ * are removed as well. Comments are dropped and CDATA sections become
+ * escaped text.
+ *
+ * @param svg - The SVG markup
+ * @param options - Sanitizer options
+ * @returns The sanitized SVG markup
+ * @throws {SvgParseError} When `svg` is not a well-formed SVG document
+ *
+ * @example
+ * ```typescript
+ * const doc = new DOMParser().parseFromString(
+ *   sanitizeSvg(untrustedSvg),
+ *   "image/svg+xml",
+ * );
+ * container.replaceChildren(doc.documentElement);
+ * ```
+ */
+export function sanitizeSvg(
+  svg: string,
+  options: SvgSanitizeOptions = {},
+): string {
+  return serializeSvg(sanitizeTree(parseSvg(svg), options));
+}
+
+/**
+ * {@link sanitizeSvg} on a parsed document. Returns a new tree; the input
+ * is not modified.
+ */
+export function sanitizeTree(
+  root: SvgElement,
+  options: SvgSanitizeOptions = {},
+): SvgElement {
+  return (
+    sanitizeElement(root, options) ?? { ...root, attributes: {}, children: [] }
+  );
+}
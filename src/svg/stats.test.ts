@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { getSvgStats, normalizeColor } from "./stats";
+
+describe("getSvgStats", () => {
+  it("counts bytes, elements, paths and colours", () => {
+    const svg =
+      '<svg viewBox="0 0 10 10"><g fill="#F00"><path d="M0 0"/>' +
+      '<path d="M1 1" style="fill: rgb(0, 0, 255)" stroke="red"/></g>' +
+      '<path d="M2 2" fill="#ff0000" stroke="none"/><text>é</text></svg>';
+
+    expect(getSvgStats(svg)).toEqual({
+      byteSize: svg.length + 1,
+      nodeCount: 6,
+      pathCount: 3,
+      elementCounts: { svg: 1, g: 1, path: 3, text: 1 },
+      palette: [
+        { color: "#ff0000", count: 2 },
+        { color: "red", count: 1 },
+        { color: "#0000ff", count: 1 },
+      ],
+      viewBox: "0 0 10 10",
+    });
+  });
+
+  it("normalises colour notations", () => {
+    expect(normalizeColor("#AbC")).toBe("#aabbcc");
+    expect(normalizeColor("#11223380")).toBe("#112233");
+    expect(normalizeColor("rgba(100%, 0%, 50%, 0.5)")).toBe("#ff0080");
+    expect(normalizeColor("currentColor")).toBeUndefined();
+    expect(normalizeColor("url(#g)")).toBeUndefined();
+  });
+});
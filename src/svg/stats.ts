@@ -0,0 +1,154 @@
+import { localName, parseSvg, type SvgElement, walkElements } from "./parser";
+
+/**
+ * A colour used by an SVG and how often it appears.
+ *
+ * @interface SvgColorUsage
+ * @property {string} color - The colour as lower-case `#rrggbb` (named colours are kept by name)
+ * @property {number} count - Number of `fill`, `stroke` and `stop-color` uses
+ */
+export interface SvgColorUsage {
+  /** The colour as lower-case `#rrggbb` (named colours are kept by name) */
+  color: string;
+  /** Number of `fill`, `stroke` and `stop-color` uses */
+  count: number;
+}
+
+/**
+ * Size and complexity figures for an SVG, from {@link getSvgStats}.
+ *
+ * @interface SvgStats
+ * @property {number} byteSize - Size of the markup in UTF-8 bytes
+ * @property {number} nodeCount - Number of elements, including the root
+ * @property {number} pathCount - Number of `<path>` elements
+ * @property {Record<string, number>} elementCounts - Number of elements per tag name
+ * @property {SvgColorUsage[]} palette - Colours used, most used first
+ * @property {string} [viewBox] - The root's `viewBox`, when set
+ */
+export interface SvgStats {
+  /** Size of the markup in UTF-8 bytes */
+  byteSize: number;
+  /** Number of elements, including the root */
+  nodeCount: number;
+  /** Number of `<path>` elements */
+  pathCount: number;
+  /** Number of elements per tag name */
+  elementCounts: Record<string, number>;
+  /** Colours used, most used first */
+  palette: SvgColorUsage[];
+  /** The root's `viewBox`, when set */
+  viewBox?: string;
+}
+
+/** Paint values that are not colours */
+const NOT_COLORS = new Set([
+  "none",
+  "transparent",
+  "currentcolor",
+  "inherit",
+  "initial",
+  "unset",
+]);
+
+const COLOR_PROPERTIES = new Set(["fill", "stroke", "stop-color"]);
+
+function toHex(channel: number): string {
+  return Math.round(Math.min(255, Math.max(0, channel)))
+    .toString(16)
+    .padStart(2, "0");
+}
+
+/**
+ * Normalise a paint value to lower-case `#rrggbb`.
+ *
+ * Accepts `#rgb`, `#rrggbb` (alpha in `#rgba`/`#rrggbbaa` is dropped),
+ * `rgb()`/`rgba()` with numbers or percentages, and colour names, which are
+ * returned lower-cased. Returns `undefined` for `none`, `currentColor`,
+ * `url(...)` references and other values that are not colours.
+ *
+ * @param value - An attribute or CSS value
+ */
+export function normalizeColor(value: string): string | undefined {
+  const color = value.trim().toLowerCase();
+  if (!color || NOT_COLORS.has(color) || color.startsWith("url(")) {
+    return undefined;
+  }
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(color)?.[1];
+  if (hex) {
+    return hex.length <= 4
+      ? `#${[...hex.slice(0, 3)].map((digit) => digit + digit).join("")}`
+      : `#${hex.slice(0, 6)}`;
+  }
+  const rgb = /^rgba?\(([^)]*)\)$/.exec(color)?.[1];
+  if (rgb) {
+    const channels = rgb
+      .split(/[\s,/]+/)
+      .filter(Boolean)
+      .slice(0, 3)
+      .map((channel) =>
+        channel.endsWith("%")
+          ? (parseFloat(channel) / 100) * 255
+          : parseFloat(channel),
+      );
+    if (channels.length < 3 || channels.some(Number.isNaN)) return undefined;
+    return `#${channels.map(toHex).join("")}`;
+  }
+  return /^[a-z]+$/.test(color) ? color : undefined;
+}
+
+/** Colour values set on an element by presentation attributes and its `style` */
+function elementColors(element: SvgElement): string[] {
+  const values: string[] = [];
+  for (const [attribute, value] of Object.entries(element.attributes)) {
+    if (COLOR_PROPERTIES.has(localName(attribute))) values.push(value);
+  }
+  for (const declaration of (element.attributes.style ?? "").split(";")) {
+    const [property = "", value = ""] = declaration.split(":");
+    if (COLOR_PROPERTIES.has(property.trim().toLowerCase())) {
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Measure an SVG: byte size, element counts and colour palette.
+ *
+ * @param svg - The SVG markup
+ * @returns The figures
+ * @throws {SvgParseError} When `svg` is not a well-formed SVG document
+ *
+ * @example
+ * ```typescript
+ * const { pathCount, palette } = getSvgStats(svg);
+ * console.log(`${pathCount} paths in ${palette.length} colours`);
+ * ```
+ */
+export function getSvgStats(svg: string): SvgStats {
+  const root = parseSvg(svg);
+  const elementCounts: Record<string, number> = {};
+  const colors = new Map<string, number>();
+  let nodeCount = 0;
+
+  walkElements(root, (element) => {
+    nodeCount++;
+    elementCounts[element.name] = (elementCounts[element.name] ?? 0) + 1;
+    for (const value of elementColors(element)) {
+      const color = normalizeColor(value);
+      if (color) colors.set(color, (colors.get(color) ?? 0) + 1);
+    }
+  });
+
+  const palette = [...colors]
+    .map(([color, count]) => ({ color, count }))
+    .sort((a, b) => b.count - a.count);
+  const viewBox = root.attributes.viewBox;
+  return {
+    byteSize: new TextEncoder().encode(svg).length,
+    nodeCount,
+    pathCount: elementCounts.path ?? 0,
+    elementCounts,
+    palette,
+    ...(viewBox !== undefined && { viewBox }),
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Wait for `ms` milliseconds, rejecting early with the signal's reason when
+ * the signal is aborted.
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that cancels the wait
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeBase64,
+  detectImageMimeType,
+  encodeBase64,
+  toUint8Array,
+} from "./binary";
+
+describe("encodeBase64 / decodeBase64", () => {
+  it("matches Buffer encoding for every padding length", () => {
+    for (const text of ["", "a", "ab", "abc", "hello world"]) {
+      const bytes = new TextEncoder().encode(text);
+      const encoded = encodeBase64(bytes);
+      expect(encoded).toBe(Buffer.from(text).toString("base64"));
+      expect(new TextDecoder().decode(decodeBase64(encoded))).toBe(text);
+    }
+  });
+});
+
+describe("detectImageMimeType", () => {
+  it("detects supported formats from magic bytes", () => {
+    const webp = new Uint8Array([
+      0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x45, 0x42, 0x50,
+    ]);
+    expect(
+      detectImageMimeType(
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      ),
+    ).toBe("image/png");
+    expect(detectImageMimeType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe(
+      "image/jpeg",
+    );
+    expect(detectImageMimeType(new TextEncoder().encode("GIF89a"))).toBe(
+      "image/gif",
+    );
+    expect(detectImageMimeType(webp)).toBe("image/webp");
+    expect(detectImageMimeType(new TextEncoder().encode("BM"))).toBe(
+      "image/bmp",
+    );
+  });
+
+  it("returns null for unknown formats", () => {
+    expect(detectImageMimeType(new TextEncoder().encode("<svg"))).toBeNull();
+  });
+});
+
+describe("toUint8Array", () => {
+  it("accepts Blob, ArrayBuffer and Uint8Array", async () => {
+    const bytes = new Uint8Array([1, 2, 3]);
+    expect(await toUint8Array(bytes)).toBe(bytes);
+    expect(await toUint8Array(bytes.buffer)).toEqual(bytes);
+    expect(await toUint8Array(new Blob([bytes]))).toEqual(bytes);
+  });
+});
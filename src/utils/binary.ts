@@ -0,0 +1,122 @@
+/**
+ * Platform-agnostic binary helpers.
+ *
+ * Implemented in plain TypeScript (no `btoa`, `Buffer` or `FileReader`
+ * dependency for the encoding itself) so they behave identically in
+ * browsers, React Native and Node.
+ */
+
+/** Binary image input accepted by the file-based client methods */
+export type BinaryInput = Blob | ArrayBuffer | Uint8Array;
+
+/** Raster image MIME types the SVGR API accepts */
+export type RasterMimeType =
+  "image/png" | "image/jpeg" | "image/gif" | "image/webp" | "image/bmp";
+
+const BASE64_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Encode bytes as a standard (padded) base64 string.
+ *
+ * @param bytes - The bytes to encode
+ * @returns The base64 representation of `bytes`
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let output = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const remaining = bytes.length - i;
+    const n =
+      ((bytes[i] ?? 0) << 16) |
+      ((bytes[i + 1] ?? 0) << 8) |
+      (bytes[i + 2] ?? 0);
+    output += BASE64_ALPHABET.charAt((n >> 18) & 63);
+    output += BASE64_ALPHABET.charAt((n >> 12) & 63);
+    output += remaining > 1 ? BASE64_ALPHABET.charAt((n >> 6) & 63) : "=";
+    output += remaining > 2 ? BASE64_ALPHABET.charAt(n & 63) : "=";
+  }
+  return output;
+}
+
+/**
+ * Decode a standard base64 string (padding and whitespace tolerated).
+ *
+ * @param base64 - The base64 string to decode
+ * @returns The decoded bytes
+ */
+export function decodeBase64(base64: string): Uint8Array {
+  const clean = base64.replace(/[\s=]+/g, "");
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (const char of clean) {
+    const value = BASE64_ALPHABET.indexOf(char);
+    if (value < 0) continue;
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.subarray(0, index);
+}
+
+/**
+ * Read a Blob into bytes.
+ *
+ * Uses `Blob.arrayBuffer()` where available and falls back to
+ * `FileReader.readAsDataURL`, which is the only read method React Native's
+ * Blob implementation supports.
+ */
+async function readBlob(blob: Blob): Promise<Uint8Array> {
+  if (typeof blob.arrayBuffer === "function") {
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+  return decodeBase64(dataUrl.slice(dataUrl.indexOf(",") + 1));
+}
+
+/**
+ * Normalize any supported binary input to a `Uint8Array`.
+ *
+ * @param input - A `File`, `Blob`, `ArrayBuffer` or `Uint8Array`
+ * @returns The input's bytes
+ */
+export async function toUint8Array(input: BinaryInput): Promise<Uint8Array> {
+  if (input instanceof Uint8Array) return input;
+  if (input instanceof ArrayBuffer) return new Uint8Array(input);
+  return readBlob(input);
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+/**
+ * Detect a raster image's MIME type from its magic bytes.
+ *
+ * @param bytes - The leading bytes of the image (at least 12 for WEBP)
+ * @returns The detected MIME type, or `null` when the format is not supported
+ */
+export function detectImageMimeType(bytes: Uint8Array): RasterMimeType | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return "image/gif";
+  if (
+    startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) &&
+    startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)
+  ) {
+    return "image/webp";
+  }
+  if (startsWith(bytes, [0x42, 0x4d])) return "image/bmp";
+  return null;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { decodeBmp } from "./bmp";
+
+/** A bottom-up bitmap with a 40-byte info header */
+function bmp(
+  width: number,
+  height: number,
+  bitCount: number,
+  rows: number[][],
+) {
+  const stride = Math.ceil((width * bitCount) / 32) * 4;
+  const palette = bitCount <= 8 ? 4 * 2 : 0;
+  const offset = 14 + 40 + palette;
+  const bytes = new Uint8Array(offset + stride * height);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x42, 0x4d]);
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, offset, true);
+  view.setUint32(14, 40, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, height, true);
+  view.setUint16(26, 1, true);
+  view.setUint16(28, bitCount, true);
+  if (palette) {
+    view.setUint32(46, 2, true);
+    // Black and white (BGRA)
+    bytes.set([0, 0, 0, 0, 255, 255, 255, 0], 54);
+  }
+  rows.forEach((row, y) => bytes.set(row, offset + (height - 1 - y) * stride));
+  return bytes;
+}
+
+describe("decodeBmp", () => {
+  it("decodes bottom-up 24-bit bitmaps", () => {
+    const image = decodeBmp(
+      bmp(2, 2, 24, [
+        [0, 0, 255, 0, 255, 0],
+        [255, 0, 0, 10, 20, 30],
+      ]),
+    );
+
+    expect(image).toMatchObject({ width: 2, height: 2 });
+    expect([...image.data]).toEqual([
+      255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 30, 20, 10, 255,
+    ]);
+  });
+
+  it("decodes 1-bit palette bitmaps", () => {
+    const image = decodeBmp(bmp(3, 1, 1, [[0b10100000]]));
+
+    expect([...image.data]).toEqual([
+      255, 255, 255, 255, 0, 0, 0, 255, 255, 255, 255, 255,
+    ]);
+  });
+
+  it("treats 32-bit bitmaps without alpha as opaque", () => {
+    const image = decodeBmp(bmp(1, 1, 32, [[1, 2, 3, 0]]));
+
+    expect([...image.data]).toEqual([3, 2, 1, 255]);
+  });
+
+  it("rejects files that are not bitmaps", () => {
+    expect(() => decodeBmp(new Uint8Array(64))).toThrow(RangeError);
+  });
+});
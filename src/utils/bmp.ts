@@ -0,0 +1,169 @@
+import type { RgbaImage } from "./png";
+
+/** `biCompression` values this decoder understands */
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+/** Shift and width of a colour channel mask */
+interface Channel {
+  shift: number;
+  bits: number;
+}
+
+function channel(mask: number): Channel {
+  if (!mask) return { shift: 0, bits: 0 };
+  let shift = 0;
+  while (!((mask >>> shift) & 1)) shift++;
+  let bits = 0;
+  while (shift + bits < 32 && (mask >>> (shift + bits)) & 1) bits++;
+  return { shift, bits };
+}
+
+function readChannel(value: number, { shift, bits }: Channel): number {
+  if (!bits) return 0;
+  const max = 2 ** bits - 1;
+  return Math.round((((value >>> shift) & max) * 255) / max);
+}
+
+/**
+ * Decode a Windows bitmap (BMP) to RGBA pixels, in plain TypeScript.
+ *
+ * Supports uncompressed 1, 4 and 8-bit palette images and 16, 24 and 32-bit
+ * images, including `BITFIELDS` masks and top-down bitmaps. RLE-compressed
+ * bitmaps are not supported.
+ *
+ * @param bytes - The BMP file
+ * @returns The pixels
+ * @throws {RangeError} When the file is not a supported BMP
+ */
+export function decodeBmp(bytes: Uint8Array): RgbaImage {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 26 || bytes[0] !== 0x42 || bytes[1] !== 0x4d) {
+    throw new RangeError("Not a BMP file");
+  }
+  const dataOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(14, true);
+  let width: number;
+  let rawHeight: number;
+  let bitCount: number;
+  let compression = BI_RGB;
+  let paletteSize = 0;
+  if (headerSize === 12) {
+    // OS/2 BITMAPCOREHEADER
+    width = view.getUint16(18, true);
+    rawHeight = view.getInt16(20, true);
+    bitCount = view.getUint16(24, true);
+  } else {
+    if (bytes.length < 14 + Math.min(headerSize, 40)) {
+      throw new RangeError("Truncated BMP header");
+    }
+    width = view.getInt32(18, true);
+    rawHeight = view.getInt32(22, true);
+    bitCount = view.getUint16(28, true);
+    compression = view.getUint32(30, true);
+    paletteSize = view.getUint32(46, true);
+  }
+  const height = Math.abs(rawHeight);
+  const topDown = rawHeight < 0;
+  if (width <= 0 || height === 0) throw new RangeError("Invalid BMP size");
+  if (![BI_RGB, BI_BITFIELDS, BI_ALPHABITFIELDS].includes(compression)) {
+    throw new RangeError("Compressed BMP files are not supported");
+  }
+  if (![1, 4, 8, 16, 24, 32].includes(bitCount)) {
+    throw new RangeError(`Unsupported BMP bit depth ${bitCount}`);
+  }
+
+  // Colour masks follow the 40-byte core of the info header (inside it for
+  // V2-V5 headers, right after it otherwise); without them the defaults apply
+  let masks: [number, number, number, number];
+  if (compression !== BI_RGB) {
+    const at = 54;
+    masks = [
+      view.getUint32(at, true),
+      view.getUint32(at + 4, true),
+      view.getUint32(at + 8, true),
+      compression === BI_ALPHABITFIELDS || headerSize >= 56
+        ? view.getUint32(at + 12, true)
+        : 0,
+    ];
+  } else if (bitCount === 16) {
+    masks = [0x7c00, 0x03e0, 0x001f, 0];
+  } else {
+    masks = [0xff0000, 0x00ff00, 0x0000ff, bitCount === 32 ? 0xff000000 : 0];
+  }
+  const [red, green, blue, alpha] = masks.map(channel) as [
+    Channel,
+    Channel,
+    Channel,
+    Channel,
+  ];
+
+  const palette: number[][] = [];
+  if (bitCount <= 8) {
+    const entrySize = headerSize === 12 ? 3 : 4;
+    const start = 14 + headerSize;
+    const count = paletteSize || 1 << bitCount;
+    for (
+      let i = 0;
+      i < count && start + i * entrySize + 2 < bytes.length;
+      i++
+    ) {
+      const at = start + i * entrySize;
+      palette.push([
+        bytes[at + 2] as number,
+        bytes[at + 1] as number,
+        bytes[at] as number,
+      ]);
+    }
+  }
+
+  const stride = Math.ceil((width * bitCount) / 32) * 4;
+  if (dataOffset + stride * height > bytes.length) {
+    throw new RangeError("Truncated BMP pixel data");
+  }
+  const data = new Uint8Array(width * height * 4);
+  // 32-bit images often leave the alpha byte zero; treat them as opaque then
+  let sawAlpha = false;
+  for (let y = 0; y < height; y++) {
+    const row = dataOffset + (topDown ? y : height - 1 - y) * stride;
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      let rgba: [number, number, number, number];
+      if (bitCount <= 8) {
+        const bit = x * bitCount;
+        const byte = bytes[row + (bit >> 3)] as number;
+        const index =
+          (byte >> (8 - bitCount - (bit & 7))) & ((1 << bitCount) - 1);
+        const [r = 0, g = 0, b = 0] = palette[index] ?? [];
+        rgba = [r, g, b, 255];
+      } else if (bitCount === 24) {
+        const at = row + x * 3;
+        rgba = [
+          bytes[at + 2] as number,
+          bytes[at + 1] as number,
+          bytes[at] as number,
+          255,
+        ];
+      } else {
+        const value =
+          bitCount === 16
+            ? view.getUint16(row + x * 2, true)
+            : view.getUint32(row + x * 4, true);
+        const a = alpha.bits ? readChannel(value, alpha) : 255;
+        if (alpha.bits && a) sawAlpha = true;
+        rgba = [
+          readChannel(value, red),
+          readChannel(value, green),
+          readChannel(value, blue),
+          a,
+        ];
+      }
+      data.set(rgba, target);
+    }
+  }
+  if (alpha.bits && !sawAlpha) {
+    for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  }
+  return { width, height, data };
+}
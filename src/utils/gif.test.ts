@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { decodeBase64 } from "./binary";
+import { decodeGif } from "./gif";
+
+/**
+ * A GIF whose LZW stream clears the table before every index, so it can be
+ * written without a real encoder (3-bit codes for a 4-colour table).
+ */
+function gif(width: number, height: number, indices: number[], flags = 0) {
+  let bits = 0;
+  let buffer = 0;
+  const data: number[] = [];
+  for (const code of [...indices.flatMap((index) => [4, index]), 5]) {
+    buffer |= code << bits;
+    bits += 3;
+    while (bits >= 8) {
+      data.push(buffer & 0xff);
+      buffer >>= 8;
+      bits -= 8;
+    }
+  }
+  if (bits > 0) data.push(buffer);
+  const screen = [width, 0, height, 0, 0x81, 0, 0];
+  // Black, red, green, blue
+  const palette = [0, 0, 0, 255, 0, 0, 0, 255, 0, 0, 0, 255];
+  // Graphic control extension: index 0 is transparent
+  const control = [0x21, 0xf9, 4, 1, 0, 0, 0, 0];
+  const descriptor = [0x2c, 0, 0, 0, 0, width, 0, height, 0, flags];
+  return new Uint8Array([
+    ...new TextEncoder().encode("GIF89a"),
+    ...screen,
+    ...palette,
+    ...control,
+    ...descriptor,
+    ...[2, data.length, ...data, 0],
+    0x3b,
+  ]);
+}
+
+describe("decodeGif", () => {
+  it("decodes the first frame with its transparent colour", () => {
+    const image = decodeGif(gif(2, 2, [1, 2, 3, 0]));
+
+    expect(image).toMatchObject({ width: 2, height: 2 });
+    expect([...image.data]).toEqual([
+      255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 0, 0, 0, 0,
+    ]);
+  });
+
+  it("reorders interlaced rows", () => {
+    // Rows are stored in the order 0, 2, 1
+    const image = decodeGif(gif(1, 3, [1, 3, 2], 0x40));
+
+    expect([...image.data]).toEqual([
+      255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255,
+    ]);
+  });
+
+  it("decodes files written by other encoders", () => {
+    // The classic 1 x 1 transparent GIF
+    const image = decodeGif(
+      decodeBase64("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7"),
+    );
+
+    expect([...image.data]).toEqual([0, 0, 0, 0]);
+  });
+
+  it("rejects files that are not GIFs", () => {
+    expect(() => decodeGif(new Uint8Array(16))).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,216 @@
+import type { RgbaImage } from "./png";
+
+/** Longest LZW code in a GIF */
+const MAX_CODE_SIZE = 12;
+
+/** Reads data sub-blocks until the zero-length terminator */
+function readSubBlocks(
+  bytes: Uint8Array,
+  offset: number,
+): { data: Uint8Array; end: number } {
+  const blocks: Uint8Array[] = [];
+  let size = 0;
+  let position = offset;
+  for (;;) {
+    const length = bytes[position];
+    if (length === undefined) throw new RangeError("Truncated GIF data");
+    position++;
+    if (length === 0) break;
+    if (position + length > bytes.length) {
+      throw new RangeError("Truncated GIF data");
+    }
+    blocks.push(bytes.subarray(position, position + length));
+    size += length;
+    position += length;
+  }
+  const data = new Uint8Array(size);
+  let at = 0;
+  for (const block of blocks) {
+    data.set(block, at);
+    at += block.length;
+  }
+  return { data, end: position };
+}
+
+/** Decode LZW-compressed colour indices */
+function decodeLzw(
+  data: Uint8Array,
+  minCodeSize: number,
+  pixelCount: number,
+): Uint8Array {
+  const output = new Uint8Array(pixelCount);
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  const prefix = new Int16Array(1 << MAX_CODE_SIZE);
+  const suffix = new Uint8Array(1 << MAX_CODE_SIZE);
+  const lengths = new Uint16Array(1 << MAX_CODE_SIZE);
+  for (let i = 0; i < clear; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    lengths[i] = 1;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  let previous = -1;
+  let written = 0;
+  let buffer = 0;
+  let bits = 0;
+  let position = 0;
+  while (written < pixelCount) {
+    while (bits < codeSize && position < data.length) {
+      buffer |= (data[position++] as number) << bits;
+      bits += 8;
+    }
+    if (bits < codeSize) break;
+    const code = buffer & ((1 << codeSize) - 1);
+    buffer >>>= codeSize;
+    bits -= codeSize;
+
+    if (code === clear) {
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+      previous = -1;
+      continue;
+    }
+    if (code === end) break;
+
+    // A code not yet in the table (the KwKwK case) stands for the previous
+    // string plus its own first character
+    const known = code < next;
+    if (!known && (code !== next || previous < 0)) {
+      throw new RangeError("Invalid GIF data");
+    }
+    const entry = known ? code : previous;
+    const length = lengths[entry] as number;
+    let first = 0;
+    for (let current = entry, i = length - 1; i >= 0; i--) {
+      first = suffix[current] as number;
+      if (written + i < pixelCount) output[written + i] = first;
+      current = prefix[current] as number;
+    }
+    written += length;
+    if (!known) {
+      if (written < pixelCount) output[written] = first;
+      written++;
+    }
+
+    if (previous >= 0 && next < 1 << MAX_CODE_SIZE) {
+      prefix[next] = previous;
+      suffix[next] = first;
+      lengths[next] = (lengths[previous] as number) + 1;
+      next++;
+      if (next === 1 << codeSize && codeSize < MAX_CODE_SIZE) codeSize++;
+    }
+    previous = code;
+  }
+  return output;
+}
+
+function readColorTable(
+  bytes: Uint8Array,
+  offset: number,
+  flags: number,
+): Uint8Array {
+  const size = 3 * (1 << ((flags & 0x07) + 1));
+  if (offset + size > bytes.length) throw new RangeError("Truncated GIF data");
+  return bytes.subarray(offset, offset + size);
+}
+
+/**
+ * Decode the first frame of a GIF to RGBA pixels, in plain TypeScript.
+ *
+ * The frame is drawn onto a transparent canvas of the logical screen size;
+ * the transparent colour index and interlacing are honoured.
+ *
+ * @param bytes - The GIF file
+ * @returns The pixels
+ * @throws {RangeError} When the file is not a valid GIF
+ */
+export function decodeGif(bytes: Uint8Array): RgbaImage {
+  const signature = String.fromCharCode(...bytes.subarray(0, 6));
+  if (signature !== "GIF87a" && signature !== "GIF89a") {
+    throw new RangeError("Not a GIF file");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const width = view.getUint16(6, true);
+  const height = view.getUint16(8, true);
+  const screenFlags = bytes[10] as number;
+  let offset = 13;
+  let globalTable: Uint8Array | undefined;
+  if (screenFlags & 0x80) {
+    globalTable = readColorTable(bytes, offset, screenFlags);
+    offset += globalTable.length;
+  }
+
+  let transparentIndex = -1;
+  while (offset < bytes.length) {
+    const introducer = bytes[offset];
+    if (introducer === 0x21) {
+      // Extension; a Graphic Control Extension may set a transparent index
+      const label = bytes[offset + 1];
+      const { data, end } = readSubBlocks(bytes, offset + 2);
+      if (label === 0xf9 && data.length >= 4 && (data[0] as number) & 1) {
+        transparentIndex = data[3] as number;
+      }
+      offset = end;
+      continue;
+    }
+    if (introducer !== 0x2c) break;
+
+    const left = view.getUint16(offset + 1, true);
+    const top = view.getUint16(offset + 3, true);
+    const frameWidth = view.getUint16(offset + 5, true);
+    const frameHeight = view.getUint16(offset + 7, true);
+    const flags = bytes[offset + 9] as number;
+    offset += 10;
+    let table = globalTable;
+    if (flags & 0x80) {
+      table = readColorTable(bytes, offset, flags);
+      offset += table.length;
+    }
+    const minCodeSize = bytes[offset] as number;
+    if (minCodeSize < 2 || minCodeSize > 8) {
+      throw new RangeError("Invalid GIF data");
+    }
+    const { data: compressed } = readSubBlocks(bytes, offset + 1);
+    const indices = decodeLzw(
+      compressed,
+      minCodeSize,
+      frameWidth * frameHeight,
+    );
+
+    // Interlaced rows are stored in four passes
+    const rows: number[] = [];
+    if (flags & 0x40) {
+      for (const [start, step] of [
+        [0, 8],
+        [4, 8],
+        [2, 4],
+        [1, 2],
+      ] as const) {
+        for (let y = start; y < frameHeight; y += step) rows.push(y);
+      }
+    } else {
+      for (let y = 0; y < frameHeight; y++) rows.push(y);
+    }
+
+    const pixels = new Uint8Array(width * height * 4);
+    rows.forEach((frameY, row) => {
+      const y = top + frameY;
+      if (y >= height) return;
+      for (let frameX = 0; frameX < frameWidth; frameX++) {
+        const x = left + frameX;
+        const index = indices[row * frameWidth + frameX] as number;
+        if (x >= width || index === transparentIndex) continue;
+        const target = (y * width + x) * 4;
+        pixels[target] = table?.[index * 3] ?? 0;
+        pixels[target + 1] = table?.[index * 3 + 1] ?? 0;
+        pixels[target + 2] = table?.[index * 3 + 2] ?? 0;
+        pixels[target + 3] = 255;
+      }
+    });
+    return { width, height, data: pixels };
+  }
+  throw new RangeError("GIF contains no image");
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { createIdempotencyKey, IdempotencyKeyStore } from "./idempotency";
+
+const UUID_V4 =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe("createIdempotencyKey", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns unique v4 UUIDs", () => {
+    const a = createIdempotencyKey();
+    expect(a).toMatch(UUID_V4);
+    expect(createIdempotencyKey()).not.toBe(a);
+  });
+
+  it("falls back when crypto is unavailable", () => {
+    vi.stubGlobal("crypto", undefined);
+    expect(createIdempotencyKey()).toMatch(UUID_V4);
+  });
+});
+
+describe("IdempotencyKeyStore", () => {
+  it("keeps one key per variables object until released", () => {
+    const store = new IdempotencyKeyStore();
+    const first = { imageId: "i1" };
+    const second = { imageId: "i1" };
+
+    const key = store.get(first);
+    expect(store.get(first)).toBe(key);
+    expect(store.get(second)).not.toBe(key);
+
+    store.release(first);
+    expect(store.get(first)).not.toBe(key);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Generate a random idempotency key (a v4 UUID).
+ *
+ * Uses `crypto.randomUUID` where available and falls back to
+ * `crypto.getRandomValues`, then `Math.random` (older React Native).
+ *
+ * @returns A new key, unique per call
+ */
+export function createIdempotencyKey(): string {
+  const crypto = globalThis.crypto;
+  if (typeof crypto?.randomUUID === "function") return crypto.randomUUID();
+
+  const bytes = new Uint8Array(16);
+  if (typeof crypto?.getRandomValues === "function") {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  bytes[6] = ((bytes[6] ?? 0) & 0x0f) | 0x40;
+  bytes[8] = ((bytes[8] ?? 0) & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join(
+    "",
+  );
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Idempotency keys for one logical operation per variables object.
+ *
+ * TanStack Query passes the same variables object to every retry of a
+ * `mutate` call, so keying on it keeps the `Idempotency-Key` stable across
+ * retries while each new `mutate` gets a fresh key. Keys are released when
+ * the mutation settles.
+ */
+export class IdempotencyKeyStore {
+  private readonly keys = new WeakMap<object, string>();
+
+  /** The key for `variables`, generated on first use */
+  get(variables: object): string {
+    let key = this.keys.get(variables);
+    if (key === undefined) {
+      key = createIdempotencyKey();
+      this.keys.set(variables, key);
+    }
+    return key;
+  }
+
+  /** Forget the key for `variables` once its operation has settled */
+  release(variables: object): void {
+    this.keys.delete(variables);
+  }
+}
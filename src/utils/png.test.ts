@@ -0,0 +1,127 @@
+import { deflateSync, inflateSync } from "node:zlib";
+import { describe, it, expect } from "vitest";
+import {
+  crc32,
+  decodePng,
+  encodePng,
+  type PngChunk,
+  writePngChunks,
+} from "./png";
+
+function ihdr(
+  width: number,
+  height: number,
+  depth: number,
+  color: number,
+): PngChunk {
+  const data = new Uint8Array(13);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  data.set([depth, color, 0, 0, 0], 8);
+  return { type: "IHDR", data };
+}
+
+function png(header: PngChunk, rows: number[], extra: PngChunk[] = []) {
+  return writePngChunks([
+    header,
+    ...extra,
+    { type: "IDAT", data: new Uint8Array(deflateSync(new Uint8Array(rows))) },
+    { type: "IEND", data: new Uint8Array(0) },
+  ]);
+}
+
+describe("encodePng", () => {
+  it("writes a valid RGBA PNG", () => {
+    const data = new Uint8Array(2 * 3 * 4).fill(200);
+    const png = encodePng({ width: 2, height: 3, data });
+    const view = new DataView(png.buffer, png.byteOffset);
+
+    expect([...png.subarray(0, 8)]).toEqual([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ]);
+    expect(new TextDecoder().decode(png.subarray(12, 16))).toBe("IHDR");
+    expect(view.getUint32(16)).toBe(2);
+    expect(view.getUint32(20)).toBe(3);
+    expect(png[24]).toBe(8);
+    expect(png[25]).toBe(6);
+    expect(view.getUint32(29)).toBe(crc32(png.subarray(12, 29)));
+
+    const idatLength = view.getUint32(33);
+    const rows = inflateSync(png.subarray(41, 41 + idatLength));
+    expect(rows.length).toBe(3 * (1 + 2 * 4));
+    expect(rows[0]).toBe(0);
+    expect(
+      new TextDecoder().decode(png.subarray(png.length - 8, png.length - 4)),
+    ).toBe("IEND");
+  });
+
+  it("computes the chunk checksum", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("rejects pixel data of the wrong size", () => {
+    expect(() =>
+      encodePng({ width: 2, height: 2, data: new Uint8Array(4) }),
+    ).toThrow(RangeError);
+  });
+});
+
+describe("decodePng", () => {
+  it("round-trips encodePng output", () => {
+    const data = new Uint8Array(5 * 4 * 4).map((_, i) => (i * 37) % 256);
+    const image = decodePng(encodePng({ width: 5, height: 4, data }));
+
+    expect(image.width).toBe(5);
+    expect(image.height).toBe(4);
+    expect([...image.data]).toEqual([...data]);
+  });
+
+  it("expands palettes with transparency and low bit depths", () => {
+    // 2-bit palette: red, green (half transparent), blue
+    const image = decodePng(
+      png(
+        ihdr(3, 1, 2, 3),
+        [0, 0b00011000],
+        [
+          {
+            type: "PLTE",
+            data: new Uint8Array([255, 0, 0, 0, 255, 0, 0, 0, 255]),
+          },
+          { type: "tRNS", data: new Uint8Array([255, 128]) },
+        ],
+      ),
+    );
+
+    expect([...image.data]).toEqual([
+      255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 255,
+    ]);
+  });
+
+  it("reduces 16-bit grey samples and filters rows", () => {
+    // Second row uses the Up filter
+    const image = decodePng(
+      png(ihdr(2, 2, 16, 0), [0, 0xff, 0xff, 0x80, 0x00, 2, 0, 0, 0x01, 0x00]),
+    );
+
+    expect([...image.data]).toEqual([
+      255, 255, 255, 255, 128, 128, 128, 255, 255, 255, 255, 255, 129, 129, 129,
+      255,
+    ]);
+  });
+
+  it("reassembles Adam7 interlaced images", () => {
+    const header = ihdr(2, 2, 8, 0);
+    header.data[12] = 1;
+    // Passes 1, 6 and 7 cover a 2 x 2 image
+    const image = decodePng(png(header, [0, 10, 0, 20, 0, 30, 40]));
+
+    expect([...image.data].filter((_, i) => i % 4 === 0)).toEqual([
+      10, 20, 30, 40,
+    ]);
+  });
+
+  it("rejects files that are not PNGs", () => {
+    expect(() => decodePng(new Uint8Array(16))).toThrow(RangeError);
+  });
+});
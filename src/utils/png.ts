@@ -0,0 +1,373 @@
+import { zlibDeflate, zlibInflate } from "./zlib";
+
+/**
+ * An image as 8-bit RGBA pixels, row by row from the top left
+ * (`data.length === width * height * 4`), like `ImageData`.
+ *
+ * @interface RgbaImage
+ * @property {number} width - Width in pixels
+ * @property {number} height - Height in pixels
+ * @property {Uint8Array} data - Red, green, blue and alpha of each pixel
+ */
+export interface RgbaImage {
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Red, green, blue and alpha of each pixel */
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 of `bytes`, as used by PNG chunks */
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * A chunk of a PNG file.
+ *
+ * @interface PngChunk
+ * @property {string} type - The four-letter chunk type, e.g. `IHDR`
+ * @property {Uint8Array} data - The chunk's data, without length, type and CRC
+ */
+export interface PngChunk {
+  /** The four-letter chunk type, e.g. `IHDR` */
+  type: string;
+  /** The chunk's data, without length, type and CRC */
+  data: Uint8Array;
+}
+
+/** Whether `bytes` start with the PNG signature */
+export function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Split a PNG file into its chunks, up to and including `IEND`.
+ *
+ * @param bytes - The PNG file
+ * @throws {RangeError} When `bytes` is not a PNG file or a chunk is truncated
+ */
+export function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPng(bytes)) throw new RangeError("Not a PNG file");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const end = offset + 8 + length;
+    if (end + 4 > bytes.length) throw new RangeError("Truncated PNG chunk");
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, end) });
+    if (type === "IEND") break;
+    offset = end + 4;
+  }
+  return chunks;
+}
+
+/**
+ * Assemble a PNG file from chunks (CRCs are computed).
+ *
+ * @param chunks - The chunks, starting with `IHDR` and ending with `IEND`
+ */
+export function writePngChunks(chunks: readonly PngChunk[]): Uint8Array {
+  const parts = [
+    Uint8Array.from(PNG_SIGNATURE),
+    ...chunks.map(({ type, data }) => chunk(type, data)),
+  ];
+  const png = new Uint8Array(
+    parts.reduce((size, part) => size + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(data.length + 12);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(data, 8);
+  view.setUint32(data.length + 8, crc32(bytes.subarray(4, data.length + 8)));
+  return bytes;
+}
+
+/**
+ * Encode RGBA pixels as a PNG file, in plain TypeScript.
+ *
+ * @param image - The pixels
+ * @returns The PNG file
+ * @throws {RangeError} When `data` does not hold `width * height` pixels
+ */
+export function encodePng(image: RgbaImage): Uint8Array {
+  const { width, height, data } = image;
+  if (data.length !== width * height * 4) {
+    throw new RangeError(
+      `Expected ${width * height * 4} bytes of RGBA data, got ${data.length}`,
+    );
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // colour type: RGBA
+
+  // Each row starts with its filter type; 0 (None) keeps encoding simple
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return writePngChunks([
+    { type: "IHDR", data: header },
+    { type: "IDAT", data: zlibDeflate(raw) },
+    { type: "IEND", data: new Uint8Array(0) },
+  ]);
+}
+
+/** Samples per pixel of each PNG colour type */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** Adam7 passes: x start, y start, x step, y step */
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+] as const;
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/** Undo the per-row filters of one (sub)image in place; returns the rows */
+function unfilter(
+  data: Uint8Array,
+  offset: number,
+  width: number,
+  height: number,
+  bitsPerPixel: number,
+): Uint8Array {
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const rows = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = data[offset + y * (stride + 1)];
+    const source = offset + y * (stride + 1) + 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const raw = data[source + x] ?? 0;
+      const left = x >= bpp ? (rows[row + x - bpp] as number) : 0;
+      const up = y > 0 ? (rows[row - stride + x] as number) : 0;
+      const upLeft =
+        y > 0 && x >= bpp ? (rows[row - stride + x - bpp] as number) : 0;
+      let value: number;
+      switch (filter) {
+        case 0:
+          value = raw;
+          break;
+        case 1:
+          value = raw + left;
+          break;
+        case 2:
+          value = raw + up;
+          break;
+        case 3:
+          value = raw + ((left + up) >> 1);
+          break;
+        case 4:
+          value = raw + paeth(left, up, upLeft);
+          break;
+        default:
+          throw new RangeError(`Invalid PNG filter type ${filter}`);
+      }
+      rows[row + x] = value & 0xff;
+    }
+  }
+  return rows;
+}
+
+/**
+ * Decode a PNG file to RGBA pixels, in plain TypeScript.
+ *
+ * Supports every colour type and bit depth, palettes, `tRNS`
+ * transparency and Adam7 interlacing; 16-bit samples are reduced to 8 bits.
+ * Only the first frame of an animated PNG is decoded.
+ *
+ * @param bytes - The PNG file
+ * @returns The pixels
+ * @throws {RangeError} When the file is not a valid PNG
+ */
+export function decodePng(bytes: Uint8Array): RgbaImage {
+  const chunks = readPngChunks(bytes);
+  const header = chunks[0];
+  if (header?.type !== "IHDR" || header.data.length < 13) {
+    throw new RangeError("PNG is missing its IHDR chunk");
+  }
+  const view = new DataView(
+    header.data.buffer,
+    header.data.byteOffset,
+    header.data.byteLength,
+  );
+  const width = view.getUint32(0);
+  const height = view.getUint32(4);
+  const depth = header.data[8] as number;
+  const colorType = header.data[9] as number;
+  const interlaced = header.data[12] === 1;
+  const channels = CHANNELS[colorType];
+  if (!channels || ![1, 2, 4, 8, 16].includes(depth) || !width || !height) {
+    throw new RangeError("Unsupported PNG format");
+  }
+
+  const palette = chunks.find((c) => c.type === "PLTE")?.data;
+  const transparency = chunks.find((c) => c.type === "tRNS")?.data;
+  const idat = chunks.filter((c) => c.type === "IDAT");
+  const compressed = new Uint8Array(
+    idat.reduce((size, c) => size + c.data.length, 0),
+  );
+  let position = 0;
+  for (const c of idat) {
+    compressed.set(c.data, position);
+    position += c.data.length;
+  }
+  const inflated = zlibInflate(compressed);
+
+  const bitsPerPixel = channels * depth;
+  const max = (1 << Math.min(depth, 8)) - 1;
+  /** Sample `index` of a row, scaled to 0..255 */
+  const sample = (rows: Uint8Array, rowStart: number, index: number) => {
+    if (depth === 16) return rows[rowStart + index * 2] as number;
+    if (depth === 8) return rows[rowStart + index] as number;
+    const bit = index * depth;
+    const byte = rows[rowStart + (bit >> 3)] as number;
+    const value = (byte >> (8 - depth - (bit & 7))) & max;
+    return colorType === 3 ? value : Math.round((value * 255) / max);
+  };
+  /** Raw sample value for comparing with `tRNS` grey/RGB keys */
+  const rawSample = (rows: Uint8Array, rowStart: number, index: number) =>
+    depth === 16
+      ? ((rows[rowStart + index * 2] as number) << 8) |
+        (rows[rowStart + index * 2 + 1] as number)
+      : depth === 8
+        ? (rows[rowStart + index] as number)
+        : ((rows[rowStart + ((index * depth) >> 3)] as number) >>
+            (8 - depth - ((index * depth) & 7))) &
+          max;
+  const transparentKey = (index: number) =>
+    transparency && transparency.length >= index * 2 + 2
+      ? ((transparency[index * 2] as number) << 8) |
+        (transparency[index * 2 + 1] as number)
+      : -1;
+
+  const data = new Uint8Array(width * height * 4);
+  const writePixel = (
+    rows: Uint8Array,
+    rowStart: number,
+    x: number,
+    target: number,
+  ) => {
+    let r: number;
+    let g: number;
+    let b: number;
+    let a = 255;
+    switch (colorType) {
+      case 0: {
+        r = g = b = sample(rows, rowStart, x);
+        if (rawSample(rows, rowStart, x) === transparentKey(0)) a = 0;
+        break;
+      }
+      case 2: {
+        r = sample(rows, rowStart, x * 3);
+        g = sample(rows, rowStart, x * 3 + 1);
+        b = sample(rows, rowStart, x * 3 + 2);
+        if (
+          rawSample(rows, rowStart, x * 3) === transparentKey(0) &&
+          rawSample(rows, rowStart, x * 3 + 1) === transparentKey(1) &&
+          rawSample(rows, rowStart, x * 3 + 2) === transparentKey(2)
+        ) {
+          a = 0;
+        }
+        break;
+      }
+      case 3: {
+        const index = sample(rows, rowStart, x);
+        r = palette?.[index * 3] ?? 0;
+        g = palette?.[index * 3 + 1] ?? 0;
+        b = palette?.[index * 3 + 2] ?? 0;
+        a = transparency?.[index] ?? 255;
+        break;
+      }
+      case 4:
+        r = g = b = sample(rows, rowStart, x * 2);
+        a = sample(rows, rowStart, x * 2 + 1);
+        break;
+      default:
+        r = sample(rows, rowStart, x * 4);
+        g = sample(rows, rowStart, x * 4 + 1);
+        b = sample(rows, rowStart, x * 4 + 2);
+        a = sample(rows, rowStart, x * 4 + 3);
+    }
+    data[target] = r;
+    data[target + 1] = g;
+    data[target + 2] = b;
+    data[target + 3] = a;
+  };
+
+  const passes = interlaced ? ADAM7 : ([[0, 0, 1, 1]] as const);
+  let offset = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+    const stride = Math.ceil((passWidth * bitsPerPixel) / 8);
+    if (offset + (stride + 1) * passHeight > inflated.length) {
+      throw new RangeError("PNG image data is truncated");
+    }
+    const rows = unfilter(
+      inflated,
+      offset,
+      passWidth,
+      passHeight,
+      bitsPerPixel,
+    );
+    offset += (stride + 1) * passHeight;
+    for (let y = 0; y < passHeight; y++) {
+      for (let x = 0; x < passWidth; x++) {
+        const target = ((y0 + y * dy) * width + x0 + x * dx) * 4;
+        writePixel(rows, y * stride, x, target);
+      }
+    }
+  }
+  return { width, height, data };
+}
@@ -0,0 +1,54 @@
+import { deflateSync, inflateSync } from "node:zlib";
+import { describe, it, expect } from "vitest";
+import { adler32, deflateRaw, zlibDeflate, zlibInflate } from "./zlib";
+
+describe("zlibDeflate", () => {
+  it("round-trips through Node's inflate", () => {
+    const text = new TextEncoder().encode(
+      "abcabcabcabc hello hello hello ".repeat(200),
+    );
+    const random = new Uint8Array(5000).map((_, i) => (i * 7919) % 251);
+    for (const data of [new Uint8Array(0), text, random]) {
+      const compressed = zlibDeflate(data);
+      expect(new Uint8Array(inflateSync(compressed))).toEqual(data);
+    }
+    expect(zlibDeflate(text).length).toBeLessThan(text.length / 10);
+  });
+
+  it("writes matches at the far end of the window", () => {
+    const block = new Uint8Array(300).map((_, i) => (i * 31) % 256);
+    const data = new Uint8Array(33068);
+    data.set(block, 0);
+    data.set(block, 32768);
+    expect(new Uint8Array(inflateSync(zlibDeflate(data)))).toEqual(data);
+    expect(deflateRaw(new Uint8Array(0)).length).toBeGreaterThan(0);
+  });
+
+  it("computes checksums", () => {
+    const data = new TextEncoder().encode("Wikipedia");
+    expect(adler32(data)).toBe(0x11e60398);
+  });
+});
+
+describe("zlibInflate", () => {
+  it("inflates stored, fixed and dynamic blocks", () => {
+    const text = new TextEncoder().encode(
+      "abcabcabcabc hello hello hello ".repeat(200),
+    );
+    const random = new Uint8Array(5000).map((_, i) => (i * 7919) % 251);
+    for (const level of [0, 1, 6, 9]) {
+      for (const data of [new Uint8Array(0), text, random]) {
+        const compressed = new Uint8Array(deflateSync(data, { level }));
+        expect(zlibInflate(compressed)).toEqual(data);
+      }
+    }
+    expect(zlibInflate(zlibDeflate(text))).toEqual(text);
+  });
+
+  it("rejects corrupt data", () => {
+    const compressed = new Uint8Array(deflateSync(new Uint8Array(100)));
+    compressed[compressed.length - 1] ^= 0xff;
+    expect(() => zlibInflate(compressed)).toThrow(RangeError);
+    expect(() => zlibInflate(new Uint8Array([1, 2, 3]))).toThrow(RangeError);
+  });
+});
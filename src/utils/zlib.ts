@@ -0,0 +1,461 @@
+/**
+ * zlib (RFC 1950) compression and decompression in plain TypeScript, for
+ * PNG and PDF streams in environments without `CompressionStream` or
+ * Node's `zlib` (React Native / Hermes).
+ *
+ * Compresses with LZ77 and the fixed Huffman codes of deflate (RFC 1951),
+ * which suits the flat colours of converted graphics well; decompresses
+ * any deflate stream.
+ */
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+/** How many earlier positions with the same hash are tried per match */
+const MAX_CHAIN = 64;
+const HASH_BITS = 15;
+
+/** Base length of length codes 257..285 and their extra bits */
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+/** Base distance of distance codes 0..29 and their extra bits */
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+
+/** Adler-32 checksum of `data` (the zlib trailer) */
+export function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  // 5552 is the largest block for which the sums cannot overflow before `%`
+  for (let start = 0; start < data.length; start += 5552) {
+    const end = Math.min(start + 5552, data.length);
+    for (let i = start; i < end; i++) {
+      a += data[i] as number;
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/** Writes bits least-significant first, as deflate requires */
+class BitWriter {
+  private bytes = new Uint8Array(1024);
+  private length = 0;
+  private buffer = 0;
+  private count = 0;
+
+  private pushByte(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+
+  bits(value: number, count: number): void {
+    this.buffer |= value << this.count;
+    this.count += count;
+    while (this.count >= 8) {
+      this.pushByte(this.buffer & 0xff);
+      this.buffer >>>= 8;
+      this.count -= 8;
+    }
+  }
+
+  /** Write a Huffman code, which deflate stores most-significant bit first */
+  code(code: number, length: number): void {
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | ((code >> i) & 1);
+    }
+    this.bits(reversed, length);
+  }
+
+  bytesWritten(): Uint8Array {
+    if (this.count > 0) this.pushByte(this.buffer & 0xff);
+    this.buffer = 0;
+    this.count = 0;
+    return this.bytes.subarray(0, this.length);
+  }
+}
+
+/** Write a literal/length symbol with the fixed Huffman code */
+function writeSymbol(writer: BitWriter, symbol: number): void {
+  if (symbol < 144) writer.code(0x30 + symbol, 8);
+  else if (symbol < 256) writer.code(0x190 + symbol - 144, 9);
+  else if (symbol < 280) writer.code(symbol - 256, 7);
+  else writer.code(0xc0 + symbol - 280, 8);
+}
+
+function writeMatch(writer: BitWriter, length: number, distance: number) {
+  let lengthCode = LENGTH_BASE.length - 1;
+  while ((LENGTH_BASE[lengthCode] as number) > length) lengthCode--;
+  writeSymbol(writer, 257 + lengthCode);
+  writer.bits(
+    length - (LENGTH_BASE[lengthCode] as number),
+    LENGTH_EXTRA[lengthCode] as number,
+  );
+
+  let distanceCode = DISTANCE_BASE.length - 1;
+  while ((DISTANCE_BASE[distanceCode] as number) > distance) distanceCode--;
+  writer.code(distanceCode, 5);
+  writer.bits(
+    distance - (DISTANCE_BASE[distanceCode] as number),
+    DISTANCE_EXTRA[distanceCode] as number,
+  );
+}
+
+function hashAt(data: Uint8Array, i: number): number {
+  const value =
+    ((data[i] as number) << 16) |
+    ((data[i + 1] as number) << 8) |
+    (data[i + 2] as number);
+  return Math.imul(value, 0x9e3779b1) >>> (32 - HASH_BITS);
+}
+
+/**
+ * Compress `data` as a raw deflate stream (a single block with fixed
+ * Huffman codes).
+ *
+ * @param data - The bytes to compress
+ */
+export function deflateRaw(data: Uint8Array): Uint8Array {
+  const writer = new BitWriter();
+  writer.bits(1, 1); // BFINAL
+  writer.bits(1, 2); // BTYPE = fixed Huffman
+
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const previous = new Int32Array(WINDOW_SIZE);
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > data.length) return;
+    const hash = hashAt(data, i);
+    previous[i % WINDOW_SIZE] = head[hash] as number;
+    head[hash] = i;
+  };
+
+  let i = 0;
+  while (i < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+    if (i + MIN_MATCH <= data.length) {
+      const limit = Math.min(MAX_MATCH, data.length - i);
+      let candidate = head[hashAt(data, i)] as number;
+      for (
+        let chain = 0;
+        chain < MAX_CHAIN && candidate >= 0 && i - candidate <= WINDOW_SIZE;
+        chain++
+      ) {
+        let length = 0;
+        while (
+          length < limit &&
+          data[candidate + length] === data[i + length]
+        ) {
+          length++;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = i - candidate;
+          if (length === limit) break;
+        }
+        const next = previous[candidate % WINDOW_SIZE] as number;
+        if (next >= candidate) break;
+        candidate = next;
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(writer, bestLength, bestDistance);
+      for (let j = 0; j < bestLength; j++) insert(i + j);
+      i += bestLength;
+    } else {
+      writeSymbol(writer, data[i] as number);
+      insert(i);
+      i++;
+    }
+  }
+  writeSymbol(writer, 256); // end of block
+  return writer.bytesWritten();
+}
+
+/**
+ * Compress `data` as a zlib stream (deflate with header and Adler-32
+ * trailer), as used by PNG `IDAT` chunks and PDF `FlateDecode` streams.
+ *
+ * @param data - The bytes to compress
+ */
+export function zlibDeflate(data: Uint8Array): Uint8Array {
+  const deflated = deflateRaw(data);
+  const output = new Uint8Array(deflated.length + 6);
+  output[0] = 0x78; // 32K window, deflate
+  output[1] = 0x01; // fastest compression level, no dictionary
+  output.set(deflated, 2);
+  new DataView(output.buffer).setUint32(
+    output.length - 4,
+    adler32(data),
+    false,
+  );
+  return output;
+}
+
+/** Order in which code length code lengths are stored in a dynamic block */
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+/** Canonical Huffman decoding table: code counts per length and sorted symbols */
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) {
+    const length = lengths[i] as number;
+    counts[length] = (counts[length] as number) + 1;
+  }
+  counts[0] = 0;
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 16; length++) {
+    offsets[length] =
+      (offsets[length - 1] as number) + (counts[length - 1] as number);
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol] as number;
+    if (!length) continue;
+    const offset = offsets[length] as number;
+    symbols[offset] = symbol;
+    offsets[length] = offset + 1;
+  }
+  return { counts, symbols };
+}
+
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, symbol) =>
+    symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8,
+  ),
+);
+const FIXED_DISTANCES = buildHuffman(new Array<number>(30).fill(5));
+
+/** Reads bits least-significant first */
+class BitReader {
+  private position = 0;
+  private buffer = 0;
+  private count = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  bits(count: number): number {
+    while (this.count < count) {
+      if (this.position >= this.data.length) {
+        throw new RangeError("Unexpected end of deflate stream");
+      }
+      this.buffer |= (this.data[this.position++] as number) << this.count;
+      this.count += 8;
+    }
+    const value = this.buffer & ((1 << count) - 1);
+    this.buffer >>>= count;
+    this.count -= count;
+    return value;
+  }
+
+  /** Decode one symbol, reading the code most-significant bit first */
+  symbol(huffman: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length < 16; length++) {
+      code |= this.bits(1);
+      const count = huffman.counts[length] as number;
+      if (code - first < count) {
+        return huffman.symbols[index + code - first] as number;
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new RangeError("Invalid Huffman code in deflate stream");
+  }
+
+  /** Skip to the next byte boundary and return the position there */
+  alignToByte(): number {
+    this.buffer = 0;
+    this.count = 0;
+    return this.position;
+  }
+
+  seek(position: number): void {
+    this.position = position;
+  }
+}
+
+/** Growable output buffer */
+class ByteSink {
+  bytes = new Uint8Array(1024);
+  length = 0;
+
+  reserve(extra: number): void {
+    if (this.length + extra <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+}
+
+function readDynamicTables(reader: BitReader): [Huffman, Huffman] {
+  const literalCount = reader.bits(5) + 257;
+  const distanceCount = reader.bits(5) + 1;
+  const codeLengthCount = reader.bits(4) + 4;
+  const codeLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengths[CODE_LENGTH_ORDER[i] as number] = reader.bits(3);
+  }
+  const codeLengthHuffman = buildHuffman(codeLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  for (let i = 0; i < lengths.length;) {
+    const symbol = reader.symbol(codeLengthHuffman);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) throw new RangeError("Invalid deflate code lengths");
+      value = lengths[i - 1] as number;
+      repeat = 3 + reader.bits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.bits(3);
+    } else {
+      repeat = 11 + reader.bits(7);
+    }
+    if (i + repeat > lengths.length) {
+      throw new RangeError("Invalid deflate code lengths");
+    }
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+  return [
+    buildHuffman(lengths.subarray(0, literalCount)),
+    buildHuffman(lengths.subarray(literalCount)),
+  ];
+}
+
+/**
+ * Decompress a raw deflate stream.
+ *
+ * @param data - The compressed bytes
+ * @returns The decompressed bytes
+ * @throws {RangeError} When the stream is truncated or malformed
+ */
+export function inflateRaw(data: Uint8Array): Uint8Array {
+  const reader = new BitReader(data);
+  const output = new ByteSink();
+  let final = 0;
+  while (!final) {
+    final = reader.bits(1);
+    const type = reader.bits(2);
+    if (type === 0) {
+      const start = reader.alignToByte();
+      if (start + 4 > data.length) {
+        throw new RangeError("Unexpected end of deflate stream");
+      }
+      const length =
+        (data[start] as number) | ((data[start + 1] as number) << 8);
+      if (start + 4 + length > data.length) {
+        throw new RangeError("Unexpected end of deflate stream");
+      }
+      output.reserve(length);
+      output.bytes.set(
+        data.subarray(start + 4, start + 4 + length),
+        output.length,
+      );
+      output.length += length;
+      reader.seek(start + 4 + length);
+      continue;
+    }
+    if (type === 3) throw new RangeError("Invalid deflate block type");
+
+    const [literals, distances] =
+      type === 1
+        ? [FIXED_LITERALS, FIXED_DISTANCES]
+        : readDynamicTables(reader);
+    for (;;) {
+      const symbol = reader.symbol(literals);
+      if (symbol < 256) {
+        output.reserve(1);
+        output.bytes[output.length++] = symbol;
+        continue;
+      }
+      if (symbol === 256) break;
+
+      const lengthCode = symbol - 257;
+      if (lengthCode >= LENGTH_BASE.length) {
+        throw new RangeError("Invalid length code in deflate stream");
+      }
+      const length =
+        (LENGTH_BASE[lengthCode] as number) +
+        reader.bits(LENGTH_EXTRA[lengthCode] as number);
+      const distanceCode = reader.symbol(distances);
+      if (distanceCode >= DISTANCE_BASE.length) {
+        throw new RangeError("Invalid distance code in deflate stream");
+      }
+      const distance =
+        (DISTANCE_BASE[distanceCode] as number) +
+        reader.bits(DISTANCE_EXTRA[distanceCode] as number);
+      if (distance > output.length) {
+        throw new RangeError("Invalid distance in deflate stream");
+      }
+      output.reserve(length);
+      const { bytes } = output;
+      for (let i = 0; i < length; i++, output.length++) {
+        bytes[output.length] = bytes[output.length - distance] as number;
+      }
+    }
+  }
+  return output.bytes.slice(0, output.length);
+}
+
+/**
+ * Decompress a zlib stream, checking its header and Adler-32 trailer.
+ *
+ * @param data - The compressed bytes
+ * @returns The decompressed bytes
+ * @throws {RangeError} When the stream is malformed or the checksum does not match
+ */
+export function zlibInflate(data: Uint8Array): Uint8Array {
+  const cmf = data[0] ?? 0;
+  const flags = data[1] ?? 0;
+  if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flags) % 31 !== 0) {
+    throw new RangeError("Invalid zlib header");
+  }
+  if (flags & 0x20)
+    throw new RangeError("zlib preset dictionaries are not supported");
+  const inflated = inflateRaw(data.subarray(2));
+  if (data.length >= 6) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (view.getUint32(data.length - 4, false) !== adler32(inflated)) {
+      throw new RangeError("zlib checksum mismatch");
+    }
+  }
+  return inflated;
+}